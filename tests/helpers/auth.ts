@@ -0,0 +1,13 @@
+import { createHmac } from 'node:crypto';
+
+export const TEST_AUTH_SECRET = 'test-auth-secret-0123456789abcdefghij';
+
+/**
+ * `Authorization` header value carrying a session token for `userId`, signed independently of the worker's code.
+ */
+export function bearer(userId: string, { secret = TEST_AUTH_SECRET, expiresIn = 3600 } = {}): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const now = Math.floor(Date.now() / 1000);
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ sub: userId, iat: now, exp: now + expiresIn })}`;
+  return `Bearer ${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+}
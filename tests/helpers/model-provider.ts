@@ -0,0 +1,22 @@
+import type { ModelProvider } from '../../workers/model-provider';
+
+type ModelProviderModule = typeof import('../../workers/model-provider');
+
+// Providers that replace the configured one for requests handled with a given env
+const providers = new WeakMap<object, ModelProvider>();
+
+export function withModelProvider<T extends object>(env: T, provider: ModelProvider): T {
+  providers.set(env, provider);
+  return env;
+}
+
+/**
+ * Module factory for `vi.mock('../../workers/model-provider', ...)` that makes createModelProvider
+ * return the provider registered with withModelProvider, when there is one.
+ */
+export function mockModelProviderModule(actual: ModelProviderModule): ModelProviderModule {
+  return {
+    ...actual,
+    createModelProvider: (name, model, env) => providers.get(env) ?? actual.createModelProvider(name, model, env)
+  };
+}
@@ -0,0 +1,44 @@
+import initSqlJs from 'sql.js';
+
+const SQL = await initSqlJs();
+
+/**
+ * Stand-in for a Durable Object's `storage.sql`, backed by an in-memory SQLite database.
+ * Bindings apply to the last statement of a multi-statement query, as in the Workers runtime.
+ */
+export function createSqlStorage() {
+  const db = new SQL.Database();
+
+  return {
+    exec(query: string, ...bindings: any[]) {
+      const rows: Record<string, any>[] = [];
+      let rowsWritten = 0;
+
+      const statements = db.iterateStatements(query);
+      for (const statement of statements) {
+        if (bindings.length && !statements.getRemainingSQL().trim()) {
+          statement.bind(bindings);
+        }
+        while (statement.step()) {
+          rows.push(statement.getAsObject());
+        }
+        if (statement.getColumnNames().length === 0) {
+          rowsWritten += db.getRowsModified();
+        }
+        statement.free();
+      }
+
+      return {
+        rowsWritten,
+        toArray: () => rows,
+        one: () => {
+          if (rows.length !== 1) {
+            throw new Error(`Expected exactly one row, got ${rows.length}`);
+          }
+          return rows[0];
+        },
+        [Symbol.iterator]: () => rows[Symbol.iterator]()
+      };
+    }
+  };
+}
@@ -1,9 +1,13 @@
 import { describe, it, expect } from 'vitest';
 import worker from '../../workers/index';
 import { SkillRegistry } from '../../workers/durable_objects/SkillRegistry';
+import { SessionState } from '../../workers/durable_objects/SessionState';
+import { createSqlStorage } from '../helpers/sql-storage';
+import { bearer, TEST_AUTH_SECRET } from '../helpers/auth';
 
 class MockStorage {
   private store = new Map<string, any>();
+  sql = createSqlStorage();
 
   async put(key: string, value: any) {
     this.store.set(key, value);
@@ -45,14 +49,36 @@ const createSkillRegistryNamespace = () => {
   };
 };
 
+// One SessionState per name, as in production
+const createSessionStateNamespace = () => {
+  const instances = new Map<string, SessionState>();
+  return {
+    idFromName: (name: string) => ({ toString: () => name }),
+    get: (id: { toString(): string }) => ({
+      fetch: async (url: string | URL, init?: RequestInit) => {
+        const name = id.toString();
+        if (!instances.has(name)) {
+          instances.set(name, new SessionState({ storage: new MockStorage() } as any, {}));
+        }
+        return instances.get(name)!.fetch(new Request(url, init));
+      }
+    })
+  };
+};
+
+const OPERATOR_TOKEN = 'test-operator-token-0123456789abcdef';
+
 const createEnv = () => {
   const { namespace } = createSkillRegistryNamespace();
   return {
     SKILL_REGISTRY: namespace,
+    SESSION_STATE: createSessionStateNamespace(),
     AI: {
       run: async () => ({ response: 'OK' })
     },
-    API_KEY_SECRET: 'test-secret-key-1234567890'
+    API_KEY_SECRET: 'test-secret-key-1234567890',
+    AUTH_SECRET: TEST_AUTH_SECRET,
+    OPERATOR_TOKEN
   } as any;
 };
 
@@ -81,7 +107,7 @@ paths:
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-User-ID': 'yaml-user'
+        Authorization: bearer('yaml-user')
       },
       body: JSON.stringify({
         apiName: 'Weather YAML',
@@ -107,7 +133,7 @@ paths:
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-User-ID': 'big-user'
+        Authorization: bearer('big-user')
       },
       body: JSON.stringify({
         apiName: 'Huge Spec',
@@ -129,6 +155,144 @@ paths:
   });
 });
 
+describe('API Routes - authentication', () => {
+  const listSkills = (env: any, headers: Record<string, string>) =>
+    worker.fetch(new Request('https://example.com/api/skills/list', { headers }), env);
+
+  it('issues a session token that authenticates later requests', async () => {
+    const env = createEnv();
+
+    const issued = await worker.fetch(new Request('https://example.com/api/auth/session', { method: 'POST' }), env);
+    expect(issued.status).toBe(201);
+    const session = await issued.json() as any;
+    expect(session.userId).toMatch(/^user-/);
+
+    const response = await listSkills(env, { Authorization: `Bearer ${session.token}` });
+    expect(response.status).toBe(200);
+
+    const refreshed = await worker.fetch(new Request('https://example.com/api/auth/session', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${session.token}` }
+    }), env);
+    expect(refreshed.status).toBe(200);
+    expect((await refreshed.json() as any).userId).toBe(session.userId);
+  });
+
+  it('takes the user from the token rather than X-User-ID', async () => {
+    const env = createEnv();
+    await worker.fetch(new Request('https://example.com/api/skills/register', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('owner') },
+      body: JSON.stringify({
+        apiName: 'Private',
+        spec: { openapi: '3.0.0', info: { title: 'Private', version: '1.0.0' }, paths: { '/a': { get: { operationId: 'getA', responses: {} } } } }
+      })
+    }), env);
+
+    const response = await listSkills(env, { Authorization: bearer('intruder'), 'X-User-ID': 'owner' });
+    expect((await response.json() as any).apis).toEqual([]);
+  });
+
+  it('rejects missing, expired and foreign tokens', async () => {
+    const env = createEnv();
+
+    expect((await listSkills(env, {})).status).toBe(401);
+    expect((await listSkills(env, { 'X-User-ID': 'owner' })).status).toBe(401);
+    expect((await listSkills(env, { Authorization: bearer('owner', { expiresIn: -1 }) })).status).toBe(401);
+
+    const foreign = await listSkills(env, { Authorization: bearer('owner', { secret: 'another-secret-0123456789abcdefghij' }) });
+    expect(foreign.status).toBe(401);
+    expect((await foreign.json() as any).error).toBe('Invalid session token signature');
+  });
+
+  it('lets the holder of a claim code take over data stored under an id from before session tokens', async () => {
+    const env = createEnv();
+    const registered = await worker.fetch(new Request('https://example.com/api/skills/register', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('session-1700000000000') },
+      body: JSON.stringify({
+        apiName: 'Legacy',
+        spec: {
+          openapi: '3.0.0',
+          info: { title: 'Legacy', version: '1.0.0' },
+          servers: [{ url: 'https://api.legacy.example' }],
+          paths: { '/a': { get: { operationId: 'getA', responses: {} } } }
+        }
+      })
+    }), env);
+    expect(registered.status).toBe(200);
+
+    const issueCode = (operatorToken: string, legacyId: string) => worker.fetch(new Request('https://example.com/api/operator/claim-codes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${operatorToken}` },
+      body: JSON.stringify({ legacyId })
+    }), env);
+    const claim = (token: string, body: Record<string, any>) => worker.fetch(new Request('https://example.com/api/auth/claim', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: token },
+      body: JSON.stringify(body)
+    }), env);
+
+    expect((await issueCode('wrong-token', 'session-1700000000000')).status).toBe(401);
+    const issued = await issueCode(OPERATOR_TOKEN, 'session-1700000000000');
+    expect(issued.status).toBe(201);
+    const { code } = await issued.json() as any;
+
+    const claimed = await claim(bearer('user-new'), { legacyId: 'session-1700000000000', claimCode: code });
+    expect(claimed.status).toBe(200);
+    const session = await claimed.json() as any;
+    expect(session.userId).toBe('session-1700000000000');
+
+    const listed = await listSkills(env, { Authorization: `Bearer ${session.token}` });
+    expect((await listed.json() as any).apis.map((api: any) => api.apiName)).toEqual(['Legacy']);
+
+    expect((await claim(bearer('user-other'), { legacyId: 'session-1700000000000', claimCode: code })).status).toBe(409);
+    expect((await claim(bearer('user-other'), { legacyId: 'user-new', claimCode: code })).status).toBe(400);
+    expect((await claim('', { legacyId: 'session-1', claimCode: code })).status).toBe(401);
+    // A claim code is not a session token
+    expect((await listSkills(env, { Authorization: `Bearer ${code}` })).status).toBe(401);
+  });
+
+  it('refuses claims without a claim code issued for that id', async () => {
+    const env = createEnv();
+    const claim = (body: Record<string, any>) => worker.fetch(new Request('https://example.com/api/auth/claim', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('user-attacker') },
+      body: JSON.stringify(body)
+    }), env);
+
+    const issued = await worker.fetch(new Request('https://example.com/api/operator/claim-codes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${OPERATOR_TOKEN}` },
+      body: JSON.stringify({ legacyId: 'session-2' })
+    }), env);
+    const { code: otherCode } = await issued.json() as any;
+
+    expect((await claim({ legacyId: 'session-1' })).status).toBe(403);
+    expect((await claim({ legacyId: 'session-1', claimCode: otherCode })).status).toBe(403);
+    expect((await claim({ legacyId: 'session-1', claimCode: bearer('session-1').slice('Bearer '.length) })).status).toBe(403);
+
+    // The refused claims did not use the id up
+    const { code } = await (await worker.fetch(new Request('https://example.com/api/operator/claim-codes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${OPERATOR_TOKEN}` },
+      body: JSON.stringify({ legacyId: 'session-1' })
+    }), env)).json() as any;
+    expect((await claim({ legacyId: 'session-1', claimCode: code })).status).toBe(200);
+  });
+
+  it('serves public routes without a token', async () => {
+    const response = await worker.fetch(new Request('https://example.com/api/templates'), createEnv());
+    expect(response.status).toBe(200);
+  });
+
+  it('refuses to authenticate without a configured secret', async () => {
+    const env = { ...createEnv(), AUTH_SECRET: undefined };
+    const response = await listSkills(env, { Authorization: bearer('owner') });
+    expect(response.status).toBe(500);
+  });
+});
+
 describe('API Routes - CORS handling', () => {
   it('responds to OPTIONS preflight requests with permissive headers', async () => {
     const request = new Request('https://example.com/api/skills/register', {
@@ -1,9 +1,20 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import worker from '../../workers/index';
 import { SessionState } from '../../workers/durable_objects/SessionState';
+import { RateLimiter } from '../../workers/durable_objects/RateLimiter';
+import { ScriptedProvider, type ModelRequest } from '../../workers/model-provider';
+import { createSqlStorage } from '../helpers/sql-storage';
+import { bearer, TEST_AUTH_SECRET } from '../helpers/auth';
+import { withModelProvider } from '../helpers/model-provider';
+
+vi.mock('../../workers/model-provider', async (importOriginal) => {
+  const { mockModelProviderModule } = await import('../helpers/model-provider');
+  return mockModelProviderModule(await importOriginal());
+});
 
 class MockStorage {
   private store = new Map<string, any>();
+  sql = createSqlStorage();
 
   async get<T>(key: string): Promise<T | undefined> {
     return this.store.get(key);
@@ -17,9 +28,18 @@ class MockStorage {
     this.store.delete(key);
   }
 
+  async list<T>(): Promise<Map<string, T>> {
+    return new Map(this.store);
+  }
+
   snapshot(key: string) {
     return this.store.get(key);
   }
+
+  // Stored chat history, oldest first
+  history() {
+    return this.sql.exec('SELECT role, content FROM messages ORDER BY seq').toArray();
+  }
 }
 
 const createSessionStateNamespace = () => {
@@ -41,6 +61,17 @@ const createSessionStateNamespace = () => {
   };
 };
 
+const createRateLimiterNamespace = () => {
+  const instance = new RateLimiter({ storage: new MockStorage() } as any);
+
+  return {
+    idFromName: (name: string) => ({ toString: () => name }),
+    get: () => ({
+      fetch: async (url: string | URL, init?: RequestInit) => instance.fetch(new Request(url, init))
+    })
+  };
+};
+
 const createSkillRegistryStub = (apis: Record<string, any> = {}) => ({
   idFromName: () => ({ toString: () => 'skill-registry-id' }),
   get: () => ({
@@ -56,6 +87,32 @@ const createSkillRegistryStub = (apis: Record<string, any> = {}) => ({
 
 const TEST_SECRET = 'test-secret-key-1234567890';
 
+const MUTATING_APIS = {
+  petstore: {
+    apiName: 'petstore',
+    skills: [{
+      name: 'updatePetStatus',
+      description: 'Update pet status',
+      method: 'PUT',
+      path: '/pets/{petId}/status',
+      parameters: [{ name: 'petId', in: 'path', type: 'integer', required: true }],
+      requestBody: { required: true, contentType: 'application/json', schema: { type: 'object', properties: { status: { type: 'string' } } } }
+    }],
+    baseUrl: 'https://api.petstore.example',
+    encryptedApiKey: ''
+  }
+};
+
+const parseEvents = (streamText: string) => streamText
+  .split('\n\n')
+  .filter(chunk => chunk.startsWith('data: {'))
+  .map(chunk => JSON.parse(chunk.slice(6)));
+
+const streamedContent = (streamText: string) => parseEvents(streamText)
+  .filter(event => event.type === 'content')
+  .map(event => event.data)
+  .join('');
+
 describe('Integration - chat endpoint', () => {
   it('persists chat messages via SessionState durable object', async () => {
     const { namespace, storage } = createSessionStateNamespace();
@@ -66,14 +123,16 @@ describe('Integration - chat endpoint', () => {
       },
       SESSION_STATE: namespace,
       SKILL_REGISTRY: createSkillRegistryStub(),
-      API_KEY_SECRET: TEST_SECRET
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
     } as any;
 
     const request = new Request('https://example.com/api/chat', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-Session-ID': 'session-123'
+        Authorization: bearer('session-123')
       },
       body: JSON.stringify({ message: 'Hi there', stream: false })
     });
@@ -84,7 +143,7 @@ describe('Integration - chat endpoint', () => {
     const payload = await response.json();
     expect(payload).toMatchObject({ response: 'Hello from AI' });
 
-    const history = storage.snapshot('history');
+    const history = storage.history();
     expect(Array.isArray(history)).toBe(true);
     expect(history).toHaveLength(2);
     expect(history[0]).toMatchObject({ role: 'user', content: 'Hi there' });
@@ -98,12 +157,14 @@ describe('Integration - chat endpoint', () => {
       AI: { run: async () => ({ response: 'OK' }) },
       SESSION_STATE: namespace,
       SKILL_REGISTRY: createSkillRegistryStub(),
-      API_KEY_SECRET: TEST_SECRET
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
     } as any;
 
     const request = new Request('https://example.com/api/chat', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'X-Session-ID': 'test' },
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
       body: JSON.stringify({})
     });
 
@@ -126,12 +187,14 @@ describe('Integration - chat endpoint', () => {
       },
       SESSION_STATE: namespace,
       SKILL_REGISTRY: createSkillRegistryStub(),
-      API_KEY_SECRET: TEST_SECRET
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
     } as any;
 
     const request = new Request('https://example.com/api/chat', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'X-Session-ID': 'test' },
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
       body: JSON.stringify({
         message: 'Explain',
         persona: 'technical'
@@ -159,12 +222,14 @@ describe('Integration - chat endpoint', () => {
       },
       SESSION_STATE: namespace,
       SKILL_REGISTRY: createSkillRegistryStub(),
-      API_KEY_SECRET: TEST_SECRET
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
     } as any;
 
     const request = new Request('https://example.com/api/chat', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'X-Session-ID': 'test' },
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
       body: JSON.stringify({ message: 'Test', stream: false })
     });
 
@@ -199,12 +264,14 @@ describe('Integration - chat endpoint', () => {
       },
       SESSION_STATE: namespace,
       SKILL_REGISTRY: createSkillRegistryStub(mockApis),
-      API_KEY_SECRET: TEST_SECRET
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
     } as any;
 
     const request = new Request('https://example.com/api/chat', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'X-Session-ID': 'test' },
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
       body: JSON.stringify({ message: 'What skills are available?', stream: false })
     });
 
@@ -226,12 +293,14 @@ describe('Integration - chat endpoint', () => {
       },
       SESSION_STATE: namespace,
       SKILL_REGISTRY: createSkillRegistryStub(),
-      API_KEY_SECRET: TEST_SECRET
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
     } as any;
 
     const request = new Request('https://example.com/api/chat', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'X-Session-ID': 'test' },
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
       body: JSON.stringify({ message: 'Hello there', stream: false })
     });
 
@@ -243,6 +312,910 @@ describe('Integration - chat endpoint', () => {
     expect(result.error).toMatchObject({ type: 'ai-unavailable' });
   });
 
+  it('returns validation errors to the model instead of calling the API with bad arguments', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const upstreamFetch = vi.fn();
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const mockApis = {
+      petstore: {
+        apiName: 'petstore',
+        skills: [{
+          name: 'getPetById',
+          description: 'Get pet by ID',
+          method: 'GET',
+          path: '/pets/{petId}',
+          parameters: [{ name: 'petId', in: 'path', type: 'integer', required: true }]
+        }],
+        baseUrl: 'https://api.petstore.example',
+        encryptedApiKey: ''
+      }
+    };
+
+    const provider = new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'getPetById', arguments: {} }] },
+      { response: 'Which pet ID should I look up?' }
+    ]);
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(mockApis),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+
+    const request = new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Fetch the pet from the petstore API' })
+    });
+
+    const response = await worker.fetch(request, env);
+    const streamText = await response.text();
+
+    expect(upstreamFetch).not.toHaveBeenCalled();
+    expect(streamText).toContain('"validationErrors"');
+
+    const toolMessage = provider.requests[1].messages.find((m: any) => m.role === 'tool');
+    expect(toolMessage.tool_call_id).toBe('call_1');
+    expect(JSON.parse(toolMessage.content)).toMatchObject({
+      error: 'invalid_arguments',
+      issues: [{ field: 'petId' }]
+    });
+
+    vi.unstubAllGlobals();
+  });
+
+  it('chains tool calls across agent steps and streams each step', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const upstreamFetch = vi.fn(async (url: string) => new Response(
+      JSON.stringify(url.includes('/pets?') ? [{ id: 7, name: 'Rex' }] : { id: 7, status: 'sold' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    ));
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const mockApis = {
+      petstore: {
+        apiName: 'petstore',
+        skills: [
+          {
+            name: 'findPets',
+            description: 'Find pets by name',
+            method: 'GET',
+            path: '/pets',
+            parameters: [{ name: 'name', in: 'query', type: 'string', required: true }]
+          },
+          {
+            name: 'updatePetStatus',
+            description: 'Update pet status',
+            method: 'PUT',
+            path: '/pets/{petId}/status',
+            parameters: [{ name: 'petId', in: 'path', type: 'integer', required: true }],
+            requestBody: { required: true, contentType: 'application/json', schema: { type: 'object', properties: { status: { type: 'string' } } } }
+          }
+        ],
+        baseUrl: 'https://api.petstore.example',
+        encryptedApiKey: '',
+        approvalPolicy: 'always_allow'
+      }
+    };
+
+    const provider = new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'findPets', arguments: { name: 'Rex' } }] },
+      { toolCalls: [{ id: 'call_2', name: 'updatePetStatus', arguments: { petId: 7, body: { status: 'sold' } } }] },
+      { response: 'Rex is now marked as sold.' }
+    ]);
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(mockApis),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+
+    const request = new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Find the pet named Rex in the petstore API and then update its status to sold' })
+    });
+
+    const response = await worker.fetch(request, env);
+    const streamText = await response.text();
+    const events = streamText
+      .split('\n\n')
+      .filter(chunk => chunk.startsWith('data: {'))
+      .map(chunk => JSON.parse(chunk.slice(6)));
+
+    expect(upstreamFetch).toHaveBeenCalledTimes(2);
+    expect(provider.requests).toHaveLength(3);
+    expect(provider.requests[1].tools).toBeDefined();
+    expect(provider.requests[1].messages.filter((m: any) => m.role === 'tool')).toHaveLength(1);
+    expect(provider.requests[2].messages.filter((m: any) => m.role === 'tool')).toHaveLength(2);
+
+    const completedSteps = events.filter(e => e.type === 'agent_step' && e.data.status === 'completed');
+    expect(completedSteps.map(e => e.data.step)).toEqual([1, 2]);
+    expect(streamedContent(streamText)).toContain('Rex is now marked as sold.');
+
+    vi.unstubAllGlobals();
+  });
+
+  it('stops offering tools once the step limit is reached', async () => {
+    const { namespace } = createSessionStateNamespace();
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 200, headers: { 'Content-Type': 'application/json' } })));
+
+    const mockApis = {
+      petstore: {
+        apiName: 'petstore',
+        skills: [{ name: 'listPets', description: 'List pets', method: 'GET', path: '/pets', parameters: [] }],
+        baseUrl: 'https://api.petstore.example',
+        encryptedApiKey: ''
+      }
+    };
+
+    const keepCalling = (request: ModelRequest) => request.tools
+      ? { toolCalls: [{ name: 'listPets', arguments: {} }] }
+      : { response: 'Done looping.' };
+    const provider = new ScriptedProvider([keepCalling, keepCalling, keepCalling, keepCalling]);
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(mockApis),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+
+    const request = new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'List pets from the petstore API forever', maxSteps: 2 })
+    });
+
+    const response = await worker.fetch(request, env);
+    const streamText = await response.text();
+
+    expect(provider.requests).toHaveLength(3);
+    expect(provider.requests[2].tools).toBeUndefined();
+    expect(streamText).toContain('"reason":"max_steps"');
+    expect(streamedContent(streamText)).toContain('Done looping.');
+
+    vi.unstubAllGlobals();
+  });
+
+  it('pauses mutating skill calls until the user approves them', async () => {
+    const { namespace, storage } = createSessionStateNamespace();
+    const upstreamFetch = vi.fn(async () => new Response(
+      JSON.stringify({ id: 7, status: 'sold' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    ));
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const provider = new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'updatePetStatus', arguments: { petId: 7, body: { status: 'sold' } } }] },
+      { response: 'Rex is now marked as sold.' }
+    ]);
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(MUTATING_APIS),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+
+    const chatResponse = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Update the status of pet 7 in the petstore API to sold' })
+    }), env);
+    const approval = parseEvents(await chatResponse.text()).find(e => e.type === 'approval_required');
+
+    expect(upstreamFetch).not.toHaveBeenCalled();
+    expect(approval.data).toMatchObject({
+      skill: 'updatePetStatus',
+      method: 'PUT',
+      url: 'https://api.petstore.example/pets/7/status',
+      body: { status: 'sold' }
+    });
+
+    const approveResponse = await worker.fetch(new Request('https://example.com/api/chat/approve', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ actionId: approval.data.actionId, decision: 'approve' })
+    }), env);
+    const resumedText = await approveResponse.text();
+
+    expect(upstreamFetch).toHaveBeenCalledTimes(1);
+    expect(provider.requests).toHaveLength(2);
+    const toolMessage = provider.requests[1].messages.find((m: any) => m.role === 'tool');
+    expect(toolMessage).toMatchObject({ tool_call_id: 'call_1' });
+    expect(streamedContent(resumedText)).toContain('Rex is now marked as sold.');
+    expect(storage.snapshot('pendingRuns')).toEqual([]);
+
+    const replay = await worker.fetch(new Request('https://example.com/api/chat/approve', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ actionId: approval.data.actionId, decision: 'approve' })
+    }), env);
+    expect(replay.status).toBe(404);
+
+    vi.unstubAllGlobals();
+  });
+
+  it('tells the model when the user rejects a pending call', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const upstreamFetch = vi.fn();
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const provider = new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'updatePetStatus', arguments: { petId: 7, body: { status: 'sold' } } }] },
+      { response: 'Okay, I left the pet unchanged.' }
+    ]);
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(MUTATING_APIS),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+
+    const chatResponse = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Update the status of pet 7 in the petstore API to sold' })
+    }), env);
+    const approval = parseEvents(await chatResponse.text()).find(e => e.type === 'approval_required');
+
+    const rejectResponse = await worker.fetch(new Request('https://example.com/api/chat/approve', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ actionId: approval.data.actionId, decision: 'reject' })
+    }), env);
+    const resumedText = await rejectResponse.text();
+
+    expect(upstreamFetch).not.toHaveBeenCalled();
+    const toolMessage = provider.requests[1].messages.find((m: any) => m.role === 'tool');
+    expect(toolMessage.content).toContain('rejected');
+    expect(streamedContent(resumedText)).toContain('Okay, I left the pet unchanged.');
+
+    vi.unstubAllGlobals();
+  });
+
+  it('re-checks the approval policy and arguments before running an approved call', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const upstreamFetch = vi.fn();
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const apis = { petstore: { ...MUTATING_APIS.petstore } };
+    const provider = new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'updatePetStatus', arguments: { petId: 7, body: { status: 'sold' } } }] },
+      { response: 'Updates to that API are no longer allowed.' }
+    ]);
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(apis),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+
+    const chatResponse = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Update the status of pet 7 in the petstore API to sold' })
+    }), env);
+    const approval = parseEvents(await chatResponse.text()).find(e => e.type === 'approval_required');
+
+    apis.petstore = { ...apis.petstore, approvalPolicy: 'never_allow' } as any;
+
+    const approveResponse = await worker.fetch(new Request('https://example.com/api/chat/approve', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ actionId: approval.data.actionId, decision: 'approve' })
+    }), env);
+    const events = parseEvents(await approveResponse.text());
+
+    expect(upstreamFetch).not.toHaveBeenCalled();
+    expect(events.find(e => e.type === 'skill_result').data.error).toContain('blocked by its approval policy');
+
+    vi.unstubAllGlobals();
+  });
+
+  it('puts an approved action back to pending when its skills cannot be loaded', async () => {
+    const { namespace, storage } = createSessionStateNamespace();
+    const upstreamFetch = vi.fn();
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const registry = createSkillRegistryStub(MUTATING_APIS);
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: registry,
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'updatePetStatus', arguments: { petId: 7, body: { status: 'sold' } } }] }
+    ]));
+
+    const chatResponse = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Update the status of pet 7 in the petstore API to sold' })
+    }), env);
+    const approval = parseEvents(await chatResponse.text()).find(e => e.type === 'approval_required');
+
+    env.SKILL_REGISTRY = {
+      idFromName: registry.idFromName,
+      get: () => ({
+        fetch: async () => {
+          throw new Error('Registry unavailable');
+        }
+      })
+    };
+
+    const approveResponse = await worker.fetch(new Request('https://example.com/api/chat/approve', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ actionId: approval.data.actionId, decision: 'approve' })
+    }), env);
+
+    expect(approveResponse.status).toBe(500);
+    expect(upstreamFetch).not.toHaveBeenCalled();
+    expect(storage.snapshot('pendingRuns')[0].actions[0].status).toBe('pending');
+
+    vi.unstubAllGlobals();
+  });
+
+  it('blocks mutating calls for APIs with a never-allow policy', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const upstreamFetch = vi.fn();
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub({
+        petstore: { ...MUTATING_APIS.petstore, approvalPolicy: 'never_allow' }
+      }),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'updatePetStatus', arguments: { petId: 7, body: { status: 'sold' } } }] },
+      { response: 'That API does not allow updates.' }
+    ]));
+
+    const response = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Update the status of pet 7 in the petstore API to sold' })
+    }), env);
+    const events = parseEvents(await response.text());
+
+    expect(upstreamFetch).not.toHaveBeenCalled();
+    expect(events.some(e => e.type === 'approval_required')).toBe(false);
+    expect(events.find(e => e.type === 'skill_result').data.error).toContain('blocked by its approval policy');
+
+    vi.unstubAllGlobals();
+  });
+
+  it('streams answer tokens from the model as they are generated', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const encoder = new TextEncoder();
+    const modelStream = (events: any[]) => new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const event of events) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      }
+    });
+
+    let streamRequested = false;
+    const env = {
+      AI: {
+        run: async (_model: string, config: any) => {
+          streamRequested = config.stream === true;
+          return modelStream([{ response: 'Hel' }, { response: 'lo' }, { response: '!' }]);
+        }
+      },
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any;
+
+    const response = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Say hello' })
+    }), env);
+    const contentEvents = parseEvents(await response.text()).filter(e => e.type === 'content');
+
+    expect(streamRequested).toBe(true);
+    expect(contentEvents.map(e => e.data)).toEqual(['Hel', 'lo', '!']);
+  });
+
+  it('detects tool calls in a streamed model response', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const upstreamFetch = vi.fn(async () => new Response(
+      JSON.stringify([{ id: 1, name: 'Rex' }]),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    ));
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const encoder = new TextEncoder();
+    const modelStream = (events: any[]) => new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const event of events) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+        controller.close();
+      }
+    });
+
+    let calls = 0;
+    const env = {
+      AI: {
+        run: async () => {
+          calls++;
+          return calls === 1
+            ? modelStream([{ response: '', tool_calls: [{ name: 'listPets', arguments: {} }] }])
+            : modelStream([{ response: 'You have ' }, { response: 'one pet.' }]);
+        }
+      },
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub({
+        petstore: {
+          apiName: 'petstore',
+          skills: [{ name: 'listPets', description: 'List pets', method: 'GET', path: '/pets', parameters: [] }],
+          baseUrl: 'https://api.petstore.example',
+          encryptedApiKey: ''
+        }
+      }),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any;
+
+    const response = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'List pets from the petstore API' })
+    }), env);
+    const events = parseEvents(await response.text());
+
+    expect(upstreamFetch).toHaveBeenCalledTimes(1);
+    expect(events.find(e => e.type === 'skill_result').data.success).toBe(true);
+    expect(events.filter(e => e.type === 'content').map(e => e.data)).toEqual(['You have ', 'one pet.']);
+
+    vi.unstubAllGlobals();
+  });
+
+  it('executes skills on the non-streaming path and returns their results', async () => {
+    const { namespace, storage } = createSessionStateNamespace();
+    const upstreamFetch = vi.fn(async () => new Response(
+      JSON.stringify([{ id: 1, name: 'Rex' }]),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    ));
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const provider = new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'listPets', arguments: {} }] },
+      { response: 'You have one pet named Rex.' }
+    ]);
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub({
+        petstore: {
+          apiName: 'petstore',
+          skills: [{ name: 'listPets', description: 'List pets', method: 'GET', path: '/pets', parameters: [] }],
+          baseUrl: 'https://api.petstore.example',
+          encryptedApiKey: ''
+        }
+      }),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+
+    const response = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'List pets from the petstore API', stream: false })
+    }), env);
+    const payload = await response.json() as any;
+
+    expect(upstreamFetch).toHaveBeenCalledTimes(1);
+    expect(provider.requests).toHaveLength(2);
+    expect(payload).toMatchObject({
+      response: 'You have one pet named Rex.',
+      skillExecutions: [{ skill: 'listPets', success: true }],
+      scenarioResults: null
+    });
+    expect(storage.history()[1]).toMatchObject({ role: 'assistant', content: 'You have one pet named Rex.' });
+
+    vi.unstubAllGlobals();
+  });
+
+  it('reports the request encoding in skill_result events', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const upstreamFetch = vi.fn(async () => new Response('{}', { status: 201, headers: { 'Content-Type': 'application/json' } }));
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const provider = new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'addNote', arguments: { body: { text: 'Feed Rex' } } }] },
+      { response: 'Saved.' }
+    ]);
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub({
+        notes: {
+          apiName: 'notes',
+          approvalPolicy: 'always_allow',
+          skills: [{
+            name: 'addNote',
+            description: 'Add a note',
+            method: 'POST',
+            path: '/notes',
+            parameters: [],
+            requestBody: { required: true, contentType: 'application/x-www-form-urlencoded', schema: { type: 'object', properties: { text: { type: 'string' } } } }
+          }],
+          baseUrl: 'https://api.notes.example',
+          encryptedApiKey: ''
+        }
+      }),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+
+    const response = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Add a note to feed Rex' })
+    }), env);
+    const events = parseEvents(await response.text());
+
+    const [, init] = upstreamFetch.mock.calls[0] as any[];
+    expect(init.body).toBe('text=Feed+Rex');
+    expect(events.find(event => event.type === 'skill_result')?.data).toMatchObject({
+      skill: 'addNote',
+      success: true,
+      encoding: 'form-urlencoded'
+    });
+
+    vi.unstubAllGlobals();
+  });
+
+  it('returns pending approvals on the non-streaming path', async () => {
+    const { namespace } = createSessionStateNamespace();
+    vi.stubGlobal('fetch', vi.fn());
+
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(MUTATING_APIS),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'updatePetStatus', arguments: { petId: 7, body: { status: 'sold' } } }] }
+    ]));
+
+    const response = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Update the status of pet 7 in the petstore API to sold', stream: false })
+    }), env);
+    const payload = await response.json() as any;
+
+    expect(payload.skillExecutions).toEqual([]);
+    expect(payload.pendingApprovals).toHaveLength(1);
+    expect(payload.pendingApprovals[0]).toMatchObject({ method: 'PUT', url: 'https://api.petstore.example/pets/7/status' });
+
+    vi.unstubAllGlobals();
+  });
+
+  it('uses the model provider chosen in the request or saved as the user preference', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const aiRun = vi.fn(async () => ({ response: 'From Workers AI' }));
+    const env = {
+      AI: { run: aiRun },
+      MODEL_PROVIDER: 'scripted',
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any;
+
+    const chat = (body: Record<string, any>) => worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ stream: false, ...body })
+    }), env).then(res => res.json() as Promise<any>);
+
+    expect((await chat({ message: 'Ping' })).response).toBe('Echo: Ping');
+    expect(aiRun).not.toHaveBeenCalled();
+
+    expect((await chat({ message: 'Hi', provider: 'workers-ai', model: '@cf/meta/llama-3.1-8b-instruct' })).response).toBe('From Workers AI');
+    expect(aiRun).toHaveBeenCalledWith('@cf/meta/llama-3.1-8b-instruct', expect.anything());
+
+    const saved = await worker.fetch(new Request('https://example.com/api/settings/model', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ provider: 'workers-ai' })
+    }), env);
+    expect(saved.status).toBe(200);
+    expect((await chat({ message: 'Again' })).response).toBe('From Workers AI');
+  });
+
+  it('does not let users pick the scripted provider', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const env = {
+      AI: { run: async () => ({ response: 'OK' }) },
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any;
+
+    const settings = await worker.fetch(new Request('https://example.com/api/settings/model', {
+      headers: { Authorization: bearer('test') }
+    }), env).then(res => res.json() as Promise<any>);
+    expect(settings.available).toEqual(['workers-ai']);
+
+    const saved = await worker.fetch(new Request('https://example.com/api/settings/model', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ provider: 'scripted' })
+    }), env);
+    expect(saved.status).toBe(400);
+
+    const chat = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Hi', provider: 'scripted', stream: false })
+    }), env);
+    expect(chat.status).toBe(400);
+  });
+
+  it('rejects unknown or unconfigured model providers', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const env = {
+      AI: { run: async () => ({ response: 'OK' }) },
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any;
+
+    const chat = (body: Record<string, any>) => worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Hi', stream: false, ...body })
+    }), env);
+
+    expect((await chat({ provider: 'mystery' })).status).toBe(400);
+    expect((await chat({ provider: 'openai' })).status).toBe(400);
+  });
+
+  it('offers only the skills relevant to the message', async () => {
+    const provider = new ScriptedProvider([{ response: 'Here you go.' }, { response: 'Hi!' }]);
+    const createEnv = () => withModelProvider({
+      SESSION_STATE: createSessionStateNamespace().namespace,
+      SKILL_REGISTRY: createSkillRegistryStub({
+        weather: {
+          apiName: 'weather',
+          skills: [
+            { name: 'getForecast', description: 'Weather forecast for a city', method: 'GET', path: '/forecast', parameters: [] },
+            { name: 'getAlerts', description: 'Severe weather alerts', method: 'GET', path: '/alerts', parameters: [] }
+          ],
+          baseUrl: 'https://api.weather.example',
+          encryptedApiKey: ''
+        },
+        petstore: {
+          apiName: 'petstore',
+          skills: [{ name: 'listPets', description: 'List pets', method: 'GET', path: '/pets', parameters: [] }],
+          baseUrl: 'https://api.petstore.example',
+          encryptedApiKey: ''
+        }
+      }),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+
+    // Each message gets its own session so the first turn does not count as history for the second
+    const chat = (message: string) => worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message, stream: false })
+    }), createEnv());
+
+    await chat('What is the forecast for Lisbon?');
+    expect(provider.requests[0].tools?.map((tool: any) => tool.function.name)).toEqual(['getForecast']);
+
+    await chat('Good morning!');
+    expect(provider.requests[1].tools).toBeUndefined();
+  });
+
+  it('offers only enabled skills under their curated names', async () => {
+    const provider = new ScriptedProvider([{ response: 'Here you go.' }]);
+    const env = withModelProvider({
+      SESSION_STATE: createSessionStateNamespace().namespace,
+      SKILL_REGISTRY: createSkillRegistryStub({
+        petstore: {
+          apiName: 'petstore',
+          skills: [
+            {
+              name: 'listPets',
+              description: 'List pets',
+              customName: 'findPets',
+              customDescription: 'Find pets in the store by status',
+              fixedParameters: { storeId: 'north' },
+              method: 'GET',
+              path: '/stores/{storeId}/pets',
+              parameters: [
+                { name: 'storeId', in: 'path', type: 'string', required: true },
+                { name: 'status', in: 'query', type: 'string', required: false }
+              ]
+            },
+            { name: 'purgePets', description: 'Delete every pet in the store', enabled: false, method: 'DELETE', path: '/pets', parameters: [] }
+          ],
+          baseUrl: 'https://api.petstore.example',
+          encryptedApiKey: ''
+        }
+      }),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+
+    await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Find pets in the store and delete every pet', stream: false })
+    }), env);
+
+    const tools = provider.requests[0].tools || [];
+    expect(tools.map((tool: any) => tool.function.name)).toEqual(['findPets']);
+    expect(tools[0].function.description).toContain('Find pets in the store by status');
+    expect(Object.keys(tools[0].function.parameters.properties)).toEqual(['status']);
+  });
+
+  it('keeps history, persona and pinned skills per conversation', async () => {
+    const provider = new ScriptedProvider([{ response: 'Morning!' }, { response: 'Hello again.' }]);
+    const { namespace, storage } = createSessionStateNamespace();
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub({
+        weather: {
+          apiName: 'weather',
+          skills: [{ name: 'getForecast', description: 'Get the weather forecast', method: 'GET', path: '/forecast', parameters: [] }],
+          baseUrl: 'https://api.weather.example',
+          encryptedApiKey: ''
+        }
+      }),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+    const headers = { 'Content-Type': 'application/json', Authorization: bearer('test') };
+
+    const created = await worker.fetch(new Request('https://example.com/api/conversations', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ title: 'Weather', persona: 'tutor', pinnedSkills: ['getForecast'] })
+    }), env);
+    expect(created.status).toBe(201);
+    const { conversation } = await created.json() as any;
+
+    const chat = (body: Record<string, any>) => worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ stream: false, ...body })
+    }), env);
+
+    await chat({ message: 'Good morning!', conversationId: conversation.id });
+    await chat({ message: 'Hello' });
+
+    // The pinned skill is offered even though the greeting does not mention it
+    expect(provider.requests[0].tools?.map((tool: any) => tool.function.name)).toEqual(['getForecast']);
+    expect(provider.requests[0].messages[0].content).toContain('tutor persona');
+    expect(provider.requests[1].tools).toBeUndefined();
+    expect(provider.requests[1].messages.map((msg: any) => msg.content)).not.toContain('Good morning!');
+
+    const page = await worker.fetch(new Request(`https://example.com/api/conversations/${conversation.id}/messages`, { headers }), env);
+    const { messages } = await page.json() as any;
+    expect(messages.map((msg: any) => msg.content)).toEqual(['Good morning!', 'Morning!']);
+    expect(storage.history()).toHaveLength(4);
+  });
+
+  it('keeps offering pinned skills when an approved run resumes', async () => {
+    const { namespace } = createSessionStateNamespace();
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 200, headers: { 'Content-Type': 'application/json' } })));
+
+    const provider = new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'updatePetStatus', arguments: { petId: 7, body: { status: 'sold' } } }] },
+      { response: 'Done.' }
+    ]);
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub({
+        ...MUTATING_APIS,
+        weather: {
+          apiName: 'weather',
+          skills: [{ name: 'getForecast', description: 'Get the weather forecast', method: 'GET', path: '/forecast', parameters: [] }],
+          baseUrl: 'https://api.weather.example',
+          encryptedApiKey: ''
+        }
+      }),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+    const headers = { 'Content-Type': 'application/json', Authorization: bearer('test') };
+
+    const created = await worker.fetch(new Request('https://example.com/api/conversations', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ pinnedSkills: ['getForecast'] })
+    }), env);
+    const { conversation } = await created.json() as any;
+
+    const chatResponse = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ message: 'Update the status of pet 7 in the petstore API to sold', conversationId: conversation.id })
+    }), env);
+    const approval = parseEvents(await chatResponse.text()).find(e => e.type === 'approval_required');
+
+    const approveResponse = await worker.fetch(new Request('https://example.com/api/chat/approve', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ actionId: approval.data.actionId, decision: 'approve' })
+    }), env);
+    await approveResponse.text();
+
+    const offered = (request: any) => request.tools?.map((tool: any) => tool.function.name);
+    expect(offered(provider.requests[0])).toContain('getForecast');
+    expect(offered(provider.requests[1])).toContain('getForecast');
+
+    vi.unstubAllGlobals();
+  });
+
+  it('rejects chat in unknown or archived conversations', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, new ScriptedProvider([]));
+    const headers = { 'Content-Type': 'application/json', Authorization: bearer('test') };
+    const chat = (conversationId: string) => worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ message: 'Hi', conversationId, stream: false })
+    }), env);
+
+    expect((await chat('missing')).status).toBe(404);
+
+    const created = await worker.fetch(new Request('https://example.com/api/conversations', { method: 'POST', headers }), env);
+    const { conversation } = await created.json() as any;
+    await worker.fetch(new Request(`https://example.com/api/conversations/${conversation.id}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ archived: true })
+    }), env);
+
+    const response = await chat(conversation.id);
+    expect(response.status).toBe(409);
+  });
+
   it.skip('(DEPRECATED - tool execution removed) handles explicit tool invocation', async () => {
     const { namespace } = createSessionStateNamespace();
 
@@ -270,12 +1243,14 @@ describe('Integration - chat endpoint', () => {
           }
         })
       },
-      API_KEY_SECRET: TEST_SECRET
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
     } as any;
 
     const request = new Request('https://example.com/api/chat', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'X-Session-ID': 'test' },
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
       body: JSON.stringify({
         message: 'Run the tool',
         toolName: 'test',
@@ -291,4 +1266,146 @@ describe('Integration - chat endpoint', () => {
     expect(result.toolExecutions).toBeDefined();
     expect(result.toolExecutions).toHaveLength(1);
   });
+
+  it('answers 429 with Retry-After once the chat rate limit is used up', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, new ScriptedProvider());
+
+    const send = () => worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Hello', stream: false })
+    }), env);
+
+    for (let i = 0; i < 10; i++) {
+      expect((await send()).status).toBe(200);
+    }
+
+    const limited = await send();
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(await limited.json()).toMatchObject({ error: expect.stringContaining('Rate limit exceeded for chat') });
+  });
+
+  it('reports an exhausted API rate limit to the model as a tool error', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const upstreamFetch = vi.fn(async () => new Response(JSON.stringify({ id: 7 }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    }));
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const mockApis = {
+      petstore: {
+        apiName: 'petstore',
+        skills: [{
+          name: 'getPetById',
+          description: 'Get pet by ID',
+          method: 'GET',
+          path: '/pets/{petId}',
+          parameters: [{ name: 'petId', in: 'path', type: 'integer', required: true }]
+        }],
+        baseUrl: 'https://api.petstore.example',
+        encryptedApiKey: '',
+        rateLimit: { requestsPerMinute: 1 }
+      }
+    };
+
+    const provider = new ScriptedProvider([
+      {
+        toolCalls: [
+          { id: 'call_1', name: 'getPetById', arguments: { petId: 1 } },
+          { id: 'call_2', name: 'getPetById', arguments: { petId: 2 } }
+        ]
+      },
+      { response: 'Only the first pet could be fetched.' }
+    ]);
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(mockApis),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+
+    const response = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Fetch pets 1 and 2 from the petstore API' })
+    }), env);
+    await response.text();
+
+    expect(upstreamFetch).toHaveBeenCalledTimes(1);
+    const toolMessages = provider.requests[1].messages.filter((m: any) => m.role === 'tool');
+    expect(toolMessages.map((m: any) => m.tool_call_id)).toEqual(['call_1', 'call_2']);
+    expect(toolMessages[1].content).toMatch(/^Error: Rate limit exceeded for petstore \(getPetById\); try again in \d+ seconds$/);
+
+    vi.unstubAllGlobals();
+  });
+
+  it('stops calling an API whose circuit breaker has opened', async () => {
+    const { namespace } = createSessionStateNamespace();
+    const upstreamFetch = vi.fn(async () => new Response('unavailable', { status: 503 }));
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const mockApis = {
+      petstore: {
+        apiName: 'petstore',
+        skills: [{
+          name: 'getPetById',
+          description: 'Get pet by ID',
+          method: 'GET',
+          path: '/pets/{petId}',
+          parameters: [{ name: 'petId', in: 'path', type: 'integer', required: true }]
+        }],
+        baseUrl: 'https://api.petstore.example',
+        encryptedApiKey: '',
+        executionPolicy: { maxRetries: 0, failureThreshold: 1, cooldownSeconds: 30 }
+      }
+    };
+
+    const provider = new ScriptedProvider([
+      {
+        toolCalls: [
+          { id: 'call_1', name: 'getPetById', arguments: { petId: 1 } },
+          { id: 'call_2', name: 'getPetById', arguments: { petId: 2 } }
+        ]
+      },
+      { response: 'The petstore API is down.' }
+    ]);
+    const env = withModelProvider({
+      SESSION_STATE: namespace,
+      SKILL_REGISTRY: createSkillRegistryStub(mockApis),
+      API_KEY_SECRET: TEST_SECRET,
+      AUTH_SECRET: TEST_AUTH_SECRET,
+      RATE_LIMITER: createRateLimiterNamespace()
+    } as any, provider);
+
+    const response = await worker.fetch(new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('test') },
+      body: JSON.stringify({ message: 'Fetch pets 1 and 2 from the petstore API' })
+    }), env);
+    await response.text();
+
+    expect(upstreamFetch).toHaveBeenCalledTimes(1);
+    const toolMessages = provider.requests[1].messages.filter((m: any) => m.role === 'tool');
+    expect(toolMessages[0].content).toContain('HTTP 503');
+    expect(toolMessages[1].content).toMatch(/^Error: petstore is failing repeatedly, so calls to it are paused; try again in 30 seconds$/);
+
+    const circuits = await worker.fetch(new Request('https://example.com/api/skills/circuits', {
+      headers: { Authorization: bearer('test') }
+    }), env);
+    expect(await circuits.json()).toEqual({
+      circuits: [expect.objectContaining({ apiName: 'petstore', state: 'open', failures: 1, retryAfterSeconds: 30 })]
+    });
+
+    vi.unstubAllGlobals();
+  });
 });
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import worker from '../../workers/index';
 import { SkillRegistry } from '../../workers/durable_objects/SkillRegistry';
+import { bearer, TEST_AUTH_SECRET } from '../helpers/auth';
 
 class MockStorage {
     private store = new Map<string, any>();
@@ -55,7 +56,8 @@ describe('Integration - Skills API Endpoints', () => {
             AI: {
                 run: async () => ({ response: 'OK' })
             },
-            API_KEY_SECRET: 'test-secret-key-1234567890'
+            API_KEY_SECRET: 'test-secret-key-1234567890',
+            AUTH_SECRET: TEST_AUTH_SECRET
         };
     });
 
@@ -117,7 +119,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: JSON.stringify({
                     apiName: 'Pet Store API',
@@ -141,7 +143,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: JSON.stringify({
                     spec: {
@@ -164,7 +166,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: JSON.stringify({
                     apiName: 'Test API'
@@ -183,7 +185,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: JSON.stringify({
                     apiName: 'Bad API',
@@ -205,7 +207,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: JSON.stringify({
                     apiName: 'Secured API',
@@ -230,7 +232,7 @@ describe('Integration - Skills API Endpoints', () => {
             expect(response.status).toBe(200);
 
             const listRequest = new Request('https://example.com/api/skills/list', {
-                headers: { 'X-User-ID': 'user123' }
+                headers: { Authorization: bearer('user123') }
             });
             const listResponse = await worker.fetch(listRequest, env);
             const listResult = await listResponse.json() as any;
@@ -272,7 +274,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: JSON.stringify({
                     apiName: 'My API',
@@ -284,7 +286,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: JSON.stringify({
                     apiName: 'My API',
@@ -295,7 +297,7 @@ describe('Integration - Skills API Endpoints', () => {
             expect(response2.status).toBe(200);
 
             const listRequest = new Request('https://example.com/api/skills/list', {
-                headers: { 'X-User-ID': 'user123' }
+                headers: { Authorization: bearer('user123') }
             });
             const listResponse = await worker.fetch(listRequest, env);
             const listResult = await listResponse.json() as any;
@@ -309,7 +311,7 @@ describe('Integration - Skills API Endpoints', () => {
     describe('GET /api/skills/list', () => {
         it('should return empty list when no APIs registered', async () => {
             const request = new Request('https://example.com/api/skills/list', {
-                headers: { 'X-User-ID': 'user123' }
+                headers: { Authorization: bearer('user123') }
             });
 
             const response = await worker.fetch(request, env);
@@ -360,14 +362,14 @@ describe('Integration - Skills API Endpoints', () => {
                     method: 'POST',
                     headers: {
                         'Content-Type': 'application/json',
-                        'X-User-ID': 'user123'
+                        Authorization: bearer('user123')
                     },
                     body: JSON.stringify(api)
                 }), env);
             }
 
             const request = new Request('https://example.com/api/skills/list', {
-                headers: { 'X-User-ID': 'user123' }
+                headers: { Authorization: bearer('user123') }
             });
             const response = await worker.fetch(request, env);
             expect(response.status).toBe(200);
@@ -383,7 +385,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user1'
+                    Authorization: bearer('user1')
                 },
                 body: JSON.stringify({
                     apiName: 'User1 API',
@@ -408,7 +410,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user2'
+                    Authorization: bearer('user2')
                 },
                 body: JSON.stringify({
                     apiName: 'User2 API',
@@ -430,7 +432,7 @@ describe('Integration - Skills API Endpoints', () => {
             }), env);
 
             const request1 = new Request('https://example.com/api/skills/list', {
-                headers: { 'X-User-ID': 'user1' }
+                headers: { Authorization: bearer('user1') }
             });
             const response1 = await worker.fetch(request1, env);
             const result1 = await response1.json() as any;
@@ -439,7 +441,7 @@ describe('Integration - Skills API Endpoints', () => {
             expect(result1.apis[0].apiName).toBe('User1 API');
 
             const request2 = new Request('https://example.com/api/skills/list', {
-                headers: { 'X-User-ID': 'user2' }
+                headers: { Authorization: bearer('user2') }
             });
             const response2 = await worker.fetch(request2, env);
             const result2 = await response2.json() as any;
@@ -453,7 +455,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: JSON.stringify({
                     apiName: 'Multi Skill API',
@@ -480,7 +482,7 @@ describe('Integration - Skills API Endpoints', () => {
             }), env);
 
             const request = new Request('https://example.com/api/skills/list', {
-                headers: { 'X-User-ID': 'user123' }
+                headers: { Authorization: bearer('user123') }
             });
             const response = await worker.fetch(request, env);
             const result = await response.json() as any;
@@ -498,7 +500,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: JSON.stringify({
                     apiName: 'To Delete',
@@ -523,7 +525,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: JSON.stringify({
                     apiName: 'To Delete'
@@ -537,7 +539,7 @@ describe('Integration - Skills API Endpoints', () => {
             expect(deleteResult.success).toBe(true);
 
             const listRequest = new Request('https://example.com/api/skills/list', {
-                headers: { 'X-User-ID': 'user123' }
+                headers: { Authorization: bearer('user123') }
             });
             const listResponse = await worker.fetch(listRequest, env);
             const listResult = await listResponse.json() as any;
@@ -550,7 +552,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: JSON.stringify({
                     apiName: 'Does Not Exist'
@@ -569,7 +571,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: JSON.stringify({})
             });
@@ -600,7 +602,7 @@ describe('Integration - Skills API Endpoints', () => {
 
         it('should include CORS headers in responses', async () => {
             const request = new Request('https://example.com/api/skills/list', {
-                headers: { 'X-User-ID': 'user123' }
+                headers: { Authorization: bearer('user123') }
             });
 
             const response = await worker.fetch(request, env);
@@ -614,7 +616,7 @@ describe('Integration - Skills API Endpoints', () => {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': 'user123'
+                    Authorization: bearer('user123')
                 },
                 body: 'invalid json {'
             });
@@ -623,7 +625,7 @@ describe('Integration - Skills API Endpoints', () => {
             expect(response.status).toBeGreaterThanOrEqual(400);
         });
 
-        it('should handle missing X-User-ID header', async () => {
+        it('should reject requests without a session token', async () => {
             const request = new Request('https://example.com/api/skills/register', {
                 method: 'POST',
                 headers: {
@@ -649,7 +651,8 @@ describe('Integration - Skills API Endpoints', () => {
             });
 
             const response = await worker.fetch(request, env);
-            expect(response.status).toBe(200);
+            expect(response.status).toBe(401);
+            expect(response.headers.get('WWW-Authenticate')).toBe('Bearer');
         });
 
         it('should handle missing SKILL_REGISTRY binding gracefully', async () => {
@@ -658,7 +661,7 @@ describe('Integration - Skills API Endpoints', () => {
             };
 
             const request = new Request('https://example.com/api/skills/list', {
-                headers: { 'X-User-ID': 'user123' }
+                headers: { Authorization: bearer('user123') }
             });
 
             const response = await worker.fetch(request, envWithoutRegistry as any);
@@ -0,0 +1,330 @@
+import { describe, it, expect, vi } from 'vitest';
+import worker from '../../workers/index';
+import { SessionState } from '../../workers/durable_objects/SessionState';
+import { SkillRegistry } from '../../workers/durable_objects/SkillRegistry';
+import { Workspace } from '../../workers/durable_objects/Workspace';
+import { RateLimiter } from '../../workers/durable_objects/RateLimiter';
+import { ScriptedProvider } from '../../workers/model-provider';
+import { createSqlStorage } from '../helpers/sql-storage';
+import { bearer, TEST_AUTH_SECRET } from '../helpers/auth';
+import { withModelProvider } from '../helpers/model-provider';
+
+vi.mock('../../workers/model-provider', async (importOriginal) => {
+  const { mockModelProviderModule } = await import('../helpers/model-provider');
+  return mockModelProviderModule(await importOriginal());
+});
+
+class MockStorage {
+  private store = new Map<string, any>();
+  sql = createSqlStorage();
+
+  async put(key: string, value: any) {
+    this.store.set(key, value);
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.store.get(key);
+  }
+
+  async delete(key: string) {
+    this.store.delete(key);
+  }
+
+  async list<T>(options?: { prefix?: string }): Promise<Map<string, T>> {
+    const entries = Array.from(this.store.entries()) as Array<[string, T]>;
+    return new Map(entries.filter(([key]) => !options?.prefix || key.startsWith(options.prefix)));
+  }
+}
+
+// One object per name, as in production
+const createNamespace = (create: (state: any) => { fetch(request: Request): Promise<Response> }) => {
+  const instances = new Map<string, { fetch(request: Request): Promise<Response> }>();
+  return {
+    idFromName: (name: string) => ({ toString: () => name }),
+    get: (id: { toString(): string }) => ({
+      fetch: async (url: string | URL, init?: RequestInit) => {
+        const name = id.toString();
+        if (!instances.has(name)) {
+          instances.set(name, create({ storage: new MockStorage() }));
+        }
+        return instances.get(name)!.fetch(new Request(url, init));
+      }
+    })
+  };
+};
+
+const createEnv = (provider = new ScriptedProvider()) => withModelProvider({
+  SESSION_STATE: createNamespace((state) => new SessionState(state, {})),
+  SKILL_REGISTRY: createNamespace((state) => new SkillRegistry(state)),
+  WORKSPACE: createNamespace((state) => new Workspace(state)),
+  RATE_LIMITER: createNamespace((state) => new RateLimiter(state)),
+  API_KEY_SECRET: 'test-secret-key-1234567890',
+  AUTH_SECRET: TEST_AUTH_SECRET
+} as any, provider);
+
+const weatherSpec = (operationId: string) => ({
+  openapi: '3.0.0',
+  info: { title: 'Weather API', version: '1.0.0' },
+  servers: [{ url: 'https://api.weather.example' }],
+  paths: {
+    [`/${operationId}`]: {
+      get: { operationId, summary: 'Get the weather', responses: { '200': { description: 'OK' } } }
+    }
+  }
+});
+
+const call = async (
+  env: any,
+  userId: string,
+  path: string,
+  { body, method, workspaceId }: { body?: any; method?: string; workspaceId?: string } = {}
+) => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', Authorization: bearer(userId) };
+  if (workspaceId) {
+    headers['X-Workspace-ID'] = workspaceId;
+  }
+  const response = await worker.fetch(new Request(`https://example.com${path}`, {
+    method: method || (body ? 'POST' : 'GET'),
+    headers,
+    body: body ? JSON.stringify(body) : undefined
+  }), env);
+  return { status: response.status, data: await response.json() as any };
+};
+
+// Alice owns a workspace that Bob joined with `role`
+const setUpWorkspace = async (env: any, role: string) => {
+  const created = await call(env, 'alice', '/api/workspaces', { body: { name: 'Platform team' } });
+  const workspaceId = created.data.workspace.id as string;
+  const invitation = await call(env, 'alice', `/api/workspaces/${workspaceId}/invitations`, { body: { role } });
+  await call(env, 'bob', '/api/workspaces/join', { body: { code: invitation.data.code } });
+  return workspaceId;
+};
+
+describe('Integration - workspaces', () => {
+  it('creates a workspace and lists it for its members', async () => {
+    const env = createEnv();
+    const workspaceId = await setUpWorkspace(env, 'runner');
+
+    const alice = await call(env, 'alice', '/api/workspaces');
+    expect(alice.data.workspaces).toEqual([
+      expect.objectContaining({ id: workspaceId, name: 'Platform team', role: 'owner', memberCount: 2 })
+    ]);
+
+    const bob = await call(env, 'bob', '/api/workspaces');
+    expect(bob.data.workspaces).toEqual([expect.objectContaining({ id: workspaceId, role: 'runner' })]);
+
+    const members = await call(env, 'bob', `/api/workspaces/${workspaceId}/members`);
+    expect(members.data.members.map((member: any) => member.userId)).toEqual(['alice', 'bob']);
+  });
+
+  it('rejects malformed invitation codes and non-members', async () => {
+    const env = createEnv();
+    const workspaceId = await setUpWorkspace(env, 'viewer');
+
+    expect((await call(env, 'carol', '/api/workspaces/join', { body: { code: 'nope' } })).status).toBe(400);
+    expect((await call(env, 'carol', `/api/workspaces/${workspaceId}/members`)).status).toBe(403);
+    expect((await call(env, 'carol', '/api/skills/list', { workspaceId })).status).toBe(403);
+  });
+
+  it('shares registered APIs with members according to their role', async () => {
+    const env = createEnv();
+    const workspaceId = await setUpWorkspace(env, 'runner');
+
+    const denied = await call(env, 'bob', '/api/skills/register', {
+      body: { apiName: 'weather', spec: weatherSpec('getWeather') },
+      workspaceId
+    });
+    expect(denied.status).toBe(403);
+
+    const registered = await call(env, 'alice', '/api/skills/register', {
+      body: { apiName: 'weather', spec: weatherSpec('getWeather'), apiKey: 'shared-key' },
+      workspaceId
+    });
+    expect(registered.status).toBe(200);
+
+    const shared = await call(env, 'bob', '/api/skills/list', { workspaceId });
+    expect(shared.data.apis.map((api: any) => api.apiName)).toEqual(['weather']);
+
+    const personal = await call(env, 'bob', '/api/skills/list');
+    expect(personal.data.apis).toEqual([]);
+
+    await call(env, 'alice', `/api/workspaces/${workspaceId}/members/role`, { body: { userId: 'bob', role: 'editor' } });
+    const deleted = await call(env, 'bob', '/api/skills/delete', { body: { apiName: 'weather' }, workspaceId });
+    expect(deleted.status).toBe(200);
+  });
+
+  it('offers chat the active workspace skills alongside personal ones', async () => {
+    const provider = new ScriptedProvider();
+    const env = createEnv(provider);
+    const workspaceId = await setUpWorkspace(env, 'runner');
+
+    await call(env, 'alice', '/api/skills/register', {
+      body: { apiName: 'weather', spec: weatherSpec('getWeather') },
+      workspaceId
+    });
+    await call(env, 'bob', '/api/skills/register', {
+      body: { apiName: 'forecast', spec: weatherSpec('getForecast') }
+    });
+
+    const chat = await call(env, 'bob', '/api/chat', { body: { message: 'What is the weather?', stream: false }, workspaceId });
+    expect(chat.status).toBe(200);
+
+    const offered = JSON.stringify(provider.requests[0].tools);
+    expect(offered).toContain('getWeather');
+    expect(offered).toContain('getForecast');
+  });
+
+  it('leaves workspace skills out of chat for viewers', async () => {
+    const provider = new ScriptedProvider();
+    const env = createEnv(provider);
+    const workspaceId = await setUpWorkspace(env, 'viewer');
+
+    await call(env, 'alice', '/api/skills/register', {
+      body: { apiName: 'weather', spec: weatherSpec('getWeather') },
+      workspaceId
+    });
+
+    await call(env, 'bob', '/api/chat', { body: { message: 'What is the weather?', stream: false }, workspaceId });
+    expect(JSON.stringify(provider.requests[0].tools || [])).not.toContain('getWeather');
+  });
+
+  it('resumes an approved call with the skills of the workspace it was made in', async () => {
+    const provider = new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'setAlert', arguments: {} }] },
+      { response: 'The alert is set.' }
+    ]);
+    const env = createEnv(provider);
+    const workspaceId = await setUpWorkspace(env, 'runner');
+    const upstreamFetch = vi.fn(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const spec = weatherSpec('getWeather');
+    spec.paths['/alerts'] = { put: { operationId: 'setAlert', summary: 'Set an alert', responses: { '200': { description: 'OK' } } } } as any;
+    await call(env, 'alice', '/api/skills/register', { body: { apiName: 'weather', spec }, workspaceId });
+
+    const chat = await call(env, 'bob', '/api/chat', { body: { message: 'Set a weather alert', stream: false }, workspaceId });
+    const [approval] = chat.data.pendingApprovals;
+
+    const approveResponse = await worker.fetch(new Request('https://example.com/api/chat/approve', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: bearer('bob') },
+      body: JSON.stringify({ actionId: approval.actionId, decision: 'approve' })
+    }), env);
+    await approveResponse.text();
+
+    expect(approveResponse.status).toBe(200);
+    expect(upstreamFetch).toHaveBeenCalledTimes(1);
+    expect(upstreamFetch.mock.calls[0][0]).toBe('https://api.weather.example/alerts');
+
+    vi.unstubAllGlobals();
+  });
+
+  it('refuses to resume a workspace call for a member who has since been removed', async () => {
+    const env = createEnv(new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'setAlert', arguments: {} }] }
+    ]));
+    const workspaceId = await setUpWorkspace(env, 'runner');
+    const upstreamFetch = vi.fn(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const spec = weatherSpec('getWeather');
+    spec.paths['/alerts'] = { put: { operationId: 'setAlert', summary: 'Set an alert', responses: { '200': { description: 'OK' } } } } as any;
+    await call(env, 'alice', '/api/skills/register', { body: { apiName: 'weather', spec }, workspaceId });
+
+    const chat = await call(env, 'bob', '/api/chat', { body: { message: 'Set a weather alert', stream: false }, workspaceId });
+    const [approval] = chat.data.pendingApprovals;
+    await call(env, 'alice', `/api/workspaces/${workspaceId}/members/remove`, { body: { userId: 'bob' } });
+
+    const denied = await call(env, 'bob', '/api/chat/approve', { body: { actionId: approval.actionId, decision: 'approve' } });
+    expect(denied.status).toBe(403);
+    expect(upstreamFetch).not.toHaveBeenCalled();
+
+    vi.unstubAllGlobals();
+  });
+
+  it('drops a workspace from the list of a removed member', async () => {
+    const env = createEnv();
+    const workspaceId = await setUpWorkspace(env, 'editor');
+
+    const removed = await call(env, 'alice', `/api/workspaces/${workspaceId}/members/remove`, { body: { userId: 'bob' } });
+    expect(removed.status).toBe(200);
+
+    const bob = await call(env, 'bob', '/api/workspaces');
+    expect(bob.data.workspaces).toEqual([]);
+  });
+
+  it('holds connector tests to the workspace allowlist and never reaches private addresses', async () => {
+    const env = createEnv();
+    const workspaceId = await setUpWorkspace(env, 'runner');
+    const upstreamFetch = vi.fn(async () => new Response('pong', { status: 200 }));
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    const denied = await call(env, 'bob', `/api/workspaces/${workspaceId}/egress`, { body: { allowedHosts: ['api.weather.example'] } });
+    expect(denied.status).toBe(403);
+    const updated = await call(env, 'alice', `/api/workspaces/${workspaceId}/egress`, { body: { allowedHosts: ['api.weather.example'] } });
+    expect(updated.data.allowedHosts).toEqual(['api.weather.example']);
+
+    const offList = await call(env, 'bob', '/api/test-connector', { body: { url: 'https://api.other.example/ping' }, workspaceId });
+    expect(offList.status).toBe(403);
+    expect(offList.data.error).toContain('not in the allowed hosts');
+
+    const metadata = await call(env, 'bob', '/api/test-connector', { body: { url: 'http://169.254.169.254/latest/meta-data/' } });
+    expect(metadata.status).toBe(403);
+    expect(upstreamFetch).not.toHaveBeenCalled();
+
+    const allowed = await call(env, 'bob', '/api/test-connector', { body: { url: 'https://api.weather.example/ping' }, workspaceId });
+    expect(allowed.data).toMatchObject({ success: true, status: 200, bodyPreview: 'pong' });
+
+    vi.unstubAllGlobals();
+  });
+
+  it('applies the allowlist to connector tests and scenario runs sent without the workspace header', async () => {
+    const env = createEnv();
+    const workspaceId = await setUpWorkspace(env, 'runner');
+    const upstreamFetch = vi.fn(async () => new Response('pong', { status: 200 }));
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    await call(env, 'alice', `/api/workspaces/${workspaceId}/egress`, { body: { allowedHosts: ['api.weather.example'] } });
+
+    const offList = await call(env, 'bob', '/api/test-connector', { body: { url: 'https://api.other.example/ping' } });
+    expect(offList.status).toBe(403);
+    expect(offList.data.error).toContain('not in the allowed hosts');
+
+    await call(env, 'bob', '/api/scenarios', { body: { name: 'Other API', url: 'https://api.other.example/ping' } });
+    const run = await call(env, 'bob', '/api/scenarios/run', { body: {} });
+    expect(run.data.results[0]).toMatchObject({ success: false, error: expect.stringContaining('not in the allowed hosts') });
+    expect(upstreamFetch).not.toHaveBeenCalled();
+
+    // Leaving the workspace lifts its allowlist
+    await call(env, 'bob', `/api/workspaces/${workspaceId}/members/remove`, { body: { userId: 'bob' } });
+    const afterLeaving = await call(env, 'bob', '/api/test-connector', { body: { url: 'https://api.other.example/ping' } });
+    expect(afterLeaving.data).toMatchObject({ success: true, status: 200 });
+
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps workspace skills in chat off hosts outside the allowlist', async () => {
+    const provider = new ScriptedProvider([
+      { toolCalls: [{ id: 'call_1', name: 'getWeather', arguments: {} }] },
+      { response: 'That host is not allowed.' }
+    ]);
+    const env = createEnv(provider);
+    const workspaceId = await setUpWorkspace(env, 'runner');
+    const upstreamFetch = vi.fn(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', upstreamFetch);
+
+    await call(env, 'alice', '/api/skills/register', {
+      body: { apiName: 'weather', spec: weatherSpec('getWeather') },
+      workspaceId
+    });
+    await call(env, 'alice', `/api/workspaces/${workspaceId}/egress`, { body: { allowedHosts: ['*.other.example'] } });
+
+    await call(env, 'bob', '/api/chat', { body: { message: 'Get the weather from the weather API', stream: false }, workspaceId });
+
+    expect(upstreamFetch).not.toHaveBeenCalled();
+    const toolMessage = provider.requests[1].messages.find((m: any) => m.role === 'tool');
+    expect(toolMessage.content).toContain('api.weather.example is not in the allowed hosts');
+
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { readAiStream, isReadableStream } from '../../workers/utils/ai-stream';
+
+const sseStream = (events: Array<Record<string, any> | '[DONE]'>, splitAt?: number) => {
+  const text = events
+    .map((event) => `data: ${event === '[DONE]' ? event : JSON.stringify(event)}\n\n`)
+    .join('');
+  const encoder = new TextEncoder();
+  const parts = splitAt ? [text.slice(0, splitAt), text.slice(splitAt)] : [text];
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      parts.forEach((part) => controller.enqueue(encoder.encode(part)));
+      controller.close();
+    }
+  });
+};
+
+describe('readAiStream', () => {
+  it('forwards text tokens as they arrive', async () => {
+    const tokens: string[] = [];
+    const result = await readAiStream(
+      sseStream([{ response: 'Hel' }, { response: 'lo' }, { response: ' there' }, '[DONE]'], 17),
+      (token) => tokens.push(token)
+    );
+
+    expect(tokens).toEqual(['Hel', 'lo', ' there']);
+    expect(result).toEqual({ response: 'Hello there', toolCalls: [] });
+  });
+
+  it('collects complete tool calls without emitting text', async () => {
+    const tokens: string[] = [];
+    const result = await readAiStream(
+      sseStream([{ response: '', tool_calls: [{ name: 'listPets', arguments: { limit: 2 } }] }, '[DONE]']),
+      (token) => tokens.push(token)
+    );
+
+    expect(tokens).toEqual([]);
+    expect(result.toolCalls).toEqual([{ name: 'listPets', arguments: { limit: 2 } }]);
+  });
+
+  it('assembles tool call deltas by index', async () => {
+    const result = await readAiStream(
+      sseStream([
+        { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'getPet', arguments: '{"petId"' } }] },
+        { tool_calls: [{ index: 0, function: { arguments: ': 7}' } }] },
+        '[DONE]'
+      ]),
+      () => undefined
+    );
+
+    expect(result.toolCalls).toEqual([{ id: 'call_1', function: { name: 'getPet', arguments: '{"petId": 7}' } }]);
+  });
+
+  it('holds back JSON-looking text until it is clear no tool call follows', async () => {
+    const tokens: string[] = [];
+    const result = await readAiStream(
+      sseStream([{ response: '{"note"' }, { response: ': "plain"}' }, '[DONE]']),
+      (token) => tokens.push(token)
+    );
+
+    expect(tokens).toEqual(['{"note": "plain"}']);
+    expect(result.toolCalls).toEqual([]);
+  });
+});
+
+describe('isReadableStream', () => {
+  it('distinguishes streams from buffered AI responses', () => {
+    expect(isReadableStream(sseStream([]))).toBe(true);
+    expect(isReadableStream({ response: 'Hi' })).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+    constantTimeEqual,
+    signClaimCode,
+    signSessionToken,
+    verifyClaimCode,
+    verifySessionToken,
+    MAX_SESSION_LIFETIME_SECONDS
+} from '../../workers/auth';
+import { bearer } from '../helpers/auth';
+
+const SECRET = 'unit-test-secret-0123456789abcdefghij';
+
+describe('session tokens', () => {
+    it('round-trips the user id and expiry', async () => {
+        const { token, claims } = await signSessionToken('user-1', SECRET, 60, Date.UTC(2025, 0, 1));
+
+        const verified = await verifySessionToken(token, SECRET, Date.UTC(2025, 0, 1, 0, 0, 30));
+        expect(verified).toEqual({ ok: true, claims });
+        expect(claims.exp - claims.iat).toBe(60);
+    });
+
+    it('carries the session start through refreshes and stops at the maximum lifetime', async () => {
+        const start = Date.UTC(2025, 0, 1);
+        const first = await signSessionToken('user-1', SECRET, 60, start);
+        expect(first.claims.auth_time).toBe(first.claims.iat);
+
+        const almostOver = start + (MAX_SESSION_LIFETIME_SECONDS - 10) * 1000;
+        const refreshed = await signSessionToken('user-1', SECRET, 60, almostOver, first.claims.auth_time);
+        expect(refreshed.claims.auth_time).toBe(first.claims.auth_time);
+        expect(refreshed.claims.exp).toBe(first.claims.auth_time + MAX_SESSION_LIFETIME_SECONDS);
+    });
+
+    it('counts tokens without auth_time from their issue time', async () => {
+        const token = bearer('user-2', { secret: SECRET }).slice('Bearer '.length);
+        const verified = await verifySessionToken(token, SECRET);
+        expect(verified.ok && verified.claims.auth_time).toBe(verified.ok && verified.claims.iat);
+    });
+
+    it('accepts tokens signed by any HS256 implementation', async () => {
+        const token = bearer('user-2', { secret: SECRET }).slice('Bearer '.length);
+        const verified = await verifySessionToken(token, SECRET);
+        expect(verified.ok && verified.claims.sub).toBe('user-2');
+    });
+
+    it('refuses expired tokens', async () => {
+        const { token } = await signSessionToken('user-1', SECRET, 60, Date.UTC(2025, 0, 1));
+        expect(await verifySessionToken(token, SECRET, Date.UTC(2025, 0, 1, 0, 1))).toEqual({ ok: false, reason: 'Session token expired' });
+    });
+
+    it('refuses tokens signed with another secret or with altered claims', async () => {
+        const { token } = await signSessionToken('user-1', SECRET);
+        expect(await verifySessionToken(token, `${SECRET}-other`)).toMatchObject({ ok: false, reason: 'Invalid session token signature' });
+
+        const [header, , signature] = token.split('.');
+        const forged = Buffer.from(JSON.stringify({ sub: 'user-2', iat: 0, exp: 9999999999 })).toString('base64url');
+        expect(await verifySessionToken(`${header}.${forged}.${signature}`, SECRET)).toMatchObject({ ok: false });
+    });
+
+    it('refuses unsigned and malformed tokens', async () => {
+        const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+        const unsigned = `${encode({ alg: 'none', typ: 'JWT' })}.${encode({ sub: 'user-1', exp: 9999999999 })}.`;
+
+        expect(await verifySessionToken(unsigned, SECRET)).toEqual({ ok: false, reason: 'Malformed session token' });
+        expect(await verifySessionToken('not-a-token', SECRET)).toEqual({ ok: false, reason: 'Malformed session token' });
+        expect(await verifySessionToken('a.b.c', SECRET)).toEqual({ ok: false, reason: 'Malformed session token' });
+    });
+});
+
+describe('claim codes', () => {
+    it('only verify for the id they were issued for, and only until they expire', async () => {
+        const { code, expiresAt } = await signClaimCode('session-1', SECRET, 60, Date.UTC(2025, 0, 1));
+
+        expect(await verifyClaimCode(code, 'session-1', SECRET, Date.UTC(2025, 0, 1))).toBe(true);
+        expect(await verifyClaimCode(code, 'session-2', SECRET, Date.UTC(2025, 0, 1))).toBe(false);
+        expect(await verifyClaimCode(code, 'session-1', SECRET, expiresAt * 1000)).toBe(false);
+    });
+
+    it('are never accepted as session tokens, nor session tokens as codes', async () => {
+        const { code } = await signClaimCode('session-1', SECRET);
+        const { token } = await signSessionToken('session-1', SECRET);
+
+        expect(await verifySessionToken(code, SECRET)).toMatchObject({ ok: false, reason: 'Invalid session token signature' });
+        expect(await verifyClaimCode(token, 'session-1', SECRET)).toBe(false);
+    });
+});
+
+describe('constantTimeEqual', () => {
+    it('compares strings of any length', () => {
+        expect(constantTimeEqual('operator-token', 'operator-token')).toBe(true);
+        expect(constantTimeEqual('operator-token', 'operator-tokem')).toBe(false);
+        expect(constantTimeEqual('operator-token', 'operator')).toBe(false);
+        expect(constantTimeEqual('', '')).toBe(true);
+    });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  checkEgressUrl,
+  guardedFetch,
+  intersectAllowedHosts,
+  normalizeHostPattern,
+  readTextWithLimit,
+  EgressBlockedError,
+  ResponseTooLargeError
+} from '../../workers/utils/egress';
+
+describe('checkEgressUrl', () => {
+  it('allows public http and https hosts', () => {
+    expect(checkEgressUrl('https://api.example.com/v1', []).hostname).toBe('api.example.com');
+    expect(checkEgressUrl('http://8.8.8.8/', []).hostname).toBe('8.8.8.8');
+    expect(checkEgressUrl('https://[2606:4700::1111]/', []).hostname).toBe('[2606:4700::1111]');
+  });
+
+  it('blocks other schemes', () => {
+    expect(() => checkEgressUrl('file:///etc/passwd', [])).toThrow(EgressBlockedError);
+    expect(() => checkEgressUrl('ftp://files.example.com/', [])).toThrow('Only http and https');
+    expect(() => checkEgressUrl('not a url', [])).toThrow('Invalid URL');
+  });
+
+  it('blocks private, loopback, link-local and metadata targets in any notation', () => {
+    const blocked = [
+      'http://localhost:8787/',
+      'http://api.localhost/',
+      'http://metadata.google.internal/computeMetadata/v1/',
+      'http://127.0.0.1/',
+      'http://2130706433/',
+      'http://0x7f.1/',
+      'http://10.1.2.3/',
+      'http://172.20.0.1/',
+      'http://192.168.1.1/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://100.64.0.1/',
+      'http://0.0.0.0/',
+      'http://[::1]/',
+      'http://[::]/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://[64:ff9b::10.0.0.1]/',
+      'http://[fd00::1]/',
+      'http://[fe80::1]/'
+    ];
+    for (const url of blocked) {
+      expect(() => checkEgressUrl(url, []), url).toThrow(EgressBlockedError);
+    }
+  });
+
+  it('only allows listed hosts when there is an allowlist', () => {
+    const allowed = ['api.example.com', '*.weather.example'];
+
+    expect(checkEgressUrl('https://api.example.com/', allowed)).toBeInstanceOf(URL);
+    expect(checkEgressUrl('https://eu.weather.example/', allowed)).toBeInstanceOf(URL);
+    expect(() => checkEgressUrl('https://weather.example/', allowed)).toThrow('not in the allowed hosts');
+    expect(() => checkEgressUrl('https://evil-api.example.com/', allowed)).toThrow('not in the allowed hosts');
+    expect(() => checkEgressUrl('http://10.0.0.1/', ['10.0.0.1'])).toThrow('private');
+  });
+});
+
+describe('normalizeHostPattern', () => {
+  it('accepts host names and subdomain wildcards', () => {
+    expect(normalizeHostPattern(' API.Example.com. ')).toBe('api.example.com');
+    expect(normalizeHostPattern('*.example.com')).toBe('*.example.com');
+  });
+
+  it('rejects URLs, ports and bare wildcards', () => {
+    expect(normalizeHostPattern('https://example.com')).toBeNull();
+    expect(normalizeHostPattern('example.com:8080')).toBeNull();
+    expect(normalizeHostPattern('*')).toBeNull();
+    expect(normalizeHostPattern('a.*.example.com')).toBeNull();
+    expect(normalizeHostPattern(42)).toBeNull();
+  });
+});
+
+describe('intersectAllowedHosts', () => {
+  it('keeps the hosts every non-empty list allows', () => {
+    expect(intersectAllowedHosts([])).toEqual([]);
+    expect(intersectAllowedHosts([[], ['api.example.com']])).toEqual(['api.example.com']);
+    expect(intersectAllowedHosts([['*.example.com'], ['api.example.com', 'other.net']])).toEqual(['api.example.com']);
+    expect(intersectAllowedHosts([['*.example.com'], ['*.eu.example.com']])).toEqual(['*.eu.example.com']);
+  });
+
+  it('returns null rather than an empty list when nothing is allowed by all', () => {
+    expect(intersectAllowedHosts([['api.example.com'], ['api.other.net']])).toBeNull();
+    expect(intersectAllowedHosts([['*.example.com'], ['example.com']])).toBeNull();
+  });
+});
+
+describe('guardedFetch', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn() as any;
+  });
+
+  const redirect = (location: string, status = 302) => new Response(null, { status, headers: { Location: location } });
+
+  it('never sends a request to a blocked URL', async () => {
+    await expect(guardedFetch('http://169.254.169.254/', {}, [])).rejects.toThrow(EgressBlockedError);
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it('follows redirects to allowed hosts and refuses the rest', async () => {
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(redirect('/v2/pets'))
+      .mockResolvedValueOnce(new Response('ok'));
+
+    const response = await guardedFetch('https://api.example.com/v1/pets', {}, ['api.example.com']);
+    expect(await response.text()).toBe('ok');
+    expect((globalThis.fetch as any).mock.calls[1][0]).toBe('https://api.example.com/v2/pets');
+    expect((globalThis.fetch as any).mock.calls[0][1].redirect).toBe('manual');
+
+    (globalThis.fetch as any).mockResolvedValueOnce(redirect('http://127.0.0.1/admin'));
+    await expect(guardedFetch('https://api.example.com/v1/pets', {}, [])).rejects.toThrow('private');
+
+    (globalThis.fetch as any).mockResolvedValueOnce(redirect('https://elsewhere.example.net/'));
+    await expect(guardedFetch('https://api.example.com/', {}, ['api.example.com'])).rejects.toThrow('not in the allowed hosts');
+  });
+
+  it('drops credentials on cross-origin redirects and turns 303 into GET', async () => {
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(redirect('https://cdn.example.net/result', 303))
+      .mockResolvedValueOnce(new Response('done'));
+
+    await guardedFetch('https://api.example.com/jobs', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json', 'X-Trace': '1' },
+      body: '{}'
+    }, []);
+
+    const followed = (globalThis.fetch as any).mock.calls[1][1];
+    const headers = new Headers(followed.headers);
+    expect(followed.method).toBe('GET');
+    expect(followed.body).toBeUndefined();
+    expect(headers.get('Authorization')).toBeNull();
+    expect(headers.get('Content-Type')).toBeNull();
+    expect(headers.get('X-Trace')).toBe('1');
+  });
+
+  it('stops after five redirects', async () => {
+    (globalThis.fetch as any).mockImplementation(async () => redirect('https://api.example.com/again'));
+
+    await expect(guardedFetch('https://api.example.com/', {}, [])).rejects.toThrow('Stopped after 5 redirects');
+    expect(globalThis.fetch).toHaveBeenCalledTimes(6);
+  });
+});
+
+describe('readTextWithLimit', () => {
+  it('reads bodies up to the limit', async () => {
+    expect(await readTextWithLimit(new Response('héllo'), 6)).toBe('héllo');
+    expect(await readTextWithLimit(new Response(null, { status: 204 }), 6)).toBe('');
+  });
+
+  it('fails on a declared or streamed body over the limit', async () => {
+    const declared = new Response('x'.repeat(10), { headers: { 'Content-Length': '10' } });
+    await expect(readTextWithLimit(declared, 5)).rejects.toBeInstanceOf(ResponseTooLargeError);
+
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('abc'));
+        controller.enqueue(new TextEncoder().encode('def'));
+        controller.close();
+      }
+    });
+    await expect(readTextWithLimit(new Response(stream), 5)).rejects.toThrow('larger than 5 bytes');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fetchWithPolicy, retryDelay, UpstreamTimeoutError, MAX_RETRY_DELAY_MS } from '../../workers/utils/fetch-policy';
+
+const policy = { timeoutMs: 1000, maxRetries: 2, retryBaseDelayMs: 100 };
+const readText = (response: Response) => response.text();
+const noSleep = vi.fn(async (_ms: number) => {});
+
+describe('fetchWithPolicy', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn() as any;
+    noSleep.mockClear();
+  });
+
+  it('retries idempotent requests on retryable statuses', async () => {
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response('bad gateway', { status: 502 }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+    const { response, body, attempts } = await fetchWithPolicy('https://api.example.com/pets', { method: 'GET' }, policy, readText, { sleep: noSleep });
+
+    expect(response.status).toBe(200);
+    expect(body).toBe('ok');
+    expect(attempts).toBe(3);
+    expect(noSleep).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after maxRetries and returns the last response', async () => {
+    (globalThis.fetch as any).mockImplementation(async () => new Response('busy', { status: 503 }));
+
+    const { response, attempts } = await fetchWithPolicy('https://api.example.com/pets', {}, policy, readText, { sleep: noSleep });
+
+    expect(response.status).toBe(503);
+    expect(attempts).toBe(3);
+  });
+
+  it('never retries POST or non-retryable statuses', async () => {
+    (globalThis.fetch as any).mockImplementation(async () => new Response('busy', { status: 503 }));
+    const post = await fetchWithPolicy('https://api.example.com/pets', { method: 'POST' }, policy, readText, { sleep: noSleep });
+    expect(post.attempts).toBe(1);
+
+    (globalThis.fetch as any).mockImplementation(async () => new Response('broken', { status: 500 }));
+    const get = await fetchWithPolicy('https://api.example.com/pets', { method: 'GET' }, policy, readText, { sleep: noSleep });
+    expect(get.attempts).toBe(1);
+    expect(noSleep).not.toHaveBeenCalled();
+  });
+
+  it('waits for Retry-After and stops when it asks for too long', async () => {
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '2' } }))
+      .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '3600' } }));
+
+    const { response, attempts } = await fetchWithPolicy('https://api.example.com/pets', {}, policy, readText, { sleep: noSleep });
+
+    expect(noSleep).toHaveBeenCalledWith(2000);
+    expect(response.status).toBe(429);
+    expect(attempts).toBe(2);
+  });
+
+  describe('timeouts', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('aborts an attempt that takes longer than timeoutMs', async () => {
+      let signal: AbortSignal | undefined;
+      (globalThis.fetch as any).mockImplementation((_url: string, init: RequestInit) => {
+        signal = init.signal as AbortSignal;
+        return new Promise(() => {});
+      });
+
+      const pending = fetchWithPolicy('https://api.example.com/pets', { method: 'POST' }, policy, readText, { sleep: noSleep });
+      const assertion = expect(pending).rejects.toBeInstanceOf(UpstreamTimeoutError);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await assertion;
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('applies the timeout to reading the body too', async () => {
+      (globalThis.fetch as any).mockResolvedValue(new Response('ok', { status: 200 }));
+
+      const pending = fetchWithPolicy('https://api.example.com/pets', {}, policy, () => new Promise<string>(() => {}), { sleep: noSleep });
+      const assertion = expect(pending).rejects.toThrow('timed out after 1000ms');
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await assertion;
+    });
+  });
+});
+
+describe('retryDelay', () => {
+  it('reads Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(retryDelay('5', 1, 100, now)).toBe(5000);
+    expect(retryDelay('Thu, 01 Jan 2026 00:00:03 GMT', 1, 100, now)).toBe(3000);
+    expect(retryDelay('Wed, 31 Dec 2025 23:59:00 GMT', 1, 100, now)).toBe(0);
+    expect(retryDelay(String(MAX_RETRY_DELAY_MS / 1000 + 1), 1, 100, now)).toBeNull();
+  });
+
+  it('backs off exponentially with jitter when there is no Retry-After', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(retryDelay(null, 1, 100)).toBe(50);
+    expect(retryDelay(null, 3, 100)).toBe(200);
+    expect(retryDelay('soon', 2, 100)).toBe(100);
+    expect(retryDelay(null, 20, 1000)).toBe(MAX_RETRY_DELAY_MS);
+
+    vi.restoreAllMocks();
+  });
+});
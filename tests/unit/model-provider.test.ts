@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    WorkersAIProvider,
+    OpenAICompatibleProvider,
+    ScriptedProvider,
+    DEFAULT_WORKERS_AI_MODEL
+} from '../../workers/model-provider';
+
+const sse = (events: any[]) => {
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (const event of events) {
+                controller.enqueue(encoder.encode(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`));
+            }
+            controller.close();
+        }
+    });
+};
+
+describe('WorkersAIProvider', () => {
+    it('passes messages and tools to the AI binding', async () => {
+        const run = vi.fn(async () => ({ response: '', tool_calls: [{ name: 'listPets', arguments: {} }] }));
+        const provider = new WorkersAIProvider({ run });
+
+        const result = await provider.generate({ messages: [{ role: 'user', content: 'Hi' }], tools: [{ type: 'function' }] });
+
+        expect(run).toHaveBeenCalledWith(DEFAULT_WORKERS_AI_MODEL, {
+            messages: [{ role: 'user', content: 'Hi' }],
+            stream: false,
+            tools: [{ type: 'function' }]
+        });
+        expect(result).toEqual({ response: '', toolCalls: [{ name: 'listPets', arguments: {} }], streamed: false });
+    });
+
+    it('streams tokens when asked to', async () => {
+        const provider = new WorkersAIProvider({ run: async () => sse([{ response: 'Hi ' }, { response: 'there' }, '[DONE]']) });
+        const tokens: string[] = [];
+
+        const result = await provider.generate({ messages: [] }, token => tokens.push(token));
+
+        expect(tokens).toEqual(['Hi ', 'there']);
+        expect(result).toMatchObject({ response: 'Hi there', streamed: true });
+    });
+});
+
+describe('OpenAICompatibleProvider', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('calls /chat/completions and reads tool calls from the message', async () => {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+            choices: [{ message: { content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'listPets', arguments: '{}' } }] } }]
+        }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const provider = new OpenAICompatibleProvider({ baseUrl: 'https://llm.example/v1/', apiKey: 'sk-test', model: 'gpt-test' });
+        const result = await provider.generate({ messages: [{ role: 'user', content: 'Hi' }], tools: [{ type: 'function' }] });
+
+        const [url, init] = fetchMock.mock.calls[0] as any[];
+        expect(url).toBe('https://llm.example/v1/chat/completions');
+        expect(init.headers.Authorization).toBe('Bearer sk-test');
+        expect(JSON.parse(init.body)).toMatchObject({ model: 'gpt-test', tool_choice: 'auto', stream: false });
+        expect(result.toolCalls[0].function.name).toBe('listPets');
+    });
+
+    it('streams content deltas and assembles tool call deltas', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(sse([
+            { choices: [{ delta: { content: 'Look' } }] },
+            { choices: [{ delta: { content: 'ing' } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'getPet', arguments: '{"petId":' } }] } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '7}' } }] } }] },
+            '[DONE]'
+        ]), { status: 200, headers: { 'Content-Type': 'text/event-stream' } })));
+
+        const provider = new OpenAICompatibleProvider({ baseUrl: 'https://llm.example/v1', model: 'gpt-test' });
+        const tokens: string[] = [];
+        const result = await provider.generate({ messages: [] }, token => tokens.push(token));
+
+        expect(tokens).toEqual(['Look', 'ing']);
+        expect(result.toolCalls).toEqual([{ id: 'call_1', function: { name: 'getPet', arguments: '{"petId":7}' } }]);
+    });
+
+    it('throws with the upstream status on errors', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('rate limited', { status: 429 })));
+        const provider = new OpenAICompatibleProvider({ baseUrl: 'https://llm.example/v1', model: 'gpt-test' });
+
+        await expect(provider.generate({ messages: [] })).rejects.toThrow('HTTP 429: rate limited');
+    });
+});
+
+describe('ScriptedProvider', () => {
+    it('replays scripted turns in order and records requests', async () => {
+        const provider = new ScriptedProvider([
+            { toolCalls: [{ name: 'listPets', arguments: {} }] },
+            request => ({ response: `Saw ${request.messages.length} messages` })
+        ]);
+
+        const first = await provider.generate({ messages: [{ role: 'user', content: 'Hi' }] });
+        const second = await provider.generate({ messages: [{ role: 'user', content: 'Hi' }, { role: 'tool', content: '[]' }] });
+        const third = await provider.generate({ messages: [] });
+
+        expect(first.toolCalls).toEqual([{ name: 'listPets', arguments: {} }]);
+        expect(second.response).toBe('Saw 2 messages');
+        expect(third.response).toBe('Scripted provider has no more turns.');
+        expect(provider.requests).toHaveLength(3);
+    });
+
+    it('echoes the last user message when no script is given', async () => {
+        const provider = new ScriptedProvider();
+        const tokens: string[] = [];
+
+        const result = await provider.generate({ messages: [{ role: 'user', content: 'hello world' }] }, token => tokens.push(token));
+
+        expect(result).toEqual({ response: 'Echo: hello world', toolCalls: [], streamed: true });
+        expect(tokens.join('')).toBe('Echo: hello world');
+    });
+});
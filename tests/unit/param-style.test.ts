@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { serializePathParameter, serializeQueryParameter, serializeHeaderParameter } from '../../workers/utils/param-style';
+
+const color = { R: 100, G: 200 };
+
+describe('serializePathParameter', () => {
+  it('uses the simple style by default', () => {
+    expect(serializePathParameter('id', 5)).toBe('5');
+    expect(serializePathParameter('id', [3, 4, 5])).toBe('3,4,5');
+    expect(serializePathParameter('color', color)).toBe('R,100,G,200');
+    expect(serializePathParameter('color', color, { explode: true })).toBe('R=100,G=200');
+    expect(serializePathParameter('name', 'a/b c')).toBe('a%2Fb%20c');
+  });
+
+  it('supports label and matrix styles', () => {
+    expect(serializePathParameter('id', [3, 4, 5], { style: 'label' })).toBe('.3,4,5');
+    expect(serializePathParameter('id', [3, 4, 5], { style: 'label', explode: true })).toBe('.3.4.5');
+    expect(serializePathParameter('color', color, { style: 'label', explode: true })).toBe('.R=100.G=200');
+    expect(serializePathParameter('id', 5, { style: 'matrix' })).toBe(';id=5');
+    expect(serializePathParameter('id', [3, 4], { style: 'matrix' })).toBe(';id=3,4');
+    expect(serializePathParameter('id', [3, 4], { style: 'matrix', explode: true })).toBe(';id=3;id=4');
+    expect(serializePathParameter('color', color, { style: 'matrix', explode: true })).toBe(';R=100;G=200');
+    expect(serializePathParameter('flag', '', { style: 'matrix' })).toBe(';flag');
+  });
+
+  it('keeps zero and false values', () => {
+    expect(serializePathParameter('page', 0)).toBe('0');
+    expect(serializePathParameter('active', false, { style: 'matrix' })).toBe(';active=false');
+  });
+});
+
+describe('serializeQueryParameter', () => {
+  it('explodes form arrays and objects by default', () => {
+    expect(serializeQueryParameter('id', [3, 4])).toEqual(['id=3', 'id=4']);
+    expect(serializeQueryParameter('color', color)).toEqual(['R=100', 'G=200']);
+    expect(serializeQueryParameter('q', 'a b&c')).toEqual(['q=a%20b%26c']);
+  });
+
+  it('joins non-exploded arrays with the style delimiter', () => {
+    expect(serializeQueryParameter('id', [3, 4], { explode: false })).toEqual(['id=3,4']);
+    expect(serializeQueryParameter('id', [3, 4], { style: 'spaceDelimited' })).toEqual(['id=3%204']);
+    expect(serializeQueryParameter('id', [3, 4], { style: 'pipeDelimited' })).toEqual(['id=3|4']);
+    expect(serializeQueryParameter('color', color, { explode: false })).toEqual(['color=R,100,G,200']);
+  });
+
+  it('serializes deepObject parameters', () => {
+    expect(serializeQueryParameter('filter', { status: 'open', page: 0 }, { style: 'deepObject', explode: true }))
+      .toEqual(['filter[status]=open', 'filter[page]=0']);
+  });
+
+  it('leaves reserved characters alone when allowReserved is set', () => {
+    expect(serializeQueryParameter('path', '/a/b?c', { allowReserved: true })).toEqual(['path=/a/b?c']);
+    expect(serializeQueryParameter('path', '/a b')).toEqual(['path=%2Fa%20b']);
+  });
+
+  it('keeps falsy values and drops empty arrays', () => {
+    expect(serializeQueryParameter('limit', 0)).toEqual(['limit=0']);
+    expect(serializeQueryParameter('archived', false)).toEqual(['archived=false']);
+    expect(serializeQueryParameter('q', '')).toEqual(['q=']);
+    expect(serializeQueryParameter('tags', [])).toEqual([]);
+  });
+});
+
+describe('serializeHeaderParameter', () => {
+  it('uses the simple style without percent-encoding', () => {
+    expect(serializeHeaderParameter(['a b', 'c'])).toBe('a b,c');
+    expect(serializeHeaderParameter(color, { explode: true })).toBe('R=100,G=200');
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiter } from '../../workers/durable_objects/RateLimiter';
+
+class MockStorage {
+    private store = new Map<string, any>();
+
+    async put(key: string, value: any) {
+        this.store.set(key, value);
+    }
+
+    async get<T>(key: string): Promise<T | undefined> {
+        return this.store.get(key);
+    }
+
+    async delete(key: string) {
+        this.store.delete(key);
+    }
+
+    async list<T>(options?: { prefix?: string }): Promise<Map<string, T>> {
+        const entries = Array.from(this.store.entries()) as Array<[string, T]>;
+        return new Map(entries.filter(([key]) => !options?.prefix || key.startsWith(options.prefix)));
+    }
+}
+
+describe('RateLimiter Durable Object', () => {
+    let limiter: RateLimiter;
+
+    const consume = async (buckets: any[]) => {
+        const response = await limiter.fetch(new Request('http://internal/consume', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ buckets })
+        }));
+        return { status: response.status, data: await response.json() as any };
+    };
+
+    const post = async (path: string, body: Record<string, any>) => {
+        const response = await limiter.fetch(new Request(`http://internal${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        }));
+        return { status: response.status, data: await response.json() as any };
+    };
+
+    const acquire = () => post('/circuit/acquire', { key: 'api:weather', cooldownSeconds: 60 });
+    const record = (success: boolean) => post('/circuit/record', {
+        key: 'api:weather',
+        success,
+        failureThreshold: 2,
+        cooldownSeconds: 60
+    });
+
+    const api = { key: 'api:weather', capacity: 2, refillPerSecond: 1 / 30 };
+    const skill = { key: 'skill:weather:getWeather', capacity: 5, refillPerSecond: 1 };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+        limiter = new RateLimiter({ storage: new MockStorage() } as any);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('allows a full bucket and then refuses with the time until the next token', async () => {
+        expect((await consume([api])).data).toEqual({ allowed: true, remaining: { 'api:weather': 1 } });
+        expect((await consume([api])).data.allowed).toBe(true);
+
+        const { data } = await consume([api]);
+        expect(data).toMatchObject({ allowed: false, limitedBy: 'api:weather', retryAfterSeconds: 30 });
+    });
+
+    it('refills at the configured rate without exceeding the capacity', async () => {
+        await consume([api]);
+        await consume([api]);
+
+        vi.advanceTimersByTime(30_000);
+        expect((await consume([api])).data.allowed).toBe(true);
+        expect((await consume([api])).data.allowed).toBe(false);
+
+        vi.advanceTimersByTime(10 * 60_000);
+        expect((await consume([api])).data.remaining['api:weather']).toBe(1);
+    });
+
+    it('takes tokens from every bucket or from none', async () => {
+        await consume([api, skill]);
+        await consume([api, skill]);
+
+        const refused = await consume([api, skill]);
+        expect(refused.data).toMatchObject({ allowed: false, limitedBy: 'api:weather' });
+        expect(refused.data.remaining['skill:weather:getWeather']).toBe(3);
+
+        expect((await consume([skill])).data.remaining['skill:weather:getWeather']).toBe(2);
+    });
+
+    it('rejects malformed buckets', async () => {
+        expect((await consume([])).status).toBe(400);
+        expect((await consume([{ key: 'chat', capacity: 0, refillPerSecond: 1 }])).status).toBe(400);
+        expect((await consume([{ key: 'chat', capacity: 1, refillPerSecond: 0 }])).status).toBe(400);
+    });
+
+    describe('circuit breakers', () => {
+        it('opens after failureThreshold consecutive failures and fast-fails until the cooldown ends', async () => {
+            expect((await acquire()).data).toEqual({ key: 'api:weather', state: 'closed', failures: 0, allowed: true });
+
+            expect((await record(false)).data).toMatchObject({ state: 'closed', failures: 1 });
+            expect((await record(false)).data).toMatchObject({
+                state: 'open',
+                failures: 2,
+                openedAt: '2026-01-01T00:00:00.000Z',
+                retryAfterSeconds: 60
+            });
+
+            vi.advanceTimersByTime(15_000);
+            expect((await acquire()).data).toMatchObject({ state: 'open', allowed: false, retryAfterSeconds: 45 });
+        });
+
+        it('resets the failure count on success', async () => {
+            await record(false);
+            expect((await record(true)).data).toEqual({ key: 'api:weather', state: 'closed', failures: 0 });
+            expect((await record(false)).data).toMatchObject({ state: 'closed', failures: 1 });
+        });
+
+        it('lets a single trial call through after the cooldown and closes or reopens on its outcome', async () => {
+            await record(false);
+            await record(false);
+            vi.advanceTimersByTime(60_000);
+
+            expect((await acquire()).data).toMatchObject({ state: 'half_open', allowed: true });
+            expect((await acquire()).data).toMatchObject({ state: 'half_open', allowed: false });
+
+            expect((await record(false)).data).toMatchObject({ state: 'open', failures: 3, retryAfterSeconds: 60 });
+
+            vi.advanceTimersByTime(60_000);
+            await acquire();
+            await record(true);
+            expect((await acquire()).data).toMatchObject({ state: 'closed', allowed: true });
+        });
+
+        it('replaces a trial call that never reported back', async () => {
+            await record(false);
+            await record(false);
+            vi.advanceTimersByTime(60_000);
+            await acquire();
+
+            vi.advanceTimersByTime(60_000);
+            expect((await acquire()).data).toMatchObject({ state: 'half_open', allowed: true });
+        });
+
+        it('lists circuits with failures', async () => {
+            await record(false);
+            await post('/circuit/record', { key: 'api:maps', success: false, failureThreshold: 1, cooldownSeconds: 30 });
+
+            const response = await limiter.fetch(new Request('http://internal/circuits'));
+            const { circuits } = await response.json() as any;
+            expect(circuits).toEqual([
+                { key: 'api:weather', state: 'closed', failures: 1 },
+                { key: 'api:maps', state: 'open', failures: 1, openedAt: '2026-01-01T00:00:00.000Z', retryAfterSeconds: 30 }
+            ]);
+        });
+
+        it('rejects incomplete circuit requests', async () => {
+            expect((await post('/circuit/acquire', { key: 'api:weather' })).status).toBe(400);
+            expect((await post('/circuit/record', { key: 'api:weather', success: 'yes', failureThreshold: 1, cooldownSeconds: 1 })).status).toBe(400);
+        });
+    });
+});
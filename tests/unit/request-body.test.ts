@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { encodeRequestBody, decodeFilePart, toXml } from '../../workers/utils/request-body';
+
+describe('encodeRequestBody', () => {
+  it('defaults to JSON', () => {
+    expect(encodeRequestBody(undefined, { a: 1 })).toEqual({
+      body: '{"a":1}',
+      contentType: 'application/json',
+      encoding: 'json'
+    });
+    expect(encodeRequestBody('application/vnd.api+json; charset=utf-8', [1]).contentType).toBe('application/vnd.api+json');
+  });
+
+  it('url-encodes form fields, repeating arrays and skipping nulls', () => {
+    const encoded = encodeRequestBody('application/x-www-form-urlencoded', { q: 'a b', ids: [1, 2], skip: null, meta: { x: 1 } });
+
+    expect(encoded.body).toBe('q=a+b&ids=1&ids=2&meta=%7B%22x%22%3A1%7D');
+    expect(encoded.encoding).toBe('form-urlencoded');
+  });
+
+  it('builds multipart bodies with base64 file parts', async () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        photo: { type: 'string', format: 'binary' }
+      }
+    };
+    const encoded = encodeRequestBody('multipart/form-data', {
+      title: 'Rex',
+      photo: { filename: 'rex.txt', contentType: 'text/plain', data: btoa('woof') }
+    }, schema);
+
+    expect(encoded.contentType).toBeUndefined();
+    expect(encoded.encoding).toBe('multipart');
+
+    const form = encoded.body as FormData;
+    expect(form.get('title')).toBe('Rex');
+    const photo = form.get('photo') as File;
+    expect(photo.name).toBe('rex.txt');
+    expect(photo.type).toBe('text/plain');
+    expect(await photo.text()).toBe('woof');
+  });
+
+  it('sends base64 byte fields as strings rather than files', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        checksum: { type: 'string', format: 'byte' },
+        signature: { type: 'string', contentEncoding: 'base64' }
+      }
+    };
+    const form = encodeRequestBody('multipart/form-data', { checksum: btoa('abc'), signature: btoa('sig') }, schema).body as FormData;
+
+    expect(form.get('checksum')).toBe(btoa('abc'));
+    expect(form.get('signature')).toBe(btoa('sig'));
+  });
+
+  it('sends plain text as-is', () => {
+    expect(encodeRequestBody('text/plain', 'hello')).toEqual({ body: 'hello', contentType: 'text/plain', encoding: 'text' });
+    expect(encodeRequestBody('text/plain', 42).body).toBe('42');
+  });
+
+  it('serializes objects to XML using the schema', () => {
+    const schema = {
+      xml: { name: 'pet' },
+      properties: {
+        id: { type: 'integer', xml: { attribute: true } },
+        tags: { type: 'array', xml: { name: 'tags', wrapped: true }, items: { type: 'string', xml: { name: 'tag' } } }
+      }
+    };
+
+    const encoded = encodeRequestBody('application/xml', { id: 7, name: 'Rex & Co', tags: ['a', 'b'] }, schema);
+
+    expect(encoded.encoding).toBe('xml');
+    expect(encoded.body).toBe('<pet id="7"><name>Rex &amp; Co</name><tags><tag>a</tag><tag>b</tag></tags></pet>');
+  });
+
+  it('passes strings through for unknown media types', () => {
+    expect(encodeRequestBody('application/octet-stream', 'raw-bytes')).toEqual({
+      body: 'raw-bytes',
+      contentType: 'application/octet-stream',
+      encoding: 'raw'
+    });
+  });
+});
+
+describe('decodeFilePart', () => {
+  it('accepts data URLs and falls back to the field name', async () => {
+    const file = decodeFilePart(`data:image/png;base64,${btoa('png')}`, 'avatar');
+
+    expect(file.filename).toBe('avatar');
+    expect(file.blob.type).toBe('image/png');
+    expect(await file.blob.text()).toBe('png');
+  });
+
+  it('rejects data that is not base64', () => {
+    expect(() => decodeFilePart('not base64!', 'avatar')).toThrow('File field "avatar" must be base64-encoded');
+  });
+});
+
+describe('toXml', () => {
+  it('repeats unwrapped array items and uses root by default', () => {
+    expect(toXml({ item: [1, 2], empty: null })).toBe('<root><item>1</item><item>2</item><empty/></root>');
+  });
+});
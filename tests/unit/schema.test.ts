@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { resolveRef, resolveRefObject, dereferenceSchema, toToolSchema } from '../../workers/utils/schema';
+
+const root = {
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string' },
+          owner: { $ref: '#/components/schemas/Owner' }
+        }
+      },
+      Owner: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          pets: { type: 'array', items: { $ref: '#/components/schemas/Pet' } }
+        }
+      },
+      Base: {
+        type: 'object',
+        required: ['id'],
+        properties: { id: { type: 'integer' } }
+      },
+      Cat: { title: 'Cat', type: 'object', required: ['kind', 'indoor'], properties: { kind: { type: 'string' }, indoor: { type: 'boolean' } } },
+      Dog: { title: 'Dog', type: 'object', required: ['kind'], properties: { kind: { type: 'string' }, breed: { type: 'string' } } }
+    },
+    parameters: {
+      PetId: { name: 'petId', in: 'path', required: true, schema: { type: 'string' } }
+    }
+  }
+};
+
+describe('Schema Utils - resolveRef', () => {
+  it('should resolve local JSON pointers', () => {
+    expect(resolveRef(root, '#/components/parameters/PetId')).toMatchObject({ name: 'petId' });
+  });
+
+  it('should return undefined for missing or remote references', () => {
+    expect(resolveRef(root, '#/components/schemas/Missing')).toBeUndefined();
+    expect(resolveRef(root, 'https://example.com/schema.json')).toBeUndefined();
+  });
+
+  it('should unescape ~1 and ~0 in pointer segments', () => {
+    const doc = { paths: { '/pets/{id}': { get: { operationId: 'getPet' } } } };
+    expect(resolveRef(doc, '#/paths/~1pets~1{id}/get')).toEqual({ operationId: 'getPet' });
+  });
+});
+
+describe('Schema Utils - resolveRefObject', () => {
+  it('should follow chained references', () => {
+    const doc = {
+      components: {
+        parameters: {
+          Alias: { $ref: '#/components/parameters/Real' },
+          Real: { name: 'limit', in: 'query' }
+        }
+      }
+    };
+    expect(resolveRefObject(doc, { $ref: '#/components/parameters/Alias' })).toEqual({ name: 'limit', in: 'query' });
+  });
+
+  it('should return plain objects unchanged', () => {
+    const param = { name: 'q', in: 'query' };
+    expect(resolveRefObject(root, param)).toBe(param);
+  });
+});
+
+describe('Schema Utils - dereferenceSchema', () => {
+  it('should inline nested references', () => {
+    const result = dereferenceSchema({ $ref: '#/components/schemas/Pet' }, root);
+
+    expect(result.properties.name).toEqual({ type: 'string' });
+    expect(result.properties.owner.properties.name).toEqual({ type: 'string' });
+  });
+
+  it('should replace circular references with a placeholder', () => {
+    const result = dereferenceSchema({ $ref: '#/components/schemas/Pet' }, root);
+    const cycle = result.properties.owner.properties.pets.items;
+
+    expect(cycle).toEqual({ type: 'object', description: 'Circular reference to Pet' });
+  });
+
+  it('should merge allOf into a single object schema', () => {
+    const result = dereferenceSchema({
+      allOf: [
+        { $ref: '#/components/schemas/Base' },
+        { type: 'object', required: ['name'], properties: { name: { type: 'string' } } }
+      ]
+    }, root);
+
+    expect(result.type).toBe('object');
+    expect(Object.keys(result.properties)).toEqual(['id', 'name']);
+    expect(result.required).toEqual(['id', 'name']);
+    expect(result.allOf).toBeUndefined();
+  });
+
+  it('should flatten object oneOf variants keeping only shared required fields', () => {
+    const result = dereferenceSchema({
+      oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }]
+    }, root);
+
+    expect(Object.keys(result.properties)).toEqual(['kind', 'indoor', 'breed']);
+    expect(result.required).toEqual(['kind']);
+    expect(result.description).toContain('One of: Cat, Dog');
+    expect(result.oneOf).toBeUndefined();
+  });
+
+  it('should keep anyOf with primitive variants intact', () => {
+    const result = dereferenceSchema({ anyOf: [{ type: 'string' }, { type: 'integer' }] }, root);
+    expect(result.anyOf).toEqual([{ type: 'string' }, { type: 'integer' }]);
+  });
+
+  it('should keep sibling keywords next to $ref', () => {
+    const result = dereferenceSchema({ $ref: '#/components/schemas/Base', description: 'Identifier holder' }, root);
+    expect(result.description).toBe('Identifier holder');
+    expect(result.properties.id).toEqual({ type: 'integer' });
+  });
+});
+
+describe('Schema Utils - toToolSchema', () => {
+  const petSchema = {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      name: { type: 'string', example: 'Rex', xml: { name: 'name' } },
+      status: { type: 'string', enum: ['available', 'sold'], default: 'available' },
+      birthDate: { type: 'string', format: 'date' },
+      tags: { type: 'array', items: { type: 'object', properties: { label: { type: 'string' } } } }
+    }
+  };
+
+  it('should keep properties, required fields, enums, formats, defaults and item types', () => {
+    const result = toToolSchema(petSchema, 4000);
+
+    expect(result.required).toEqual(['name']);
+    expect(result.properties.name).toEqual({ type: 'string' });
+    expect(result.properties.status).toEqual({ type: 'string', enum: ['available', 'sold'], default: 'available' });
+    expect(result.properties.birthDate.format).toBe('date');
+    expect(result.properties.tags.items.properties.label).toEqual({ type: 'string' });
+  });
+
+  it('should summarise schemas that exceed the size budget', () => {
+    const properties: Record<string, any> = {};
+    for (let i = 0; i < 200; i++) {
+      properties[`field${i}`] = { type: 'string', description: `Field number ${i} with a fairly long description` };
+    }
+
+    const result = toToolSchema({ type: 'object', required: ['field0'], properties }, 1500);
+
+    expect(result.type).toBe('object');
+    expect(result.properties).toBeUndefined();
+    expect(result.description).toContain('field0 (required)');
+    expect(JSON.stringify(result).length).toBeLessThanOrEqual(1500);
+  });
+
+  it('should collapse deep nesting before summarising the whole schema', () => {
+    const nested = {
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        owner: {
+          type: 'object',
+          properties: Object.fromEntries(
+            Array.from({ length: 60 }, (_, i) => [`attr${i}`, { type: 'string', description: 'Owner attribute detail' }])
+          )
+        }
+      }
+    };
+
+    const result = toToolSchema(nested, 800);
+
+    expect(result.properties.id).toEqual({ type: 'integer' });
+    expect(result.properties.owner.type).toBe('object');
+    expect(result.properties.owner.description).toContain('attr0');
+  });
+});
@@ -1,8 +1,10 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { SessionState } from '../../workers/durable_objects/SessionState';
+import { createSqlStorage } from '../helpers/sql-storage';
 
 class MockStorage {
     private store = new Map<string, any>();
+    sql = createSqlStorage();
 
     async get<T>(key: string): Promise<T | undefined> {
         return this.store.get(key);
@@ -16,8 +18,8 @@ class MockStorage {
         this.store.delete(key);
     }
 
-    snapshot(key: string) {
-        return this.store.get(key);
+    async list<T>(): Promise<Map<string, T>> {
+        return new Map(this.store);
     }
 }
 
@@ -40,6 +42,15 @@ describe('SessionState', () => {
         }
     };
 
+    const getHistory = async (query = '') => jsonResponse(await sessionState.fetch(new Request(`http://internal/get-history${query}`)));
+
+    const listScenarios = async () => jsonResponse(await sessionState.fetch(new Request('http://internal/scenarios/list')));
+
+    const addMessage = (content: string, role = 'user') => sessionState.fetch(new Request('http://internal/add-message', {
+        method: 'POST',
+        body: JSON.stringify({ role, content })
+    }));
+
     describe('Message History', () => {
         it('starts with empty history', async () => {
             const req = new Request('http://internal/get-history');
@@ -59,7 +70,7 @@ describe('SessionState', () => {
             const res = await sessionState.fetch(req);
             expect(res.status).toBe(200);
 
-            const history = storage.snapshot('history');
+            const history = (await getHistory());
             expect(history).toHaveLength(1);
             expect(history[0]).toMatchObject({
                 role: 'user',
@@ -75,7 +86,7 @@ describe('SessionState', () => {
 
             await sessionState.fetch(req);
 
-            const history = storage.snapshot('history');
+            const history = (await getHistory());
             expect(history[0]).toMatchObject({
                 role: 'assistant',
                 content: 'Hi there!'
@@ -98,7 +109,7 @@ describe('SessionState', () => {
                 body: JSON.stringify({ role: 'user', content: 'Third' })
             }));
 
-            const history = storage.snapshot('history');
+            const history = (await getHistory());
             expect(history).toHaveLength(3);
             expect(history[0].content).toBe('First');
             expect(history[1].content).toBe('Second');
@@ -115,7 +126,7 @@ describe('SessionState', () => {
                 })
             }));
 
-            const history = storage.snapshot('history');
+            const history = (await getHistory());
             expect(history[0].metadata).toMatchObject({
                 toolCalls: ['weather'],
                 timestamp: '2025-11-04'
@@ -130,13 +141,13 @@ describe('SessionState', () => {
                 body: JSON.stringify({ role: 'user', content: 'Message' })
             }));
 
-            expect(storage.snapshot('history')).toHaveLength(1);
+            expect((await getHistory())).toHaveLength(1);
 
             const clearReq = new Request('http://internal/clear-history', { method: 'POST' });
             const res = await sessionState.fetch(clearReq);
             expect(res.status).toBe(200);
 
-            const history = storage.snapshot('history');
+            const history = (await getHistory());
             expect(history).toHaveLength(0);
         });
 
@@ -159,6 +170,235 @@ describe('SessionState', () => {
         });
     });
 
+    describe('History Pagination and Retention', () => {
+        it('keeps more than 100 messages', async () => {
+            for (let i = 0; i < 120; i++) {
+                await addMessage(`Message ${i}`);
+            }
+
+            const history = await getHistory();
+            expect(history).toHaveLength(120);
+            expect(history[0].content).toBe('Message 0');
+        });
+
+        it('pages backwards through history with a cursor', async () => {
+            for (let i = 0; i < 5; i++) {
+                await addMessage(`Message ${i}`);
+            }
+
+            const first = await getHistory('?limit=2');
+            expect(first.messages.map((m: any) => m.content)).toEqual(['Message 3', 'Message 4']);
+            expect(first.nextCursor).toEqual(expect.any(String));
+
+            const second = await getHistory(`?limit=2&before=${first.nextCursor}`);
+            expect(second.messages.map((m: any) => m.content)).toEqual(['Message 1', 'Message 2']);
+
+            const last = await getHistory(`?limit=2&before=${second.nextCursor}`);
+            expect(last.messages.map((m: any) => m.content)).toEqual(['Message 0']);
+            expect(last.nextCursor).toBeNull();
+        });
+
+        it('rejects invalid page sizes and cursors', async () => {
+            expect((await sessionState.fetch(new Request('http://internal/get-history?limit=0'))).status).toBe(400);
+            expect((await sessionState.fetch(new Request('http://internal/get-history?limit=10&before=abc'))).status).toBe(400);
+        });
+
+        it('looks up messages by id and filters by timestamp', async () => {
+            const { id } = await jsonResponse(await addMessage('Find me'));
+
+            const message = await jsonResponse(await sessionState.fetch(new Request(`http://internal/get-message?id=${id}`)));
+            expect(message).toMatchObject({ id, role: 'user', content: 'Find me' });
+            expect((await sessionState.fetch(new Request('http://internal/get-message?id=missing'))).status).toBe(404);
+
+            expect(await getHistory(`?since=${encodeURIComponent(message.timestamp)}`)).toHaveLength(1);
+            expect(await getHistory('?since=2999-01-01T00:00:00.000Z')).toHaveLength(0);
+        });
+
+        it('applies a configured message limit', async () => {
+            for (let i = 0; i < 4; i++) {
+                await addMessage(`Message ${i}`);
+            }
+
+            const res = await sessionState.fetch(new Request('http://internal/retention', {
+                method: 'POST',
+                body: JSON.stringify({ maxMessages: 2 })
+            }));
+            expect(await jsonResponse(res)).toEqual({ retention: { maxMessages: 2 }, removed: 2 });
+
+            await addMessage('Message 4');
+            expect((await getHistory()).map((m: any) => m.content)).toEqual(['Message 3', 'Message 4']);
+
+            await sessionState.fetch(new Request('http://internal/retention', {
+                method: 'POST',
+                body: JSON.stringify({ maxMessages: null })
+            }));
+            expect(await jsonResponse(await sessionState.fetch(new Request('http://internal/retention')))).toEqual({});
+        });
+
+        it('rejects invalid retention settings', async () => {
+            const res = await sessionState.fetch(new Request('http://internal/retention', {
+                method: 'POST',
+                body: JSON.stringify({ maxAgeDays: -1 })
+            }));
+            expect(res.status).toBe(400);
+        });
+
+        it('migrates history and metadata from key-value storage', async () => {
+            await storage.put('history', [
+                { role: 'user', content: 'Old question', timestamp: '2024-01-01T00:00:00.000Z' },
+                { role: 'assistant', content: 'Old answer', timestamp: '2024-01-01T00:00:01.000Z' }
+            ]);
+            await storage.put('modelPreference', { model: 'test' });
+
+            const history = await getHistory();
+            expect(history.map((m: any) => m.content)).toEqual(['Old question', 'Old answer']);
+            expect(history[0].id).toEqual(expect.any(String));
+            expect(await storage.get('history')).toBeUndefined();
+
+            const preference = await jsonResponse(await sessionState.fetch(new Request('http://internal/get-metadata?key=modelPreference')));
+            expect(preference).toEqual({ model: 'test' });
+        });
+
+        it('does not duplicate history when an interrupted migration runs again', async () => {
+            await storage.put('history', [
+                { role: 'user', content: 'Old question', timestamp: '2024-01-01T00:00:00.000Z' },
+                { role: 'assistant', content: 'Old answer', timestamp: '2024-01-01T00:00:01.000Z' }
+            ]);
+            vi.spyOn(storage, 'delete').mockRejectedValueOnce(new Error('Storage unavailable'));
+
+            await expect(getHistory()).rejects.toThrow('Storage unavailable');
+            expect(await storage.get('history')).toHaveLength(2);
+
+            // The restarted object finds the history key again
+            sessionState = new SessionState({ storage } as any, {});
+            const history = await getHistory();
+            expect(history.map((m: any) => m.content)).toEqual(['Old question', 'Old answer']);
+            expect(history[0].id).toBe('legacy-0');
+        });
+    });
+
+    describe('Conversations', () => {
+        const createConversation = async (settings: Record<string, any> = {}) => {
+            const res = await sessionState.fetch(new Request('http://internal/conversations', {
+                method: 'POST',
+                body: JSON.stringify(settings)
+            }));
+            expect(res.status).toBe(201);
+            return (await jsonResponse(res)).conversation;
+        };
+
+        const updateConversation = (id: string, changes: Record<string, any>) =>
+            sessionState.fetch(new Request(`http://internal/conversations/${id}`, {
+                method: 'PATCH',
+                body: JSON.stringify(changes)
+            }));
+
+        const listConversations = async (query = '') =>
+            (await jsonResponse(await sessionState.fetch(new Request(`http://internal/conversations${query}`)))).conversations;
+
+        const addTo = (conversationId: string, content: string) => sessionState.fetch(new Request('http://internal/add-message', {
+            method: 'POST',
+            body: JSON.stringify({ role: 'user', content, conversationId })
+        }));
+
+        it('keeps existing history in the default conversation', async () => {
+            await addMessage('Before threads');
+
+            const conversations = await listConversations();
+            expect(conversations).toHaveLength(1);
+            expect(conversations[0]).toMatchObject({ id: 'default', archived: false, pinnedSkills: [], messageCount: 1 });
+        });
+
+        it('keeps a separate history per conversation', async () => {
+            const conversation = await createConversation();
+            expect(conversation).toMatchObject({ title: 'New conversation', pinnedSkills: [], messageCount: 0 });
+
+            await addMessage('In the default thread');
+            await addTo(conversation.id, 'How do I list pets?\nSecond line');
+
+            expect((await getHistory()).map((m: any) => m.content)).toEqual(['In the default thread']);
+            const page = await getHistory(`?conversationId=${conversation.id}&limit=10`);
+            expect(page.messages.map((m: any) => m.content)).toEqual(['How do I list pets?\nSecond line']);
+
+            const listed = (await listConversations()).find((entry: any) => entry.id === conversation.id);
+            expect(listed).toMatchObject({ title: 'How do I list pets?', messageCount: 1 });
+        });
+
+        it('applies the message limit to each conversation', async () => {
+            const conversation = await createConversation();
+            for (let i = 0; i < 3; i++) {
+                await addMessage(`Default ${i}`);
+                await addTo(conversation.id, `Thread ${i}`);
+            }
+
+            const res = await sessionState.fetch(new Request('http://internal/retention', {
+                method: 'POST',
+                body: JSON.stringify({ maxMessages: 2 })
+            }));
+            expect((await jsonResponse(res)).removed).toBe(2);
+            expect((await getHistory()).map((m: any) => m.content)).toEqual(['Default 1', 'Default 2']);
+        });
+
+        it('renames, configures and archives a conversation', async () => {
+            const conversation = await createConversation({ persona: 'tutor' });
+
+            const res = await updateConversation(conversation.id, {
+                title: 'Pet store',
+                persona: null,
+                pinnedSkills: ['listPets', 'listPets', 'getPet'],
+                archived: true
+            });
+            expect(res.status).toBe(200);
+            const { conversation: updated } = await jsonResponse(res);
+            expect(updated).toMatchObject({ title: 'Pet store', pinnedSkills: ['listPets', 'getPet'], archived: true });
+            expect(updated.persona).toBeUndefined();
+
+            expect((await listConversations()).map((entry: any) => entry.id)).toEqual(['default']);
+            expect(await listConversations('?includeArchived=true')).toHaveLength(2);
+        });
+
+        it('rejects invalid settings and protects the default conversation', async () => {
+            expect((await updateConversation('default', { title: '' })).status).toBe(400);
+            expect((await updateConversation('default', { pinnedSkills: 'listPets' })).status).toBe(400);
+            expect((await updateConversation('default', { archived: 'yes' })).status).toBe(400);
+            expect((await updateConversation('default', { archived: true })).status).toBe(400);
+
+            const res = await sessionState.fetch(new Request('http://internal/conversations/default', { method: 'DELETE' }));
+            expect(res.status).toBe(400);
+        });
+
+        it('deletes a conversation with its history', async () => {
+            const conversation = await createConversation();
+            await addTo(conversation.id, 'Soon gone');
+
+            const res = await sessionState.fetch(new Request(`http://internal/conversations/${conversation.id}`, { method: 'DELETE' }));
+            expect(res.status).toBe(200);
+
+            expect((await addTo(conversation.id, 'Too late')).status).toBe(404);
+            const history = await sessionState.fetch(new Request(`http://internal/get-history?conversationId=${conversation.id}`));
+            expect(history.status).toBe(404);
+        });
+
+        it('moves messages stored before conversations into the default conversation', async () => {
+            const legacyStorage = new MockStorage();
+            legacyStorage.sql.exec(`
+                CREATE TABLE messages (
+                    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+                    id TEXT NOT NULL UNIQUE,
+                    role TEXT NOT NULL,
+                    content TEXT NOT NULL,
+                    timestamp TEXT NOT NULL,
+                    metadata TEXT
+                );
+                INSERT INTO messages (id, role, content, timestamp) VALUES ('m1', 'user', 'Old thread', '2024-01-01T00:00:00.000Z');
+            `);
+
+            const upgraded = new SessionState({ storage: legacyStorage } as any, {});
+            const history = await jsonResponse(await upgraded.fetch(new Request('http://internal/get-history')));
+            expect(history.map((m: any) => m.content)).toEqual(['Old thread']);
+        });
+    });
+
     describe('Scenarios', () => {
         it('stores test scenarios', async () => {
             const scenario = {
@@ -176,7 +416,7 @@ describe('SessionState', () => {
             const res = await sessionState.fetch(req);
             expect(res.status).toBe(200);
 
-            const scenarios = storage.snapshot('scenarios');
+            const scenarios = (await listScenarios());
             expect(Array.isArray(scenarios)).toBe(true);
             expect(scenarios).toHaveLength(1);
             expect(scenarios[0]).toMatchObject(scenario);
@@ -209,7 +449,7 @@ describe('SessionState', () => {
             const res = await sessionState.fetch(req);
             expect(res.status).toBe(200);
 
-            const scenarios = storage.snapshot('scenarios');
+            const scenarios = (await listScenarios());
             expect(scenarios).toHaveLength(2);
             expect(scenarios[0].name).toBe('Test 1');
             expect(scenarios[1].name).toBe('Test 3');
@@ -231,6 +471,23 @@ describe('SessionState', () => {
             expect(result.results).toBeDefined();
             expect(Array.isArray(result.results)).toBe(true);
         });
+
+        it('refuses scenario targets that are private or outside the allowed hosts', async () => {
+            await storage.put('scenarios', [
+                { name: 'Local admin', url: 'http://127.0.0.1:8787/admin' },
+                { name: 'Elsewhere', url: 'https://api.other.example/health' }
+            ]);
+
+            const res = await sessionState.fetch(new Request('http://internal/scenarios/run', {
+                method: 'POST',
+                body: JSON.stringify({ trigger: 'manual', allowedHosts: ['api.test.com'] })
+            }));
+            const { results } = await jsonResponse(res);
+
+            expect(results.map((entry: any) => [entry.name, entry.success])).toEqual([['Local admin', false], ['Elsewhere', false]]);
+            expect(results[0].error).toContain('private');
+            expect(results[1].error).toContain('not in the allowed hosts');
+        });
     });
 
     describe('Session Metadata', () => {
@@ -243,7 +500,7 @@ describe('SessionState', () => {
                 })
             }));
 
-            const metadata = storage.snapshot('user_preference');
+            const metadata = await jsonResponse(await sessionState.fetch(new Request('http://internal/get-metadata?key=user_preference')));
             expect(metadata).toMatchObject({
                 theme: 'dark',
                 language: 'en'
@@ -261,6 +518,90 @@ describe('SessionState', () => {
         });
     });
 
+    describe('Pending Actions', () => {
+        const createRun = async () => {
+            const res = await sessionState.fetch(new Request('http://internal/pending-runs', {
+                method: 'POST',
+                body: JSON.stringify({
+                    step: 1,
+                    maxSteps: 4,
+                    messages: [{ role: 'user', content: 'Delete pet 7' }],
+                    actions: [{ toolCallId: 'call_1', skill: 'deletePet', method: 'DELETE', url: 'https://api.test.com/pets/7', args: { petId: 7 } }]
+                })
+            }));
+            return (await jsonResponse(res)).run;
+        };
+
+        it('stores a paused run and lists its pending actions', async () => {
+            const run = await createRun();
+            expect(run.actions[0]).toMatchObject({ skill: 'deletePet', method: 'DELETE', status: 'pending' });
+
+            const res = await sessionState.fetch(new Request('http://internal/pending-actions'));
+            const data = await jsonResponse(res);
+            expect(data.actions).toHaveLength(1);
+            expect(data.actions[0].id).toBe(run.actions[0].id);
+        });
+
+        it('only lets an action be resolved once', async () => {
+            const run = await createRun();
+            const actionId = run.actions[0].id;
+
+            const resolve = () => sessionState.fetch(new Request(`http://internal/pending-actions/${actionId}/resolve`, {
+                method: 'POST',
+                body: JSON.stringify({ decision: 'approve' })
+            }));
+
+            expect((await resolve()).status).toBe(200);
+            expect((await resolve()).status).toBe(409);
+        });
+
+        it('releases the run once every action has a result', async () => {
+            const run = await createRun();
+            const actionId = run.actions[0].id;
+
+            await sessionState.fetch(new Request(`http://internal/pending-actions/${actionId}/resolve`, {
+                method: 'POST',
+                body: JSON.stringify({ decision: 'reject' })
+            }));
+            const res = await sessionState.fetch(new Request(`http://internal/pending-actions/${actionId}/result`, {
+                method: 'POST',
+                body: JSON.stringify({ execution: { skill: 'deletePet', toolCallId: 'call_1', success: false, error: 'Rejected' } })
+            }));
+            const data = await jsonResponse(res);
+
+            expect(data.complete).toBe(true);
+            expect(data.run.actions[0].execution).toMatchObject({ error: 'Rejected' });
+            expect(await storage.get('pendingRuns')).toEqual([]);
+        });
+
+        it('moves a decided action without a result back to pending', async () => {
+            const run = await createRun();
+            const actionPath = `http://internal/pending-actions/${run.actions[0].id}`;
+
+            await sessionState.fetch(new Request(`${actionPath}/resolve`, {
+                method: 'POST',
+                body: JSON.stringify({ decision: 'approve' })
+            }));
+            const released = await jsonResponse(await sessionState.fetch(new Request(`${actionPath}/release`, { method: 'POST' })));
+            expect(released.action.status).toBe('pending');
+
+            await sessionState.fetch(new Request(`${actionPath}/resolve`, {
+                method: 'POST',
+                body: JSON.stringify({ decision: 'approve' })
+            }));
+            await sessionState.fetch(new Request(`${actionPath}/result`, {
+                method: 'POST',
+                body: JSON.stringify({ execution: { skill: 'deletePet', toolCallId: 'call_1', success: true } })
+            }));
+            expect((await sessionState.fetch(new Request(`${actionPath}/release`, { method: 'POST' }))).status).toBe(404);
+        });
+
+        it('returns 404 for unknown actions', async () => {
+            const res = await sessionState.fetch(new Request('http://internal/pending-actions/missing'));
+            expect(res.status).toBe(404);
+        });
+    });
+
     describe('Error Handling', () => {
         it('returns 400 for invalid message format', async () => {
             const req = new Request('http://internal/add-message', {
@@ -297,6 +297,29 @@ describe('skill-parser.ts - AI Tool Schema Conversion', () => {
       });
     });
 
+    it('should leave fixed parameters out of the schema', () => {
+      const skills: SkillDefinition[] = [
+        {
+          name: 'listOrders',
+          description: 'List orders',
+          operationId: 'listOrders',
+          method: 'GET',
+          path: '/accounts/{accountId}/orders',
+          baseUrl: 'https://api.test.com',
+          parameters: [
+            { name: 'accountId', in: 'path', type: 'string', required: true },
+            { name: 'status', in: 'query', type: 'string', required: false }
+          ],
+          fixedParameters: { accountId: 'acct_1' }
+        }
+      ];
+
+      const [schema] = skillsToAIToolSchemas(skills);
+
+      expect(Object.keys(schema.function.parameters.properties)).toEqual(['status']);
+      expect(schema.function.parameters.required).toEqual([]);
+    });
+
     it('should handle requestBody in schema', () => {
       const skills: SkillDefinition[] = [
         {
@@ -333,6 +356,64 @@ describe('skill-parser.ts - AI Tool Schema Conversion', () => {
       });
       expect(schemas[0].function.parameters.required).toContain('body');
     });
+
+    it('should expose request body properties as nested JSON Schema', () => {
+      const skills: SkillDefinition[] = [
+        {
+          name: 'createPet',
+          description: 'Create a new pet',
+          operationId: 'createPet',
+          method: 'POST',
+          path: '/pets',
+          baseUrl: 'https://api.petstore.com',
+          parameters: [],
+          requestBody: {
+            required: true,
+            contentType: 'application/json',
+            schema: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', description: 'Pet name' },
+                status: { type: 'string', enum: ['available', 'pending', 'sold'] },
+                tags: { type: 'array', items: { type: 'string' } }
+              },
+              required: ['name']
+            }
+          }
+        }
+      ];
+
+      const body = skillsToAIToolSchemas(skills)[0].function.parameters.properties.body;
+
+      expect(body.properties.name).toEqual({ type: 'string', description: 'Pet name' });
+      expect(body.properties.status.enum).toEqual(['available', 'pending', 'sold']);
+      expect(body.properties.tags).toEqual({ type: 'array', items: { type: 'string' } });
+      expect(body.required).toEqual(['name']);
+    });
+
+    it('should include optional request bodies without requiring them', () => {
+      const skills: SkillDefinition[] = [
+        {
+          name: 'patchPet',
+          description: 'Patch a pet',
+          operationId: 'patchPet',
+          method: 'PATCH',
+          path: '/pets/{petId}',
+          baseUrl: 'https://api.petstore.com',
+          parameters: [{ name: 'petId', in: 'path', type: 'string', required: true }],
+          requestBody: {
+            required: false,
+            contentType: 'application/json',
+            schema: { type: 'object', properties: { status: { type: 'string' } } }
+          }
+        }
+      ];
+
+      const parameters = skillsToAIToolSchemas(skills)[0].function.parameters;
+
+      expect(parameters.properties.body.properties.status).toEqual({ type: 'string' });
+      expect(parameters.required).toEqual(['petId']);
+    });
   });
 });
 
@@ -355,14 +436,7 @@ describe('skill-parser.ts - Skill Execution', () => {
 
       const params = {};
 
-      (globalThis.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        status: 200,
-        headers: {
-          get: () => 'application/json'
-        },
-        json: async () => [{ id: 1, name: 'Fluffy' }]
-      });
+      (globalThis.fetch as any).mockResolvedValueOnce(new Response(JSON.stringify([{ id: 1, name: 'Fluffy' }]), { status: 200, headers: { 'Content-Type': 'application/json' } }));
 
       const result = await executeSkill(skill, params);
 
@@ -400,14 +474,7 @@ describe('skill-parser.ts - Skill Execution', () => {
 
       const params = { petId: '123' };
 
-      (globalThis.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        status: 200,
-        headers: {
-          get: () => 'application/json'
-        },
-        json: async () => ({ id: 123, name: 'Fluffy' })
-      });
+      (globalThis.fetch as any).mockResolvedValueOnce(new Response(JSON.stringify({ id: 123, name: 'Fluffy' }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
 
       const result = await executeSkill(skill, params);
 
@@ -448,14 +515,7 @@ describe('skill-parser.ts - Skill Execution', () => {
 
       const params = { name: 'Max', age: 3 };
 
-      (globalThis.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        status: 201,
-        headers: {
-          get: () => 'application/json'
-        },
-        json: async () => ({ id: 456, name: 'Max', age: 3 })
-      });
+      (globalThis.fetch as any).mockResolvedValueOnce(new Response(JSON.stringify({ id: 456, name: 'Max', age: 3 }), { status: 201, headers: { 'Content-Type': 'application/json' } }));
 
       const result = await executeSkill(skill, params);
 
@@ -490,14 +550,7 @@ describe('skill-parser.ts - Skill Execution', () => {
       const params = {};
       const apiKey = 'secret-key-123';
 
-      (globalThis.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        status: 200,
-        headers: {
-          get: () => 'application/json'
-        },
-        json: async () => ({ secure: 'data' })
-      });
+      (globalThis.fetch as any).mockResolvedValueOnce(new Response(JSON.stringify({ secure: 'data' }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
 
       const result = await executeSkill(skill, params, apiKey);
 
@@ -525,15 +578,7 @@ describe('skill-parser.ts - Skill Execution', () => {
         parameters: []
       };
 
-      (globalThis.fetch as any).mockResolvedValueOnce({
-        ok: false,
-        status: 404,
-        statusText: 'Not Found',
-        headers: {
-          get: () => 'text/plain'
-        },
-        text: async () => 'Resource not found'
-      });
+      (globalThis.fetch as any).mockResolvedValueOnce(new Response('Resource not found', { status: 404, statusText: 'Not Found', headers: { 'Content-Type': 'text/plain' } }));
 
       const result = await executeSkill(skill, {});
 
@@ -564,6 +609,53 @@ describe('skill-parser.ts - Skill Execution', () => {
       });
     });
 
+    it('should return malformed JSON responses as text rather than a network error', async () => {
+      const skill: SkillDefinition = {
+        name: 'brokenJson',
+        description: 'Operation with a malformed JSON response',
+        operationId: 'brokenJson',
+        method: 'GET',
+        path: '/test',
+        baseUrl: 'https://api.test.com',
+        parameters: []
+      };
+
+      (globalThis.fetch as any).mockResolvedValueOnce(new Response('{"id": 1,', { status: 200, headers: { 'Content-Type': 'application/json' } }));
+
+      const result = await executeSkill(skill, {});
+
+      expect(result).toEqual({ success: true, result: '{"id": 1,' });
+    });
+
+    it('should refuse private targets, hosts off the allowlist and oversized responses', async () => {
+      const skill: SkillDefinition = {
+        name: 'getMetadata',
+        description: 'Read instance metadata',
+        operationId: 'getMetadata',
+        method: 'GET',
+        path: '/latest/meta-data',
+        baseUrl: 'http://169.254.169.254',
+        parameters: []
+      };
+
+      const blocked = await executeSkill(skill, {});
+      expect(blocked).toEqual({ success: false, error: expect.stringContaining('private') });
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+
+      const offList = await executeSkill({ ...skill, baseUrl: 'https://api.test.com' }, {}, undefined, undefined, {
+        allowedHosts: ['api.other.com'],
+        maxResponseBytes: 1024
+      });
+      expect(offList.error).toContain('not in the allowed hosts');
+
+      (globalThis.fetch as any).mockResolvedValueOnce(new Response('x'.repeat(2048), { status: 200 }));
+      const tooLarge = await executeSkill({ ...skill, baseUrl: 'https://api.test.com' }, {}, undefined, undefined, {
+        allowedHosts: [],
+        maxResponseBytes: 1024
+      });
+      expect(tooLarge).toEqual({ success: false, error: 'Upstream response is larger than 1024 bytes' });
+    });
+
     it('should handle multiple path parameters', async () => {
       const skill: SkillDefinition = {
         name: 'getResource',
@@ -590,14 +682,7 @@ describe('skill-parser.ts - Skill Execution', () => {
 
       const params = { userId: 'user123', postId: 'post456' };
 
-      (globalThis.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        status: 200,
-        headers: {
-          get: () => 'application/json'
-        },
-        json: async () => ({ post: 'data' })
-      });
+      (globalThis.fetch as any).mockResolvedValueOnce(new Response(JSON.stringify({ post: 'data' }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
 
       const result = await executeSkill(skill, params);
 
@@ -635,14 +720,7 @@ describe('skill-parser.ts - Skill Execution', () => {
 
       const params = { q: 'test', limit: 10 };
 
-      (globalThis.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        status: 200,
-        headers: {
-          get: () => 'application/json'
-        },
-        json: async () => ({ posts: [] })
-      });
+      (globalThis.fetch as any).mockResolvedValueOnce(new Response(JSON.stringify({ posts: [] }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
 
       const result = await executeSkill(skill, params);
 
@@ -686,14 +764,7 @@ describe('skill-parser.ts - Skill Execution', () => {
 
       const params = { userId: 'user123', limit: 5, sort: 'desc' };
 
-      (globalThis.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        status: 200,
-        headers: {
-          get: () => 'application/json'
-        },
-        json: async () => ({ posts: [] })
-      });
+      (globalThis.fetch as any).mockResolvedValueOnce(new Response(JSON.stringify({ posts: [] }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
 
       const result = await executeSkill(skill, params);
 
@@ -706,3 +777,616 @@ describe('skill-parser.ts - Skill Execution', () => {
     });
   });
 });
+
+describe('skill-parser.ts - Security Schemes', () => {
+  const okResponse = () => new Response(JSON.stringify({ ok: true }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+  beforeEach(() => {
+    globalThis.fetch = vi.fn() as any;
+  });
+
+  it('should capture OpenAPI 3 securitySchemes with global and per-operation security', () => {
+    const spec = {
+      openapi: '3.0.0',
+      info: { title: 'Keyed API', version: '1.0.0' },
+      servers: [{ url: 'https://api.keyed.com' }],
+      components: {
+        securitySchemes: {
+          ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+          BasicAuth: { type: 'http', scheme: 'basic' }
+        }
+      },
+      security: [{ ApiKeyAuth: [] }],
+      paths: {
+        '/items': {
+          get: { operationId: 'listItems', summary: 'List items' }
+        },
+        '/admin': {
+          get: { operationId: 'adminOp', summary: 'Admin', security: [{ BasicAuth: [] }] }
+        },
+        '/health': {
+          get: { operationId: 'health', summary: 'Health', security: [] }
+        }
+      }
+    };
+
+    const result = parseOpenAPIToSkills(spec);
+
+    expect(result.securitySchemes).toMatchObject({
+      ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      BasicAuth: { type: 'http', scheme: 'basic' }
+    });
+    expect(result.skills[0].security).toEqual([{ ApiKeyAuth: [] }]);
+    expect(Object.keys(result.skills[0].securitySchemes!)).toEqual(['ApiKeyAuth']);
+    expect(result.skills[1].security).toEqual([{ BasicAuth: [] }]);
+    expect(result.skills[2].security).toEqual([]);
+  });
+
+  it('should convert Swagger 2.0 securityDefinitions', () => {
+    const spec = {
+      swagger: '2.0',
+      info: { title: 'Legacy API', version: '1.0.0' },
+      host: 'api.legacy.com',
+      securityDefinitions: {
+        basic: { type: 'basic' },
+        key: { type: 'apiKey', in: 'query', name: 'api_key' }
+      },
+      security: [{ key: [] }],
+      paths: {
+        '/users': {
+          get: { operationId: 'listUsers', summary: 'List users' }
+        }
+      }
+    };
+
+    const result = parseOpenAPIToSkills(spec);
+
+    expect(result.securitySchemes.basic).toMatchObject({ type: 'http', scheme: 'basic' });
+    expect(result.securitySchemes.key).toMatchObject({ type: 'apiKey', in: 'query', name: 'api_key' });
+  });
+
+  it('should send an apiKey credential in the declared header', async () => {
+    const skill: SkillDefinition = {
+      name: 'listItems',
+      description: 'List items',
+      operationId: 'listItems',
+      method: 'GET',
+      path: '/items',
+      baseUrl: 'https://api.keyed.com',
+      parameters: [],
+      security: [{ ApiKeyAuth: [] }],
+      securitySchemes: { ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' } }
+    };
+
+    (globalThis.fetch as any).mockResolvedValueOnce(okResponse());
+
+    await executeSkill(skill, {}, 'secret-key');
+
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers['X-API-Key']).toBe('secret-key');
+    expect(init.headers['Authorization']).toBeUndefined();
+  });
+
+  it('should send an apiKey credential as a query parameter', async () => {
+    const skill: SkillDefinition = {
+      name: 'search',
+      description: 'Search',
+      operationId: 'search',
+      method: 'GET',
+      path: '/search',
+      baseUrl: 'https://api.keyed.com',
+      parameters: [{ name: 'q', in: 'query', type: 'string', required: false }],
+      security: [{ key: [] }],
+      securitySchemes: { key: { type: 'apiKey', in: 'query', name: 'api_key' } }
+    };
+
+    (globalThis.fetch as any).mockResolvedValueOnce(okResponse());
+
+    await executeSkill(skill, { q: 'cats' }, { key: 'abc123' });
+
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      'https://api.keyed.com/search?q=cats&api_key=abc123',
+      expect.any(Object)
+    );
+  });
+
+  it('should not let header or cookie parameters replace credentials', async () => {
+    const skill: SkillDefinition = {
+      name: 'adminOp',
+      description: 'Admin',
+      operationId: 'adminOp',
+      method: 'GET',
+      path: '/admin',
+      baseUrl: 'https://api.keyed.com',
+      parameters: [
+        { name: 'authorization', in: 'header', type: 'string', required: false },
+        { name: 'X-API-Key', in: 'header', type: 'string', required: false },
+        { name: 'X-Trace', in: 'header', type: 'string', required: false },
+        { name: 'sid', in: 'cookie', type: 'string', required: false },
+        { name: 'theme', in: 'cookie', type: 'string', required: false }
+      ],
+      security: [{ BasicAuth: [], ApiKeyAuth: [], Session: [] }],
+      securitySchemes: {
+        BasicAuth: { type: 'http', scheme: 'basic' },
+        ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        Session: { type: 'apiKey', in: 'cookie', name: 'sid' }
+      }
+    };
+
+    (globalThis.fetch as any).mockResolvedValueOnce(okResponse());
+
+    await executeSkill(
+      skill,
+      { authorization: 'Bearer forged', 'X-API-Key': 'forged', 'X-Trace': '1', sid: 'forged', theme: 'dark' },
+      { BasicAuth: 'user:pass', ApiKeyAuth: 'abc123', Session: 'xyz' }
+    );
+
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers['authorization']).toBeUndefined();
+    expect(init.headers['Authorization']).toBe(`Basic ${btoa('user:pass')}`);
+    expect(init.headers['X-API-Key']).toBe('abc123');
+    expect(init.headers['X-Trace']).toBe('1');
+    expect(init.headers['Cookie']).toBe('theme=dark; sid=xyz');
+  });
+
+  it('should apply HTTP basic and cookie credentials from a credential set', async () => {
+    const skill: SkillDefinition = {
+      name: 'adminOp',
+      description: 'Admin',
+      operationId: 'adminOp',
+      method: 'GET',
+      path: '/admin',
+      baseUrl: 'https://api.keyed.com',
+      parameters: [],
+      security: [{ Missing: [] }, { BasicAuth: [], Session: [] }],
+      securitySchemes: {
+        BasicAuth: { type: 'http', scheme: 'basic' },
+        Session: { type: 'apiKey', in: 'cookie', name: 'sid' }
+      }
+    };
+
+    (globalThis.fetch as any).mockResolvedValueOnce(okResponse());
+
+    await executeSkill(skill, {}, { BasicAuth: 'user:pass', Session: 'xyz' });
+
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers['Authorization']).toBe(`Basic ${btoa('user:pass')}`);
+    expect(init.headers['Cookie']).toBe('sid=xyz');
+  });
+
+  it('should UTF-8 encode basic credentials outside Latin-1', async () => {
+    const skill: SkillDefinition = {
+      name: 'adminOp',
+      description: 'Admin',
+      operationId: 'adminOp',
+      method: 'GET',
+      path: '/admin',
+      baseUrl: 'https://api.keyed.com',
+      parameters: [],
+      security: [{ BasicAuth: [] }],
+      securitySchemes: { BasicAuth: { type: 'http', scheme: 'basic' } }
+    };
+
+    (globalThis.fetch as any).mockResolvedValueOnce(okResponse());
+
+    const result = await executeSkill(skill, {}, { BasicAuth: 'zoë:пароль✓' });
+
+    expect(result.success).toBe(true);
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers['Authorization']).toBe(`Basic ${Buffer.from('zoë:пароль✓', 'utf8').toString('base64')}`);
+  });
+
+  it('should not send credentials when the operation disables security', async () => {
+    const skill: SkillDefinition = {
+      name: 'health',
+      description: 'Health',
+      operationId: 'health',
+      method: 'GET',
+      path: '/health',
+      baseUrl: 'https://api.keyed.com',
+      parameters: [],
+      security: [],
+      securitySchemes: {}
+    };
+
+    (globalThis.fetch as any).mockResolvedValueOnce(okResponse());
+
+    await executeSkill(skill, {}, 'secret-key');
+
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers['Authorization']).toBeUndefined();
+  });
+});
+
+describe('skill-parser.ts - Reference Resolution', () => {
+  it('should resolve $ref parameters, request bodies and schemas', () => {
+    const spec = {
+      openapi: '3.0.0',
+      info: { title: 'Pet Store API', version: '1.0.0' },
+      servers: [{ url: 'https://api.petstore.com' }],
+      components: {
+        schemas: {
+          PetInput: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string' },
+              status: { type: 'string', enum: ['available', 'sold'] }
+            }
+          }
+        },
+        parameters: {
+          PetId: { name: 'petId', in: 'path', required: true, schema: { type: 'string' } }
+        },
+        requestBodies: {
+          PetBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/PetInput' } } }
+          }
+        }
+      },
+      paths: {
+        '/pets/{petId}': {
+          parameters: [{ $ref: '#/components/parameters/PetId' }],
+          put: {
+            operationId: 'updatePet',
+            summary: 'Update a pet',
+            requestBody: { $ref: '#/components/requestBodies/PetBody' }
+          }
+        }
+      }
+    };
+
+    const result = parseOpenAPIToSkills(spec);
+    const skill = result.skills[0];
+
+    expect(skill.parameters).toHaveLength(1);
+    expect(skill.parameters[0]).toMatchObject({ name: 'petId', in: 'path', required: true, type: 'string' });
+    expect(skill.requestBody).toMatchObject({ required: true, contentType: 'application/json' });
+    expect(skill.requestBody!.schema.properties.status.enum).toEqual(['available', 'sold']);
+    expect(skill.requestBody!.schema.$ref).toBeUndefined();
+  });
+
+  it('should let operation parameters override path-level parameters', () => {
+    const spec = {
+      openapi: '3.0.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: {
+        '/items': {
+          parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' }, description: 'Path level' }],
+          get: {
+            operationId: 'listItems',
+            parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' }, description: 'Operation level' }]
+          }
+        }
+      }
+    };
+
+    const result = parseOpenAPIToSkills(spec);
+
+    expect(result.skills[0].parameters).toHaveLength(1);
+    expect(result.skills[0].parameters[0].description).toBe('Operation level');
+  });
+});
+
+describe('skill-parser.ts - Swagger 2.0 Request Bodies', () => {
+  const okResponse = () => new Response(JSON.stringify({ ok: true }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+  beforeEach(() => {
+    globalThis.fetch = vi.fn() as any;
+  });
+
+  const swaggerSpec = (operation: any, extra: Record<string, any> = {}) => ({
+    swagger: '2.0',
+    info: { title: 'Legacy API', version: '1.0.0' },
+    host: 'api.legacy.com',
+    definitions: {
+      Pet: { type: 'object', required: ['name'], properties: { name: { type: 'string' }, tag: { type: 'string' } } }
+    },
+    ...extra,
+    paths: { '/pets': { post: { operationId: 'addPet', ...operation } } }
+  });
+
+  it('should convert an in: body parameter into a request body', () => {
+    const spec = swaggerSpec({
+      consumes: ['application/xml', 'application/json'],
+      parameters: [
+        { name: 'dryRun', in: 'query', type: 'boolean' },
+        { name: 'pet', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } }
+      ]
+    });
+
+    const skill = parseOpenAPIToSkills(spec).skills[0];
+
+    expect(skill.parameters.map(p => p.name)).toEqual(['dryRun']);
+    expect(skill.requestBody).toMatchObject({ required: true, contentType: 'application/json' });
+    expect(skill.requestBody!.schema.properties.name).toEqual({ type: 'string' });
+  });
+
+  it('should collect formData parameters into a url-encoded form body', () => {
+    const spec = swaggerSpec({
+      parameters: [
+        { name: 'name', in: 'formData', type: 'string', required: true, description: 'Pet name' },
+        { name: 'tags', in: 'formData', type: 'array', items: { type: 'string' } }
+      ]
+    }, { consumes: ['application/x-www-form-urlencoded'] });
+
+    const skill = parseOpenAPIToSkills(spec).skills[0];
+
+    expect(skill.parameters).toHaveLength(0);
+    expect(skill.requestBody).toEqual({
+      required: true,
+      contentType: 'application/x-www-form-urlencoded',
+      schema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Pet name' },
+          tags: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['name']
+      }
+    });
+  });
+
+  it('should use multipart for formData file parameters', () => {
+    const spec = swaggerSpec({
+      consumes: ['multipart/form-data'],
+      parameters: [{ name: 'photo', in: 'formData', type: 'file' }]
+    });
+
+    const skill = parseOpenAPIToSkills(spec).skills[0];
+
+    expect(skill.requestBody!.contentType).toBe('multipart/form-data');
+    expect(skill.requestBody!.schema.properties.photo).toMatchObject({ type: 'string', format: 'binary' });
+  });
+
+  it('should send url-encoded form bodies', async () => {
+    const skill = parseOpenAPIToSkills(swaggerSpec({
+      consumes: ['application/x-www-form-urlencoded'],
+      parameters: [
+        { name: 'name', in: 'formData', type: 'string' },
+        { name: 'tags', in: 'formData', type: 'array', items: { type: 'string' } }
+      ]
+    })).skills[0];
+
+    (globalThis.fetch as any).mockResolvedValueOnce(okResponse());
+
+    await executeSkill(skill, { body: { name: 'Rex & Co', tags: ['good', 'dog'] } });
+
+    const [url, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(url).toBe('https://api.legacy.com/pets');
+    expect(init.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+    expect(init.body).toBe('name=Rex+%26+Co&tags=good&tags=dog');
+  });
+
+  it('should send multipart bodies and leave the boundary to fetch', async () => {
+    const skill = parseOpenAPIToSkills(swaggerSpec({
+      consumes: ['multipart/form-data'],
+      parameters: [
+        { name: 'name', in: 'formData', type: 'string' },
+        { name: 'age', in: 'formData', type: 'integer' }
+      ]
+    })).skills[0];
+
+    (globalThis.fetch as any).mockResolvedValueOnce(okResponse());
+
+    await executeSkill(skill, { body: { name: 'Rex', age: 3 } });
+
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers['Content-Type']).toBeUndefined();
+    expect(init.body).toBeInstanceOf(FormData);
+    expect(init.body.get('name')).toBe('Rex');
+    expect(init.body.get('age')).toBe('3');
+  });
+});
+
+describe('skill-parser.ts - Request Encoding', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn(async () => new Response('{}', { status: 200, headers: { 'Content-Type': 'application/json' } })) as any;
+  });
+
+  const skillWithBody = (contentType: string, schema: any = { type: 'object' }): SkillDefinition => ({
+    name: 'createNote',
+    description: 'Create a note',
+    operationId: 'createNote',
+    method: 'POST',
+    path: '/notes',
+    baseUrl: 'https://api.notes.com',
+    parameters: [],
+    requestBody: { required: true, contentType, schema }
+  });
+
+  it('should encode the body using the declared content type and report the encoding', async () => {
+    const result = await executeSkill(skillWithBody('application/xml', { xml: { name: 'note' } }), { body: { text: 'hi' } });
+
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers['Content-Type']).toBe('application/xml');
+    expect(init.body).toBe('<note><text>hi</text></note>');
+    expect(result).toMatchObject({ success: true, encoding: 'xml' });
+  });
+
+  it('should send plain text bodies without JSON quoting', async () => {
+    await executeSkill(skillWithBody('text/plain', { type: 'string' }), { body: 'remember the milk' });
+
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers['Content-Type']).toBe('text/plain');
+    expect(init.body).toBe('remember the milk');
+  });
+
+  it('should send empty and falsy scalar bodies', async () => {
+    await executeSkill(skillWithBody('text/plain', { type: 'string' }), { body: '' });
+    await executeSkill(skillWithBody('application/json', { type: 'integer' }), { body: 0 });
+    await executeSkill(skillWithBody('application/json', { type: 'boolean' }), { body: false });
+
+    const bodies = (globalThis.fetch as any).mock.calls.map(([, init]: any) => init.body);
+    expect(bodies).toEqual(['', '0', 'false']);
+  });
+
+  it('should report invalid file data as a failed execution', async () => {
+    const schema = { type: 'object', properties: { file: { type: 'string', format: 'binary' } } };
+    const result = await executeSkill(skillWithBody('multipart/form-data', schema), { body: { file: '%%%' } });
+
+    expect(result).toEqual({ success: false, error: 'File field "file" must be base64-encoded' });
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('skill-parser.ts - Parameter Serialization', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn(async () => new Response('{}', { status: 200, headers: { 'Content-Type': 'application/json' } })) as any;
+  });
+
+  it('should capture style, explode and allowReserved from OpenAPI 3 parameters', () => {
+    const spec = {
+      openapi: '3.0.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: {
+        '/items/{ids}': {
+          get: {
+            operationId: 'getItems',
+            parameters: [
+              { name: 'ids', in: 'path', required: true, style: 'label', schema: { type: 'array', items: { type: 'integer' } } },
+              { name: 'filter', in: 'query', style: 'deepObject', explode: true, schema: { type: 'object' } },
+              { name: 'next', in: 'query', allowReserved: true, schema: { type: 'string' } },
+              { name: 'where', in: 'query', content: { 'application/json': { schema: { type: 'object' } } } }
+            ]
+          }
+        }
+      }
+    };
+
+    const [ids, filter, next, where] = parseOpenAPIToSkills(spec).skills[0].parameters;
+
+    expect(ids).toMatchObject({ style: 'label', type: 'array' });
+    expect(filter).toMatchObject({ style: 'deepObject', explode: true });
+    expect(next).toMatchObject({ allowReserved: true });
+    expect(where).toMatchObject({ contentType: 'application/json', type: 'object' });
+  });
+
+  it('should map Swagger 2.0 collectionFormat onto style and explode', () => {
+    const spec = {
+      swagger: '2.0',
+      info: { title: 'Legacy API', version: '1.0.0' },
+      paths: {
+        '/items': {
+          get: {
+            operationId: 'listItems',
+            parameters: [
+              { name: 'ids', in: 'query', type: 'array', items: { type: 'integer' } },
+              { name: 'tags', in: 'query', type: 'array', collectionFormat: 'pipes', items: { type: 'string' } },
+              { name: 'ref', in: 'query', type: 'array', collectionFormat: 'multi', items: { type: 'string' } }
+            ]
+          }
+        }
+      }
+    };
+
+    const [ids, tags, ref] = parseOpenAPIToSkills(spec).skills[0].parameters;
+
+    expect(ids).toMatchObject({ explode: false });
+    expect(tags).toMatchObject({ style: 'pipeDelimited', explode: false });
+    expect(ref).toMatchObject({ style: 'form', explode: true });
+  });
+
+  it('should serialize arrays, objects and falsy values when executing', async () => {
+    const skill: SkillDefinition = {
+      name: 'search',
+      description: 'Search',
+      operationId: 'search',
+      method: 'GET',
+      path: '/users/{ids}/posts',
+      baseUrl: 'https://api.test.com',
+      parameters: [
+        { name: 'ids', in: 'path', type: 'array', required: true },
+        { name: 'tags', in: 'query', type: 'array', required: false },
+        { name: 'filter', in: 'query', type: 'object', required: false, style: 'deepObject', explode: true },
+        { name: 'page', in: 'query', type: 'integer', required: false },
+        { name: 'archived', in: 'query', type: 'boolean', required: false },
+        { name: 'where', in: 'query', type: 'object', required: false, contentType: 'application/json' },
+        { name: 'X-Trace', in: 'header', type: 'array', required: false },
+        { name: 'session', in: 'cookie', type: 'string', required: false }
+      ]
+    };
+
+    await executeSkill(skill, {
+      ids: [1, 2],
+      tags: ['a', 'b'],
+      filter: { status: 'open' },
+      page: 0,
+      archived: false,
+      where: { id: 1 },
+      'X-Trace': ['x', 'y'],
+      session: 'abc'
+    });
+
+    const [url, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(url).toBe('https://api.test.com/users/1,2/posts?tags=a&tags=b&filter[status]=open&page=0&archived=false&where=%7B%22id%22%3A1%7D');
+    expect(init.headers['X-Trace']).toBe('x,y');
+    expect(init.headers['Cookie']).toBe('session=abc');
+  });
+});
+
+describe('skill-parser.ts - Servers', () => {
+  const spec = {
+    openapi: '3.0.0',
+    info: { title: 'Regional API', version: '1.0.0' },
+    servers: [
+      {
+        url: 'https://{region}.api.example.com/{basePath}',
+        description: 'Production',
+        variables: { region: { default: 'us', enum: ['us', 'eu'] }, basePath: { default: 'v1' } }
+      },
+      { url: '/sandbox/', description: 'Sandbox' }
+    ],
+    paths: {
+      '/pets': {
+        get: { operationId: 'listPets' }
+      },
+      '/uploads': {
+        servers: [{ url: 'https://uploads.example.com' }],
+        post: { operationId: 'upload' },
+        put: { operationId: 'replaceUpload', servers: [{ url: 'https://replace.example.com/' }] }
+      }
+    }
+  };
+
+  it('should capture every server and substitute variable defaults', () => {
+    const result = parseOpenAPIToSkills(spec);
+
+    expect(result.baseUrl).toBe('https://us.api.example.com/v1');
+    expect(result.servers).toHaveLength(2);
+    expect(result.servers[0].variables!.region).toEqual({ default: 'us', enum: ['us', 'eu'] });
+    expect(result.servers[1]).toEqual({ url: '/sandbox/', description: 'Sandbox' });
+  });
+
+  it('should apply path- and operation-level server overrides', () => {
+    const [listPets, upload, replaceUpload] = parseOpenAPIToSkills(spec).skills;
+
+    expect(listPets.baseUrl).toBe('https://us.api.example.com/v1');
+    expect(listPets.servers).toBeUndefined();
+    expect(upload.baseUrl).toBe('https://uploads.example.com');
+    expect(replaceUpload.baseUrl).toBe('https://replace.example.com');
+  });
+
+  it('should resolve relative server URLs against the spec location', () => {
+    const relative = { ...spec, servers: [{ url: '/sandbox/' }] };
+
+    expect(parseOpenAPIToSkills(relative, { specUrl: 'https://docs.example.com/specs/openapi.json' }).baseUrl)
+      .toBe('https://docs.example.com/sandbox');
+    expect(parseOpenAPIToSkills({ ...spec, servers: [{ url: 'v2' }] }, { specUrl: 'https://docs.example.com/specs/openapi.json' }).baseUrl)
+      .toBe('https://docs.example.com/specs/v2');
+  });
+
+  it('should describe one Swagger 2.0 server per scheme', () => {
+    const result = parseOpenAPIToSkills({
+      swagger: '2.0',
+      info: { title: 'Legacy API', version: '1.0.0' },
+      host: 'api.legacy.com',
+      basePath: '/v1',
+      schemes: ['https', 'http'],
+      paths: {}
+    });
+
+    expect(result.servers.map(server => server.url)).toEqual(['https://api.legacy.com/v1', 'http://api.legacy.com/v1']);
+  });
+});
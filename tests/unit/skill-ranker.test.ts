@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, rankSkills, selectRelevantSkills } from '../../workers/skill-ranker';
+
+const skill = (name: string, description: string, path: string, apiName: string) => ({ name, description, path, apiName, parameters: [] });
+
+const skills = [
+    skill('getCurrentWeather', 'Current conditions for a city', '/weather/current', 'Weather API'),
+    skill('getForecast', 'Five day forecast for a city', '/weather/forecast', 'Weather API'),
+    skill('listPets', 'List all pets in the store', '/pets', 'Petstore'),
+    skill('deletePet', 'Delete a pet by ID', '/pets/{petId}', 'Petstore'),
+    skill('createIssue', 'Open a new issue in a repository', '/repos/{owner}/{repo}/issues', 'GitHub')
+];
+
+describe('tokenize', () => {
+    it('splits identifiers, drops stopwords and folds plurals', () => {
+        expect(tokenize('getPetById from the /pets/{petId} endpoint')).toEqual(['get', 'pet', 'id', 'pet', 'pet', 'id', 'endpoint']);
+        expect(tokenize('Hello there, please list entries')).toEqual(['there', 'list', 'entry']);
+    });
+});
+
+describe('rankSkills', () => {
+    it('ranks skills by relevance to the message', () => {
+        const ranked = rankSkills(skills, "What's the forecast for Paris this week?");
+        expect(ranked[0].skill.name).toBe('getForecast');
+        expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+    });
+
+    it('uses recent user turns to resolve follow-up messages', () => {
+        const ranked = rankSkills(skills, 'now delete it', ['show me the pets in the store']);
+        expect(ranked[0].skill.name).toBe('deletePet');
+        expect(ranked[1].skill.name).toBe('listPets');
+    });
+});
+
+describe('selectRelevantSkills', () => {
+    it('offers nothing for small talk', () => {
+        expect(selectRelevantSkills(skills, 'hi, how are you?')).toEqual([]);
+    });
+
+    it('caps the number of offered skills', () => {
+        const many = Array.from({ length: 20 }, (_, i) => skill(`getPet${i}`, 'Get a pet', `/pets/${i}`, 'Petstore'));
+        expect(selectRelevantSkills(many, 'get a pet', [], 5)).toHaveLength(5);
+    });
+
+    it('matches skills by API name', () => {
+        const selected = selectRelevantSkills(skills, 'open something on github');
+        expect(selected.map(s => s.name)).toEqual(['createIssue']);
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { validateSkillArguments, formatValidationErrors } from '../../workers/skill-validator';
+import type { SkillDefinition } from '../../workers/durable_objects/SkillRegistry';
+
+const getPet: SkillDefinition = {
+  name: 'getPetById',
+  description: 'Get pet by ID',
+  operationId: 'getPetById',
+  method: 'GET',
+  path: '/pets/{petId}',
+  baseUrl: 'https://api.petstore.com',
+  parameters: [
+    { name: 'petId', in: 'path', type: 'integer', required: true },
+    { name: 'verbose', in: 'query', type: 'boolean', required: false },
+    { name: 'tags', in: 'query', type: 'array', required: false, schema: { type: 'array', items: { type: 'string' } } }
+  ]
+};
+
+const createPet: SkillDefinition = {
+  name: 'createPet',
+  description: 'Create pet',
+  operationId: 'createPet',
+  method: 'POST',
+  path: '/pets',
+  baseUrl: 'https://api.petstore.com',
+  parameters: [],
+  requestBody: {
+    required: true,
+    contentType: 'application/json',
+    schema: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer' },
+        status: { type: 'string', enum: ['available', 'sold'] }
+      }
+    }
+  }
+};
+
+describe('skill-validator.ts - validateSkillArguments', () => {
+  it('should report missing required path parameters', () => {
+    const result = validateSkillArguments(getPet, {});
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      { field: 'petId', message: 'Missing required path parameter "petId"' }
+    ]);
+  });
+
+  it('should coerce obvious scalar types', () => {
+    const result = validateSkillArguments(getPet, { petId: '5', verbose: 'true', tags: 'a, b' });
+
+    expect(result.valid).toBe(true);
+    expect(result.args).toEqual({ petId: 5, verbose: true, tags: ['a', 'b'] });
+  });
+
+  it('should reject values that cannot be coerced', () => {
+    const result = validateSkillArguments(getPet, { petId: 'rex' });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].field).toBe('petId');
+    expect(result.errors[0].message).toContain('Expected integer');
+  });
+
+  it('should validate request body fields, enums and nested coercion', () => {
+    const result = validateSkillArguments(createPet, { body: { age: '3', status: 'lost' } });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      { field: 'body.name', message: 'Missing required field' },
+      { field: 'body.status', message: 'Must be one of: "available", "sold"' }
+    ]);
+  });
+
+  it('should gather top-level fields into the body', () => {
+    const result = validateSkillArguments(createPet, { name: 'Rex', age: '4' });
+
+    expect(result.valid).toBe(true);
+    expect(result.args).toEqual({ body: { name: 'Rex', age: 4 } });
+  });
+
+  it('should parse a JSON string body', () => {
+    const result = validateSkillArguments(createPet, { body: '{"name":"Rex"}' });
+
+    expect(result.valid).toBe(true);
+    expect(result.args.body).toEqual({ name: 'Rex' });
+  });
+
+  it('should require a required body', () => {
+    const result = validateSkillArguments(createPet, {});
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([{ field: 'body', message: 'Missing required request body' }]);
+  });
+
+  it('should apply fixed parameter values over the model arguments', () => {
+    const result = validateSkillArguments({ ...getPet, fixedParameters: { petId: '7' } }, { petId: 1, verbose: 'false' });
+
+    expect(result.valid).toBe(true);
+    expect(result.args).toEqual({ petId: 7, verbose: false });
+  });
+});
+
+describe('skill-validator.ts - formatValidationErrors', () => {
+  it('should produce a structured JSON payload for the model', () => {
+    const payload = JSON.parse(formatValidationErrors('getPetById', [{ field: 'petId', message: 'Missing' }]));
+
+    expect(payload).toMatchObject({
+      error: 'invalid_arguments',
+      skill: 'getPetById',
+      issues: [{ field: 'petId', message: 'Missing' }]
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SkillRegistry, type SkillDefinition } from '../../workers/durable_objects/SkillRegistry';
 
 class MockStorage {
@@ -16,6 +16,16 @@ class MockStorage {
         this.store.delete(key);
     }
 
+    alarm: number | null = null;
+
+    async setAlarm(time: number) {
+        this.alarm = time;
+    }
+
+    async deleteAlarm() {
+        this.alarm = null;
+    }
+
     async list<T>(options?: { prefix?: string }): Promise<Map<string, T>> {
         const entries = Array.from(this.store.entries()) as Array<[string, T]>;
         if (!options?.prefix) {
@@ -563,6 +573,689 @@ describe('SkillRegistry Durable Object', () => {
         });
     });
 
+    describe('POST /set-policy - Approval Policy', () => {
+        const register = (body: Record<string, any> = {}) => registry.fetch(new Request('http://internal/register', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({
+                apiName: 'Pets',
+                baseUrl: 'https://api.test.com',
+                skills: [createSkill('listPets', 'List pets')],
+                ...body
+            })
+        }));
+
+        const listPolicy = async () => {
+            const res = await registry.fetch(new Request('http://internal/list', { headers: { 'X-User-ID': 'user123' } }));
+            return (await jsonResponse(res)).apis[0].approvalPolicy;
+        };
+
+        it('should default to asking before mutating calls', async () => {
+            await register();
+            expect(await listPolicy()).toBe('always_ask');
+        });
+
+        it('should update the policy and keep it across re-registration', async () => {
+            await register();
+            const response = await registry.fetch(new Request('http://internal/set-policy', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+                body: JSON.stringify({ apiName: 'Pets', approvalPolicy: 'never_allow' })
+            }));
+            expect(response.status).toBe(200);
+
+            await register();
+            expect(await listPolicy()).toBe('never_allow');
+        });
+
+        it('should reject unknown policies', async () => {
+            const response = await register({ approvalPolicy: 'sometimes' });
+            expect(response.status).toBe(400);
+        });
+
+        it('should return 404 for unknown APIs', async () => {
+            const response = await registry.fetch(new Request('http://internal/set-policy', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+                body: JSON.stringify({ apiName: 'Missing', approvalPolicy: 'always_allow' })
+            }));
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe('POST /set-rate-limit - Rate Limits', () => {
+        const register = () => registry.fetch(new Request('http://internal/register', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({
+                apiName: 'Pets',
+                baseUrl: 'https://api.test.com',
+                skills: [createSkill('listPets', 'List pets')]
+            })
+        }));
+
+        const setRateLimit = (body: Record<string, any>) => registry.fetch(new Request('http://internal/set-rate-limit', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({ apiName: 'Pets', ...body })
+        }));
+
+        const listLimits = async () => {
+            const res = await registry.fetch(new Request('http://internal/list', { headers: { 'X-User-ID': 'user123' } }));
+            const [api] = (await jsonResponse(res)).apis;
+            return { rateLimit: api.rateLimit, skillRateLimit: api.skillRateLimit };
+        };
+
+        it('should report the default API limit until one is set', async () => {
+            await register();
+            expect(await listLimits()).toEqual({ rateLimit: { requestsPerMinute: 60, burst: 20 }, skillRateLimit: null });
+        });
+
+        it('should set limits, keep them across re-registration and clear them with null', async () => {
+            await register();
+            const response = await setRateLimit({ rateLimit: { requestsPerMinute: 10 }, skillRateLimit: { requestsPerMinute: 2, burst: 1 } });
+            expect(response.status).toBe(200);
+
+            await register();
+            expect(await listLimits()).toEqual({
+                rateLimit: { requestsPerMinute: 10 },
+                skillRateLimit: { requestsPerMinute: 2, burst: 1 }
+            });
+
+            await setRateLimit({ skillRateLimit: null });
+            expect(await listLimits()).toEqual({ rateLimit: { requestsPerMinute: 10 }, skillRateLimit: null });
+        });
+
+        it('should reject invalid limits', async () => {
+            await register();
+            expect((await setRateLimit({ rateLimit: { requestsPerMinute: 0 } })).status).toBe(400);
+            expect((await setRateLimit({ rateLimit: { requestsPerMinute: 5, burst: 1.5 } })).status).toBe(400);
+            expect((await setRateLimit({ apiName: 'Missing', rateLimit: { requestsPerMinute: 5 } })).status).toBe(404);
+        });
+    });
+
+    describe('POST /set-execution-policy - Timeouts, Retries and Circuit Breaker', () => {
+        const register = () => registry.fetch(new Request('http://internal/register', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({
+                apiName: 'Pets',
+                baseUrl: 'https://api.test.com',
+                skills: [createSkill('listPets', 'List pets')]
+            })
+        }));
+
+        const setExecutionPolicy = (body: Record<string, any>) => registry.fetch(new Request('http://internal/set-execution-policy', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({ apiName: 'Pets', ...body })
+        }));
+
+        const listPolicy = async () => {
+            const res = await registry.fetch(new Request('http://internal/list', { headers: { 'X-User-ID': 'user123' } }));
+            return (await jsonResponse(res)).apis[0].executionPolicy;
+        };
+
+        const defaults = { timeoutMs: 15000, maxRetries: 2, retryBaseDelayMs: 500, failureThreshold: 5, cooldownSeconds: 60 };
+
+        it('should merge given fields over the defaults and keep them across re-registration', async () => {
+            await register();
+            expect(await listPolicy()).toEqual(defaults);
+
+            await setExecutionPolicy({ executionPolicy: { timeoutMs: 5000 } });
+            const response = await setExecutionPolicy({ executionPolicy: { maxRetries: 0 } });
+            expect((await jsonResponse(response)).executionPolicy).toEqual({ ...defaults, timeoutMs: 5000, maxRetries: 0 });
+
+            await register();
+            expect(await listPolicy()).toEqual({ ...defaults, timeoutMs: 5000, maxRetries: 0 });
+
+            await setExecutionPolicy({ executionPolicy: null });
+            expect(await listPolicy()).toEqual(defaults);
+        });
+
+        it('should reject unknown and out-of-range fields', async () => {
+            await register();
+            expect((await setExecutionPolicy({ executionPolicy: { timeoutMs: 50 } })).status).toBe(400);
+            expect((await setExecutionPolicy({ executionPolicy: { maxRetries: 1.5 } })).status).toBe(400);
+            expect((await setExecutionPolicy({ executionPolicy: { retries: 1 } })).status).toBe(400);
+            expect((await setExecutionPolicy({ apiName: 'Missing', executionPolicy: { maxRetries: 1 } })).status).toBe(404);
+        });
+    });
+
+    describe('POST /set-server - Active Server', () => {
+        const servers = [
+            { url: 'https://api.example.com/v1', description: 'Production' },
+            {
+                url: 'https://{region}.sandbox.example.com/{version}',
+                description: 'Sandbox',
+                variables: { region: { default: 'us', enum: ['us', 'eu'] }, version: { default: 'v1' } }
+            }
+        ];
+
+        const register = () => registry.fetch(new Request('http://internal/register', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({
+                apiName: 'Pets',
+                baseUrl: 'https://api.example.com/v1',
+                servers,
+                skills: [
+                    createSkill('listPets', 'List pets'),
+                    { ...createSkill('uploadPhoto', 'Upload a photo'), servers: [{ url: 'https://{region}.uploads.example.com' }] }
+                ]
+            })
+        }));
+
+        const setServer = (body: Record<string, any>) => registry.fetch(new Request('http://internal/set-server', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({ apiName: 'Pets', ...body })
+        }));
+
+        it('should switch servers, substitute variables and keep the choice across re-registration', async () => {
+            await register();
+
+            const response = await setServer({ serverIndex: 1, variables: { region: 'eu' } });
+            expect(response.status).toBe(200);
+            expect(await jsonResponse(response)).toMatchObject({
+                activeServer: 1,
+                baseUrl: 'https://eu.sandbox.example.com/v1',
+                serverVariables: { region: 'eu' }
+            });
+
+            await register();
+            const list = await jsonResponse(await registry.fetch(new Request('http://internal/list', { headers: { 'X-User-ID': 'user123' } })));
+            expect(list.apis[0]).toMatchObject({ activeServer: 1, baseUrl: 'https://eu.sandbox.example.com/v1' });
+            expect(list.apis[0].servers).toHaveLength(2);
+
+            const skills = await jsonResponse(await registry.fetch(new Request('http://internal/get-skills', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+                body: JSON.stringify({})
+            })));
+            expect(skills.apis.Pets.skills[1].baseUrl).toBe('https://eu.uploads.example.com');
+        });
+
+        it('should pick skill-level servers by the active server index', async () => {
+            await registry.fetch(new Request('http://internal/register', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+                body: JSON.stringify({
+                    apiName: 'Pets',
+                    baseUrl: 'https://api.example.com/v1',
+                    servers,
+                    skills: [
+                        {
+                            ...createSkill('uploadPhoto', 'Upload a photo'),
+                            servers: [{ url: 'https://uploads.example.com' }, { url: 'https://{region}.uploads.sandbox.example.com' }]
+                        },
+                        { ...createSkill('exportPets', 'Export pets'), servers: [{ url: 'https://exports.example.com' }] }
+                    ]
+                })
+            }));
+            await setServer({ serverIndex: 1, variables: { region: 'eu' } });
+
+            const skills = await jsonResponse(await registry.fetch(new Request('http://internal/get-skills', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+                body: JSON.stringify({})
+            })));
+            expect(skills.apis.Pets.skills[0].baseUrl).toBe('https://eu.uploads.sandbox.example.com');
+            expect(skills.apis.Pets.skills[1].baseUrl).toBe('https://exports.example.com');
+        });
+
+        it('should reject unknown servers and variable values', async () => {
+            await register();
+
+            expect((await setServer({ serverIndex: 5 })).status).toBe(400);
+            expect((await setServer({ serverIndex: 1, variables: { region: 'mars' } })).status).toBe(400);
+            expect((await setServer({ serverIndex: 0, variables: { region: 'eu' } })).status).toBe(400);
+        });
+
+        it('should return 404 for unknown APIs', async () => {
+            const response = await setServer({ apiName: 'Missing', serverIndex: 0 });
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe('POST /sync - Spec URL Re-sync', () => {
+        const specUrl = 'https://docs.example.com/openapi.json';
+        const specWith = (operations: Record<string, any>) => ({
+            openapi: '3.0.0',
+            info: { title: 'Pets', version: '2.0.0' },
+            servers: [{ url: 'https://api.example.com' }],
+            paths: Object.fromEntries(Object.entries(operations).map(([path, operationId]) => [path, { get: { operationId } }]))
+        });
+
+        const register = (body: Record<string, any> = {}) => registry.fetch(new Request('http://internal/register', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({
+                apiName: 'Pets',
+                baseUrl: 'https://api.example.com',
+                skills: [createSkill('listPets', 'List pets'), createSkill('deletePet', 'Delete pet')],
+                specUrl,
+                specEtag: '"v1"',
+                ...body
+            })
+        }));
+
+        const sync = (body: Record<string, any> = {}) => registry.fetch(new Request('http://internal/sync', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({ apiName: 'Pets', ...body })
+        }));
+
+        const listApi = async () => (await jsonResponse(await registry.fetch(new Request('http://internal/list', {
+            headers: { 'X-User-ID': 'user123' }
+        })))).apis[0];
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        it('should diff the refreshed spec and replace the skills', async () => {
+            await register({ approvalPolicy: 'always_allow' });
+            const fetchMock = vi.fn(async () => new Response(JSON.stringify(specWith({ '/listPets': 'listPets', '/pets': 'createPet' })), {
+                status: 200,
+                headers: { ETag: '"v2"' }
+            }));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const response = await sync();
+            const result = await jsonResponse(response);
+
+            expect((fetchMock.mock.calls[0] as any[])[1].headers['If-None-Match']).toBe('"v1"');
+            expect(result).toMatchObject({
+                status: 'updated',
+                etag: '"v2"',
+                diff: { added: ['createPet'], removed: ['deletePet'], changed: ['listPets'] }
+            });
+
+            const api = await listApi();
+            expect(api.skillNames).toEqual(['listPets', 'createPet']);
+            expect(api.approvalPolicy).toBe('always_allow');
+            expect(api.lastSyncDiff.added).toEqual(['createPet']);
+        });
+
+        it('should preview the diff without replacing skills on a dry run', async () => {
+            await register();
+            vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(specWith({ '/pets': 'createPet' })), { status: 200 })));
+
+            const result = await jsonResponse(await sync({ dryRun: true }));
+
+            expect(result).toMatchObject({ status: 'preview', diff: { added: ['createPet'], removed: ['listPets', 'deletePet'] } });
+            expect((await listApi()).skillNames).toEqual(['listPets', 'deletePet']);
+        });
+
+        it('should keep the skills when the spec has not changed', async () => {
+            await register();
+            vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 304 })));
+
+            const result = await jsonResponse(await sync());
+
+            expect(result).toMatchObject({ status: 'unchanged', diff: { added: [], removed: [], changed: [] } });
+        });
+
+        it('should report fetch failures and APIs without a spec URL', async () => {
+            await register();
+            vi.stubGlobal('fetch', vi.fn(async () => new Response('gone', { status: 410 })));
+            expect((await sync()).status).toBe(502);
+
+            await register({ specUrl: undefined });
+            expect((await sync()).status).toBe(400);
+            expect((await sync({ apiName: 'Missing' })).status).toBe(404);
+        });
+
+        it('should schedule re-syncs and run them from the alarm', async () => {
+            await register({ syncIntervalHours: 24 });
+            const storage = (registry as any).state.storage as MockStorage;
+            expect(storage.alarm).toBeGreaterThan(Date.now());
+
+            vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(specWith({ '/pets': 'createPet' })), { status: 200 })));
+            await storage.put('syncSchedule', { [JSON.stringify(['user123', 'Pets'])]: Date.now() - 1 });
+            await registry.alarm();
+
+            const api = await listApi();
+            expect(api.skillNames).toEqual(['createPet']);
+            expect(api.syncIntervalHours).toBe(24);
+            expect(storage.alarm).toBeGreaterThan(Date.now());
+        });
+
+        it('should record alarm failures on the API and stop scheduling deleted APIs', async () => {
+            await register({ syncIntervalHours: 1 });
+            const storage = (registry as any).state.storage as MockStorage;
+            vi.stubGlobal('fetch', vi.fn(async () => new Response('down', { status: 503 })));
+            await storage.put('syncSchedule', { [JSON.stringify(['user123', 'Pets'])]: Date.now() - 1 });
+
+            await registry.alarm();
+            expect((await listApi()).lastSyncError).toContain('HTTP 503');
+
+            await registry.fetch(new Request('http://internal/delete', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+                body: JSON.stringify({ apiName: 'Pets' })
+            }));
+            expect(storage.alarm).toBeNull();
+        });
+
+        it('should reject invalid sync intervals', async () => {
+            expect((await register({ syncIntervalHours: 0 })).status).toBe(400);
+        });
+    });
+
+    describe('POST /update-skill - Skill Curation', () => {
+        const register = (skills: SkillDefinition[]) => registry.fetch(new Request('http://internal/register', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({ apiName: 'Admin', baseUrl: 'https://api.test.com', skills })
+        }));
+
+        const update = (body: Record<string, any>) => registry.fetch(new Request('http://internal/update-skill', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({ apiName: 'Admin', ...body })
+        }));
+
+        const storedSkills = async () => (await jsonResponse(await registry.fetch(new Request('http://internal/get-skills', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({ apiName: 'Admin' })
+        })))).skills as SkillDefinition[];
+
+        const listUsers: SkillDefinition = {
+            ...createSkill('listUsers', 'List users'),
+            path: '/orgs/{orgId}/users',
+            parameters: [{ name: 'orgId', in: 'path', type: 'string', required: true }]
+        };
+
+        it('should disable, rename and describe a skill and fix parameter values', async () => {
+            await register([listUsers, createSkill('dropDatabase', 'Drop the database')]);
+
+            expect((await update({ skillName: 'dropDatabase', enabled: false })).status).toBe(200);
+            const response = await update({
+                skillName: 'listUsers',
+                customName: 'findTeammates',
+                customDescription: 'Find people in my organization',
+                fixedParameters: { orgId: 'acme' }
+            });
+            const result = await jsonResponse(response);
+
+            expect(response.status).toBe(200);
+            expect(result.skill).toMatchObject({ name: 'listUsers', customName: 'findTeammates', enabled: true, fixedParameters: { orgId: 'acme' } });
+
+            const [users, drop] = await storedSkills();
+            expect(users.customDescription).toBe('Find people in my organization');
+            expect(drop.enabled).toBe(false);
+        });
+
+        it('should clear customizations with null values', async () => {
+            await register([listUsers]);
+            await update({ skillName: 'listUsers', customName: 'findTeammates', fixedParameters: { orgId: 'acme' } });
+            await update({ skillName: 'listUsers', customName: null, fixedParameters: null });
+
+            const [users] = await storedSkills();
+            expect(users.customName).toBeUndefined();
+            expect(users.fixedParameters).toBeUndefined();
+        });
+
+        it('should keep curation when the API is registered again', async () => {
+            await register([listUsers, createSkill('dropDatabase', 'Drop the database')]);
+            await update({ skillName: 'dropDatabase', enabled: false });
+            await update({ skillName: 'listUsers', fixedParameters: { orgId: 'acme' } });
+
+            await register([{ ...listUsers, description: 'List all users' }, createSkill('dropDatabase', 'Drop the database')]);
+
+            const [users, drop] = await storedSkills();
+            expect(users.description).toBe('List all users');
+            expect(users.fixedParameters).toEqual({ orgId: 'acme' });
+            expect(drop.enabled).toBe(false);
+        });
+
+        it('should reject invalid changes', async () => {
+            await register([listUsers, createSkill('getUser', 'Get user')]);
+
+            expect((await update({ skillName: 'listUsers', customName: 'has spaces' })).status).toBe(400);
+            expect((await update({ skillName: 'listUsers', enabled: 'no' })).status).toBe(400);
+            expect((await update({ skillName: 'listUsers', fixedParameters: { missing: 1 } })).status).toBe(400);
+            expect((await update({ skillName: 'listUsers', customName: 'getUser' })).status).toBe(409);
+            expect((await update({ skillName: 'unknown', enabled: false })).status).toBe(404);
+        });
+    });
+
+    describe('Storage Layout and Migration', () => {
+        const list = async (target: SkillRegistry, userId = 'user123') => jsonResponse(await target.fetch(new Request('http://internal/list', {
+            headers: { 'X-User-ID': userId }
+        })));
+
+        const legacyBlob = {
+            userId: 'user123',
+            apis: {
+                Pets: {
+                    apiName: 'Pets',
+                    baseUrl: 'https://api.test.com',
+                    skills: [createSkill('listPets', 'List pets'), createSkill('getPet', 'Get pet')],
+                    registeredAt: '2024-01-01T00:00:00.000Z',
+                    syncIntervalHours: 6,
+                    specUrl: 'https://api.test.com/openapi.json'
+                }
+            }
+        };
+
+        it('should store each API and skill under its own key', async () => {
+            await registry.fetch(new Request('http://internal/register', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+                body: JSON.stringify({
+                    apiName: 'Pets',
+                    baseUrl: 'https://api.test.com',
+                    skills: Array.from({ length: 12 }, (_, i) => createSkill(`op${i}`, `Operation ${i}`))
+                })
+            }));
+
+            const storage = (registry as any).state.storage as MockStorage;
+            expect(await storage.get('user:user123')).toBeUndefined();
+            expect(await storage.get('apis:["user123"]')).toEqual(['Pets']);
+            expect(await storage.get('api:["user123","Pets"]')).toMatchObject({ apiName: 'Pets', skillCount: 12 });
+            expect((await storage.list({ prefix: 'skill:["user123","Pets",' })).size).toBe(12);
+
+            // Keys sort lexicographically, so order must come from the stored index
+            expect((await list(registry)).apis[0].skillNames.slice(0, 3)).toEqual(['op0', 'op1', 'op2']);
+
+            await registry.fetch(new Request('http://internal/register', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+                body: JSON.stringify({ apiName: 'Pets', baseUrl: 'https://api.test.com', skills: [createSkill('op0', 'Operation 0')] })
+            }));
+            expect((await storage.list({ prefix: 'skill:["user123","Pets",' })).size).toBe(1);
+        });
+
+        it('should split a legacy per-user record on first read', async () => {
+            const storage = (registry as any).state.storage as MockStorage;
+            await storage.put('user:user123', legacyBlob);
+
+            const result = await list(registry);
+            expect(result.apis[0]).toMatchObject({ apiName: 'Pets', skillNames: ['listPets', 'getPet'] });
+            expect(await storage.get('user:user123')).toBeUndefined();
+            expect(storage.alarm).not.toBeNull();
+        });
+
+        it('should move a user out of the shared registry into their own', async () => {
+            const legacyState = { storage: new MockStorage(), id: { toString: () => 'global' } };
+            const legacy = new SkillRegistry(legacyState as any);
+            await legacyState.storage.put('user:user123', legacyBlob);
+            await legacyState.storage.put('user:someone-else', { ...legacyBlob, userId: 'someone-else' });
+
+            // Give the legacy API a version so its content travels too
+            await legacy.fetch(new Request('http://internal/versions?apiName=Pets', { headers: { 'X-User-ID': 'user123' } }));
+
+            const namespace = {
+                idFromName: (name: string) => ({ toString: () => name }),
+                get: () => ({ fetch: (url: string, init?: RequestInit) => legacy.fetch(new Request(url, init)) })
+            };
+            const shardState = { storage: new MockStorage(), id: { toString: () => 'user:user123' } };
+            const shard = new SkillRegistry(shardState as any, { SKILL_REGISTRY: namespace as any });
+
+            expect((await list(shard)).apis[0]).toMatchObject({ apiName: 'Pets', skillNames: ['listPets', 'getPet'], currentVersion: 1 });
+            const versions = await jsonResponse(await shard.fetch(new Request('http://internal/versions?apiName=Pets', {
+                headers: { 'X-User-ID': 'user123' }
+            })));
+            expect(versions.versions).toHaveLength(1);
+            expect(await (shard as any).loadVersion('user123', 'Pets', 1)).toMatchObject({ skills: [{ name: 'listPets' }, { name: 'getPet' }] });
+
+            // The shared registry keeps other users and forgets this one
+            expect((await list(legacy)).apis).toEqual([]);
+            expect((await list(legacy, 'someone-else')).apis).toHaveLength(1);
+            expect((await legacyState.storage.list({ prefix: 'version' })).size).toBe(0);
+        });
+
+        it('should keep a user in the shared registry until their shard has stored everything', async () => {
+            const legacyState = { storage: new MockStorage(), id: { toString: () => 'global' } };
+            const legacy = new SkillRegistry(legacyState as any);
+            await legacyState.storage.put('user:user123', legacyBlob);
+
+            const namespace = {
+                idFromName: (name: string) => ({ toString: () => name }),
+                get: () => ({ fetch: (url: string, init?: RequestInit) => legacy.fetch(new Request(url, init)) })
+            };
+            const shardState = { storage: new MockStorage(), id: { toString: () => 'user:user123' } };
+            const shard = new SkillRegistry(shardState as any, { SKILL_REGISTRY: namespace as any });
+
+            const put = shardState.storage.put.bind(shardState.storage);
+            const failingPut = vi.spyOn(shardState.storage, 'put').mockImplementation(async (key: string, value: any) => {
+                if (key.startsWith('skill:')) {
+                    throw new Error('Storage unavailable');
+                }
+                return put(key, value);
+            });
+
+            expect((await shard.fetch(new Request('http://internal/list', { headers: { 'X-User-ID': 'user123' } }))).status).toBe(500);
+            expect(await shardState.storage.get('apis:["user123"]')).toBeUndefined();
+            expect((await list(legacy)).apis).toHaveLength(1);
+
+            failingPut.mockRestore();
+            expect((await list(shard)).apis[0]).toMatchObject({ apiName: 'Pets', skillNames: ['listPets', 'getPet'] });
+            expect((await list(legacy)).apis).toEqual([]);
+        });
+    });
+
+    describe('Skill Set Versions', () => {
+        const register = (skills: SkillDefinition[]) => registry.fetch(new Request('http://internal/register', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({ apiName: 'Pets', baseUrl: 'https://api.test.com', skills })
+        }));
+
+        const post = (path: string, body: Record<string, any>) => registry.fetch(new Request(`http://internal/${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': 'user123' },
+            body: JSON.stringify({ apiName: 'Pets', ...body })
+        }));
+
+        const listVersions = async () => jsonResponse(await registry.fetch(new Request('http://internal/versions?apiName=Pets', {
+            headers: { 'X-User-ID': 'user123' }
+        })));
+
+        const skillNames = async () => (await jsonResponse(await registry.fetch(new Request('http://internal/list', {
+            headers: { 'X-User-ID': 'user123' }
+        })))).apis[0].skillNames;
+
+        const v1 = [createSkill('listPets', 'List pets'), createSkill('getPet', 'Get pet')];
+        const v2 = [createSkill('listPets', 'List all pets'), createSkill('createPet', 'Create pet')];
+
+        it('should store each registration as a version with a hash and diff', async () => {
+            expect((await jsonResponse(await register(v1))).version).toBe(1);
+            expect((await jsonResponse(await register(v2))).version).toBe(2);
+
+            const result = await listVersions();
+            expect(result.currentVersion).toBe(2);
+            expect(result.versions.map((entry: any) => entry.version)).toEqual([2, 1]);
+            expect(result.versions[0]).toMatchObject({
+                source: 'register',
+                skillCount: 2,
+                diff: { added: ['createPet'], removed: ['getPet'], changed: ['listPets'] }
+            });
+            expect(result.versions[0].hash).toMatch(/^[0-9a-f]{64}$/);
+            expect(result.versions[0].registeredAt).toBeDefined();
+        });
+
+        it('should not create a new version when the same skill set is registered again', async () => {
+            await register(v1);
+            expect((await jsonResponse(await register(v1))).version).toBe(1);
+            expect((await listVersions()).versions).toHaveLength(1);
+        });
+
+        it('should roll back to an earlier version', async () => {
+            await register(v1);
+            await register(v2);
+
+            const response = await post('rollback', { version: 1 });
+            expect(response.status).toBe(200);
+            expect((await jsonResponse(response)).currentVersion).toBe(1);
+            expect(await skillNames()).toEqual(['listPets', 'getPet']);
+
+            // Registering after a rollback diffs against the rolled-back version
+            const third = await jsonResponse(await register(v2));
+            expect(third.version).toBe(3);
+            expect(third.diff.added).toEqual(['createPet']);
+        });
+
+        it('should keep chat on a pinned version across new registrations', async () => {
+            await register(v1);
+            expect((await post('pin', { version: 1 })).status).toBe(200);
+
+            const result = await jsonResponse(await register(v2));
+            expect(result).toMatchObject({ version: 2, pinnedVersion: 1 });
+            expect(await skillNames()).toEqual(['listPets', 'getPet']);
+
+            await post('pin', { version: null });
+            expect(await skillNames()).toEqual(['listPets', 'createPet']);
+        });
+
+        it('should refuse to roll back while a version is pinned', async () => {
+            await register(v1);
+            await register(v2);
+            await post('pin', { version: 2 });
+
+            const response = await post('rollback', { version: 1 });
+            expect(response.status).toBe(409);
+            expect((await jsonResponse(response)).error).toContain('unpin');
+            expect((await listVersions()).currentVersion).toBe(2);
+
+            await post('pin', { version: null });
+            expect((await post('rollback', { version: 1 })).status).toBe(200);
+        });
+
+        it('should reject unknown versions and APIs', async () => {
+            await register(v1);
+            expect((await post('rollback', { version: 7 })).status).toBe(404);
+            expect((await post('pin', { version: 'latest' })).status).toBe(400);
+            expect((await post('pin', { apiName: 'Missing', version: 1 })).status).toBe(404);
+        });
+
+        it('should record APIs registered before versioning as version 1', async () => {
+            const storage = (registry as any).state.storage as MockStorage;
+            await storage.put('user:user123', {
+                userId: 'user123',
+                apis: { Pets: { apiName: 'Pets', baseUrl: 'https://api.test.com', skills: v1, registeredAt: '2024-01-01T00:00:00.000Z' } }
+            });
+
+            const result = await listVersions();
+            expect(result.currentVersion).toBe(1);
+            expect(result.versions[0].registeredAt).toBe('2024-01-01T00:00:00.000Z');
+            expect((await jsonResponse(await register(v2))).version).toBe(2);
+        });
+
+        it('should delete stored versions with the API', async () => {
+            await register(v1);
+            await register(v2);
+            await post('delete', {});
+
+            const storage = (registry as any).state.storage as MockStorage;
+            expect(await storage.list({ prefix: 'version:' })).toHaveProperty('size', 0);
+        });
+    });
+
     describe('Error Handling', () => {
         it('should handle invalid JSON in request body', async () => {
             const request = new Request('http://internal/register', {
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { diffSkills, fetchSpecDocument, MAX_SPEC_BYTES } from '../../workers/spec-sync';
+import type { SkillDefinition } from '../../workers/durable_objects/SkillRegistry';
+
+const skill = (name: string, overrides: Partial<SkillDefinition> = {}): SkillDefinition => ({
+    name,
+    description: name,
+    operationId: name,
+    method: 'GET',
+    path: `/${name}`,
+    parameters: [],
+    baseUrl: 'https://api.example.com',
+    ...overrides
+});
+
+describe('diffSkills', () => {
+    it('reports added, removed and changed operations', () => {
+        const diff = diffSkills(
+            [skill('listPets'), skill('getPet'), skill('deletePet')],
+            [skill('listPets', { baseUrl: 'https://other.example.com' }), skill('getPet', { path: '/pets/{id}' }), skill('createPet')]
+        );
+
+        expect(diff).toEqual({ added: ['createPet'], removed: ['deletePet'], changed: ['getPet'] });
+    });
+});
+
+describe('fetchSpecDocument', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('parses YAML documents and returns the ETag', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('openapi: 3.0.0\ninfo:\n  title: Pets\npaths: {}\n', {
+            status: 200,
+            headers: { ETag: '"v1"' }
+        })));
+
+        const result = await fetchSpecDocument('https://docs.example.com/openapi.yaml');
+
+        expect(result).toMatchObject({ notModified: false, etag: '"v1"', spec: { openapi: '3.0.0' } });
+    });
+
+    it('sends If-None-Match and reports 304 responses as not modified', async () => {
+        const fetchMock = vi.fn(async () => new Response(null, { status: 304 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const result = await fetchSpecDocument('https://docs.example.com/openapi.json', '"v1"');
+
+        const [, init] = fetchMock.mock.calls[0] as any[];
+        expect(init.headers['If-None-Match']).toBe('"v1"');
+        expect(result).toEqual({ notModified: true });
+    });
+
+    it('rejects failed responses and documents that are not specs', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('missing', { status: 404 })));
+        await expect(fetchSpecDocument('https://docs.example.com/openapi.json')).rejects.toThrow('HTTP 404');
+
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('{"hello": "world"}', { status: 200 })));
+        await expect(fetchSpecDocument('https://docs.example.com/openapi.json')).rejects.toThrow('valid OpenAPI');
+    });
+
+    it('refuses private addresses and oversized documents', async () => {
+        const fetchMock = vi.fn(async () => new Response('x'.repeat(10), { headers: { 'Content-Length': String(MAX_SPEC_BYTES + 1) } }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        await expect(fetchSpecDocument('http://169.254.169.254/openapi.json')).rejects.toThrow('link-local');
+        expect(fetchMock).not.toHaveBeenCalled();
+
+        await expect(fetchSpecDocument('https://docs.example.com/openapi.json')).rejects.toThrow('too large');
+    });
+});
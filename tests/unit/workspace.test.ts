@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Workspace, hasWorkspaceRole } from '../../workers/durable_objects/Workspace';
+
+class MockStorage {
+    private store = new Map<string, any>();
+
+    async put(key: string, value: any) {
+        this.store.set(key, value);
+    }
+
+    async get<T>(key: string): Promise<T | undefined> {
+        return this.store.get(key);
+    }
+
+    async delete(key: string) {
+        this.store.delete(key);
+    }
+}
+
+describe('Workspace Durable Object', () => {
+    let workspace: Workspace;
+
+    const call = async (userId: string, path: string, body?: Record<string, any>) => {
+        const response = await workspace.fetch(new Request(`http://internal${path}`, {
+            method: body ? 'POST' : 'GET',
+            headers: { 'Content-Type': 'application/json', 'X-User-ID': userId },
+            body: body ? JSON.stringify(body) : undefined
+        }));
+        return { status: response.status, data: await response.json() as any };
+    };
+
+    const invite = async (role: string) => {
+        const { data } = await call('alice', '/invitations', { role });
+        return data.code.split('.')[1] as string;
+    };
+
+    beforeEach(async () => {
+        workspace = new Workspace({ storage: new MockStorage() } as any);
+        await call('alice', '/create', { id: 'ws-1', name: 'Platform team' });
+    });
+
+    it('makes the creator its owner', async () => {
+        const { status, data } = await call('alice', '/info');
+
+        expect(status).toBe(200);
+        expect(data.workspace).toMatchObject({ id: 'ws-1', name: 'Platform team', createdBy: 'alice' });
+        expect(data.role).toBe('owner');
+        expect((await call('alice', '/create', { id: 'ws-1', name: 'Again' })).status).toBe(409);
+    });
+
+    it('refuses non-members', async () => {
+        expect((await call('mallory', '/info')).status).toBe(403);
+        expect((await call('mallory', '/members')).status).toBe(403);
+    });
+
+    it('adds members through single-use invitations with the invited role', async () => {
+        const secret = await invite('editor');
+
+        const joined = await call('bob', '/join', { secret });
+        expect(joined.status).toBe(200);
+        expect(joined.data.role).toBe('editor');
+
+        expect((await call('carol', '/join', { secret })).status).toBe(404);
+
+        const { data } = await call('bob', '/members');
+        expect(data.members.map((member: any) => [member.userId, member.role])).toEqual([
+            ['alice', 'owner'],
+            ['bob', 'editor']
+        ]);
+        expect(data.members[1].invitedBy).toBe('alice');
+    });
+
+    it('never reveals invitation secrets after creation', async () => {
+        const created = await call('alice', '/invitations', { role: 'runner', expiresInHours: 2 });
+        expect(created.status).toBe(201);
+        expect(created.data.code).toMatch(/^ws-1\.[0-9a-f]{48}$/);
+
+        const { data } = await call('alice', '/invitations');
+        expect(data.invitations).toHaveLength(1);
+        expect(JSON.stringify(data.invitations)).not.toContain(created.data.code.split('.')[1]);
+    });
+
+    it('rejects unknown roles and out-of-range expiry', async () => {
+        expect((await call('alice', '/invitations', { role: 'admin' })).status).toBe(400);
+        expect((await call('alice', '/invitations', { role: 'viewer', expiresInHours: 0 })).status).toBe(400);
+    });
+
+    it('lets only owners change roles and invite', async () => {
+        await call('bob', '/join', { secret: await invite('editor') });
+
+        expect((await call('bob', '/invitations', { role: 'viewer' })).status).toBe(403);
+        expect((await call('bob', '/members/role', { userId: 'bob', role: 'owner' })).status).toBe(403);
+
+        const promoted = await call('alice', '/members/role', { userId: 'bob', role: 'owner' });
+        expect(promoted.data.member).toMatchObject({ userId: 'bob', role: 'owner' });
+    });
+
+    it('always keeps at least one owner', async () => {
+        expect((await call('alice', '/members/role', { userId: 'alice', role: 'editor' })).status).toBe(409);
+        expect((await call('alice', '/members/remove', { userId: 'alice' })).status).toBe(409);
+    });
+
+    it('lets members leave and owners remove others', async () => {
+        await call('bob', '/join', { secret: await invite('runner') });
+        await call('carol', '/join', { secret: await invite('runner') });
+
+        expect((await call('bob', '/members/remove', { userId: 'carol' })).status).toBe(403);
+        expect((await call('bob', '/members/remove', { userId: 'bob' })).status).toBe(200);
+        expect((await call('alice', '/members/remove', { userId: 'carol' })).status).toBe(200);
+
+        const { data } = await call('alice', '/members');
+        expect(data.members.map((member: any) => member.userId)).toEqual(['alice']);
+    });
+
+    it('revokes invitations', async () => {
+        const created = await call('alice', '/invitations', { role: 'viewer' });
+
+        expect((await call('alice', '/invitations/revoke', { id: created.data.invitation.id })).status).toBe(200);
+        expect((await call('bob', '/join', { secret: created.data.code.split('.')[1] })).status).toBe(404);
+    });
+
+    it('lets owners set the allowed hosts and members read them', async () => {
+        await call('bob', '/join', { secret: await invite('runner') });
+
+        expect((await call('bob', '/egress')).data).toEqual({ allowedHosts: [] });
+        expect((await call('bob', '/egress', { allowedHosts: ['api.example.com'] })).status).toBe(403);
+
+        const updated = await call('alice', '/egress', { allowedHosts: ['API.example.com', '*.weather.example', 'api.example.com'] });
+        expect(updated.data).toEqual({ allowedHosts: ['api.example.com', '*.weather.example'] });
+        expect((await call('bob', '/egress')).data.allowedHosts).toEqual(['api.example.com', '*.weather.example']);
+
+        expect((await call('alice', '/egress', { allowedHosts: ['https://api.example.com'] })).status).toBe(400);
+        expect((await call('alice', '/egress', { allowedHosts: 'api.example.com' })).status).toBe(400);
+    });
+
+    it('orders roles from viewer to owner', () => {
+        expect(hasWorkspaceRole('editor', 'runner')).toBe(true);
+        expect(hasWorkspaceRole('runner', 'editor')).toBe(false);
+        expect(hasWorkspaceRole('owner', 'owner')).toBe(true);
+    });
+});
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState } from 'react';
 import { MessageCircle } from 'lucide-react';
+import { useSession } from '../context/SessionContext';
 
 function escapeHtml(value: string): string {
   return value
@@ -41,6 +42,7 @@ const PERSONA_OPTIONS: { value: PersonaKey; label: string; description: string }
 ];
 
 export default function ChatInterface({ sessionId, persona, onPersonaChange }: ChatInterfaceProps) {
+  const { authHeaders } = useSession();
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -73,7 +75,7 @@ export default function ChatInterface({ sessionId, persona, onPersonaChange }: C
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Session-ID': sessionId,
+          ...authHeaders,
         },
         body: JSON.stringify({
           message: input,
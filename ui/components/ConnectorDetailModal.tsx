@@ -2,6 +2,7 @@ import { FormEvent, useEffect, useMemo, useState } from 'react';
 import APITester from './APITester';
 import DeploymentGuide from './DeploymentGuide';
 import { FileText, Play, Rocket } from 'lucide-react';
+import { useSession } from '../context/SessionContext';
 import type {
   ConnectorEntry,
   EndpointMetadata,
@@ -31,6 +32,7 @@ export default function ConnectorDetailModal({
   apiBase,
   onClose,
 }: ConnectorDetailModalProps): JSX.Element | null {
+  const { authHeaders } = useSession();
   const metadata: EndpointMetadata | null = detail
     ? detail.connector?.metadata || detail.template?.endpoint || null
     : null;
@@ -123,7 +125,7 @@ export default function ConnectorDetailModal({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Session-ID': sessionId,
+          ...authHeaders,
         },
         body: JSON.stringify({
           url: formState.url.trim(),
@@ -1,4 +1,5 @@
 import { useEffect, useRef, useState } from 'react';
+import { useSession } from '../context/SessionContext';
 
 const API_BASE =
   (import.meta.env.VITE_WORKER_BASE_URL as string | undefined)?.replace(/\/$/, '') || '';
@@ -14,6 +15,7 @@ interface ConsoleLogProps {
 }
 
 export default function ConsoleLog({ sessionId }: ConsoleLogProps) {
+  const { token } = useSession();
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const consoleRef = useRef<HTMLDivElement>(null);
@@ -22,8 +24,8 @@ export default function ConsoleLog({ sessionId }: ConsoleLogProps) {
   useEffect(() => {
     if (!sessionId) return;
 
-    // Connect to SSE endpoint for realtime logs
-    const sseUrl = `${API_BASE}/api/stream?sessionId=${encodeURIComponent(sessionId)}`;
+    // Connect to SSE endpoint for realtime logs; EventSource cannot send headers, so the token goes in the URL
+    const sseUrl = `${API_BASE}/api/stream?token=${encodeURIComponent(token)}`;
 
     try {
       const eventSource = new EventSource(sseUrl);
@@ -61,7 +63,7 @@ export default function ConsoleLog({ sessionId }: ConsoleLogProps) {
     } catch (error) {
       console.error('Failed to connect SSE:', error);
     }
-  }, [sessionId]);
+  }, [sessionId, token]);
 
   // Auto-scroll to bottom when new logs arrive
   useEffect(() => {
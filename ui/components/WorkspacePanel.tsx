@@ -0,0 +1,360 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Users, Plus, LogIn, Loader2, Trash2, Copy } from 'lucide-react';
+import { useSession } from '../context/SessionContext';
+
+type WorkspaceRole = 'viewer' | 'runner' | 'editor' | 'owner';
+
+const WORKSPACE_ROLES: WorkspaceRole[] = ['viewer', 'runner', 'editor', 'owner'];
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+    viewer: 'You can see its APIs but not use them in chat',
+    runner: 'Chat uses its APIs alongside your personal skills',
+    editor: 'Chat uses its APIs alongside your personal skills, and you can register and change them',
+    owner: 'Chat uses its APIs alongside your personal skills, and you manage its APIs and members',
+};
+
+interface WorkspaceSummary {
+    id: string;
+    name: string;
+    role: WorkspaceRole;
+    memberCount: number;
+}
+
+interface WorkspaceMember {
+    userId: string;
+    role: WorkspaceRole;
+    joinedAt: string;
+}
+
+interface WorkspaceInvitation {
+    id: string;
+    role: WorkspaceRole;
+    expiresAt: string;
+}
+
+const API_BASE = (import.meta.env.VITE_WORKER_BASE_URL as string | undefined)?.replace(/\/$/, '') || '';
+
+/**
+ * Picks the active workspace (or personal skills) and, inside a workspace, manages its members, invitations
+ * and the hosts its APIs may call.
+ */
+export default function WorkspacePanel() {
+    const { sessionId, authHeaders, activeWorkspaceId, setActiveWorkspaceId } = useSession();
+    const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+    const [members, setMembers] = useState<WorkspaceMember[]>([]);
+    const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+    const [newName, setNewName] = useState('');
+    const [joinCode, setJoinCode] = useState('');
+    const [inviteRole, setInviteRole] = useState<WorkspaceRole>('runner');
+    const [inviteCode, setInviteCode] = useState<string | null>(null);
+    const [allowedHosts, setAllowedHosts] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const active = workspaces.find((workspace) => workspace.id === activeWorkspaceId) || null;
+    const isOwner = active?.role === 'owner';
+
+    const request = useCallback(async (path: string, body?: unknown) => {
+        const response = await fetch(`${API_BASE}${path}`, {
+            method: body === undefined ? 'GET' : 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        const data = await response.json() as any;
+        if (!response.ok) {
+            throw new Error(data.error || `Request failed with status ${response.status}`);
+        }
+        return data;
+    }, [authHeaders]);
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const loadWorkspaces = useCallback(async () => {
+        const data = await request('/api/workspaces');
+        setWorkspaces(data.workspaces || []);
+        return data.workspaces as WorkspaceSummary[];
+    }, [request]);
+
+    useEffect(() => {
+        loadWorkspaces()
+            .then((loaded) => {
+                // A workspace the user has left or been removed from stops being active
+                if (activeWorkspaceId && !loaded.some((workspace) => workspace.id === activeWorkspaceId)) {
+                    setActiveWorkspaceId(null);
+                }
+            })
+            .catch((err: Error) => setError(err.message));
+    }, []);
+
+    useEffect(() => {
+        setInviteCode(null);
+        if (!active) {
+            setMembers([]);
+            setInvitations([]);
+            setAllowedHosts('');
+            return;
+        }
+        request(`/api/workspaces/${active.id}/members`)
+            .then((data) => setMembers(data.members || []))
+            .catch((err: Error) => setError(err.message));
+        request(`/api/workspaces/${active.id}/egress`)
+            .then((data) => setAllowedHosts((data.allowedHosts || []).join('\n')))
+            .catch((err: Error) => setError(err.message));
+        if (active.role === 'owner') {
+            request(`/api/workspaces/${active.id}/invitations`)
+                .then((data) => setInvitations(data.invitations || []))
+                .catch((err: Error) => setError(err.message));
+        }
+    }, [active?.id, active?.role]);
+
+    const handleCreate = () => run(async () => {
+        const data = await request('/api/workspaces', { name: newName.trim() });
+        setNewName('');
+        await loadWorkspaces();
+        setActiveWorkspaceId(data.workspace.id);
+    });
+
+    const handleJoin = () => run(async () => {
+        const data = await request('/api/workspaces/join', { code: joinCode.trim() });
+        setJoinCode('');
+        await loadWorkspaces();
+        setActiveWorkspaceId(data.workspace.id);
+    });
+
+    const handleInvite = () => run(async () => {
+        const data = await request(`/api/workspaces/${active!.id}/invitations`, { role: inviteRole });
+        setInviteCode(data.code);
+        setInvitations((current) => [...current, data.invitation]);
+    });
+
+    const handleRevoke = (invitationId: string) => run(async () => {
+        await request(`/api/workspaces/${active!.id}/invitations/revoke`, { id: invitationId });
+        setInvitations((current) => current.filter((invitation) => invitation.id !== invitationId));
+    });
+
+    const handleSaveAllowedHosts = () => run(async () => {
+        const hosts = allowedHosts.split(/[\s,]+/).filter(Boolean);
+        const data = await request(`/api/workspaces/${active!.id}/egress`, { allowedHosts: hosts });
+        setAllowedHosts(data.allowedHosts.join('\n'));
+    });
+
+    const handleRoleChange = (userId: string, role: WorkspaceRole) => run(async () => {
+        const data = await request(`/api/workspaces/${active!.id}/members/role`, { userId, role });
+        setMembers((current) => current.map((member) => (member.userId === userId ? data.member : member)));
+        if (userId === sessionId) {
+            await loadWorkspaces();
+        }
+    });
+
+    const handleRemove = (userId: string) => {
+        const leaving = userId === sessionId;
+        if (!window.confirm(leaving ? `Leave ${active!.name}?` : `Remove ${userId} from ${active!.name}?`)) {
+            return;
+        }
+        run(async () => {
+            await request(`/api/workspaces/${active!.id}/members/remove`, { userId });
+            if (leaving) {
+                setActiveWorkspaceId(null);
+                await loadWorkspaces();
+            } else {
+                setMembers((current) => current.filter((member) => member.userId !== userId));
+            }
+        });
+    };
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 mb-6">
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <Users className="w-5 h-5 text-orange-600" />
+                <h2 className="text-xl font-bold text-slate-900">Workspace</h2>
+                <select
+                    value={activeWorkspaceId || ''}
+                    onChange={(e) => setActiveWorkspaceId(e.target.value || null)}
+                    className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                >
+                    <option value="">Personal skills</option>
+                    {workspaces.map((workspace) => (
+                        <option key={workspace.id} value={workspace.id}>
+                            {workspace.name} ({workspace.role})
+                        </option>
+                    ))}
+                </select>
+                {busy && <Loader2 className="w-4 h-4 animate-spin text-slate-400" />}
+            </div>
+
+            <p className="text-sm text-slate-600 mb-4">
+                {active
+                    ? `APIs below belong to ${active.name}. ${ROLE_DESCRIPTIONS[active.role]}.`
+                    : 'APIs below are yours alone. Pick a workspace to share APIs and credentials with your team.'}
+            </p>
+
+            {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                <div className="flex gap-2">
+                    <input
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        placeholder="New workspace name"
+                        className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                    />
+                    <button
+                        onClick={handleCreate}
+                        disabled={busy || !newName.trim()}
+                        className="px-3 py-2 bg-orange-600 text-white rounded-lg text-sm font-medium hover:bg-orange-700 disabled:opacity-50 flex items-center gap-1"
+                    >
+                        <Plus className="w-4 h-4" /> Create
+                    </button>
+                </div>
+                <div className="flex gap-2">
+                    <input
+                        value={joinCode}
+                        onChange={(e) => setJoinCode(e.target.value)}
+                        placeholder="Invitation code"
+                        className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm font-mono"
+                    />
+                    <button
+                        onClick={handleJoin}
+                        disabled={busy || !joinCode.trim()}
+                        className="px-3 py-2 bg-slate-700 text-white rounded-lg text-sm font-medium hover:bg-slate-800 disabled:opacity-50 flex items-center gap-1"
+                    >
+                        <LogIn className="w-4 h-4" /> Join
+                    </button>
+                </div>
+            </div>
+
+            {active && (
+                <div className="border-t border-slate-200 pt-4">
+                    <h3 className="text-sm font-semibold text-slate-700 mb-2">Members</h3>
+                    <ul className="divide-y divide-slate-100 mb-4">
+                        {members.map((member) => (
+                            <li key={member.userId} className="flex items-center justify-between py-2 text-sm">
+                                <span className="font-mono text-slate-700">
+                                    {member.userId}
+                                    {member.userId === sessionId && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                                </span>
+                                <div className="flex items-center gap-2">
+                                    {isOwner ? (
+                                        <select
+                                            value={member.role}
+                                            onChange={(e) => handleRoleChange(member.userId, e.target.value as WorkspaceRole)}
+                                            disabled={busy}
+                                            className="px-2 py-1 border border-slate-300 rounded text-xs"
+                                        >
+                                            {WORKSPACE_ROLES.map((role) => (
+                                                <option key={role} value={role}>{role}</option>
+                                            ))}
+                                        </select>
+                                    ) : (
+                                        <span className="text-xs text-slate-500">{member.role}</span>
+                                    )}
+                                    {(isOwner || member.userId === sessionId) && (
+                                        <button
+                                            onClick={() => handleRemove(member.userId)}
+                                            disabled={busy}
+                                            className="text-red-600 hover:text-red-700 text-xs"
+                                        >
+                                            {member.userId === sessionId ? 'Leave' : 'Remove'}
+                                        </button>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+
+                    {isOwner && (
+                        <>
+                            <h3 className="text-sm font-semibold text-slate-700 mb-2">Invitations</h3>
+                            <div className="flex items-center gap-2 mb-2">
+                                <select
+                                    value={inviteRole}
+                                    onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                                    className="px-2 py-2 border border-slate-300 rounded-lg text-sm"
+                                >
+                                    {WORKSPACE_ROLES.map((role) => (
+                                        <option key={role} value={role}>{role}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={handleInvite}
+                                    disabled={busy}
+                                    className="px-3 py-2 bg-orange-600 text-white rounded-lg text-sm font-medium hover:bg-orange-700 disabled:opacity-50"
+                                >
+                                    Create invitation
+                                </button>
+                            </div>
+                            {inviteCode && (
+                                <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs">
+                                    <div className="text-amber-800 mb-1">Share this code; it is shown only once and works for one person.</div>
+                                    <div className="flex items-center gap-2">
+                                        <code className="break-all text-slate-800">{inviteCode}</code>
+                                        <button
+                                            onClick={() => navigator.clipboard?.writeText(inviteCode)}
+                                            className="text-slate-500 hover:text-slate-700"
+                                            title="Copy"
+                                        >
+                                            <Copy className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                            <ul className="text-xs text-slate-600 space-y-1">
+                                {invitations.map((invitation) => (
+                                    <li key={invitation.id} className="flex items-center justify-between">
+                                        <span>
+                                            {invitation.role} · expires {new Date(invitation.expiresAt).toLocaleString()}
+                                        </span>
+                                        <button
+                                            onClick={() => handleRevoke(invitation.id)}
+                                            disabled={busy}
+                                            className="text-red-600 hover:text-red-700"
+                                            title="Revoke"
+                                        >
+                                            <Trash2 className="w-3 h-3" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+
+                    <h3 className="text-sm font-semibold text-slate-700 mt-4 mb-1">Allowed hosts</h3>
+                    <p className="text-xs text-slate-500 mb-2">
+                        Skills, connector tests and scenarios in this workspace may only call these hosts, one per line;
+                        {' '}<code>*.example.com</code> covers its subdomains. Leave empty to allow any public host.
+                        Private and local addresses are always blocked.
+                    </p>
+                    <textarea
+                        value={allowedHosts}
+                        onChange={(e) => setAllowedHosts(e.target.value)}
+                        readOnly={!isOwner}
+                        rows={3}
+                        placeholder="api.example.com"
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm font-mono mb-2"
+                    />
+                    {isOwner && (
+                        <button
+                            onClick={handleSaveAllowedHosts}
+                            disabled={busy}
+                            className="px-3 py-2 bg-slate-700 text-white rounded-lg text-sm font-medium hover:bg-slate-800 disabled:opacity-50"
+                        >
+                            Save allowed hosts
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,33 +1,130 @@
-import React, { createContext, useContext, useMemo, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
 
 interface SessionContextValue {
+  // The user id the worker derives from the session token
   sessionId: string;
+  token: string;
+  // Send with every API request; the worker ignores X-User-ID and X-Session-ID
+  authHeaders: Record<string, string>;
+  // Skills pages act on this workspace and chat also draws on its skills; null means personal skills only
+  activeWorkspaceId: string | null;
+  setActiveWorkspaceId: (workspaceId: string | null) => void;
 }
 
 const SessionContext = createContext<SessionContextValue | undefined>(undefined);
 
-function generateSessionId(): string {
-  return `session-${Date.now()}`;
+const API_BASE =
+  (import.meta.env.VITE_WORKER_BASE_URL as string | undefined)?.replace(/\/$/, '') || '';
+const TOKEN_STORAGE_KEY = 'toolsmith-token';
+const WORKSPACE_STORAGE_KEY = 'toolsmith-workspace';
+// Where the UI kept the id it sent as X-Session-ID before session tokens
+const LEGACY_SESSION_STORAGE_KEY = 'toolsmith-session';
+// Query parameter of the link that carries an operator-issued claim code
+const CLAIM_CODE_PARAM = 'claimCode';
+
+/**
+ * Exchange the stored token for a fresh one, so active users never reach its expiry.
+ * Without a usable token the worker starts a new user.
+ */
+async function obtainSession(): Promise<{ token: string; userId: string }> {
+  const stored = window.localStorage.getItem(TOKEN_STORAGE_KEY);
+  const request = (token: string | null) =>
+    fetch(`${API_BASE}/api/auth/session`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+  let response = await request(stored);
+  if (response.status === 401 && stored) {
+    response = await request(null);
+  }
+  if (!response.ok) {
+    throw new Error(`Could not start a session (status ${response.status})`);
+  }
+
+  const session = await claimLegacySession((await response.json()) as { token: string; userId: string });
+  window.localStorage.setItem(TOKEN_STORAGE_KEY, session.token);
+  return session;
 }
 
-export function SessionProvider({ children }: { children: React.ReactNode }): JSX.Element {
-  const [sessionId] = useState<string>(() => {
-    if (typeof window === 'undefined') {
-      return generateSessionId();
+/**
+ * Switch to the id this browser used before session tokens, so its chats and skills come back.
+ * Claiming needs the code an operator sends as a `?claimCode=` link; without one the id is kept for later.
+ * The id and code are forgotten once claimed or refused; a failed request leaves them for the next load.
+ */
+async function claimLegacySession(session: { token: string; userId: string }): Promise<{ token: string; userId: string }> {
+  const legacyId = window.localStorage.getItem(LEGACY_SESSION_STORAGE_KEY);
+  const pageUrl = new URL(window.location.href);
+  const claimCode = pageUrl.searchParams.get(CLAIM_CODE_PARAM);
+  if (!legacyId || !claimCode) {
+    return session;
+  }
+
+  try {
+    const response = await fetch(`${API_BASE}/api/auth/claim`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.token}` },
+      body: JSON.stringify({ legacyId, claimCode }),
+    });
+    if (response.ok || (response.status >= 400 && response.status < 500)) {
+      window.localStorage.removeItem(LEGACY_SESSION_STORAGE_KEY);
+      window.sessionStorage.removeItem(LEGACY_SESSION_STORAGE_KEY);
+      pageUrl.searchParams.delete(CLAIM_CODE_PARAM);
+      window.history.replaceState(window.history.state, '', pageUrl.toString());
     }
-    const existing =
-      window.sessionStorage.getItem('toolsmith-session') ||
-      window.localStorage.getItem('toolsmith-session');
-    if (existing) {
-      return existing;
+    return response.ok ? ((await response.json()) as { token: string; userId: string }) : session;
+  } catch {
+    return session;
+  }
+}
+
+export function SessionProvider({ children }: { children: React.ReactNode }): JSX.Element {
+  const [session, setSession] = useState<{ token: string; userId: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeWorkspaceId, setActiveWorkspace] = useState<string | null>(() =>
+    window.localStorage.getItem(WORKSPACE_STORAGE_KEY)
+  );
+
+  useEffect(() => {
+    obtainSession()
+      .then(setSession)
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  const setActiveWorkspaceId = useCallback((workspaceId: string | null) => {
+    if (workspaceId) {
+      window.localStorage.setItem(WORKSPACE_STORAGE_KEY, workspaceId);
+    } else {
+      window.localStorage.removeItem(WORKSPACE_STORAGE_KEY);
     }
-    const newId = generateSessionId();
-    window.sessionStorage.setItem('toolsmith-session', newId);
-    window.localStorage.setItem('toolsmith-session', newId);
-    return newId;
-  });
+    setActiveWorkspace(workspaceId);
+  }, []);
 
-  const value = useMemo<SessionContextValue>(() => ({ sessionId }), [sessionId]);
+  const value = useMemo<SessionContextValue | null>(
+    () =>
+      session
+        ? {
+            sessionId: session.userId,
+            token: session.token,
+            authHeaders: {
+              Authorization: `Bearer ${session.token}`,
+              ...(activeWorkspaceId ? { 'X-Workspace-ID': activeWorkspaceId } : {}),
+            },
+            activeWorkspaceId,
+            setActiveWorkspaceId,
+          }
+        : null,
+    [session, activeWorkspaceId, setActiveWorkspaceId]
+  );
+
+  // Pages fetch on mount, so they only render once requests can be authenticated
+  if (!value) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-slate-500">
+        {error || 'Starting session…'}
+      </div>
+    );
+  }
 
   return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
 }
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import ConsoleLog from '../components/ConsoleLog';
 import { useSession } from '../context/SessionContext';
-import { Bot, CheckCircle2, XCircle, MessageCircle, Wrench, Send } from 'lucide-react';
+import { Bot, CheckCircle2, XCircle, MessageCircle, Wrench, Send, Plus, Pencil, Archive, ArchiveRestore, Trash2 } from 'lucide-react';
 
 interface Message {
     role: 'user' | 'assistant' | 'system';
@@ -18,7 +18,28 @@ interface Message {
         success: boolean;
         result?: any;
         error?: string;
+        encoding?: string;
     }>;
+    agentSteps?: AgentStep[];
+    approvals?: PendingApproval[];
+}
+
+interface AgentStep {
+    step: number;
+    status: 'executing' | 'completed' | 'awaiting_approval' | 'limit_reached';
+    skills?: string[];
+    results?: Array<{ skill: string; success: boolean }>;
+    reason?: 'max_steps' | 'token_budget';
+}
+
+interface PendingApproval {
+    actionId: string;
+    skill: string;
+    apiName?: string;
+    method: string;
+    url: string;
+    body?: any;
+    decision?: 'approve' | 'reject';
 }
 
 interface Tool {
@@ -48,27 +69,62 @@ interface RegisteredSkill {
     apiName: string;
     skillCount: number;
     skillNames: string[];
+    skills?: Array<{ name: string; customName?: string; enabled: boolean }>;
     metadata?: {
         title?: string;
         description?: string;
     };
 }
 
+interface Conversation {
+    id: string;
+    title: string;
+    persona?: string;
+    pinnedSkills: string[];
+    archived: boolean;
+    updatedAt: string;
+    messageCount: number;
+}
+
+const DEFAULT_CONVERSATION_ID = 'default';
+
+const PERSONA_OPTIONS = [
+    { value: '', label: 'General Assistant' },
+    { value: 'tutor', label: 'Connector Tutor' },
+    { value: 'deployment', label: 'Deployment Assistant' },
+    { value: 'troubleshooter', label: 'Troubleshooter' },
+    { value: 'technical', label: 'Technical' },
+];
+
 export default function ChatPage() {
-    const { sessionId } = useSession();
+    const { sessionId, authHeaders } = useSession();
     const [messages, setMessages] = useState<Message[]>([]);
     const [inputValue, setInputValue] = useState('');
     const [loading, setLoading] = useState(false);
     const [tools, setTools] = useState<Tool[]>([]);
     const [skills, setSkills] = useState<RegisteredSkill[]>([]);
     const [suggestions, setSuggestions] = useState<string[]>([]);
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [activeConversationId, setActiveConversationId] = useState(DEFAULT_CONVERSATION_ID);
+    const [showArchived, setShowArchived] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
+    const activeConversation = conversations.find((conversation) => conversation.id === activeConversationId);
+    // Effective names of enabled skills, as the assistant sees them
+    const pinnableSkills = skills.flatMap((api) =>
+        (api.skills || []).filter((skill) => skill.enabled).map((skill) => skill.customName || skill.name)
+    );
+
     useEffect(() => {
         fetchTools();
         fetchSkills();
+        fetchConversations();
     }, []);
 
+    useEffect(() => {
+        loadConversationMessages(activeConversationId);
+    }, [activeConversationId]);
+
     useEffect(() => {
         scrollToBottom();
     }, [messages]);
@@ -79,7 +135,7 @@ export default function ChatPage() {
 
     const fetchTools = async () => {
         try {
-            const response = await fetch(`${API_BASE}/api/tools`);
+            const response = await fetch(`${API_BASE}/api/tools`, { headers: authHeaders });
             const data = await response.json() as any;
             if (data.tools) {
                 setTools(data.tools);
@@ -93,7 +149,7 @@ export default function ChatPage() {
         try {
             const response = await fetch(`${API_BASE}/api/skills/list`, {
                 headers: {
-                    'X-User-ID': sessionId
+                    ...authHeaders
                 }
             });
             const data = await response.json() as any;
@@ -106,6 +162,114 @@ export default function ChatPage() {
         }
     };
 
+    const sessionHeaders = {
+        'Content-Type': 'application/json',
+        ...authHeaders,
+    };
+
+    const fetchConversations = async () => {
+        try {
+            const response = await fetch(`${API_BASE}/api/conversations?includeArchived=true`, { headers: sessionHeaders });
+            const data = await response.json() as any;
+            if (Array.isArray(data.conversations)) {
+                setConversations(data.conversations);
+            }
+        } catch (error) {
+            console.error('Failed to fetch conversations:', error);
+        }
+    };
+
+    const loadConversationMessages = async (conversationId: string) => {
+        setMessages([]);
+        try {
+            const response = await fetch(`${API_BASE}/api/conversations/${encodeURIComponent(conversationId)}/messages`, {
+                headers: sessionHeaders
+            });
+            const data = await response.json() as any;
+            if (Array.isArray(data.messages)) {
+                setMessages(data.messages
+                    .filter((msg: any) => msg.role !== 'system')
+                    .map((msg: any) => ({ role: msg.role, content: msg.content })));
+            }
+        } catch (error) {
+            console.error('Failed to load conversation:', error);
+        }
+    };
+
+    const createConversation = async () => {
+        try {
+            const response = await fetch(`${API_BASE}/api/conversations`, {
+                method: 'POST',
+                headers: sessionHeaders,
+                body: JSON.stringify({}),
+            });
+            const data = await response.json() as any;
+            if (!response.ok) {
+                throw new Error(data.error || `Request failed with status ${response.status}`);
+            }
+            setConversations((prev) => [data.conversation, ...prev]);
+            setActiveConversationId(data.conversation.id);
+        } catch (error) {
+            showAlert('Failed to create conversation: ' + (error as Error).message);
+        }
+    };
+
+    const updateConversation = async (conversationId: string, changes: Record<string, any>) => {
+        try {
+            const response = await fetch(`${API_BASE}/api/conversations/${encodeURIComponent(conversationId)}`, {
+                method: 'PATCH',
+                headers: sessionHeaders,
+                body: JSON.stringify(changes),
+            });
+            const data = await response.json() as any;
+            if (!response.ok) {
+                throw new Error(data.error || `Request failed with status ${response.status}`);
+            }
+            setConversations((prev) => prev.map((conversation) =>
+                conversation.id === conversationId ? data.conversation : conversation
+            ));
+        } catch (error) {
+            showAlert('Failed to update conversation: ' + (error as Error).message);
+        }
+    };
+
+    const renameConversation = (conversation: Conversation) => {
+        const title = window.prompt('Rename conversation', conversation.title);
+        if (title && title.trim() && title.trim() !== conversation.title) {
+            updateConversation(conversation.id, { title: title.trim() });
+        }
+    };
+
+    const deleteConversation = async (conversation: Conversation) => {
+        if (!window.confirm(`Delete "${conversation.title}" and its history?`)) {
+            return;
+        }
+        try {
+            const response = await fetch(`${API_BASE}/api/conversations/${encodeURIComponent(conversation.id)}`, {
+                method: 'DELETE',
+                headers: sessionHeaders,
+            });
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({})) as any;
+                throw new Error(data.error || `Request failed with status ${response.status}`);
+            }
+            setConversations((prev) => prev.filter((entry) => entry.id !== conversation.id));
+            if (conversation.id === activeConversationId) {
+                setActiveConversationId(DEFAULT_CONVERSATION_ID);
+            }
+        } catch (error) {
+            showAlert('Failed to delete conversation: ' + (error as Error).message);
+        }
+    };
+
+    const togglePinnedSkill = (skillName: string) => {
+        if (!activeConversation) return;
+        const pinnedSkills = activeConversation.pinnedSkills.includes(skillName)
+            ? activeConversation.pinnedSkills.filter((name) => name !== skillName)
+            : [...activeConversation.pinnedSkills, skillName];
+        updateConversation(activeConversation.id, { pinnedSkills });
+    };
+
     const generateSuggestions = (apis: RegisteredSkill[]) => {
         if (!apis || apis.length === 0) {
             setSuggestions([]);
@@ -149,6 +313,164 @@ export default function ChatPage() {
         setSuggestions(shuffled.slice(0, 6));
     };
 
+    const readChatStream = async (response: Response, messageIndex: number) => {
+        const reader = response.body?.getReader();
+        const decoder = new TextDecoder();
+
+        if (!reader) {
+            throw new Error('No response body');
+        }
+
+        let buffer = '';
+        let fullContent = '';
+        let toolExecutions: any[] | undefined;
+        let skillExecutions: any[] = [];
+        let agentSteps: AgentStep[] = [];
+        let approvals: PendingApproval[] = [];
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+                if (line.startsWith('data: ')) {
+                    const data = line.slice(6);
+                    if (data === '[DONE]') {
+                        continue;
+                    }
+
+                    try {
+                        const parsed = JSON.parse(data);
+
+                        if (parsed.type === 'content') {
+                            fullContent += parsed.data;
+                            setMessages((prev) => {
+                                const updated = [...prev];
+                                updated[messageIndex] = {
+                                    ...updated[messageIndex],
+                                    content: fullContent,
+                                };
+                                return updated;
+                            });
+                        } else if (parsed.type === 'executing_skills') {
+                            // AI is about to execute skills
+                            fullContent += `\n\n🔄 Executing ${parsed.data.count} skill(s)...\n`;
+                            setMessages((prev) => {
+                                const updated = [...prev];
+                                updated[messageIndex] = {
+                                    ...updated[messageIndex],
+                                    content: fullContent,
+                                };
+                                return updated;
+                            });
+                        } else if (parsed.type === 'skill_result') {
+                            // Individual skill execution result
+                            skillExecutions.push(parsed.data);
+                            setMessages((prev) => {
+                                const updated = [...prev];
+                                updated[messageIndex] = {
+                                    ...updated[messageIndex],
+                                    skillExecutions: [...skillExecutions],
+                                };
+                                return updated;
+                            });
+                        } else if (parsed.type === 'agent_step') {
+                            const stepData = parsed.data as AgentStep;
+                            const existing = agentSteps.find((entry) => entry.step === stepData.step);
+                            agentSteps = existing
+                                ? agentSteps.map((entry) => entry.step === stepData.step ? { ...entry, ...stepData } : entry)
+                                : [...agentSteps, stepData];
+                            setMessages((prev) => {
+                                const updated = [...prev];
+                                updated[messageIndex] = {
+                                    ...updated[messageIndex],
+                                    agentSteps: agentSteps,
+                                };
+                                return updated;
+                            });
+                        } else if (parsed.type === 'approval_required') {
+                        approvals = [...approvals, parsed.data as PendingApproval];
+                        setMessages((prev) => {
+                            const updated = [...prev];
+                            updated[messageIndex] = {
+                                ...updated[messageIndex],
+                                approvals: approvals,
+                            };
+                            return updated;
+                        });
+                    } else if (parsed.type === 'tool_executions') {
+                            toolExecutions = parsed.data;
+                            setMessages((prev) => {
+                                const updated = [...prev];
+                                updated[messageIndex] = {
+                                    ...updated[messageIndex],
+                                    toolExecutions: toolExecutions,
+                                };
+                                return updated;
+                            });
+                        } else if (parsed.type === 'skill_executions') {
+                            skillExecutions = parsed.data;
+                            setMessages((prev) => {
+                                const updated = [...prev];
+                                updated[messageIndex] = {
+                                    ...updated[messageIndex],
+                                    skillExecutions: skillExecutions,
+                                };
+                                return updated;
+                            });
+                        } else if (parsed.type === 'error') {
+                            showAlert('Error: ' + parsed.data.message);
+                        }
+                    } catch (e) {
+                        console.error('Failed to parse SSE data:', e);
+                    }
+                }
+            }
+        }
+    };
+
+    const resolveApproval = async (messageIndex: number, actionId: string, decision: 'approve' | 'reject') => {
+        setMessages((prev) => {
+            const updated = [...prev];
+            updated[messageIndex] = {
+                ...updated[messageIndex],
+                approvals: updated[messageIndex].approvals?.map((approval) =>
+                    approval.actionId === actionId ? { ...approval, decision } : approval
+                ),
+            };
+            return [...updated, { role: 'assistant', content: '' }];
+        });
+        setLoading(true);
+        const resumeIndex = messages.length;
+
+        try {
+            const response = await fetch(`${API_BASE}/api/chat/approve`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...authHeaders,
+                },
+                body: JSON.stringify({ actionId, decision }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({})) as any;
+                throw new Error(data.error || `Request failed with status ${response.status}`);
+            }
+
+            await readChatStream(response, resumeIndex);
+        } catch (error) {
+            showAlert('Failed to submit decision: ' + (error as Error).message);
+            setMessages((prev) => prev.filter((_, idx) => idx !== resumeIndex));
+        } finally {
+            setLoading(false);
+        }
+    };
+
     const sendMessage = async () => {
         if (!inputValue.trim()) return;
 
@@ -175,11 +497,11 @@ export default function ChatPage() {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-Session-ID': sessionId,
-                    'X-User-ID': sessionId,
+                    ...authHeaders,
                 },
                 body: JSON.stringify({
                     message: inputValue,
+                    conversationId: activeConversationId,
                     stream: true,
                 }),
             });
@@ -187,97 +509,7 @@ export default function ChatPage() {
             const contentType = response.headers.get('content-type');
 
             if (contentType?.includes('text/event-stream')) {
-                const reader = response.body?.getReader();
-                const decoder = new TextDecoder();
-
-                if (!reader) {
-                    throw new Error('No response body');
-                }
-
-                let buffer = '';
-                let fullContent = '';
-                let toolExecutions: any[] | undefined;
-                let skillExecutions: any[] = [];
-
-                while (true) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
-
-                    buffer += decoder.decode(value, { stream: true });
-                    const lines = buffer.split('\n');
-                    buffer = lines.pop() || '';
-
-                    for (const line of lines) {
-                        if (line.startsWith('data: ')) {
-                            const data = line.slice(6);
-                            if (data === '[DONE]') {
-                                continue;
-                            }
-
-                            try {
-                                const parsed = JSON.parse(data);
-
-                                if (parsed.type === 'content') {
-                                    fullContent += parsed.data;
-                                    setMessages((prev) => {
-                                        const updated = [...prev];
-                                        updated[messageIndex] = {
-                                            ...updated[messageIndex],
-                                            content: fullContent,
-                                        };
-                                        return updated;
-                                    });
-                                } else if (parsed.type === 'executing_skills') {
-                                    // AI is about to execute skills
-                                    fullContent += `\n\n🔄 Executing ${parsed.data.count} skill(s)...\n`;
-                                    setMessages((prev) => {
-                                        const updated = [...prev];
-                                        updated[messageIndex] = {
-                                            ...updated[messageIndex],
-                                            content: fullContent,
-                                        };
-                                        return updated;
-                                    });
-                                } else if (parsed.type === 'skill_result') {
-                                    // Individual skill execution result
-                                    skillExecutions.push(parsed.data);
-                                    setMessages((prev) => {
-                                        const updated = [...prev];
-                                        updated[messageIndex] = {
-                                            ...updated[messageIndex],
-                                            skillExecutions: [...skillExecutions],
-                                        };
-                                        return updated;
-                                    });
-                                } else if (parsed.type === 'tool_executions') {
-                                    toolExecutions = parsed.data;
-                                    setMessages((prev) => {
-                                        const updated = [...prev];
-                                        updated[messageIndex] = {
-                                            ...updated[messageIndex],
-                                            toolExecutions: toolExecutions,
-                                        };
-                                        return updated;
-                                    });
-                                } else if (parsed.type === 'skill_executions') {
-                                    skillExecutions = parsed.data;
-                                    setMessages((prev) => {
-                                        const updated = [...prev];
-                                        updated[messageIndex] = {
-                                            ...updated[messageIndex],
-                                            skillExecutions: skillExecutions,
-                                        };
-                                        return updated;
-                                    });
-                                } else if (parsed.type === 'error') {
-                                    showAlert('Error: ' + parsed.data.message);
-                                }
-                            } catch (e) {
-                                console.error('Failed to parse SSE data:', e);
-                            }
-                        }
-                    }
-                }
+                await readChatStream(response, messageIndex);
             } else {
                 const data = await response.json() as any;
 
@@ -297,6 +529,8 @@ export default function ChatPage() {
             setMessages((prev) => prev.filter((_, idx) => idx !== messageIndex));
         } finally {
             setLoading(false);
+            // Picks up the title given to a new thread and its place at the top of the list
+            fetchConversations();
         }
     };
 
@@ -325,8 +559,103 @@ export default function ChatPage() {
                 </div>
 
                 <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-                    {/* Sidebar - Installed Tools & Console */}
+                    {/* Sidebar - Conversations, Installed Tools & Console */}
                     <div className="lg:col-span-1 space-y-6">
+                        <div className="bg-white rounded-xl border-2 border-slate-200 shadow-sm p-4">
+                            <div className="flex items-center justify-between mb-3">
+                                <h2 className="text-lg font-bold text-slate-900">Conversations</h2>
+                                <button
+                                    onClick={createConversation}
+                                    className="text-orange-600 hover:text-orange-700 text-sm font-medium flex items-center gap-1"
+                                    title="New conversation"
+                                >
+                                    <Plus className="w-4 h-4" /> New
+                                </button>
+                            </div>
+
+                            <div className="space-y-1 max-h-72 overflow-y-auto">
+                                {conversations
+                                    .filter((conversation) => showArchived || !conversation.archived)
+                                    .map((conversation) => (
+                                        <div
+                                            key={conversation.id}
+                                            className={`group flex items-center gap-1 px-2 py-1.5 rounded-lg text-sm ${conversation.id === activeConversationId
+                                                ? 'bg-orange-50 border border-orange-200'
+                                                : 'hover:bg-slate-50 border border-transparent'
+                                                }`}
+                                        >
+                                            <button
+                                                onClick={() => setActiveConversationId(conversation.id)}
+                                                disabled={loading}
+                                                className={`flex-1 text-left truncate ${conversation.archived ? 'text-slate-400 italic' : 'text-slate-800'}`}
+                                                title={conversation.title}
+                                            >
+                                                {conversation.title}
+                                            </button>
+                                            <button onClick={() => renameConversation(conversation)} className="text-slate-400 hover:text-slate-700" title="Rename">
+                                                <Pencil className="w-3.5 h-3.5" />
+                                            </button>
+                                            {conversation.id !== DEFAULT_CONVERSATION_ID && (
+                                                <>
+                                                    <button
+                                                        onClick={() => updateConversation(conversation.id, { archived: !conversation.archived })}
+                                                        className="text-slate-400 hover:text-slate-700"
+                                                        title={conversation.archived ? 'Unarchive' : 'Archive'}
+                                                    >
+                                                        {conversation.archived ? <ArchiveRestore className="w-3.5 h-3.5" /> : <Archive className="w-3.5 h-3.5" />}
+                                                    </button>
+                                                    <button onClick={() => deleteConversation(conversation)} className="text-slate-400 hover:text-red-600" title="Delete">
+                                                        <Trash2 className="w-3.5 h-3.5" />
+                                                    </button>
+                                                </>
+                                            )}
+                                        </div>
+                                    ))}
+                            </div>
+
+                            <label className="mt-3 flex items-center gap-2 text-xs text-slate-500">
+                                <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+                                Show archived
+                            </label>
+
+                            {activeConversation && (
+                                <div className="mt-4 pt-4 border-t border-slate-200 space-y-3">
+                                    <div>
+                                        <label htmlFor="conversation-persona" className="block text-xs font-semibold text-slate-600 mb-1">
+                                            Persona
+                                        </label>
+                                        <select
+                                            id="conversation-persona"
+                                            value={activeConversation.persona || ''}
+                                            onChange={(e) => updateConversation(activeConversation.id, { persona: e.target.value || null })}
+                                            className="w-full px-2 py-1 text-sm border border-slate-300 rounded"
+                                        >
+                                            {PERSONA_OPTIONS.map((option) => (
+                                                <option key={option.value} value={option.value}>{option.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    {pinnableSkills.length > 0 && (
+                                        <div>
+                                            <div className="text-xs font-semibold text-slate-600 mb-1">Pinned skills</div>
+                                            <div className="space-y-1 max-h-40 overflow-y-auto">
+                                                {pinnableSkills.map((skillName) => (
+                                                    <label key={skillName} className="flex items-center gap-2 text-xs text-slate-700">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={activeConversation.pinnedSkills.includes(skillName)}
+                                                            onChange={() => togglePinnedSkill(skillName)}
+                                                        />
+                                                        <span className="font-mono truncate">{skillName}</span>
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+
                         <div className="bg-white rounded-xl border-2 border-slate-200 shadow-sm p-6 sticky top-6">
                             <div className="flex items-center justify-between mb-4">
                                 <h2 className="text-lg font-bold text-slate-900">Installed Tools</h2>
@@ -460,6 +789,67 @@ export default function ChatPage() {
                                             </div>
                                             <div className="whitespace-pre-wrap">{msg.content}</div>
 
+                                            {/* Agent Step Chain */}
+                                            {msg.agentSteps && msg.agentSteps.length > 0 && (
+                                                <div className="mt-3 space-y-1">
+                                                    {msg.agentSteps.map((agentStep) => (
+                                                        <div key={agentStep.step} className="text-xs text-slate-600 flex items-center gap-1">
+                                                            {agentStep.status === 'limit_reached' ? (
+                                                                <span className="text-amber-700">
+                                                                    Stopped after step {agentStep.step - 1}: {agentStep.reason === 'token_budget' ? 'token budget reached' : 'step limit reached'}
+                                                                </span>
+                                                            ) : (
+                                                                <>
+                                                                    <span className="font-semibold">Step {agentStep.step}:</span>
+                                                                    {(agentStep.results?.map((result) => `${result.skill} ${result.success ? '✓' : '✗'}`) || agentStep.skills || []).join(' → ')}
+                                                                    {agentStep.status === 'executing' && <span className="italic">running…</span>}
+                                                                    {agentStep.status === 'awaiting_approval' && <span className="italic">waiting for approval</span>}
+                                                                </>
+                                                            )}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+
+                                            {/* Pending Approvals */}
+                                            {msg.approvals && msg.approvals.length > 0 && (
+                                                <div className="mt-3 space-y-2">
+                                                    {msg.approvals.map((approval) => (
+                                                        <div key={approval.actionId} className="text-xs p-3 rounded border-2 bg-amber-50 border-amber-200 text-amber-900">
+                                                            <div className="font-bold mb-1">Approval required: {approval.skill}</div>
+                                                            <div className="font-mono break-all">{approval.method} {approval.url}</div>
+                                                            {approval.body !== undefined && (
+                                                                <div className="font-mono text-xs overflow-x-auto max-h-48 mt-1">
+                                                                    <pre>{JSON.stringify(approval.body, null, 2)}</pre>
+                                                                </div>
+                                                            )}
+                                                            {approval.decision ? (
+                                                                <div className="mt-2 font-semibold">
+                                                                    {approval.decision === 'approve' ? 'Approved' : 'Rejected'}
+                                                                </div>
+                                                            ) : (
+                                                                <div className="mt-2 flex gap-2">
+                                                                    <button
+                                                                        onClick={() => resolveApproval(idx, approval.actionId, 'approve')}
+                                                                        disabled={loading}
+                                                                        className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                                                                    >
+                                                                        Approve
+                                                                    </button>
+                                                                    <button
+                                                                        onClick={() => resolveApproval(idx, approval.actionId, 'reject')}
+                                                                        disabled={loading}
+                                                                        className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                                                                    >
+                                                                        Reject
+                                                                    </button>
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+
                                             {/* Skill Execution Results */}
                                             {msg.skillExecutions && msg.skillExecutions.length > 0 && (
                                                 <div className="mt-3 space-y-2">
@@ -476,6 +866,9 @@ export default function ChatPage() {
                                                         >
                                                             <div className="font-bold mb-1 flex items-center gap-1">
                                                                 {exec.success ? <CheckCircle2 className="w-4 h-4 text-green-600" /> : <XCircle className="w-4 h-4 text-red-600" />} {exec.skill}
+                                                                {exec.encoding && (
+                                                                    <span className="ml-auto font-normal text-gray-500">sent as {exec.encoding}</span>
+                                                                )}
                                                             </div>
                                                             {exec.success ? (
                                                                 <div className="font-mono text-xs overflow-x-auto max-h-48">
@@ -13,7 +13,7 @@ export default function EditorPage({
 }: {
   onNavigate: (view: AppView) => void;
 }): JSX.Element {
-  const { sessionId } = useSession();
+  const { sessionId, authHeaders } = useSession();
   const { parseSpec } = useWorkflow();
 
   const [statusMessage, setStatusMessage] = useState<{
@@ -34,7 +34,7 @@ export default function EditorPage({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Session-ID': sessionId,
+          ...authHeaders,
         },
         body: JSON.stringify({ apiName, intent, sessionId }),
       });
@@ -39,7 +39,7 @@ export default function WorkflowPage({
 }: {
   onNavigate: (view: AppView) => void;
 }): JSX.Element {
-  const { sessionId } = useSession();
+  const { sessionId, authHeaders } = useSession();
   const { promptSettings } = usePromptSettings();
   const {
     parseResult,
@@ -194,7 +194,7 @@ export default function WorkflowPage({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Session-ID': sessionId,
+          ...authHeaders,
         },
         body: JSON.stringify({ templateId }),
       });
@@ -229,7 +229,7 @@ export default function WorkflowPage({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Session-ID': sessionId,
+          ...authHeaders,
         },
         body: JSON.stringify({ apiName, intent, sessionId }),
       });
@@ -325,7 +325,7 @@ export default function WorkflowPage({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Session-ID': sessionId,
+          ...authHeaders,
         },
         body: JSON.stringify({ description }),
       });
@@ -348,7 +348,7 @@ export default function WorkflowPage({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Session-ID': sessionId,
+          ...authHeaders,
         },
         body: JSON.stringify({ description, analysis }),
       });
@@ -11,7 +11,7 @@ const getErrorMessage = (error: unknown, fallback: string) =>
   error instanceof Error ? error.message : fallback;
 
 export default function MonitoringPage(): JSX.Element {
-  const { sessionId } = useSession();
+  const { sessionId, authHeaders } = useSession();
 
   const [scenarios, setScenarios] = useState<SandboxScenario[]>([]);
   const [scenarioError, setScenarioError] = useState<string | null>(null);
@@ -47,7 +47,7 @@ export default function MonitoringPage(): JSX.Element {
     try {
       const response = await fetch(`${API_BASE}/api/scenarios`, {
         method: 'GET',
-        headers: { 'X-Session-ID': sessionId },
+        headers: authHeaders,
       });
       const data = (await response.json()) as { scenarios?: SandboxScenario[]; error?: string };
       if (!response.ok) {
@@ -60,7 +60,7 @@ export default function MonitoringPage(): JSX.Element {
     } finally {
       setIsLoadingScenarios(false);
     }
-  }, [sessionId]);
+  }, [authHeaders]);
 
   useEffect(() => {
     loadScenarios();
@@ -117,7 +117,7 @@ export default function MonitoringPage(): JSX.Element {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'X-Session-ID': sessionId,
+            ...authHeaders,
           },
           body: JSON.stringify({ scenarioIds: [scenarioId] }),
         });
@@ -150,7 +150,7 @@ export default function MonitoringPage(): JSX.Element {
         setRunningScenarioIds((previous) => previous.filter((id) => id !== scenarioId));
       }
     },
-    [loadScenarios, notify, sessionId],
+    [loadScenarios, notify, authHeaders],
   );
 
   const runScenarioSuite = useCallback(async () => {
@@ -160,7 +160,7 @@ export default function MonitoringPage(): JSX.Element {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Session-ID': sessionId,
+          ...authHeaders,
         },
         body: JSON.stringify({}),
       });
@@ -178,14 +178,14 @@ export default function MonitoringPage(): JSX.Element {
     } finally {
       setIsRunningSuite(false);
     }
-  }, [loadScenarios, notify, sessionId, summarizeScenarioResults]);
+  }, [loadScenarios, notify, authHeaders, summarizeScenarioResults]);
 
   const handleDeleteScenario = useCallback(
     async (scenarioId: string) => {
       try {
         const response = await fetch(`${API_BASE}/api/scenarios/${scenarioId}`, {
           method: 'DELETE',
-          headers: { 'X-Session-ID': sessionId },
+          headers: authHeaders,
         });
         const data = (await response.json()) as { error?: string };
         if (!response.ok) {
@@ -197,7 +197,7 @@ export default function MonitoringPage(): JSX.Element {
         notify('error', getErrorMessage(error, 'Unable to delete scenario'));
       }
     },
-    [loadScenarios, notify, sessionId],
+    [loadScenarios, notify, authHeaders],
   );
 
   const autoRunsEnabled = useMemo(
@@ -255,7 +255,7 @@ export default function MonitoringPage(): JSX.Element {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'X-Session-ID': sessionId,
+            ...authHeaders,
           },
           body: JSON.stringify({
             name: scenarioDraft.name.trim() || `Smoke: ${scenarioDraft.method} ${scenarioDraft.url}`,
@@ -296,7 +296,7 @@ export default function MonitoringPage(): JSX.Element {
         setIsSavingScenario(false);
       }
     },
-    [loadScenarios, notify, scenarioDraft, sessionId],
+    [loadScenarios, notify, scenarioDraft, authHeaders],
   );
 
   return (
@@ -1,14 +1,54 @@
 import React, { useState, useEffect } from 'react';
 import { useSession } from '../context/SessionContext';
+import WorkspacePanel from '../components/WorkspacePanel';
 import { Bot, CheckCircle2, FileText, Upload, RefreshCw, Loader2, Trash2, Plus, X, Folder, FileCode } from 'lucide-react';
 import { parse as parseYaml } from 'yaml';
 
+type ApprovalPolicy = 'always_allow' | 'always_ask' | 'never_allow';
+
+const APPROVAL_POLICY_LABELS: Record<ApprovalPolicy, string> = {
+    always_allow: 'Always allow',
+    always_ask: 'Always ask',
+    never_allow: 'Never allow',
+};
+
+interface ApiServer {
+    url: string;
+    description?: string;
+    variables?: Record<string, { default: string; enum?: string[]; description?: string }>;
+}
+
+interface SkillSettings {
+    name: string;
+    description: string;
+    method: string;
+    path: string;
+    enabled: boolean;
+    customName?: string;
+    customDescription?: string;
+    fixedParameters: Record<string, any>;
+    parameters: Array<{ name: string; in: string; required: boolean; type: string }>;
+}
+
 interface RegisteredAPI {
     apiName: string;
     baseUrl: string;
     skillCount: number;
     skillNames: string[];
+    skills?: SkillSettings[];
     registeredAt: string;
+    approvalPolicy?: ApprovalPolicy;
+    servers?: ApiServer[];
+    activeServer?: number;
+    serverVariables?: Record<string, string>;
+    specUrl?: string;
+    syncIntervalHours?: number;
+    lastSyncedAt?: string;
+    lastSyncDiff?: { added: string[]; removed: string[]; changed: string[] };
+    lastSyncError?: string;
+    currentVersion?: number;
+    pinnedVersion?: number;
+    versionCount?: number;
     metadata?: {
         title?: string;
         version?: string;
@@ -16,6 +56,15 @@ interface RegisteredAPI {
     };
 }
 
+interface SkillSetVersion {
+    version: number;
+    hash: string;
+    registeredAt: string;
+    source: 'register' | 'sync';
+    skillCount: number;
+    diff: { added: string[]; removed: string[]; changed: string[] };
+}
+
 declare const window: any;
 
 const API_BASE = ((import.meta as any).env?.VITE_WORKER_BASE_URL as string | undefined)?.replace(/\/$/, '') || '';
@@ -29,7 +78,7 @@ function showAlert(msg: string) {
 }
 
 export default function SkillsPage() {
-    const { sessionId } = useSession();
+    const { authHeaders, activeWorkspaceId } = useSession();
     const [apis, setApis] = useState<RegisteredAPI[]>([]);
     const [loading, setLoading] = useState(false);
     const [registering, setRegistering] = useState(false);
@@ -38,18 +87,23 @@ export default function SkillsPage() {
     const [apiName, setApiName] = useState('');
     const [apiKey, setApiKey] = useState('');
     const [specInput, setSpecInput] = useState('');
+    const [specUrl, setSpecUrl] = useState('');
+    const [syncIntervalHours, setSyncIntervalHours] = useState('');
+    const [syncing, setSyncing] = useState<string | null>(null);
+    const [versionHistory, setVersionHistory] = useState<Record<string, SkillSetVersion[]>>({});
     const [specFile, setSpecFile] = useState<File | null>(null);
 
     useEffect(() => {
+        setVersionHistory({});
         fetchSkills();
-    }, []);
+    }, [activeWorkspaceId]);
 
     const fetchSkills = async () => {
         setLoading(true);
         try {
             const response = await fetch(`${API_BASE}/api/skills/list`, {
                 headers: {
-                    'X-User-ID': sessionId
+                    ...authHeaders
                 }
             });
             const data = await response.json() as any;
@@ -106,53 +160,58 @@ export default function SkillsPage() {
             return;
         }
 
-        if (!specInput.trim()) {
-            showAlert('Please provide an OpenAPI spec (paste JSON/YAML or upload file)');
+        if (!specInput.trim() && !specUrl.trim()) {
+            showAlert('Please provide an OpenAPI spec (paste JSON/YAML, upload a file or enter its URL)');
             return;
         }
 
         setRegistering(true);
         try {
-            // Parse spec - handle both JSON and YAML
+            // Parse spec - handle both JSON and YAML; a URL-only registration is fetched by the worker
             let spec;
-            try {
-                spec = JSON.parse(specInput);
-            } catch (jsonError) {
-                // Try YAML parsing
+            if (specInput.trim()) {
                 try {
-                    spec = parseYaml(specInput);
-                    if (!spec) {
-                        throw new Error('YAML parsing returned null');
+                    spec = JSON.parse(specInput);
+                } catch (jsonError) {
+                    // Try YAML parsing
+                    try {
+                        spec = parseYaml(specInput);
+                        if (!spec) {
+                            throw new Error('YAML parsing returned null');
+                        }
+                    } catch (yamlError) {
+                        showAlert('Invalid JSON or YAML in OpenAPI spec. Please check your file format.');
+                        return;
                     }
-                } catch (yamlError) {
-                    showAlert('Invalid JSON or YAML in OpenAPI spec. Please check your file format.');
-                    return;
                 }
-            }
 
-            // Validate it's an OpenAPI spec
-            if (!spec.openapi && !spec.swagger) {
-                showAlert('Not a valid OpenAPI/Swagger specification. Missing "openapi" or "swagger" field.');
-                return;
-            }
+                // Validate it's an OpenAPI spec
+                if (!spec.openapi && !spec.swagger) {
+                    showAlert('Not a valid OpenAPI/Swagger specification. Missing "openapi" or "swagger" field.');
+                    return;
+                }
 
-            // Check spec size (rough estimate: 5MB limit)
-            const specSize = JSON.stringify(spec).length;
-            if (specSize > 5 * 1024 * 1024) {
-                showAlert(`Spec is too large (${(specSize / 1024 / 1024).toFixed(2)}MB). Maximum is 5MB.`);
-                return;
+                // Check spec size (rough estimate: 5MB limit)
+                const specSize = JSON.stringify(spec).length;
+                if (specSize > 5 * 1024 * 1024) {
+                    showAlert(`Spec is too large (${(specSize / 1024 / 1024).toFixed(2)}MB). Maximum is 5MB.`);
+                    return;
+                }
             }
 
+            const interval = Number(syncIntervalHours);
             const response = await fetch(`${API_BASE}/api/skills/register`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': sessionId
+                    ...authHeaders
                 },
                 body: JSON.stringify({
                     apiName: apiName.trim(),
                     spec,
-                    apiKey: apiKey.trim()
+                    apiKey: apiKey.trim(),
+                    ...(specUrl.trim() ? { specUrl: specUrl.trim() } : {}),
+                    ...(specUrl.trim() && interval > 0 ? { syncIntervalHours: interval } : {})
                 })
             });
 
@@ -164,6 +223,8 @@ export default function SkillsPage() {
                 setApiName('');
                 setApiKey('');
                 setSpecInput('');
+                setSpecUrl('');
+                setSyncIntervalHours('');
                 setSpecFile(null);
                 setShowRegisterForm(false);
                 // Refresh list
@@ -189,7 +250,7 @@ export default function SkillsPage() {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-User-ID': sessionId
+                    ...authHeaders
                 },
                 body: JSON.stringify({ apiName })
             });
@@ -208,6 +269,152 @@ export default function SkillsPage() {
         }
     };
 
+    const handlePolicyChange = async (apiName: string, approvalPolicy: ApprovalPolicy) => {
+        try {
+            const response = await fetch(`${API_BASE}/api/skills/policy`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...authHeaders
+                },
+                body: JSON.stringify({ apiName, approvalPolicy })
+            });
+
+            const result = await response.json() as any;
+
+            if (response.ok && result.success) {
+                setApis((prev) => prev.map((api) => api.apiName === apiName ? { ...api, approvalPolicy } : api));
+            } else {
+                showAlert(`Failed: ${result.error || 'Unknown error'}`);
+            }
+        } catch (error) {
+            console.error('Policy update error:', error);
+            showAlert(`Error: ${(error as Error).message}`);
+        }
+    };
+
+    const handleSync = async (apiName: string) => {
+        setSyncing(apiName);
+        try {
+            const response = await fetch(`${API_BASE}/api/skills/sync`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...authHeaders
+                },
+                body: JSON.stringify({ apiName })
+            });
+
+            const result = await response.json() as any;
+
+            if (response.ok && result.success) {
+                const { added, removed, changed } = result.diff;
+                showAlert(result.status === 'unchanged'
+                    ? `${apiName} is up to date`
+                    : `Synced ${apiName}: ${added.length} added, ${removed.length} removed, ${changed.length} changed`);
+                fetchSkills();
+            } else {
+                showAlert(`Failed: ${result.error || 'Unknown error'}`);
+            }
+        } catch (error) {
+            console.error('Sync error:', error);
+            showAlert(`Error: ${(error as Error).message}`);
+        } finally {
+            setSyncing(null);
+        }
+    };
+
+    const handleSkillUpdate = async (apiName: string, skillName: string, change: Partial<Omit<SkillSettings, 'customName' | 'customDescription'>> & { customName?: string | null; customDescription?: string | null }) => {
+        try {
+            const response = await fetch(`${API_BASE}/api/skills/skill`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...authHeaders
+                },
+                body: JSON.stringify({ apiName, skillName, ...change })
+            });
+
+            const result = await response.json() as any;
+
+            if (response.ok && result.success) {
+                setApis((prev) => prev.map((api) => api.apiName === apiName
+                    ? { ...api, skills: api.skills?.map((skill) => skill.name === skillName ? result.skill : skill) }
+                    : api));
+            } else {
+                showAlert(`Failed: ${result.error || 'Unknown error'}`);
+            }
+        } catch (error) {
+            console.error('Skill update error:', error);
+            showAlert(`Error: ${(error as Error).message}`);
+        }
+    };
+
+    const fetchVersions = async (apiName: string) => {
+        try {
+            const response = await fetch(`${API_BASE}/api/skills/versions?apiName=${encodeURIComponent(apiName)}`, {
+                headers: authHeaders
+            });
+            const result = await response.json() as any;
+            if (response.ok) {
+                setVersionHistory((prev) => ({ ...prev, [apiName]: result.versions || [] }));
+            }
+        } catch (error) {
+            console.error('Error fetching versions:', error);
+        }
+    };
+
+    const handleVersionAction = async (apiName: string, action: 'pin' | 'rollback', version: number | null) => {
+        try {
+            const response = await fetch(`${API_BASE}/api/skills/${action}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...authHeaders
+                },
+                body: JSON.stringify({ apiName, version })
+            });
+
+            const result = await response.json() as any;
+
+            if (response.ok && result.success) {
+                await fetchSkills();
+                await fetchVersions(apiName);
+            } else {
+                showAlert(`Failed: ${result.error || 'Unknown error'}`);
+            }
+        } catch (error) {
+            console.error('Version update error:', error);
+            showAlert(`Error: ${(error as Error).message}`);
+        }
+    };
+
+    const handleServerChange = async (apiName: string, change: { serverIndex?: number; variables?: Record<string, string> }) => {
+        try {
+            const response = await fetch(`${API_BASE}/api/skills/server`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...authHeaders
+                },
+                body: JSON.stringify({ apiName, ...change })
+            });
+
+            const result = await response.json() as any;
+
+            if (response.ok && result.success) {
+                setApis((prev) => prev.map((api) => api.apiName === apiName
+                    ? { ...api, activeServer: result.activeServer, serverVariables: result.serverVariables, baseUrl: result.baseUrl }
+                    : api));
+            } else {
+                showAlert(`Failed: ${result.error || 'Unknown error'}`);
+            }
+        } catch (error) {
+            console.error('Server update error:', error);
+            showAlert(`Error: ${(error as Error).message}`);
+        }
+    };
+
     const loadExampleSpec = (apiType: string) => {
         let exampleSpec: any;
         let name: string;
@@ -446,6 +653,8 @@ export default function SkillsPage() {
                     </p>
                 </div>
 
+                <WorkspacePanel />
+
                 {/* Quick Start - Public APIs */}
                 {!showRegisterForm && (
                     <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl border border-blue-200 p-6 mb-6">
@@ -601,6 +810,37 @@ export default function SkillsPage() {
                                 />
                             </div>
 
+                            {/* Spec URL */}
+                            <div>
+                                <label className="block text-sm font-semibold text-slate-700 mb-2">
+                                    Spec URL (Optional)
+                                </label>
+                                <input
+                                    type="url"
+                                    value={specUrl}
+                                    onChange={(e) => setSpecUrl(e.target.value)}
+                                    placeholder="https://example.com/openapi.json"
+                                    className="w-full px-4 py-2 border-2 border-slate-300 rounded-lg focus:border-orange-500 focus:outline-none"
+                                />
+                                <p className="text-xs text-slate-500 mt-1">
+                                    Leave the spec above empty to fetch it from this URL. Registered URLs can be re-synced later.
+                                </p>
+                                {specUrl.trim() && (
+                                    <label className="flex items-center gap-2 text-sm text-slate-700 mt-2">
+                                        Re-sync every
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={syncIntervalHours}
+                                            onChange={(e) => setSyncIntervalHours(e.target.value)}
+                                            placeholder="never"
+                                            className="w-24 px-2 py-1 border-2 border-slate-300 rounded-lg focus:border-orange-500 focus:outline-none"
+                                        />
+                                        hours
+                                    </label>
+                                )}
+                            </div>
+
                             {/* Actions */}
                             <div className="flex gap-3">
                                 <button
@@ -691,8 +931,86 @@ export default function SkillsPage() {
                                         <div className="font-mono text-xs bg-slate-50 px-2 py-1 rounded inline-block mb-2">
                                             {api.baseUrl}
                                         </div>
+                                        {api.servers && api.servers.length > 1 && (
+                                            <label className="flex items-center gap-2 text-xs mb-2">
+                                                <span className="font-semibold">Server:</span>
+                                                <select
+                                                    value={api.activeServer ?? 0}
+                                                    onChange={(e) => handleServerChange(api.apiName, { serverIndex: Number(e.target.value) })}
+                                                    className="border border-slate-300 rounded px-2 py-1"
+                                                >
+                                                    {api.servers.map((server, serverIdx) => (
+                                                        <option key={serverIdx} value={serverIdx}>{server.description || server.url}</option>
+                                                    ))}
+                                                </select>
+                                            </label>
+                                        )}
+                                        {Object.entries(api.servers?.[api.activeServer ?? 0]?.variables || {}).map(([name, variable]) => (
+                                            <label key={name} className="flex items-center gap-2 text-xs mb-2">
+                                                <span className="font-semibold font-mono">{`{${name}}`}:</span>
+                                                {variable.enum ? (
+                                                    <select
+                                                        value={api.serverVariables?.[name] ?? variable.default}
+                                                        onChange={(e) => handleServerChange(api.apiName, { variables: { [name]: e.target.value } })}
+                                                        className="border border-slate-300 rounded px-2 py-1"
+                                                    >
+                                                        {variable.enum.map((option) => (
+                                                            <option key={option} value={option}>{option}</option>
+                                                        ))}
+                                                    </select>
+                                                ) : (
+                                                    <input
+                                                        defaultValue={api.serverVariables?.[name] ?? variable.default}
+                                                        onBlur={(e) => {
+                                                            if (e.target.value !== (api.serverVariables?.[name] ?? variable.default)) {
+                                                                handleServerChange(api.apiName, { variables: { [name]: e.target.value } });
+                                                            }
+                                                        }}
+                                                        title={variable.description}
+                                                        className="border border-slate-300 rounded px-2 py-1 font-mono"
+                                                    />
+                                                )}
+                                            </label>
+                                        ))}
+                                        <label className="flex items-center gap-2 text-xs">
+                                            <span className="font-semibold">Write requests (POST/PUT/PATCH/DELETE):</span>
+                                            <select
+                                                value={api.approvalPolicy || 'always_ask'}
+                                                onChange={(e) => handlePolicyChange(api.apiName, e.target.value as ApprovalPolicy)}
+                                                className="border border-slate-300 rounded px-2 py-1"
+                                            >
+                                                {(Object.keys(APPROVAL_POLICY_LABELS) as ApprovalPolicy[]).map((policy) => (
+                                                    <option key={policy} value={policy}>{APPROVAL_POLICY_LABELS[policy]}</option>
+                                                ))}
+                                            </select>
+                                        </label>
                                     </div>
 
+                                    {api.specUrl && (
+                                        <div className="text-xs text-slate-600 mb-3 space-y-1">
+                                            <div className="flex items-center gap-2">
+                                                <span className="font-mono truncate">{api.specUrl}</span>
+                                                <button
+                                                    onClick={() => handleSync(api.apiName)}
+                                                    disabled={syncing === api.apiName}
+                                                    className="text-orange-600 hover:text-orange-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                                                >
+                                                    <RefreshCw className={`w-3 h-3 ${syncing === api.apiName ? 'animate-spin' : ''}`} /> Sync now
+                                                </button>
+                                            </div>
+                                            {api.lastSyncedAt && (
+                                                <div className="text-slate-500">
+                                                    Last synced {new Date(api.lastSyncedAt).toLocaleString()}
+                                                    {api.syncIntervalHours ? ` · every ${api.syncIntervalHours}h` : ''}
+                                                    {api.lastSyncDiff && ` · ${api.lastSyncDiff.added.length} added, ${api.lastSyncDiff.removed.length} removed, ${api.lastSyncDiff.changed.length} changed`}
+                                                </div>
+                                            )}
+                                            {api.lastSyncError && (
+                                                <div className="text-red-600">Last sync failed: {api.lastSyncError}</div>
+                                            )}
+                                        </div>
+                                    )}
+
                                     <div className="flex items-center gap-4 text-sm">
                                         <span className="font-semibold text-orange-600">
                                             {api.skillCount} skills
@@ -700,26 +1018,143 @@ export default function SkillsPage() {
                                         {api.metadata?.version && (
                                             <span className="text-slate-500">v{api.metadata.version}</span>
                                         )}
+                                        {api.currentVersion !== undefined && (
+                                            <span className="text-slate-500">
+                                                Skill set #{api.pinnedVersion ?? api.currentVersion}
+                                                {api.pinnedVersion !== undefined && ' (pinned)'}
+                                            </span>
+                                        )}
                                         <span className="text-slate-400">
                                             {new Date(api.registeredAt).toLocaleDateString()}
                                         </span>
                                     </div>
 
                                     {/* Skills Preview */}
-                                    {api.skillNames.length > 0 && (
+                                    {(api.skills?.length ?? 0) > 0 && (
                                         <details className="mt-3">
                                             <summary className="cursor-pointer text-sm font-medium text-slate-700 hover:text-orange-600">
-                                                View {api.skillNames.length} skill{api.skillNames.length !== 1 ? 's' : ''}
+                                                View {api.skills!.length} skill{api.skills!.length !== 1 ? 's' : ''}
+                                                {' '}({api.skills!.filter((skill) => skill.enabled).length} enabled)
                                             </summary>
-                                            <div className="mt-2 pl-4 space-y-1">
-                                                {api.skillNames.map((skillName, skillIdx) => (
-                                                    <div key={skillIdx} className="text-sm text-slate-600 font-mono">
-                                                        • {skillName}
+                                            <div className="mt-2 pl-4 space-y-3">
+                                                {api.skills!.map((skill) => (
+                                                    <div key={skill.name} className={`text-sm border-l-2 pl-3 ${skill.enabled ? 'border-orange-300' : 'border-slate-200 opacity-60'}`}>
+                                                        <label className="flex items-center gap-2">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={skill.enabled}
+                                                                onChange={(e) => handleSkillUpdate(api.apiName, skill.name, { enabled: e.target.checked })}
+                                                            />
+                                                            <span className="font-mono text-slate-700">{skill.name}</span>
+                                                            <span className="text-xs text-slate-400">{skill.method} {skill.path}</span>
+                                                        </label>
+                                                        <div className="mt-1 grid grid-cols-1 gap-1 text-xs">
+                                                            <input
+                                                                type="text"
+                                                                defaultValue={skill.customName || ''}
+                                                                placeholder="Custom name"
+                                                                onBlur={(e) => {
+                                                                    if (e.target.value !== (skill.customName || '')) {
+                                                                        handleSkillUpdate(api.apiName, skill.name, { customName: e.target.value || null });
+                                                                    }
+                                                                }}
+                                                                className="border border-slate-300 rounded px-2 py-1 font-mono"
+                                                            />
+                                                            <textarea
+                                                                defaultValue={skill.customDescription || ''}
+                                                                placeholder={skill.description}
+                                                                rows={2}
+                                                                onBlur={(e) => {
+                                                                    if (e.target.value !== (skill.customDescription || '')) {
+                                                                        handleSkillUpdate(api.apiName, skill.name, { customDescription: e.target.value || null });
+                                                                    }
+                                                                }}
+                                                                className="border border-slate-300 rounded px-2 py-1"
+                                                            />
+                                                            {skill.parameters.map((param) => (
+                                                                <label key={param.name} className="flex items-center gap-2">
+                                                                    <span className="font-mono w-40 truncate" title={`${param.in} parameter`}>
+                                                                        {param.name}{param.required ? '*' : ''}
+                                                                    </span>
+                                                                    <input
+                                                                        type="text"
+                                                                        defaultValue={skill.fixedParameters[param.name] ?? ''}
+                                                                        placeholder="Chosen by the model"
+                                                                        onBlur={(e) => {
+                                                                            const fixedParameters = { ...skill.fixedParameters };
+                                                                            if (e.target.value === String(fixedParameters[param.name] ?? '')) {
+                                                                                return;
+                                                                            }
+                                                                            if (e.target.value) {
+                                                                                fixedParameters[param.name] = e.target.value;
+                                                                            } else {
+                                                                                delete fixedParameters[param.name];
+                                                                            }
+                                                                            handleSkillUpdate(api.apiName, skill.name, { fixedParameters });
+                                                                        }}
+                                                                        className="border border-slate-300 rounded px-2 py-1 flex-1"
+                                                                    />
+                                                                </label>
+                                                            ))}
+                                                        </div>
                                                     </div>
                                                 ))}
                                             </div>
                                         </details>
                                     )}
+
+                                    {/* Version History */}
+                                    <details
+                                        className="mt-2"
+                                        onToggle={(e) => {
+                                            if ((e.currentTarget as any).open) {
+                                                fetchVersions(api.apiName);
+                                            }
+                                        }}
+                                    >
+                                        <summary className="cursor-pointer text-sm font-medium text-slate-700 hover:text-orange-600">
+                                            Version history
+                                        </summary>
+                                        <div className="mt-2 pl-4 space-y-1">
+                                            {(versionHistory[api.apiName] || []).map((entry) => (
+                                                <div key={entry.version} className="text-xs text-slate-600 flex items-center gap-2">
+                                                    <span className="font-mono font-semibold">#{entry.version}</span>
+                                                    <span>{new Date(entry.registeredAt).toLocaleString()}</span>
+                                                    <span className="text-slate-400">{entry.source === 'sync' ? 'synced' : 'uploaded'}</span>
+                                                    <span>
+                                                        {entry.skillCount} skills · +{entry.diff.added.length} −{entry.diff.removed.length} ~{entry.diff.changed.length}
+                                                    </span>
+                                                    <span className="font-mono text-slate-400" title={entry.hash}>{entry.hash.slice(0, 8)}</span>
+                                                    {entry.version === api.currentVersion && (
+                                                        <span className="text-green-700 font-medium">current</span>
+                                                    )}
+                                                    {entry.version === api.pinnedVersion ? (
+                                                        <button
+                                                            onClick={() => handleVersionAction(api.apiName, 'pin', null)}
+                                                            className="text-orange-600 hover:text-orange-700 font-medium"
+                                                        >
+                                                            Unpin
+                                                        </button>
+                                                    ) : (
+                                                        <button
+                                                            onClick={() => handleVersionAction(api.apiName, 'pin', entry.version)}
+                                                            className="text-orange-600 hover:text-orange-700 font-medium"
+                                                        >
+                                                            Pin for chat
+                                                        </button>
+                                                    )}
+                                                    {entry.version !== api.currentVersion && api.pinnedVersion === undefined && (
+                                                        <button
+                                                            onClick={() => handleVersionAction(api.apiName, 'rollback', entry.version)}
+                                                            className="text-orange-600 hover:text-orange-700 font-medium"
+                                                        >
+                                                            Roll back
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </details>
                                 </div>
                             ))}
                         </div>
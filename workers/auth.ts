@@ -0,0 +1,172 @@
+// Session tokens are HS256 JWTs signed with AUTH_SECRET; the `sub` claim is the user id
+export const SESSION_TOKEN_TTL_SECONDS = 90 * 24 * 60 * 60;
+// Refreshed tokens never outlive this, counted from the session's first token
+export const MAX_SESSION_LIFETIME_SECONDS = 365 * 24 * 60 * 60;
+export const MIN_AUTH_SECRET_LENGTH = 32;
+// How long an operator-issued claim code for a pre-token id stays valid
+export const CLAIM_CODE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface SessionClaims {
+    sub: string;
+    iat: number;
+    exp: number;
+    // When the session's first token was issued; refreshes carry it forward
+    auth_time: number;
+}
+
+const encoder = new TextEncoder();
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Signs a token for `userId`. Pass the `auth_time` of the token being refreshed to continue that session;
+ * the expiry is cut short where it would pass MAX_SESSION_LIFETIME_SECONDS after it.
+ */
+export async function signSessionToken(
+    userId: string,
+    secret: string,
+    ttlSeconds: number = SESSION_TOKEN_TTL_SECONDS,
+    now: number = Date.now(),
+    authTime?: number
+): Promise<{ token: string; claims: SessionClaims }> {
+    const issuedAt = Math.floor(now / 1000);
+    const sessionStart = authTime ?? issuedAt;
+    const claims: SessionClaims = {
+        sub: userId,
+        iat: issuedAt,
+        exp: Math.min(issuedAt + ttlSeconds, sessionStart + MAX_SESSION_LIFETIME_SECONDS),
+        auth_time: sessionStart
+    };
+    const signingInput = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(claims)}`;
+
+    const signature = await crypto.subtle.sign('HMAC', await importSigningKey(secret), encoder.encode(signingInput));
+    return { token: `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`, claims };
+}
+
+/**
+ * Returns the claims of a well-formed, correctly signed and unexpired token, otherwise the reason it was refused.
+ * Only HS256 is accepted, whatever the header claims.
+ */
+export async function verifySessionToken(
+    token: string,
+    secret: string,
+    now: number = Date.now()
+): Promise<{ ok: true; claims: SessionClaims } | { ok: false; reason: string }> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+        return { ok: false, reason: 'Malformed session token' };
+    }
+
+    const [headerSegment, payloadSegment, signatureSegment] = segments;
+    const header = decodeSegment(headerSegment);
+    const claims = decodeSegment(payloadSegment);
+    const signature = base64UrlDecode(signatureSegment);
+    if (!header || !claims || !signature || header.alg !== 'HS256') {
+        return { ok: false, reason: 'Malformed session token' };
+    }
+
+    const valid = await crypto.subtle.verify(
+        'HMAC',
+        await importSigningKey(secret),
+        signature,
+        encoder.encode(`${headerSegment}.${payloadSegment}`)
+    );
+    if (!valid) {
+        return { ok: false, reason: 'Invalid session token signature' };
+    }
+
+    if (typeof claims.sub !== 'string' || !claims.sub || typeof claims.exp !== 'number') {
+        return { ok: false, reason: 'Malformed session token' };
+    }
+    if (claims.exp <= Math.floor(now / 1000)) {
+        return { ok: false, reason: 'Session token expired' };
+    }
+
+    // Tokens issued before `auth_time` existed count their session from their own issue time
+    const issuedAt = Number(claims.iat) || 0;
+    const authTime = typeof claims.auth_time === 'number' ? claims.auth_time : issuedAt;
+    return { ok: true, claims: { sub: claims.sub, iat: issuedAt, exp: claims.exp, auth_time: authTime } };
+}
+
+/**
+ * A code an operator hands to the owner of `legacyId`, an id picked by a client before session tokens, to claim it.
+ * Codes are signed with a key derived from AUTH_SECRET, so a code never passes as a session token or the reverse.
+ */
+export async function signClaimCode(
+    legacyId: string,
+    secret: string,
+    ttlSeconds: number = CLAIM_CODE_TTL_SECONDS,
+    now: number = Date.now()
+): Promise<{ code: string; expiresAt: number }> {
+    const { token, claims } = await signSessionToken(legacyId, claimCodeSecret(secret), ttlSeconds, now);
+    return { code: token, expiresAt: claims.exp };
+}
+
+export async function verifyClaimCode(code: string, legacyId: string, secret: string, now: number = Date.now()): Promise<boolean> {
+    const verified = await verifySessionToken(code, claimCodeSecret(secret), now);
+    return verified.ok && verified.claims.sub === legacyId;
+}
+
+// Compares secrets without stopping at the first differing character
+export function constantTimeEqual(a: string, b: string): boolean {
+    const left = encoder.encode(a);
+    const right = encoder.encode(b);
+    let difference = left.length ^ right.length;
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        difference |= (left[i] ?? 0) ^ (right[i] ?? 0);
+    }
+    return difference === 0;
+}
+
+function claimCodeSecret(secret: string): string {
+    return `claim-code:${secret}`;
+}
+
+function importSigningKey(secret: string): Promise<CryptoKey> {
+    let key = keyCache.get(secret);
+    if (!key) {
+        key = crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+        keyCache.set(secret, key);
+    }
+    return key;
+}
+
+function encodeSegment(value: unknown): string {
+    return base64UrlEncode(encoder.encode(JSON.stringify(value)));
+}
+
+function decodeSegment(segment: string): Record<string, any> | null {
+    const bytes = base64UrlDecode(segment);
+    if (!bytes) {
+        return null;
+    }
+    try {
+        const value = JSON.parse(new TextDecoder().decode(bytes));
+        return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+    } catch {
+        return null;
+    }
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(segment: string): Uint8Array<ArrayBuffer> | null {
+    if (!/^[A-Za-z0-9_-]*$/.test(segment)) {
+        return null;
+    }
+    try {
+        const binary = atob(segment.replace(/-/g, '+').replace(/_/g, '/'));
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+    } catch {
+        return null;
+    }
+}
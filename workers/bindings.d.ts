@@ -3,7 +3,18 @@ export interface Env {
   TOOL_REGISTRY: DurableObjectNamespace;
   SESSION_STATE: DurableObjectNamespace;
   SKILL_REGISTRY: DurableObjectNamespace;
+  WORKSPACE: DurableObjectNamespace;
+  RATE_LIMITER: DurableObjectNamespace;
   API_KEY_SECRET: string;
+  // Signs session tokens (HS256); at least 32 characters
+  AUTH_SECRET: string;
+  // Lets operators issue claim codes for pre-token ids; claims are impossible while unset
+  OPERATOR_TOKEN?: string;
+  // Default provider name ('workers-ai', 'openai', or 'scripted' for offline development)
+  MODEL_PROVIDER?: string;
+  OPENAI_BASE_URL?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_MODEL?: string;
 }
 
 export interface CommonSpecModel {
@@ -0,0 +1,222 @@
+/**
+ * RateLimiter Durable Object
+ * Token buckets for one owner (a user or a workspace), so chat turns and upstream API calls can be throttled,
+ * and circuit breakers that pause calls to the owner's APIs while they keep failing.
+ */
+
+export interface TokenBucket {
+    // Unique within the owner, e.g. `chat` or `api:<apiName>`
+    key: string;
+    capacity: number;
+    refillPerSecond: number;
+}
+
+export interface ConsumeResult {
+    allowed: boolean;
+    // Tokens left in each bucket after this request
+    remaining: Record<string, number>;
+    // Set when refused: the bucket that ran out and how long until it holds a token again
+    limitedBy?: string;
+    retryAfterSeconds?: number;
+}
+
+interface BucketState {
+    tokens: number;
+    updatedAt: number;
+}
+
+// closed: calls flow. open: calls fail fast until retryAt. half_open: one trial call decides which way it goes
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitStatus {
+    key: string;
+    state: CircuitState;
+    // Consecutive upstream failures
+    failures: number;
+    openedAt?: string;
+    // Until an open circuit lets a trial call through
+    retryAfterSeconds?: number;
+}
+
+interface StoredCircuit {
+    state: CircuitState;
+    failures: number;
+    openedAt?: number;
+    // When an open circuit admits a trial call, or a half-open one gives up on an unfinished trial
+    retryAt?: number;
+}
+
+const MAX_BUCKETS_PER_REQUEST = 8;
+
+export class RateLimiter {
+    private state: DurableObjectState;
+
+    constructor(state: DurableObjectState) {
+        this.state = state;
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+        const json = (data: unknown, status = 200) => new Response(
+            JSON.stringify(data),
+            { status, headers: { 'Content-Type': 'application/json' } }
+        );
+
+        try {
+            if (url.pathname === '/consume' && request.method === 'POST') {
+                const body = await request.json<any>();
+                const buckets = Array.isArray(body?.buckets) ? body.buckets : [];
+                if (buckets.length === 0 || buckets.length > MAX_BUCKETS_PER_REQUEST || !buckets.every(isTokenBucket)) {
+                    return json({ error: `buckets must list 1 to ${MAX_BUCKETS_PER_REQUEST} buckets with key, capacity and refillPerSecond` }, 400);
+                }
+                return json(await this.consume(buckets, Date.now()));
+            }
+
+            if (url.pathname === '/circuit/acquire' && request.method === 'POST') {
+                const body = await request.json<any>();
+                if (!body?.key || !(body.cooldownSeconds > 0)) {
+                    return json({ error: 'key and cooldownSeconds are required' }, 400);
+                }
+                return json(await this.acquireCircuit(body.key, body.cooldownSeconds, Date.now()));
+            }
+
+            if (url.pathname === '/circuit/record' && request.method === 'POST') {
+                const body = await request.json<any>();
+                if (!body?.key || typeof body.success !== 'boolean' || !(body.failureThreshold >= 1) || !(body.cooldownSeconds > 0)) {
+                    return json({ error: 'key, success, failureThreshold and cooldownSeconds are required' }, 400);
+                }
+                return json(await this.recordCircuit(body.key, body.success, body.failureThreshold, body.cooldownSeconds, Date.now()));
+            }
+
+            // Circuits that are not closed, or have failures counting towards opening
+            if (url.pathname === '/circuits' && request.method === 'GET') {
+                const stored = await this.state.storage.list<StoredCircuit>({ prefix: 'circuit:' });
+                const now = Date.now();
+                return json({
+                    circuits: Array.from(stored, ([key, circuit]) => toCircuitStatus(key.slice('circuit:'.length), circuit, now))
+                });
+            }
+
+            return json({ error: 'Not found' }, 404);
+        } catch (error) {
+            return json({ error: (error as Error).message }, 500);
+        }
+    }
+
+    // Takes one token from every bucket, or from none when any of them is empty
+    private async consume(buckets: TokenBucket[], now: number): Promise<ConsumeResult> {
+        const levels = new Map<string, number>();
+        let limitedBy: string | undefined;
+        let retryAfterSeconds = 0;
+
+        for (const bucket of buckets) {
+            const stored = await this.state.storage.get<BucketState>(bucketKey(bucket.key));
+            const elapsedSeconds = stored ? Math.max(0, now - stored.updatedAt) / 1000 : 0;
+            const tokens = stored
+                ? Math.min(bucket.capacity, stored.tokens + elapsedSeconds * bucket.refillPerSecond)
+                : bucket.capacity;
+            levels.set(bucket.key, tokens);
+
+            if (tokens < 1) {
+                const wait = Math.ceil((1 - tokens) / bucket.refillPerSecond);
+                if (wait > retryAfterSeconds) {
+                    retryAfterSeconds = wait;
+                    limitedBy = bucket.key;
+                }
+            }
+        }
+
+        if (limitedBy) {
+            return {
+                allowed: false,
+                remaining: Object.fromEntries(Array.from(levels, ([key, tokens]) => [key, Math.floor(tokens)])),
+                limitedBy,
+                retryAfterSeconds
+            };
+        }
+
+        const remaining: Record<string, number> = {};
+        for (const bucket of buckets) {
+            const tokens = levels.get(bucket.key)! - 1;
+            await this.state.storage.put(bucketKey(bucket.key), { tokens, updatedAt: now });
+            remaining[bucket.key] = Math.floor(tokens);
+        }
+        return { allowed: true, remaining };
+    }
+
+    /**
+     * Whether a call may go out. After an open circuit's cooldown exactly one caller gets through as the trial;
+     * a trial that never reports back is replaced after another cooldown.
+     */
+    private async acquireCircuit(
+        key: string,
+        cooldownSeconds: number,
+        now: number
+    ): Promise<CircuitStatus & { allowed: boolean }> {
+        const circuit = await this.state.storage.get<StoredCircuit>(circuitKey(key));
+        if (!circuit || circuit.state === 'closed') {
+            return { key, state: 'closed', failures: circuit?.failures || 0, allowed: true };
+        }
+
+        if (now < (circuit.retryAt || 0)) {
+            return { ...toCircuitStatus(key, circuit, now), allowed: false };
+        }
+
+        const trial: StoredCircuit = { ...circuit, state: 'half_open', retryAt: now + cooldownSeconds * 1000 };
+        await this.state.storage.put(circuitKey(key), trial);
+        return { ...toCircuitStatus(key, trial, now), allowed: true };
+    }
+
+    private async recordCircuit(
+        key: string,
+        success: boolean,
+        failureThreshold: number,
+        cooldownSeconds: number,
+        now: number
+    ): Promise<CircuitStatus> {
+        if (success) {
+            await this.state.storage.delete(circuitKey(key));
+            return { key, state: 'closed', failures: 0 };
+        }
+
+        const circuit = await this.state.storage.get<StoredCircuit>(circuitKey(key)) || { state: 'closed', failures: 0 };
+        const failures = circuit.failures + 1;
+        // A failed trial reopens the circuit straight away
+        const next: StoredCircuit = circuit.state === 'half_open' || failures >= failureThreshold
+            ? { state: 'open', failures, openedAt: now, retryAt: now + cooldownSeconds * 1000 }
+            : { state: 'closed', failures };
+        await this.state.storage.put(circuitKey(key), next);
+        return toCircuitStatus(key, next, now);
+    }
+}
+
+// Durable Object name of the limiter holding an owner's buckets
+export function rateLimiterName(ownerId: string): string {
+    return `rate:${ownerId}`;
+}
+
+function bucketKey(key: string): string {
+    return `bucket:${key}`;
+}
+
+function isTokenBucket(value: any): value is TokenBucket {
+    return Boolean(value)
+        && typeof value.key === 'string' && value.key.length > 0
+        && typeof value.capacity === 'number' && value.capacity >= 1
+        && typeof value.refillPerSecond === 'number' && value.refillPerSecond > 0;
+}
+
+function circuitKey(key: string): string {
+    return `circuit:${key}`;
+}
+
+function toCircuitStatus(key: string, circuit: StoredCircuit, now: number): CircuitStatus {
+    const status: CircuitStatus = { key, state: circuit.state, failures: circuit.failures };
+    if (circuit.openedAt !== undefined) {
+        status.openedAt = new Date(circuit.openedAt).toISOString();
+    }
+    if (circuit.state === 'open' && circuit.retryAt !== undefined && circuit.retryAt > now) {
+        status.retryAfterSeconds = Math.ceil((circuit.retryAt - now) / 1000);
+    }
+    return status;
+}
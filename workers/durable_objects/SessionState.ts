@@ -1,4 +1,8 @@
+import { DEFAULT_MAX_RESPONSE_BYTES, guardedFetch, readTextWithLimit } from '../utils/egress';
+
 export interface Message {
+  // Assigned when the message is stored
+  id?: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: string;
@@ -27,6 +31,39 @@ export interface SandboxScenario {
   lastBodyPreview?: string;
 }
 
+export interface PendingAction {
+  id: string;
+  runId: string;
+  toolCallId: string;
+  skill: string;
+  apiName?: string;
+  method: string;
+  url: string;
+  body?: any;
+  args: Record<string, any>;
+  status: 'pending' | 'approved' | 'rejected';
+  createdAt: string;
+  execution?: Record<string, any>;
+}
+
+// A chat turn paused on one or more tool calls awaiting the user's decision
+export interface PendingRun {
+  id: string;
+  step: number;
+  maxSteps: number;
+  tokenBudget: number;
+  offerTools: boolean;
+  model?: { provider?: string; model?: string };
+  messages: any[];
+  executions: any[];
+  actions: PendingAction[];
+  // The conversation the reply is added to once the run resumes
+  conversationId?: string;
+  // The workspace whose skills the run could call, if any
+  workspaceId?: string;
+  createdAt: string;
+}
+
 interface ScenarioRunResult {
   id: string;
   name: string;
@@ -40,15 +77,105 @@ interface ScenarioRunResult {
   ranAt: string;
 }
 
+// A chat thread; messages, persona and pinned skills are kept per conversation
+export interface Conversation {
+  id: string;
+  title: string;
+  persona?: string;
+  // Skill names offered on every turn, whether or not they match the message
+  pinnedSkills: string[];
+  archived: boolean;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+// How much history a session keeps; `maxMessages` applies to each conversation.
+// Unset limits mean history is kept indefinitely
+export interface HistoryRetention {
+  maxMessages?: number;
+  maxAgeDays?: number;
+}
+
+interface MessageRow extends Record<string, SqlStorageValue> {
+  seq: number;
+  id: string;
+  conversation_id: string;
+  role: string;
+  content: string;
+  timestamp: string;
+  metadata: string | null;
+}
+
+interface ConversationRow extends Record<string, SqlStorageValue> {
+  id: string;
+  title: string;
+  persona: string | null;
+  pinned_skills: string;
+  archived: number;
+  created_at: string;
+  updated_at: string;
+  message_count: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS messages (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    conversation_id TEXT NOT NULL DEFAULT 'default',
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    metadata TEXT
+  );
+  CREATE INDEX IF NOT EXISTS messages_by_timestamp ON messages (timestamp);
+  CREATE TABLE IF NOT EXISTS scenarios (
+    position INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS metadata (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    persona TEXT,
+    pinned_skills TEXT NOT NULL DEFAULT '[]',
+    archived INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`;
+
+// Holds the history from before conversations existed; it cannot be archived or deleted
+export const DEFAULT_CONVERSATION_ID = 'default';
+const NEW_CONVERSATION_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 100;
+const MAX_PINNED_SKILLS = 20;
+
+const RETENTION_KEY = 'historyRetention';
+// Keys that stay in key-value storage; everything else moved to SQL
+const KV_KEYS = new Set(['pendingRuns', 'sqlMigrated']);
+const MAX_HISTORY_PAGE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class SessionState {
   private state: DurableObjectState;
+  private sql: SqlStorage;
+  private migration?: Promise<void>;
 
   constructor(state: DurableObjectState, _env: any) {
     this.state = state;
+    this.sql = state.storage.sql;
+    this.sql.exec(SCHEMA);
+    this.upgradeSchema();
   }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
+    await (this.migration ??= this.migrateKeyValueStorage());
 
     // POST /add-message - Add message to history
     if (url.pathname === '/add-message' && request.method === 'POST') {
@@ -58,6 +185,9 @@ export class SessionState {
       }
 
       const payload = parsed.value;
+      const conversationId = typeof payload?.conversationId === 'string' && payload.conversationId.trim()
+        ? payload.conversationId.trim()
+        : DEFAULT_CONVERSATION_ID;
       const role = typeof payload?.role === 'string' ? payload.role.trim() : '';
       const content = typeof payload?.content === 'string' ? payload.content : '';
 
@@ -78,34 +208,245 @@ export class SessionState {
         message.metadata = payload.metadata;
       }
 
-      const history: Array<typeof message> = (await this.state.storage.get('history')) || [];
-      history.push(message);
-
-      // Keep last 100 messages
-      if (history.length > 100) {
-        history.splice(0, history.length - 100);
+      if (!this.getConversation(conversationId)) {
+        return jsonResp({ error: 'Conversation not found' }, 404);
       }
 
-      await this.state.storage.put('history', history);
+      const id = this.insertMessage(message, conversationId);
+      // An untitled thread is named after its first question
+      if (message.role === 'user') {
+        this.sql.exec(
+          'UPDATE conversations SET title = ? WHERE id = ? AND title = ?',
+          summarizeTitle(content),
+          conversationId,
+          NEW_CONVERSATION_TITLE
+        );
+      }
+      this.sql.exec('UPDATE conversations SET updated_at = ? WHERE id = ?', message.timestamp, conversationId);
+      this.applyRetention();
 
-      return jsonResp({ success: true });
+      return jsonResp({ success: true, id, conversationId });
     }
 
+    // GET /get-history - a conversation's whole history, or with `limit` a page of the newest messages before the
+    // `before` cursor. `since` and `until` (ISO timestamps) narrow either form.
     if (url.pathname === '/get-history' && request.method === 'GET') {
-      const history: Message[] = (await this.state.storage.get('history')) || [];
-      return jsonResp(history);
+      const conversationId = url.searchParams.get('conversationId') || DEFAULT_CONVERSATION_ID;
+      const limitParam = url.searchParams.get('limit');
+      const before = url.searchParams.get('before');
+      const since = url.searchParams.get('since');
+      const until = url.searchParams.get('until');
+
+      if (!this.getConversation(conversationId)) {
+        return jsonResp({ error: 'Conversation not found' }, 404);
+      }
+
+      const conditions: string[] = ['conversation_id = ?'];
+      const bindings: Array<string | number> = [conversationId];
+      if (since) {
+        conditions.push('timestamp >= ?');
+        bindings.push(since);
+      }
+      if (until) {
+        conditions.push('timestamp <= ?');
+        bindings.push(until);
+      }
+
+      if (limitParam === null && before === null) {
+        const rows = this.sql.exec<MessageRow>(
+          `SELECT * FROM messages WHERE ${conditions.join(' AND ')} ORDER BY seq`,
+          ...bindings
+        ).toArray();
+        return jsonResp(rows.map(toMessage));
+      }
+
+      const limit = Number(limitParam ?? MAX_HISTORY_PAGE);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE) {
+        return jsonResp({ error: `limit must be an integer between 1 and ${MAX_HISTORY_PAGE}` }, 400);
+      }
+      if (before !== null) {
+        if (!/^\d+$/.test(before)) {
+          return jsonResp({ error: 'Invalid cursor' }, 400);
+        }
+        conditions.push('seq < ?');
+        bindings.push(Number(before));
+      }
+
+      // One extra row tells whether an older page exists
+      const rows = this.sql.exec<MessageRow>(
+        `SELECT * FROM messages WHERE ${conditions.join(' AND ')} ORDER BY seq DESC LIMIT ?`,
+        ...bindings,
+        limit + 1
+      ).toArray();
+      const page = rows.slice(0, limit).reverse();
+      const nextCursor = rows.length > limit ? String(page[0].seq) : null;
+
+      return jsonResp({ messages: page.map(toMessage), nextCursor });
+    }
+
+    if (url.pathname === '/get-message' && request.method === 'GET') {
+      const id = url.searchParams.get('id');
+      if (!id) {
+        return jsonResp({ error: 'Message id is required' }, 400);
+      }
+
+      const [row] = this.sql.exec<MessageRow>('SELECT * FROM messages WHERE id = ?', id).toArray();
+      if (!row) {
+        return jsonResp({ error: 'Message not found' }, 404);
+      }
+      return jsonResp(toMessage(row));
     }
 
+    // Clears one conversation when `conversationId` is given, otherwise every conversation's history
     if (
       (url.pathname === '/clear-history' && request.method === 'POST') ||
       (url.pathname === '/clear' && request.method === 'DELETE')
     ) {
-      await this.state.storage.put('history', []);
+      const conversationId = url.searchParams.get('conversationId');
+      if (conversationId) {
+        this.sql.exec('DELETE FROM messages WHERE conversation_id = ?', conversationId);
+      } else {
+        this.sql.exec('DELETE FROM messages');
+      }
       return jsonResp({ success: true });
     }
 
+    if (url.pathname === '/conversations' && request.method === 'GET') {
+      const includeArchived = url.searchParams.get('includeArchived') === 'true';
+      return jsonResp({ conversations: this.listConversations(includeArchived) });
+    }
+
+    // POST /conversations - { title?, persona?, pinnedSkills? }
+    if (url.pathname === '/conversations' && request.method === 'POST') {
+      const parsed = await readJson(request);
+      if (!parsed.ok) {
+        return parsed.error;
+      }
+
+      const settings = parseConversationSettings(parsed.value || {});
+      if ('error' in settings) {
+        return jsonResp({ error: settings.error }, 400);
+      }
+
+      const id = this.generateId();
+      const now = new Date().toISOString();
+      this.sql.exec(
+        'INSERT INTO conversations (id, title, persona, pinned_skills, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+        id,
+        settings.title || NEW_CONVERSATION_TITLE,
+        settings.persona || null,
+        JSON.stringify(settings.pinnedSkills || []),
+        now,
+        now
+      );
+
+      return jsonResp({ conversation: this.getConversation(id) }, 201);
+    }
+
+    if (url.pathname.startsWith('/conversations/')) {
+      const conversationId = decodeURIComponent(url.pathname.slice('/conversations/'.length));
+      const conversation = this.getConversation(conversationId);
+      if (!conversation) {
+        return jsonResp({ error: 'Conversation not found' }, 404);
+      }
+
+      if (request.method === 'GET') {
+        return jsonResp({ conversation });
+      }
+
+      // PATCH /conversations/:id - { title?, persona?, pinnedSkills?, archived? }; null clears persona
+      if (request.method === 'PATCH') {
+        const parsed = await readJson(request);
+        if (!parsed.ok) {
+          return parsed.error;
+        }
+
+        const payload = parsed.value || {};
+        const settings = parseConversationSettings(payload);
+        if ('error' in settings) {
+          return jsonResp({ error: settings.error }, 400);
+        }
+        if (payload.archived !== undefined && typeof payload.archived !== 'boolean') {
+          return jsonResp({ error: 'archived must be a boolean' }, 400);
+        }
+        if (payload.archived === true && conversation.id === DEFAULT_CONVERSATION_ID) {
+          return jsonResp({ error: 'The default conversation cannot be archived' }, 400);
+        }
+
+        const updated: Conversation = {
+          ...conversation,
+          title: settings.title ?? conversation.title,
+          persona: settings.persona === null ? undefined : settings.persona ?? conversation.persona,
+          pinnedSkills: settings.pinnedSkills ?? conversation.pinnedSkills,
+          archived: payload.archived ?? conversation.archived,
+          updatedAt: new Date().toISOString(),
+        };
+        this.sql.exec(
+          'UPDATE conversations SET title = ?, persona = ?, pinned_skills = ?, archived = ?, updated_at = ? WHERE id = ?',
+          updated.title,
+          updated.persona ?? null,
+          JSON.stringify(updated.pinnedSkills),
+          updated.archived ? 1 : 0,
+          updated.updatedAt,
+          updated.id
+        );
+
+        return jsonResp({ conversation: updated });
+      }
+
+      // DELETE /conversations/:id - removes the thread with its history and any runs awaiting approval
+      if (request.method === 'DELETE') {
+        if (conversation.id === DEFAULT_CONVERSATION_ID) {
+          return jsonResp({ error: 'The default conversation cannot be deleted' }, 400);
+        }
+
+        this.sql.exec('DELETE FROM messages WHERE conversation_id = ?', conversation.id);
+        this.sql.exec('DELETE FROM conversations WHERE id = ?', conversation.id);
+
+        const runs: PendingRun[] = (await this.state.storage.get('pendingRuns')) || [];
+        const remaining = runs.filter((run) => (run.conversationId || DEFAULT_CONVERSATION_ID) !== conversation.id);
+        if (remaining.length !== runs.length) {
+          await this.state.storage.put('pendingRuns', remaining);
+        }
+
+        return jsonResp({ success: true });
+      }
+    }
+
+    if (url.pathname === '/retention' && request.method === 'GET') {
+      return jsonResp(this.getRetention());
+    }
+
+    // POST /retention - { maxMessages?, maxAgeDays? }; null removes a limit
+    if (url.pathname === '/retention' && request.method === 'POST') {
+      const parsed = await readJson(request);
+      if (!parsed.ok) {
+        return parsed.error;
+      }
+
+      const payload = parsed.value || {};
+      const retention = this.getRetention();
+      for (const field of ['maxMessages', 'maxAgeDays'] as const) {
+        const value = payload[field];
+        if (value === undefined) {
+          continue;
+        }
+        if (value === null) {
+          delete retention[field];
+        } else if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+          retention[field] = field === 'maxMessages' ? Math.floor(value) : value;
+        } else {
+          return jsonResp({ error: `${field} must be a positive number or null` }, 400);
+        }
+      }
+
+      this.setMetadata(RETENTION_KEY, retention);
+      const removed = this.applyRetention();
+      return jsonResp({ retention, removed });
+    }
+
     if ((url.pathname === '/scenarios' || url.pathname === '/scenarios/list') && request.method === 'GET') {
-      const scenarios: SandboxScenario[] = (await this.state.storage.get('scenarios')) || [];
+      const scenarios = this.listScenarios();
       if (url.pathname === '/scenarios/list') {
         return jsonResp(scenarios);
       }
@@ -121,7 +462,7 @@ export class SessionState {
         return parsed.error;
       }
       const payload = parsed.value || {};
-      const scenarios: SandboxScenario[] = (await this.state.storage.get('scenarios')) || [];
+      const scenarios = this.listScenarios();
 
       const id = typeof payload.id === 'string' && payload.id.trim().length ? payload.id.trim() : this.generateId();
       const existingIndex = scenarios.findIndex((scenario) => scenario.id === id);
@@ -174,19 +515,13 @@ export class SessionState {
         return jsonResp({ error: 'Scenario request url is required' }, 400);
       }
 
-      if (existingIndex >= 0) {
-        scenarios[existingIndex] = { ...scenarios[existingIndex], ...scenario };
-      } else {
-        scenarios.push(scenario);
-      }
-
-      await this.state.storage.put('scenarios', scenarios);
+      this.saveScenario(existingIndex >= 0 ? { ...scenarios[existingIndex], ...scenario } : scenario);
       return jsonResp({ scenario });
     }
 
     if (url.pathname.startsWith('/scenarios/delete/') && request.method === 'DELETE') {
       const [, , , indexStr] = url.pathname.split('/');
-      const scenarios: SandboxScenario[] = (await this.state.storage.get('scenarios')) || [];
+      const scenarios = this.listScenarios();
 
       const index = Number(indexStr);
       if (!Number.isInteger(index)) {
@@ -197,8 +532,7 @@ export class SessionState {
         return jsonResp({ error: 'Scenario not found' }, 404);
       }
 
-      scenarios.splice(index, 1);
-      await this.state.storage.put('scenarios', scenarios);
+      this.sql.exec('DELETE FROM scenarios WHERE id = ?', scenarios[index].id);
       return jsonResp({ success: true });
     }
 
@@ -208,14 +542,11 @@ export class SessionState {
         return jsonResp({ error: 'Scenario ID required' }, 400);
       }
 
-      const scenarios: SandboxScenario[] = (await this.state.storage.get('scenarios')) || [];
-      const next = scenarios.filter((scenario) => scenario.id !== scenarioId);
-
-      if (next.length === scenarios.length) {
+      const { rowsWritten } = this.sql.exec('DELETE FROM scenarios WHERE id = ?', scenarioId);
+      if (rowsWritten === 0) {
         return jsonResp({ error: 'Scenario not found' }, 404);
       }
 
-      await this.state.storage.put('scenarios', next);
       return jsonResp({ success: true });
     }
 
@@ -226,7 +557,7 @@ export class SessionState {
       }
 
       const payload = parsed.value || {};
-      const scenarios: SandboxScenario[] = (await this.state.storage.get('scenarios')) || [];
+      const scenarios = this.listScenarios();
       const scenarioIds: string[] | undefined = Array.isArray(payload.scenarioIds)
         ? payload.scenarioIds.filter((id: unknown) => typeof id === 'string' && id.trim().length).map((id: string) => id.trim())
         : undefined;
@@ -234,14 +565,18 @@ export class SessionState {
       const selected = scenarioIds && scenarioIds.length
         ? scenarios.filter((scenario) => scenarioIds.includes(scenario.id))
         : scenarios;
+      // The worker passes the allowlist every one of the caller's workspaces agrees on
+      const allowedHosts: string[] = Array.isArray(payload.allowedHosts)
+        ? payload.allowedHosts.filter((host: unknown) => typeof host === 'string')
+        : [];
 
       const results: ScenarioRunResult[] = [];
       for (const scenario of selected) {
-        const result = await this.executeScenarioRun(scenario);
+        const result = await this.executeScenarioRun(scenario, allowedHosts);
         results.push(result);
+        this.saveScenario(scenario);
       }
 
-      await this.state.storage.put('scenarios', scenarios);
       return jsonResp({ results });
     }
 
@@ -258,7 +593,27 @@ export class SessionState {
         return jsonResp({ error: 'Metadata key is required' }, 400);
       }
 
-      await this.state.storage.put(key, payload.value);
+      this.setMetadata(key, payload.value ?? null);
+      return jsonResp({ success: true });
+    }
+
+    // POST /claim - record the user who took over this session's pre-token id; only the first claimant succeeds
+    if (url.pathname === '/claim' && request.method === 'POST') {
+      const parsed = await readJson(request);
+      if (!parsed.ok) {
+        return parsed.error;
+      }
+
+      const claimant = typeof parsed.value?.claimant === 'string' ? parsed.value.claimant : '';
+      if (!claimant) {
+        return jsonResp({ error: 'claimant is required' }, 400);
+      }
+
+      const claimedBy = this.getMetadata('claimedBy');
+      if (claimedBy !== undefined && claimedBy !== claimant) {
+        return jsonResp({ error: 'Already claimed' }, 409);
+      }
+      this.setMetadata('claimedBy', claimant);
       return jsonResp({ success: true });
     }
 
@@ -268,7 +623,7 @@ export class SessionState {
         return jsonResp({ error: 'Metadata key is required' }, 400);
       }
 
-      const value = await this.state.storage.get(key);
+      const value = this.getMetadata(key);
       if (value === undefined) {
         return jsonResp({ error: 'Not found' }, 404);
       }
@@ -276,9 +631,276 @@ export class SessionState {
       return jsonResp(value);
     }
 
+    if (url.pathname === '/pending-runs' && request.method === 'POST') {
+      const parsed = await readJson(request);
+      if (!parsed.ok) {
+        return parsed.error;
+      }
+
+      const payload = parsed.value || {};
+      const incomingActions = Array.isArray(payload.actions) ? payload.actions : [];
+      if (incomingActions.length === 0) {
+        return jsonResp({ error: 'At least one pending action is required' }, 400);
+      }
+
+      const now = new Date().toISOString();
+      const runId = this.generateId();
+      const run: PendingRun = {
+        id: runId,
+        step: Number(payload.step) || 1,
+        maxSteps: Number(payload.maxSteps) || 1,
+        tokenBudget: Number(payload.tokenBudget) || 0,
+        offerTools: payload.offerTools !== false,
+        model: payload.model && typeof payload.model === 'object' ? payload.model : undefined,
+        messages: Array.isArray(payload.messages) ? payload.messages : [],
+        executions: Array.isArray(payload.executions) ? payload.executions : [],
+        actions: incomingActions.map((action: any) => ({
+          id: this.generateId(),
+          runId,
+          toolCallId: String(action.toolCallId || ''),
+          skill: String(action.skill || ''),
+          apiName: typeof action.apiName === 'string' ? action.apiName : undefined,
+          method: String(action.method || 'POST').toUpperCase(),
+          url: String(action.url || ''),
+          body: action.body,
+          args: action.args && typeof action.args === 'object' ? action.args : {},
+          status: 'pending' as const,
+          createdAt: now,
+        })),
+        conversationId: typeof payload.conversationId === 'string' && payload.conversationId
+          ? payload.conversationId
+          : DEFAULT_CONVERSATION_ID,
+        ...(typeof payload.workspaceId === 'string' && payload.workspaceId ? { workspaceId: payload.workspaceId } : {}),
+        createdAt: now,
+      };
+
+      const runs: PendingRun[] = (await this.state.storage.get('pendingRuns')) || [];
+      runs.push(run);
+      await this.state.storage.put('pendingRuns', runs);
+
+      return jsonResp({ run }, 201);
+    }
+
+    if (url.pathname === '/pending-actions' && request.method === 'GET') {
+      const runs: PendingRun[] = (await this.state.storage.get('pendingRuns')) || [];
+      const actions = runs.flatMap((run) => run.actions.filter((action) => action.status === 'pending'));
+      return jsonResp({ actions });
+    }
+
+    if (url.pathname.startsWith('/pending-actions/')) {
+      const [, , actionId, operation] = url.pathname.split('/');
+      const runs: PendingRun[] = (await this.state.storage.get('pendingRuns')) || [];
+      const run = runs.find((entry) => entry.actions.some((action) => action.id === actionId));
+      const action = run?.actions.find((entry) => entry.id === actionId);
+
+      if (!run || !action) {
+        return jsonResp({ error: 'Pending action not found' }, 404);
+      }
+
+      if (!operation && request.method === 'GET') {
+        return jsonResp({ action, run });
+      }
+
+      // POST /pending-actions/:id/resolve - claim the action so it can only be decided once
+      if (operation === 'resolve' && request.method === 'POST') {
+        const parsed = await readJson(request);
+        if (!parsed.ok) {
+          return parsed.error;
+        }
+
+        const decision = parsed.value?.decision;
+        if (decision !== 'approve' && decision !== 'reject') {
+          return jsonResp({ error: 'decision must be "approve" or "reject"' }, 400);
+        }
+        if (action.status !== 'pending') {
+          return jsonResp({ error: `Action already ${action.status}` }, 409);
+        }
+
+        action.status = decision === 'approve' ? 'approved' : 'rejected';
+        await this.state.storage.put('pendingRuns', runs);
+        return jsonResp({ action, run });
+      }
+
+      // POST /pending-actions/:id/release - undo a decision whose call was never sent
+      if (operation === 'release' && request.method === 'POST') {
+        if (action.execution) {
+          return jsonResp({ error: 'Action already has a result' }, 409);
+        }
+
+        action.status = 'pending';
+        await this.state.storage.put('pendingRuns', runs);
+        return jsonResp({ action });
+      }
+
+      // POST /pending-actions/:id/result - record the outcome; the run is released once every action has one
+      if (operation === 'result' && request.method === 'POST') {
+        const parsed = await readJson(request);
+        if (!parsed.ok) {
+          return parsed.error;
+        }
+
+        if (action.status === 'pending') {
+          return jsonResp({ error: 'Action has not been resolved' }, 409);
+        }
+
+        action.execution = parsed.value?.execution && typeof parsed.value.execution === 'object'
+          ? parsed.value.execution
+          : { skill: action.skill, toolCallId: action.toolCallId, success: false, error: 'No result recorded' };
+
+        const complete = run.actions.every((entry) => entry.execution);
+        const next = complete ? runs.filter((entry) => entry.id !== run.id) : runs;
+        await this.state.storage.put('pendingRuns', next);
+
+        return jsonResp({ action, run, complete });
+      }
+    }
+
     return jsonResp({ error: 'Not found' }, 404);
   }
 
+  // With `skipExisting`, a message whose id is already stored is left alone rather than failing
+  private insertMessage(message: Message, conversationId = DEFAULT_CONVERSATION_ID, skipExisting = false): string {
+    const id = message.id || this.generateId();
+    this.sql.exec(
+      `INSERT ${skipExisting ? 'OR IGNORE ' : ''}INTO messages (id, conversation_id, role, content, timestamp, metadata) VALUES (?, ?, ?, ?, ?, ?)`,
+      id,
+      conversationId,
+      message.role,
+      message.content,
+      message.timestamp,
+      message.metadata ? JSON.stringify(message.metadata) : null
+    );
+    return id;
+  }
+
+  // Drops messages beyond the configured count or age; returns how many were removed
+  private applyRetention(): number {
+    const { maxMessages, maxAgeDays } = this.getRetention();
+    if (!maxMessages && !maxAgeDays) {
+      return 0;
+    }
+
+    const before = this.countMessages();
+    if (maxMessages) {
+      this.sql.exec(
+        `DELETE FROM messages WHERE seq IN (
+          SELECT seq FROM (
+            SELECT seq, ROW_NUMBER() OVER (PARTITION BY conversation_id ORDER BY seq DESC) AS position FROM messages
+          ) WHERE position > ?
+        )`,
+        maxMessages
+      );
+    }
+    if (maxAgeDays) {
+      const cutoff = new Date(Date.now() - maxAgeDays * DAY_MS).toISOString();
+      this.sql.exec('DELETE FROM messages WHERE timestamp < ?', cutoff);
+    }
+    return before - this.countMessages();
+  }
+
+  private countMessages(): number {
+    return this.sql.exec<{ count: number }>('SELECT COUNT(*) AS count FROM messages').one().count;
+  }
+
+  private listConversations(includeArchived: boolean): Conversation[] {
+    return this.sql.exec<ConversationRow>(
+      `SELECT conversations.*, (SELECT COUNT(*) FROM messages WHERE conversation_id = conversations.id) AS message_count
+       FROM conversations ${includeArchived ? '' : 'WHERE archived = 0'} ORDER BY updated_at DESC`
+    ).toArray().map(toConversation);
+  }
+
+  private getConversation(id: string): Conversation | undefined {
+    const [row] = this.sql.exec<ConversationRow>(
+      `SELECT conversations.*, (SELECT COUNT(*) FROM messages WHERE conversation_id = conversations.id) AS message_count
+       FROM conversations WHERE id = ?`,
+      id
+    ).toArray();
+    return row ? toConversation(row) : undefined;
+  }
+
+  private getRetention(): HistoryRetention {
+    return (this.getMetadata(RETENTION_KEY) as HistoryRetention | undefined) || {};
+  }
+
+  private listScenarios(): SandboxScenario[] {
+    return this.sql.exec<{ data: string }>('SELECT data FROM scenarios ORDER BY position')
+      .toArray()
+      .map((row) => JSON.parse(row.data));
+  }
+
+  // Upsert that keeps a scenario's original position
+  private saveScenario(scenario: SandboxScenario): void {
+    this.sql.exec(
+      'INSERT INTO scenarios (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data',
+      scenario.id,
+      JSON.stringify(scenario)
+    );
+  }
+
+  private getMetadata(key: string): unknown {
+    const [row] = this.sql.exec<{ value: string }>('SELECT value FROM metadata WHERE key = ?', key).toArray();
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  private setMetadata(key: string, value: unknown): void {
+    this.sql.exec(
+      'INSERT INTO metadata (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+      key,
+      JSON.stringify(value)
+    );
+  }
+
+  /**
+   * Message tables created before conversations existed lack `conversation_id`; their rows join the default
+   * conversation, which every session has.
+   */
+  private upgradeSchema(): void {
+    const columns = this.sql.exec<{ name: string }>('PRAGMA table_info(messages)').toArray();
+    if (!columns.some((column) => column.name === 'conversation_id')) {
+      this.sql.exec(`ALTER TABLE messages ADD COLUMN conversation_id TEXT NOT NULL DEFAULT '${DEFAULT_CONVERSATION_ID}'`);
+    }
+    this.sql.exec('CREATE INDEX IF NOT EXISTS messages_by_conversation ON messages (conversation_id, seq)');
+
+    const now = new Date().toISOString();
+    this.sql.exec(
+      'INSERT OR IGNORE INTO conversations (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)',
+      DEFAULT_CONVERSATION_ID,
+      'Default conversation',
+      now,
+      now
+    );
+  }
+
+  /**
+   * Sessions created before the move to SQL kept history, scenarios and metadata as key-value entries.
+   * Copy them into the tables once and delete the originals; pending runs stay in key-value storage.
+   */
+  private async migrateKeyValueStorage(): Promise<void> {
+    if (await this.state.storage.get('sqlMigrated')) {
+      return;
+    }
+
+    // Each key is copied before it is deleted, so a run cut short can repeat: legacy entries get ids
+    // from their position and already-copied messages are skipped, while scenarios and metadata are upserts
+    const entries = await this.state.storage.list();
+    for (const [key, value] of entries) {
+      if (KV_KEYS.has(key)) {
+        continue;
+      }
+      if (key === 'history' && Array.isArray(value)) {
+        value.forEach((message: Message, index: number) =>
+          this.insertMessage({ ...message, id: message.id || `legacy-${index}` }, DEFAULT_CONVERSATION_ID, true));
+      } else if (key === 'scenarios' && Array.isArray(value)) {
+        value.forEach((scenario: SandboxScenario, index: number) => this.saveScenario({ ...scenario, id: scenario.id || `legacy-${index}` }));
+      } else {
+        this.setMetadata(key, value ?? null);
+      }
+      await this.state.storage.delete(key);
+    }
+
+    await this.state.storage.put('sqlMigrated', true);
+  }
+
   private generateId(): string {
     if (typeof crypto?.randomUUID === 'function') {
       return crypto.randomUUID();
@@ -286,7 +908,7 @@ export class SessionState {
     return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
   }
 
-  private async executeScenarioRun(scenario: SandboxScenario): Promise<ScenarioRunResult> {
+  private async executeScenarioRun(scenario: SandboxScenario, allowedHosts: string[]): Promise<ScenarioRunResult> {
     const ranAt = new Date().toISOString();
 
     const requestConfig = (scenario.request && typeof scenario.request === 'object')
@@ -343,10 +965,10 @@ export class SessionState {
 
     try {
       const start = Date.now();
-      const response = await fetch(targetUrl, requestInit);
+      const response = await guardedFetch(targetUrl, requestInit, allowedHosts);
       const durationMs = Date.now() - start;
       const responseHeaders = Object.fromEntries(response.headers.entries());
-      const bodyText = await response.text();
+      const bodyText = await readTextWithLimit(response, DEFAULT_MAX_RESPONSE_BYTES);
 
       scenario.lastRunAt = ranAt;
       scenario.lastStatus = response.status;
@@ -393,6 +1015,69 @@ function jsonResp(data: any, status: number = 200): Response {
   });
 }
 
+function toMessage(row: MessageRow): Message {
+  return {
+    id: row.id,
+    role: row.role as Message['role'],
+    content: row.content,
+    timestamp: row.timestamp,
+    ...(row.metadata ? { metadata: JSON.parse(row.metadata) } : {}),
+  };
+}
+
+function toConversation(row: ConversationRow): Conversation {
+  return {
+    id: row.id,
+    title: row.title,
+    ...(row.persona ? { persona: row.persona } : {}),
+    pinnedSkills: JSON.parse(row.pinned_skills),
+    archived: Boolean(row.archived),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    messageCount: row.message_count,
+  };
+}
+
+type ConversationSettings = { title?: string; persona?: string | null; pinnedSkills?: string[] };
+
+// Validates the editable fields of a conversation; absent fields are left out of the result
+function parseConversationSettings(payload: any): ConversationSettings | { error: string } {
+  const settings: ConversationSettings = {};
+
+  if (payload.title !== undefined) {
+    const title = typeof payload.title === 'string' ? payload.title.trim() : '';
+    if (!title || title.length > MAX_TITLE_LENGTH) {
+      return { error: `title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters` };
+    }
+    settings.title = title;
+  }
+
+  if (payload.persona !== undefined) {
+    if (payload.persona !== null && typeof payload.persona !== 'string') {
+      return { error: 'persona must be a string or null' };
+    }
+    settings.persona = payload.persona?.trim() || null;
+  }
+
+  if (payload.pinnedSkills !== undefined) {
+    if (!Array.isArray(payload.pinnedSkills) || payload.pinnedSkills.some((name: unknown) => typeof name !== 'string')) {
+      return { error: 'pinnedSkills must be an array of skill names' };
+    }
+    const pinnedSkills = Array.from(new Set<string>(payload.pinnedSkills.map((name: string) => name.trim()).filter(Boolean)));
+    if (pinnedSkills.length > MAX_PINNED_SKILLS) {
+      return { error: `At most ${MAX_PINNED_SKILLS} skills can be pinned` };
+    }
+    settings.pinnedSkills = pinnedSkills;
+  }
+
+  return settings;
+}
+
+function summarizeTitle(content: string): string {
+  const line = content.trim().split('\n')[0];
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+}
+
 function sanitizeHeaders(headers: any): Record<string, string> {
   if (!headers || typeof headers !== 'object') {
     return {};
@@ -1,3 +1,59 @@
+import type { ParameterStyle } from '../utils/param-style';
+import { resolveServerUrl, validateServerVariables, type ApiServer } from '../utils/servers';
+import { parseOpenAPIToSkills } from '../skill-parser';
+import { diffSkills, fetchSpecDocument, type SpecDiff } from '../spec-sync';
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from '../utils/fetch-policy';
+
+export interface SecurityScheme {
+    type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect';
+    in?: 'header' | 'query' | 'cookie';
+    name?: string;
+    scheme?: string;
+    bearerFormat?: string;
+    description?: string;
+}
+
+// Each requirement lists the schemes that must all be applied; alternatives are tried in order.
+export type SecurityRequirement = Record<string, string[]>;
+
+// How tool calls to non-GET operations of an API are handled during chat
+export type ApprovalPolicy = 'always_allow' | 'always_ask' | 'never_allow';
+
+export const APPROVAL_POLICIES: ApprovalPolicy[] = ['always_allow', 'always_ask', 'never_allow'];
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = 'always_ask';
+
+// Token bucket for calls to an API: up to `burst` calls at once, refilled at `requestsPerMinute`
+export interface RateLimit {
+    requestsPerMinute: number;
+    // Defaults to requestsPerMinute
+    burst?: number;
+}
+
+// Applies to every API without a limit of its own
+export const DEFAULT_API_RATE_LIMIT: RateLimit = { requestsPerMinute: 60, burst: 20 };
+
+const MAX_REQUESTS_PER_MINUTE = 10_000;
+
+// How calls to an API are made: timeout and retries per call, and when its circuit breaker opens
+export interface ExecutionPolicy extends RetryPolicy {
+    // Consecutive timeouts, network errors or 5xx responses that open the circuit
+    failureThreshold: number;
+    // How long an open circuit fast-fails calls before letting a trial call through
+    cooldownSeconds: number;
+}
+
+export const DEFAULT_EXECUTION_POLICY: ExecutionPolicy = { ...DEFAULT_RETRY_POLICY, failureThreshold: 5, cooldownSeconds: 60 };
+
+// Allowed range of each execution policy field
+const EXECUTION_POLICY_LIMITS: Record<keyof ExecutionPolicy, [number, number]> = {
+    timeoutMs: [100, 60_000],
+    maxRetries: [0, 5],
+    retryBaseDelayMs: [0, 10_000],
+    failureThreshold: [1, 100],
+    cooldownSeconds: [1, 3600]
+};
+
 export interface SkillDefinition {
     name: string;
     description: string;
@@ -6,10 +62,16 @@ export interface SkillDefinition {
     path: string;
     parameters: Array<{
         name: string;
-        in: 'path' | 'query' | 'header' | 'body';
+        in: 'path' | 'query' | 'header' | 'cookie' | 'body';
         required: boolean;
         type: string;
         description?: string;
+        schema?: any;
+        style?: ParameterStyle;
+        explode?: boolean;
+        allowReserved?: boolean;
+        // Set when the parameter is described with `content` instead of `schema`; the value is sent serialized as that media type
+        contentType?: string;
     }>;
     requestBody?: {
         required: boolean;
@@ -17,12 +79,45 @@ export interface SkillDefinition {
         schema: any;
     };
     baseUrl: string;
+    // Path- or operation-level servers that replace the API's servers for this skill
+    servers?: ApiServer[];
+    security?: SecurityRequirement[];
+    securitySchemes?: Record<string, SecurityScheme>;
+    // Curation from the Skills page; chat skips disabled skills and offers the custom name and description
+    enabled?: boolean;
+    customName?: string;
+    customDescription?: string;
+    // Parameters hidden from the model and always sent with these values
+    fixedParameters?: Record<string, any>;
 }
 
 export interface RegisteredAPI {
     apiName: string;
+    // Resolved URL of the active server
     baseUrl: string;
+    servers?: ApiServer[];
+    activeServer?: number;
+    serverVariables?: Record<string, string>;
+    // Where the spec was fetched from; relative server URLs resolve against it and re-syncs fetch from it
+    specUrl?: string;
+    specEtag?: string;
+    syncIntervalHours?: number;
+    lastSyncedAt?: string;
+    lastSyncDiff?: SpecDiff;
+    lastSyncError?: string;
+    // Version history, newest last; `skills` above always holds the pinned version, or else the current one
+    versions?: SkillSetVersionSummary[];
+    currentVersion?: number;
+    pinnedVersion?: number;
     encryptedApiKey: string;
+    encryptedCredentials?: Record<string, string>;
+    securitySchemes?: Record<string, SecurityScheme>;
+    approvalPolicy?: ApprovalPolicy;
+    // Shared by all calls to the API, and applied to each skill separately
+    rateLimit?: RateLimit;
+    skillRateLimit?: RateLimit;
+    // Only the fields that differ from DEFAULT_EXECUTION_POLICY
+    executionPolicy?: Partial<ExecutionPolicy>;
     skills: SkillDefinition[];
     registeredAt: string;
     metadata?: {
@@ -37,11 +132,55 @@ export interface UserSkills {
     apis: Record<string, RegisteredAPI>;
 }
 
+// What a registration or sync replaces; stored immutably per version
+export interface SkillSetContent {
+    skills: SkillDefinition[];
+    baseUrl: string;
+    servers?: ApiServer[];
+    securitySchemes?: Record<string, SecurityScheme>;
+    metadata?: RegisteredAPI['metadata'];
+}
+
+export interface SkillSetVersionSummary {
+    version: number;
+    hash: string;
+    registeredAt: string;
+    source: 'register' | 'sync';
+    skillCount: number;
+    // Operations changed relative to the version that was current when this one was created
+    diff: SpecDiff;
+}
+
+export type SkillSetVersion = SkillSetVersionSummary & SkillSetContent;
+
+export interface SyncResult {
+    status: 'updated' | 'unchanged' | 'preview';
+    diff: SpecDiff;
+    etag?: string;
+}
+
+// An API as stored, without its skills; each skill has its own key
+type StoredAPI = Omit<RegisteredAPI, 'skills'> & { skillCount: number };
+
+interface SkillRegistryEnv {
+    SKILL_REGISTRY?: DurableObjectNamespace;
+}
+
+// The single object every user's skills lived in before the registry was sharded per user
+const LEGACY_REGISTRY_NAME = 'global';
+const SYNC_SCHEDULE_KEY = 'syncSchedule';
+const MAX_VERSIONS = 20;
+// Tool names must satisfy the function-calling APIs of every model provider
+const SKILL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const HOUR_MS = 60 * 60 * 1000;
+
 export class SkillRegistry {
     private state: DurableObjectState;
+    private env?: SkillRegistryEnv;
 
-    constructor(state: DurableObjectState) {
+    constructor(state: DurableObjectState, env?: SkillRegistryEnv) {
         this.state = state;
+        this.env = env;
     }
 
     async fetch(request: Request): Promise<Response> {
@@ -60,6 +199,14 @@ export class SkillRegistry {
             // Get user ID from header
             const userId = request.headers.get('X-User-ID') || 'default';
 
+            if (url.pathname === '/export' && request.method === 'POST') {
+                return await this.handleExport(userId, corsHeaders);
+            }
+
+            if (url.pathname === '/export/ack' && request.method === 'POST') {
+                return await this.handleExportAck(userId, corsHeaders);
+            }
+
             if (url.pathname === '/register' && request.method === 'POST') {
                 return await this.handleRegister(userId, request, corsHeaders);
             }
@@ -76,6 +223,42 @@ export class SkillRegistry {
                 return await this.handleGetSkills(userId, request, corsHeaders);
             }
 
+            if (url.pathname === '/set-policy' && request.method === 'POST') {
+                return await this.handleSetPolicy(userId, request, corsHeaders);
+            }
+
+            if (url.pathname === '/set-rate-limit' && request.method === 'POST') {
+                return await this.handleSetRateLimit(userId, request, corsHeaders);
+            }
+
+            if (url.pathname === '/set-execution-policy' && request.method === 'POST') {
+                return await this.handleSetExecutionPolicy(userId, request, corsHeaders);
+            }
+
+            if (url.pathname === '/set-server' && request.method === 'POST') {
+                return await this.handleSetServer(userId, request, corsHeaders);
+            }
+
+            if (url.pathname === '/update-skill' && request.method === 'POST') {
+                return await this.handleUpdateSkill(userId, request, corsHeaders);
+            }
+
+            if (url.pathname === '/sync' && request.method === 'POST') {
+                return await this.handleSync(userId, request, corsHeaders);
+            }
+
+            if (url.pathname === '/versions' && request.method === 'GET') {
+                return await this.handleListVersions(userId, url.searchParams.get('apiName') || '', corsHeaders);
+            }
+
+            if (url.pathname === '/pin' && request.method === 'POST') {
+                return await this.handlePin(userId, request, corsHeaders);
+            }
+
+            if (url.pathname === '/rollback' && request.method === 'POST') {
+                return await this.handleRollback(userId, request, corsHeaders);
+            }
+
             return new Response('Not found', { status: 404, headers: corsHeaders });
         } catch (error) {
             return new Response(
@@ -91,7 +274,20 @@ export class SkillRegistry {
         corsHeaders: Record<string, string>
     ): Promise<Response> {
         const body = await request.json<any>();
-        const { apiName, skills, baseUrl, encryptedApiKey, metadata } = body;
+        const {
+            apiName,
+            skills,
+            baseUrl,
+            servers,
+            specUrl,
+            specEtag,
+            syncIntervalHours,
+            encryptedApiKey,
+            encryptedCredentials,
+            securitySchemes,
+            approvalPolicy,
+            metadata
+        } = body;
 
         if (!apiName || !skills || !baseUrl) {
             return new Response(
@@ -100,31 +296,91 @@ export class SkillRegistry {
             );
         }
 
-        // Get or create user skills
-        const userSkillsKey = `user:${userId}`;
-        let userSkills: UserSkills = await this.state.storage.get<UserSkills>(userSkillsKey) || {
-            userId,
-            apis: {}
-        };
+        if (approvalPolicy !== undefined && !APPROVAL_POLICIES.includes(approvalPolicy)) {
+            return new Response(
+                JSON.stringify({ error: `approvalPolicy must be one of: ${APPROVAL_POLICIES.join(', ')}` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        if (syncIntervalHours !== undefined && syncIntervalHours !== null
+            && (typeof syncIntervalHours !== 'number' || !(syncIntervalHours >= 1))) {
+            return new Response(
+                JSON.stringify({ error: 'syncIntervalHours must be a number of at least 1' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        // Re-registering keeps the policies, rate limits and server choice the user already made unless new ones are given
+        const existing = await this.loadApi(userId, apiName);
+        const serverList: ApiServer[] = Array.isArray(servers) ? servers : [];
 
         // Register the API
-        userSkills.apis[apiName] = {
+        const api: RegisteredAPI = {
             apiName,
             baseUrl,
             encryptedApiKey: encryptedApiKey || '',
+            encryptedCredentials: encryptedCredentials || {},
+            securitySchemes: securitySchemes || {},
+            approvalPolicy: approvalPolicy || existing?.approvalPolicy || DEFAULT_APPROVAL_POLICY,
+            ...(existing?.rateLimit ? { rateLimit: existing.rateLimit } : {}),
+            ...(existing?.skillRateLimit ? { skillRateLimit: existing.skillRateLimit } : {}),
+            ...(existing?.executionPolicy ? { executionPolicy: existing.executionPolicy } : {}),
             skills: skills as SkillDefinition[],
             registeredAt: new Date().toISOString(),
             metadata
         };
 
-        await this.state.storage.put(userSkillsKey, userSkills);
+        if (specUrl) {
+            api.specUrl = specUrl;
+            if (specEtag) {
+                api.specEtag = specEtag;
+            }
+            api.lastSyncedAt = api.registeredAt;
+            // A null interval turns scheduled re-sync off; leaving it out keeps the current one for the same URL
+            const keptInterval = existing && existing.specUrl === specUrl ? existing.syncIntervalHours : undefined;
+            const interval = syncIntervalHours === undefined ? keptInterval : syncIntervalHours ?? undefined;
+            if (interval) {
+                api.syncIntervalHours = interval;
+            }
+        }
+
+        if (serverList.length > 0) {
+            api.servers = serverList;
+            api.activeServer = existing?.activeServer !== undefined && existing.activeServer < serverList.length
+                ? existing.activeServer
+                : 0;
+            api.serverVariables = existing?.serverVariables || {};
+        }
+
+        // Each distinct skill set becomes a new version; re-uploading the current one changes nothing
+        if (existing) {
+            await this.ensureVersionHistory(userId, existing);
+            api.versions = existing.versions;
+            api.currentVersion = existing.currentVersion;
+            api.pinnedVersion = existing.pinnedVersion;
+        }
+        const version = await this.commitVersion(userId, api, {
+            skills: skills as SkillDefinition[],
+            baseUrl,
+            ...(serverList.length > 0 ? { servers: serverList } : {}),
+            securitySchemes: securitySchemes || {},
+            metadata
+        }, 'register');
+        await this.activateVersion(userId, api, existing?.skills);
+
+        await this.saveApi(userId, api);
+        await this.scheduleSync(userId, apiName, api.syncIntervalHours);
 
         return new Response(
             JSON.stringify({
                 success: true,
                 message: `Registered ${skills.length} skills for ${apiName}`,
                 skillCount: skills.length,
-                skillNames: skills.map((s: SkillDefinition) => s.name)
+                skillNames: skills.map((s: SkillDefinition) => s.name),
+                version: version.version,
+                diff: version.diff,
+                ...(api.pinnedVersion !== undefined ? { pinnedVersion: api.pinnedVersion } : {})
             }),
             { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
@@ -134,8 +390,7 @@ export class SkillRegistry {
         userId: string,
         corsHeaders: Record<string, string>
     ): Promise<Response> {
-        const userSkillsKey = `user:${userId}`;
-        const userSkills: UserSkills | undefined = await this.state.storage.get<UserSkills>(userSkillsKey);
+        const userSkills = await this.loadUserSkills(userId);
 
         if (!userSkills) {
             return new Response(
@@ -149,8 +404,26 @@ export class SkillRegistry {
             baseUrl: api.baseUrl,
             skillCount: api.skills.length,
             skillNames: api.skills.map(s => s.name),
+            skills: api.skills.map(skillSettings),
             registeredAt: api.registeredAt,
-            metadata: api.metadata
+            metadata: api.metadata,
+            securitySchemes: Object.keys(api.securitySchemes || {}),
+            configuredCredentials: Object.keys(api.encryptedCredentials || {}),
+            approvalPolicy: api.approvalPolicy || DEFAULT_APPROVAL_POLICY,
+            rateLimit: api.rateLimit || DEFAULT_API_RATE_LIMIT,
+            skillRateLimit: api.skillRateLimit || null,
+            executionPolicy: { ...DEFAULT_EXECUTION_POLICY, ...api.executionPolicy },
+            servers: api.servers || [],
+            activeServer: api.activeServer ?? 0,
+            serverVariables: api.serverVariables || {},
+            specUrl: api.specUrl,
+            syncIntervalHours: api.syncIntervalHours,
+            lastSyncedAt: api.lastSyncedAt,
+            lastSyncDiff: api.lastSyncDiff,
+            lastSyncError: api.lastSyncError,
+            currentVersion: api.currentVersion,
+            pinnedVersion: api.pinnedVersion,
+            versionCount: api.versions?.length || 0
         }));
 
         return new Response(
@@ -174,18 +447,16 @@ export class SkillRegistry {
             );
         }
 
-        const userSkillsKey = `user:${userId}`;
-        const userSkills: UserSkills | undefined = await this.state.storage.get<UserSkills>(userSkillsKey);
+        const api = await this.loadApi(userId, apiName);
 
-        if (!userSkills || !userSkills.apis[apiName]) {
+        if (!api) {
             return new Response(
                 JSON.stringify({ error: `API ${apiName} not found` }),
                 { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             );
         }
 
-        delete userSkills.apis[apiName];
-        await this.state.storage.put(userSkillsKey, userSkills);
+        await this.removeApi(userId, api);
 
         return new Response(
             JSON.stringify({ success: true, message: `Deleted ${apiName}` }),
@@ -193,46 +464,1036 @@ export class SkillRegistry {
         );
     }
 
-    private async handleGetSkills(
+    private async handleSetPolicy(
         userId: string,
         request: Request,
         corsHeaders: Record<string, string>
     ): Promise<Response> {
         const body = await request.json<any>();
-        const { apiName } = body;
+        const { apiName, approvalPolicy } = body;
+
+        if (!apiName || !APPROVAL_POLICIES.includes(approvalPolicy)) {
+            return new Response(
+                JSON.stringify({ error: `apiName and approvalPolicy (${APPROVAL_POLICIES.join(', ')}) are required` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
 
-        const userSkillsKey = `user:${userId}`;
-        const userSkills: UserSkills | undefined = await this.state.storage.get<UserSkills>(userSkillsKey);
+        const api = await this.loadApi(userId, apiName);
 
-        if (!userSkills) {
+        if (!api) {
             return new Response(
-                JSON.stringify({ skills: [], apis: {} }),
-                { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                JSON.stringify({ error: `API ${apiName} not found` }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             );
         }
 
-        if (apiName) {
-            const api = userSkills.apis[apiName];
-            if (!api) {
-                return new Response(
-                    JSON.stringify({ error: `API ${apiName} not found` }),
-                    { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-                );
-            }
+        api.approvalPolicy = approvalPolicy;
+        await this.saveApi(userId, api, false);
+
+        return new Response(
+            JSON.stringify({ success: true, apiName, approvalPolicy }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // `undefined` keeps a limit and `null` removes it; without its own API limit an API falls back to DEFAULT_API_RATE_LIMIT
+    private async handleSetRateLimit(
+        userId: string,
+        request: Request,
+        corsHeaders: Record<string, string>
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const { apiName, rateLimit, skillRateLimit } = body;
 
+        const invalid = [rateLimit, skillRateLimit].some(value => value !== undefined && value !== null && !isRateLimit(value));
+        if (!apiName || invalid) {
             return new Response(
                 JSON.stringify({
-                    skills: api.skills,
-                    apiKey: api.encryptedApiKey,
-                    baseUrl: api.baseUrl
+                    error: `apiName is required, and rateLimit and skillRateLimit must be null or { requestsPerMinute, burst? } with values from 1 to ${MAX_REQUESTS_PER_MINUTE}`
                 }),
-                { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const api = await this.loadApi(userId, apiName);
+
+        if (!api) {
+            return new Response(
+                JSON.stringify({ error: `API ${apiName} not found` }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             );
         }
 
+        if (rateLimit !== undefined) {
+            api.rateLimit = rateLimit ? toRateLimit(rateLimit) : undefined;
+        }
+        if (skillRateLimit !== undefined) {
+            api.skillRateLimit = skillRateLimit ? toRateLimit(skillRateLimit) : undefined;
+        }
+        await this.saveApi(userId, api, false);
+
         return new Response(
-            JSON.stringify({ apis: userSkills.apis }),
+            JSON.stringify({
+                success: true,
+                apiName,
+                rateLimit: api.rateLimit || DEFAULT_API_RATE_LIMIT,
+                skillRateLimit: api.skillRateLimit || null
+            }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // Given fields replace the stored ones; `executionPolicy: null` goes back to DEFAULT_EXECUTION_POLICY
+    private async handleSetExecutionPolicy(
+        userId: string,
+        request: Request,
+        corsHeaders: Record<string, string>
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const { apiName, executionPolicy } = body;
+
+        const invalidField = executionPolicy === null ? undefined : findInvalidExecutionPolicyField(executionPolicy);
+        if (!apiName || invalidField) {
+            return new Response(
+                JSON.stringify({ error: apiName ? invalidField : 'apiName is required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const api = await this.loadApi(userId, apiName);
+
+        if (!api) {
+            return new Response(
+                JSON.stringify({ error: `API ${apiName} not found` }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        api.executionPolicy = executionPolicy === null ? undefined : { ...api.executionPolicy, ...executionPolicy };
+        await this.saveApi(userId, api, false);
+
+        return new Response(
+            JSON.stringify({ success: true, apiName, executionPolicy: { ...DEFAULT_EXECUTION_POLICY, ...api.executionPolicy } }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    private async handleSetServer(
+        userId: string,
+        request: Request,
+        corsHeaders: Record<string, string>
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const { apiName, serverIndex, variables } = body;
+
+        if (!apiName || (serverIndex !== undefined && !Number.isInteger(serverIndex))
+            || (variables !== undefined && (!variables || typeof variables !== 'object' || Array.isArray(variables)))) {
+            return new Response(
+                JSON.stringify({ error: 'apiName is required; serverIndex must be an integer and variables an object' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const api = await this.loadApi(userId, apiName);
+
+        if (!api) {
+            return new Response(
+                JSON.stringify({ error: `API ${apiName} not found` }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const servers = api.servers || [];
+        const activeServer = serverIndex ?? api.activeServer ?? 0;
+        if (activeServer < 0 || activeServer >= servers.length) {
+            return new Response(
+                JSON.stringify({ error: `${apiName} has no server at index ${activeServer}` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const variableError = validateServerVariables(servers[activeServer], variables || {});
+        if (variableError) {
+            return new Response(
+                JSON.stringify({ error: variableError }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        api.activeServer = activeServer;
+        api.serverVariables = { ...(api.serverVariables || {}), ...(variables || {}) };
+        applyActiveServer(api);
+        await this.saveApi(userId, api);
+
+        return new Response(
+            JSON.stringify({
+                success: true,
+                apiName,
+                activeServer,
+                serverVariables: api.serverVariables,
+                baseUrl: api.baseUrl
+            }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    private async handleUpdateSkill(
+        userId: string,
+        request: Request,
+        corsHeaders: Record<string, string>
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const { apiName, skillName, enabled, customName, customDescription, fixedParameters } = body;
+
+        const invalid = (error: string) => new Response(
+            JSON.stringify({ error }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+
+        if (!apiName || !skillName) {
+            return invalid('apiName and skillName are required');
+        }
+        if (enabled !== undefined && typeof enabled !== 'boolean') {
+            return invalid('enabled must be a boolean');
+        }
+        if (customName !== undefined && customName !== null && customName !== '' && (typeof customName !== 'string' || !SKILL_NAME_PATTERN.test(customName))) {
+            return invalid('customName may only contain letters, digits, "_" and "-" (at most 64 characters)');
+        }
+        if (customDescription !== undefined && customDescription !== null && typeof customDescription !== 'string') {
+            return invalid('customDescription must be a string');
+        }
+        if (fixedParameters !== undefined && fixedParameters !== null && (typeof fixedParameters !== 'object' || Array.isArray(fixedParameters))) {
+            return invalid('fixedParameters must be an object');
+        }
+
+        const userSkills = await this.loadUserSkills(userId);
+        const api = userSkills?.apis[apiName];
+        const skill = api?.skills.find(candidate => candidate.name === skillName);
+
+        if (!userSkills || !api || !skill) {
+            return new Response(
+                JSON.stringify({ error: api ? `Skill ${skillName} not found in ${apiName}` : `API ${apiName} not found` }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const unknownParameter = Object.keys(fixedParameters || {}).find(name => !skill.parameters.some(param => param.name === name));
+        if (unknownParameter) {
+            return invalid(`${skillName} has no parameter "${unknownParameter}"`);
+        }
+
+        if (customName) {
+            const taken = Object.values(userSkills.apis).some(other => other.skills.some(candidate =>
+                candidate !== skill && (candidate.customName || candidate.name) === customName
+            ));
+            if (taken) {
+                return new Response(
+                    JSON.stringify({ error: `Another skill is already named ${customName}` }),
+                    { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                );
+            }
+        }
+
+        // Omitted fields are left alone; null or empty values clear a customization
+        if (enabled !== undefined) {
+            skill.enabled = enabled;
+        }
+        if (customName !== undefined) {
+            if (customName) {
+                skill.customName = customName;
+            } else {
+                delete skill.customName;
+            }
+        }
+        if (customDescription !== undefined) {
+            if (customDescription?.trim()) {
+                skill.customDescription = customDescription.trim();
+            } else {
+                delete skill.customDescription;
+            }
+        }
+        if (fixedParameters !== undefined) {
+            if (fixedParameters && Object.keys(fixedParameters).length > 0) {
+                skill.fixedParameters = fixedParameters;
+            } else {
+                delete skill.fixedParameters;
+            }
+        }
+
+        await this.saveSkill(userId, api, skill);
+
+        return new Response(
+            JSON.stringify({ success: true, apiName, skill: skillSettings(skill) }),
             { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
     }
+
+    private async handleSync(
+        userId: string,
+        request: Request,
+        corsHeaders: Record<string, string>
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const { apiName, dryRun } = body;
+
+        if (!apiName) {
+            return new Response(
+                JSON.stringify({ error: 'Missing apiName' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        const api = await this.loadApi(userId, apiName);
+        if (!api) {
+            return new Response(
+                JSON.stringify({ error: `API ${apiName} not found` }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+        if (!api.specUrl) {
+            return new Response(
+                JSON.stringify({ error: `API ${apiName} was not registered from a spec URL` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        try {
+            const result = await this.syncApi(userId, apiName, Boolean(dryRun));
+            return new Response(
+                JSON.stringify({ success: true, apiName, ...result }),
+                { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        } catch (error) {
+            return new Response(
+                JSON.stringify({ error: `Failed to sync ${apiName}: ${(error as Error).message}` }),
+                { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+    }
+
+    // Scheduled re-sync of every API whose interval has elapsed
+    async alarm(): Promise<void> {
+        const schedule = await this.state.storage.get<Record<string, number>>(SYNC_SCHEDULE_KEY) || {};
+        const now = Date.now();
+
+        for (const [key, dueAt] of Object.entries(schedule)) {
+            if (dueAt > now) {
+                continue;
+            }
+
+            const [userId, apiName] = JSON.parse(key) as [string, string];
+            try {
+                await this.syncApi(userId, apiName, false);
+            } catch (error) {
+                await this.recordSyncError(userId, apiName, (error as Error).message);
+            }
+
+            const api = await this.loadApi(userId, apiName);
+            await this.scheduleSync(userId, apiName, api?.syncIntervalHours);
+        }
+    }
+
+    /**
+     * Re-fetch the API's spec (conditionally, with the stored ETag), diff the parsed skills against the
+     * current ones and, unless this is a dry run, replace them. Credentials, policy and server choice are kept.
+     */
+    private async syncApi(userId: string, apiName: string, dryRun: boolean): Promise<SyncResult> {
+        const api = await this.loadApi(userId, apiName);
+        if (!api?.specUrl) {
+            throw new Error(`API ${apiName} has no spec URL to sync from`);
+        }
+
+        const noChanges: SpecDiff = { added: [], removed: [], changed: [] };
+        const fetched = await fetchSpecDocument(api.specUrl, api.specEtag);
+
+        if (fetched.notModified) {
+            if (!dryRun) {
+                api.lastSyncedAt = new Date().toISOString();
+                delete api.lastSyncError;
+                await this.saveApi(userId, api, false);
+            }
+            return { status: dryRun ? 'preview' : 'unchanged', diff: noChanges, etag: api.specEtag };
+        }
+
+        const parsed = parseOpenAPIToSkills(fetched.spec, { specUrl: api.specUrl });
+        if (parsed.skills.length === 0) {
+            throw new Error('No valid operations found in OpenAPI spec');
+        }
+
+        await this.ensureVersionHistory(userId, api);
+        const current = api.currentVersion !== undefined ? await this.loadVersion(userId, apiName, api.currentVersion) : undefined;
+        if (dryRun) {
+            return { status: 'preview', diff: diffSkills(current?.skills || api.skills, parsed.skills), etag: fetched.etag };
+        }
+
+        const previousVersion = api.currentVersion;
+        const version = await this.commitVersion(userId, api, {
+            skills: parsed.skills,
+            baseUrl: parsed.baseUrl || api.baseUrl,
+            ...(parsed.servers.length > 0 ? { servers: parsed.servers } : {}),
+            securitySchemes: parsed.securitySchemes,
+            metadata: parsed.metadata
+        }, 'sync');
+        await this.activateVersion(userId, api);
+
+        const diff = version.version === previousVersion ? noChanges : version.diff;
+        api.specEtag = fetched.etag;
+        api.lastSyncedAt = new Date().toISOString();
+        api.lastSyncDiff = diff;
+        delete api.lastSyncError;
+
+        await this.saveApi(userId, api);
+
+        const changed = diff.added.length + diff.removed.length + diff.changed.length > 0;
+        return { status: changed ? 'updated' : 'unchanged', diff, etag: fetched.etag };
+    }
+
+    private async recordSyncError(userId: string, apiName: string, message: string): Promise<void> {
+        const api = await this.loadApi(userId, apiName);
+        if (api) {
+            api.lastSyncError = message;
+            await this.saveApi(userId, api, false);
+        }
+    }
+
+    // Track when each API is next due and keep the alarm set for the earliest one
+    private async scheduleSync(userId: string, apiName: string, intervalHours: number | undefined): Promise<void> {
+        const schedule = await this.state.storage.get<Record<string, number>>(SYNC_SCHEDULE_KEY) || {};
+        const key = JSON.stringify([userId, apiName]);
+
+        if (intervalHours) {
+            schedule[key] = Date.now() + intervalHours * HOUR_MS;
+        } else if (key in schedule) {
+            delete schedule[key];
+        } else {
+            return;
+        }
+
+        await this.state.storage.put(SYNC_SCHEDULE_KEY, schedule);
+
+        const dueTimes = Object.values(schedule);
+        if (dueTimes.length > 0) {
+            await this.state.storage.setAlarm(Math.min(...dueTimes));
+        } else {
+            await this.state.storage.deleteAlarm();
+        }
+    }
+
+    private async handleListVersions(
+        userId: string,
+        apiName: string,
+        corsHeaders: Record<string, string>
+    ): Promise<Response> {
+        const api = await this.loadApi(userId, apiName);
+
+        if (!api) {
+            return new Response(
+                JSON.stringify({ error: `API ${apiName} not found` }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        if (!api.versions?.length) {
+            await this.ensureVersionHistory(userId, api);
+            await this.saveApi(userId, api, false);
+        }
+
+        return new Response(
+            JSON.stringify({
+                apiName,
+                currentVersion: api.currentVersion,
+                pinnedVersion: api.pinnedVersion,
+                versions: [...(api.versions || [])].reverse()
+            }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    private async handlePin(
+        userId: string,
+        request: Request,
+        corsHeaders: Record<string, string>
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const { apiName, version } = body;
+
+        if (!apiName || (version !== null && !Number.isInteger(version))) {
+            return new Response(
+                JSON.stringify({ error: 'apiName and version (an integer, or null to unpin) are required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        return this.updateVersionPointer(userId, apiName, version, corsHeaders, (api, target) => {
+            if (target === null) {
+                delete api.pinnedVersion;
+            } else {
+                api.pinnedVersion = target;
+            }
+        });
+    }
+
+    private async handleRollback(
+        userId: string,
+        request: Request,
+        corsHeaders: Record<string, string>
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const { apiName, version } = body;
+
+        if (!apiName || !Number.isInteger(version)) {
+            return new Response(
+                JSON.stringify({ error: 'apiName and version are required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        // Chat follows the pin, so a rollback underneath it would change nothing
+        const pinnedVersion = (await this.loadApi(userId, apiName))?.pinnedVersion;
+        if (pinnedVersion !== undefined) {
+            return new Response(
+                JSON.stringify({ error: `${apiName} is pinned to version ${pinnedVersion}; unpin it before rolling back` }),
+                { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        return this.updateVersionPointer(userId, apiName, version, corsHeaders, (api, target) => {
+            api.currentVersion = target!;
+        });
+    }
+
+    // Shared by pin and rollback: validate the target version, move the pointer and re-materialize the active skills
+    private async updateVersionPointer(
+        userId: string,
+        apiName: string,
+        version: number | null,
+        corsHeaders: Record<string, string>,
+        update: (api: RegisteredAPI, version: number | null) => void
+    ): Promise<Response> {
+        const api = await this.loadApi(userId, apiName);
+
+        if (!api) {
+            return new Response(
+                JSON.stringify({ error: `API ${apiName} not found` }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        await this.ensureVersionHistory(userId, api);
+        if (version !== null && !api.versions?.some(entry => entry.version === version)) {
+            return new Response(
+                JSON.stringify({ error: `${apiName} has no version ${version}` }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        update(api, version);
+        await this.activateVersion(userId, api);
+        await this.saveApi(userId, api);
+
+        return new Response(
+            JSON.stringify({
+                success: true,
+                apiName,
+                currentVersion: api.currentVersion,
+                pinnedVersion: api.pinnedVersion,
+                skillCount: api.skills.length
+            }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // APIs registered before versioning get their current skill set recorded as version 1
+    private async ensureVersionHistory(userId: string, api: RegisteredAPI): Promise<void> {
+        if (api.versions?.length) {
+            return;
+        }
+        api.versions = [];
+        delete api.currentVersion;
+        await this.commitVersion(userId, api, {
+            skills: api.skills,
+            baseUrl: api.baseUrl,
+            ...(api.servers?.length ? { servers: api.servers } : {}),
+            securitySchemes: api.securitySchemes || {},
+            metadata: api.metadata
+        }, 'register', api.registeredAt);
+    }
+
+    /**
+     * Store the skill set as a new immutable version and make it current, unless its hash matches the
+     * current version. Old versions beyond MAX_VERSIONS are dropped, except the current and pinned ones.
+     */
+    private async commitVersion(
+        userId: string,
+        api: RegisteredAPI,
+        content: SkillSetContent,
+        source: SkillSetVersionSummary['source'],
+        registeredAt = new Date().toISOString()
+    ): Promise<SkillSetVersionSummary> {
+        const versions = api.versions || [];
+        content = { ...content, skills: content.skills.map(withoutCuration) };
+        const hash = await hashSkillSet(content);
+        const current = versions.find(entry => entry.version === api.currentVersion);
+        if (current && current.hash === hash) {
+            return current;
+        }
+
+        const previous = current ? await this.loadVersion(userId, api.apiName, current.version) : undefined;
+        const summary: SkillSetVersionSummary = {
+            version: versions.reduce((max, entry) => Math.max(max, entry.version), 0) + 1,
+            hash,
+            registeredAt,
+            source,
+            skillCount: content.skills.length,
+            diff: previous ? diffSkills(previous.skills, content.skills) : { added: content.skills.map(skill => skill.name), removed: [], changed: [] }
+        };
+
+        await this.storeVersion(userId, api.apiName, { ...summary, ...content });
+        api.versions = [...versions, summary];
+        api.currentVersion = summary.version;
+
+        while (api.versions.length > MAX_VERSIONS) {
+            const oldest: SkillSetVersionSummary | undefined = api.versions.find(entry => entry.version !== api.currentVersion && entry.version !== api.pinnedVersion);
+            if (!oldest) {
+                break;
+            }
+            api.versions = api.versions.filter(entry => entry !== oldest);
+            await this.deleteVersion(userId, api.apiName, oldest.version);
+        }
+
+        return summary;
+    }
+
+    // Versions are stored like live APIs: the record under one key and each skill under its own
+    private async storeVersion(userId: string, apiName: string, version: SkillSetVersion): Promise<void> {
+        const { skills, ...record } = version;
+        await this.state.storage.put(versionKey(userId, apiName, version.version), record);
+        for (const [index, skill] of skills.entries()) {
+            await this.state.storage.put(versionSkillKey(userId, apiName, version.version, index), skill);
+        }
+    }
+
+    private async loadVersion(userId: string, apiName: string, version: number): Promise<SkillSetVersion | undefined> {
+        const record = await this.state.storage.get<Omit<SkillSetVersion, 'skills'> & { skills?: SkillDefinition[] }>(versionKey(userId, apiName, version));
+        if (!record) {
+            return undefined;
+        }
+        // Versions written before skills were split out keep them inline
+        if (record.skills) {
+            return record as SkillSetVersion;
+        }
+        const skills = await this.state.storage.list<SkillDefinition>({ prefix: keyPrefix('version-skill', [userId, apiName, version]) });
+        return { ...record, skills: sortByKeyIndex(skills) };
+    }
+
+    private async deleteVersion(userId: string, apiName: string, version: number): Promise<void> {
+        await this.state.storage.delete(versionKey(userId, apiName, version));
+        const skills = await this.state.storage.list({ prefix: keyPrefix('version-skill', [userId, apiName, version]) });
+        for (const key of skills.keys()) {
+            await this.state.storage.delete(key);
+        }
+    }
+
+    /**
+     * Every API is stored under `api:[userId, apiName]` without its skills, each skill under
+     * `skill:[userId, apiName, index]`, and the user's API names, in registration order, under `apis:[userId]`.
+     * Records from before the split (one `user:${userId}` blob, or the old shared registry) are migrated on first read.
+     */
+    private async loadUserSkills(userId: string): Promise<UserSkills | undefined> {
+        const apiNames = await this.loadApiIndex(userId);
+        if (!apiNames) {
+            return undefined;
+        }
+
+        const userSkills: UserSkills = { userId, apis: {} };
+        for (const apiName of apiNames) {
+            const api = await this.loadApi(userId, apiName, false);
+            if (api) {
+                userSkills.apis[apiName] = api;
+            }
+        }
+        return userSkills;
+    }
+
+    private async loadApi(userId: string, apiName: string, migrate = true): Promise<RegisteredAPI | undefined> {
+        if (migrate && !(await this.loadApiIndex(userId))) {
+            return undefined;
+        }
+
+        const record = await this.state.storage.get<StoredAPI>(apiKey(userId, apiName));
+        if (!record) {
+            return undefined;
+        }
+
+        const { skillCount, ...api } = record;
+        const skills = await this.state.storage.list<SkillDefinition>({ prefix: keyPrefix('skill', [userId, apiName]) });
+        return { ...api, skills: sortByKeyIndex(skills).slice(0, skillCount) };
+    }
+
+    // Pass `skillsChanged = false` when only API-level fields changed, to skip rewriting every skill
+    private async saveApi(userId: string, api: RegisteredAPI, skillsChanged = true): Promise<void> {
+        await this.writeApi(userId, api, skillsChanged);
+
+        const apiNames = await this.loadApiIndex(userId) || [];
+        if (!apiNames.includes(api.apiName)) {
+            await this.state.storage.put(apiIndexKey(userId), [...apiNames, api.apiName]);
+        }
+    }
+
+    // Stores the API record and its skills without adding it to the user's index
+    private async writeApi(userId: string, api: RegisteredAPI, skillsChanged: boolean): Promise<void> {
+        const { skills, ...record } = api;
+        const previous = await this.state.storage.get<StoredAPI>(apiKey(userId, api.apiName));
+        await this.state.storage.put(apiKey(userId, api.apiName), { ...record, skillCount: skills.length });
+
+        if (skillsChanged) {
+            for (const [index, skill] of skills.entries()) {
+                await this.state.storage.put(skillKey(userId, api.apiName, index), skill);
+            }
+            for (let index = skills.length; index < (previous?.skillCount || 0); index++) {
+                await this.state.storage.delete(skillKey(userId, api.apiName, index));
+            }
+        }
+    }
+
+    private async saveSkill(userId: string, api: RegisteredAPI, skill: SkillDefinition): Promise<void> {
+        await this.state.storage.put(skillKey(userId, api.apiName, api.skills.indexOf(skill)), skill);
+    }
+
+    private async removeApi(userId: string, api: RegisteredAPI): Promise<void> {
+        const apiNames = await this.loadApiIndex(userId) || [];
+        await this.state.storage.put(apiIndexKey(userId), apiNames.filter(name => name !== api.apiName));
+        await this.state.storage.delete(apiKey(userId, api.apiName));
+        for (let index = 0; index < api.skills.length; index++) {
+            await this.state.storage.delete(skillKey(userId, api.apiName, index));
+        }
+        for (const entry of api.versions || []) {
+            await this.deleteVersion(userId, api.apiName, entry.version);
+        }
+        await this.scheduleSync(userId, api.apiName, undefined);
+    }
+
+    // Returns the user's API names, migrating legacy records first; undefined when the user has never registered an API
+    private async loadApiIndex(userId: string): Promise<string[] | undefined> {
+        const apiNames = await this.state.storage.get<string[]>(apiIndexKey(userId));
+        if (apiNames) {
+            return apiNames;
+        }
+
+        const local = await this.state.storage.get<UserSkills>(`user:${userId}`);
+        const legacy = local || await this.exportFromLegacyRegistry(userId);
+        if (!legacy) {
+            return undefined;
+        }
+
+        for (const api of Object.values(legacy.apis)) {
+            // Versions exported from the shared registry arrive with their content; local ones are already stored
+            for (const version of api.versions || []) {
+                if ('skills' in version) {
+                    await this.storeVersion(userId, api.apiName, version as SkillSetVersion);
+                }
+            }
+            await this.writeApi(userId, { ...api, ...(api.versions ? { versions: api.versions.map(toVersionSummary) } : {}) }, true);
+            await this.scheduleSync(userId, api.apiName, api.syncIntervalHours);
+        }
+
+        // The index goes last and the source is only cleared after it: an interrupted migration
+        // has no index yet, so the next read starts over and rewrites the same keys
+        const migratedNames = Object.keys(legacy.apis);
+        await this.state.storage.put(apiIndexKey(userId), migratedNames);
+        if (local) {
+            await this.state.storage.delete(`user:${userId}`);
+        } else {
+            await this.acknowledgeLegacyExport(userId);
+        }
+        return migratedNames;
+    }
+
+    // Registries are sharded per user; a shard's first read pulls that user's data out of the old shared object
+    private async exportFromLegacyRegistry(userId: string): Promise<UserSkills | undefined> {
+        const namespace = this.env?.SKILL_REGISTRY;
+        // Workspaces came after the shared registry, so it never held their skills
+        if (!namespace || !this.state.id || userId.startsWith('workspace:')) {
+            return undefined;
+        }
+        const legacyId = namespace.idFromName(LEGACY_REGISTRY_NAME);
+        if (legacyId.toString() === this.state.id.toString()) {
+            return undefined;
+        }
+
+        const response = await namespace.get(legacyId).fetch('http://internal/export', {
+            method: 'POST',
+            headers: { 'X-User-ID': userId }
+        });
+        if (!response.ok) {
+            throw new Error(`Failed to migrate skills from the shared registry (HTTP ${response.status})`);
+        }
+        const exported = await response.json<{ userSkills: UserSkills | null }>();
+        return exported.userSkills || undefined;
+    }
+
+    // Tells the shared registry the user's shard has stored everything, so it can drop its copy
+    private async acknowledgeLegacyExport(userId: string): Promise<void> {
+        const namespace = this.env!.SKILL_REGISTRY!;
+        const response = await namespace.get(namespace.idFromName(LEGACY_REGISTRY_NAME)).fetch('http://internal/export/ack', {
+            method: 'POST',
+            headers: { 'X-User-ID': userId }
+        });
+        // A missed ack only leaves a stale copy behind; the shard has its index now and never asks again
+        await response.body?.cancel();
+    }
+
+    // Hands a user's APIs, with full version content, to their own shard; they stay here until `/export/ack`
+    private async handleExport(userId: string, corsHeaders: Record<string, string>): Promise<Response> {
+        const userSkills = await this.loadUserSkills(userId);
+        if (userSkills) {
+            for (const api of Object.values(userSkills.apis)) {
+                const versions: SkillSetVersion[] = [];
+                for (const entry of api.versions || []) {
+                    const version = await this.loadVersion(userId, api.apiName, entry.version);
+                    if (version) {
+                        versions.push(version);
+                    }
+                }
+                api.versions = versions;
+            }
+        }
+
+        return new Response(
+            JSON.stringify({ userSkills: userSkills || null }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // Removes the APIs handed out by `/export` once the user's shard confirms it has stored them
+    private async handleExportAck(userId: string, corsHeaders: Record<string, string>): Promise<Response> {
+        const userSkills = await this.loadUserSkills(userId);
+        for (const api of Object.values(userSkills?.apis || {})) {
+            await this.removeApi(userId, api);
+        }
+        await this.state.storage.delete(apiIndexKey(userId));
+
+        return new Response(
+            JSON.stringify({ success: true }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // Copy the pinned (or else current) version's content onto the API so chat uses it, keeping the user's curation
+    private async activateVersion(userId: string, api: RegisteredAPI, previousSkills: SkillDefinition[] = api.skills): Promise<void> {
+        const target = api.pinnedVersion ?? api.currentVersion;
+        const version = target !== undefined ? await this.loadVersion(userId, api.apiName, target) : undefined;
+        if (!version) {
+            return;
+        }
+
+        api.skills = carryCuration(previousSkills || [], version.skills);
+        api.baseUrl = version.baseUrl;
+        api.securitySchemes = version.securitySchemes || {};
+        api.metadata = version.metadata;
+
+        if (version.servers?.length) {
+            api.servers = version.servers;
+            if ((api.activeServer ?? 0) >= version.servers.length) {
+                api.activeServer = 0;
+            }
+            api.activeServer = api.activeServer ?? 0;
+            api.serverVariables = api.serverVariables || {};
+            applyActiveServer(api);
+        } else {
+            delete api.servers;
+            delete api.activeServer;
+        }
+    }
+
+    private async handleGetSkills(
+        userId: string,
+        request: Request,
+        corsHeaders: Record<string, string>
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const { apiName } = body;
+
+        const userSkills = await this.loadUserSkills(userId);
+
+        if (!userSkills) {
+            return new Response(
+                JSON.stringify({ skills: [], apis: {} }),
+                { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        if (apiName) {
+            const api = userSkills.apis[apiName];
+            if (!api) {
+                return new Response(
+                    JSON.stringify({ error: `API ${apiName} not found` }),
+                    { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                );
+            }
+
+            return new Response(
+                JSON.stringify({
+                    skills: api.skills,
+                    apiKey: api.encryptedApiKey,
+                    credentials: api.encryptedCredentials || {},
+                    baseUrl: api.baseUrl
+                }),
+                { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
+        return new Response(
+            JSON.stringify({ apis: userSkills.apis }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+    }
+}
+
+/**
+ * Point the API and any skills with their own servers at the active server and current variable values.
+ * Path and operation servers are picked by the same index (usually the same environment listed in the
+ * same order), falling back to their first server when they list fewer.
+ */
+function applyActiveServer(api: RegisteredAPI): void {
+    const servers = api.servers || [];
+    if (servers.length === 0) {
+        return;
+    }
+
+    const activeServer = api.activeServer ?? 0;
+    const variables = api.serverVariables || {};
+    api.baseUrl = resolveServerUrl(servers[activeServer] || servers[0], variables, api.specUrl);
+    for (const skill of api.skills) {
+        if (skill.servers && skill.servers.length > 0) {
+            skill.baseUrl = resolveServerUrl(skill.servers[activeServer] || skill.servers[0], variables, api.specUrl);
+        }
+    }
+}
+
+function isRateLimit(value: any): value is RateLimit {
+    const inRange = (n: unknown) => typeof n === 'number' && n >= 1 && n <= MAX_REQUESTS_PER_MINUTE;
+    return Boolean(value) && typeof value === 'object'
+        && inRange(value.requestsPerMinute)
+        && (value.burst === undefined || (inRange(value.burst) && Number.isInteger(value.burst)));
+}
+
+// An error message for the first unknown or out-of-range field, or undefined when the partial policy is valid
+function findInvalidExecutionPolicyField(value: any): string | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return 'executionPolicy must be an object or null';
+    }
+    for (const [field, fieldValue] of Object.entries(value)) {
+        const range = EXECUTION_POLICY_LIMITS[field as keyof ExecutionPolicy];
+        if (!range) {
+            return `Unknown executionPolicy field: ${field}`;
+        }
+        if (!Number.isInteger(fieldValue) || (fieldValue as number) < range[0] || (fieldValue as number) > range[1]) {
+            return `executionPolicy.${field} must be an integer from ${range[0]} to ${range[1]}`;
+        }
+    }
+    return undefined;
+}
+
+function toRateLimit(value: RateLimit): RateLimit {
+    return value.burst === undefined
+        ? { requestsPerMinute: value.requestsPerMinute }
+        : { requestsPerMinute: value.requestsPerMinute, burst: value.burst };
+}
+
+// Owner id under which a workspace's APIs and credentials are stored
+export function workspaceSkillOwner(workspaceId: string): string {
+    return `workspace:${workspaceId}`;
+}
+
+// Durable Object name of the registry that holds an owner's skills; owners are user ids or workspaceSkillOwner ids
+export function skillRegistryName(ownerId: string): string {
+    return ownerId.startsWith('workspace:') ? ownerId : `user:${ownerId}`;
+}
+
+function apiIndexKey(userId: string): string {
+    return `apis:${JSON.stringify([userId])}`;
+}
+
+function apiKey(userId: string, apiName: string): string {
+    return `api:${JSON.stringify([userId, apiName])}`;
+}
+
+function skillKey(userId: string, apiName: string, index: number): string {
+    return `skill:${JSON.stringify([userId, apiName, index])}`;
+}
+
+function versionKey(userId: string, apiName: string, version: number): string {
+    return `version:${JSON.stringify([userId, apiName, version])}`;
+}
+
+function versionSkillKey(userId: string, apiName: string, version: number, index: number): string {
+    return `version-skill:${JSON.stringify([userId, apiName, version, index])}`;
+}
+
+// Matches every key that extends `parts` by one more element, e.g. all skills of an API
+function keyPrefix(kind: string, parts: Array<string | number>): string {
+    return `${kind}:${JSON.stringify(parts).slice(0, -1)},`;
+}
+
+// Storage lists keys lexicographically; restore the numeric order of the trailing index
+function sortByKeyIndex<T>(entries: Map<string, T>): T[] {
+    return Array.from(entries.entries())
+        .map(([key, value]) => ({ index: JSON.parse(key.slice(key.indexOf(':') + 1)).pop() as number, value }))
+        .sort((a, b) => a.index - b.index)
+        .map(entry => entry.value);
+}
+
+function toVersionSummary(version: SkillSetVersionSummary): SkillSetVersionSummary {
+    const { version: number, hash, registeredAt, source, skillCount, diff } = version;
+    return { version: number, hash, registeredAt, source, skillCount, diff };
+}
+
+async function hashSkillSet(content: SkillSetContent): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(content)));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Curation belongs to the user, not the spec: it follows skills by name into new versions and is left out of version hashes
+function carryCuration(previous: SkillDefinition[], next: SkillDefinition[]): SkillDefinition[] {
+    const curated = new Map(previous.map(skill => [skill.name, skill]));
+    return next.map(skill => {
+        const before = curated.get(skill.name);
+        const result: SkillDefinition = { ...withoutCuration(skill) };
+        if (before?.enabled === false) {
+            result.enabled = false;
+        }
+        if (before?.customName) {
+            result.customName = before.customName;
+        }
+        if (before?.customDescription) {
+            result.customDescription = before.customDescription;
+        }
+        const fixed = Object.entries(before?.fixedParameters || {})
+            .filter(([name]) => skill.parameters.some(param => param.name === name));
+        if (fixed.length > 0) {
+            result.fixedParameters = Object.fromEntries(fixed);
+        }
+        return result;
+    });
+}
+
+function withoutCuration(skill: SkillDefinition): SkillDefinition {
+    const { enabled, customName, customDescription, fixedParameters, ...definition } = skill;
+    return definition;
+}
+
+function skillSettings(skill: SkillDefinition) {
+    return {
+        name: skill.name,
+        description: skill.description,
+        method: skill.method,
+        path: skill.path,
+        enabled: skill.enabled !== false,
+        customName: skill.customName,
+        customDescription: skill.customDescription,
+        fixedParameters: skill.fixedParameters || {},
+        parameters: skill.parameters.map(param => ({ name: param.name, in: param.in, required: param.required, type: param.type }))
+    };
 }
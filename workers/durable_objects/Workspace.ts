@@ -0,0 +1,367 @@
+import { MAX_ALLOWED_HOSTS, normalizeHostPattern } from '../utils/egress';
+
+/**
+ * Workspace Durable Object
+ * One instance per workspace: its name, members with their roles, pending invitations,
+ * and the hosts its skills, connector tests and scenarios may call.
+ * The workspace's APIs and credentials live in a SkillRegistry shard named after the workspace.
+ */
+
+// Ordered from least to most privileged
+export const WORKSPACE_ROLES = ['viewer', 'runner', 'editor', 'owner'] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+export interface WorkspaceInfo {
+    id: string;
+    name: string;
+    createdAt: string;
+    createdBy: string;
+}
+
+export interface WorkspaceMember {
+    userId: string;
+    role: WorkspaceRole;
+    joinedAt: string;
+    invitedBy?: string;
+}
+
+export interface WorkspaceInvitation {
+    id: string;
+    role: WorkspaceRole;
+    createdAt: string;
+    createdBy: string;
+    expiresAt: string;
+}
+
+// Only a hash of the invitation secret is kept; the code is shown once, when the invitation is created
+type StoredInvitation = WorkspaceInvitation & { secretHash: string };
+
+const MAX_WORKSPACE_NAME_LENGTH = 100;
+const DEFAULT_INVITATION_HOURS = 7 * 24;
+const MAX_INVITATION_HOURS = 30 * 24;
+const MAX_PENDING_INVITATIONS = 50;
+const HOUR_MS = 60 * 60 * 1000;
+
+export class Workspace {
+    private state: DurableObjectState;
+
+    constructor(state: DurableObjectState) {
+        this.state = state;
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+        const corsHeaders = {
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, X-User-ID',
+        };
+
+        if (request.method === 'OPTIONS') {
+            return new Response(null, { status: 204, headers: corsHeaders });
+        }
+
+        const json = (data: unknown, status = 200) => new Response(
+            JSON.stringify(data),
+            { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+
+        try {
+            // The worker sets X-User-ID from the verified session token
+            const userId = request.headers.get('X-User-ID') || '';
+            if (!userId) {
+                return json({ error: 'X-User-ID is required' }, 400);
+            }
+
+            if (url.pathname === '/create' && request.method === 'POST') {
+                return await this.handleCreate(userId, request, json);
+            }
+
+            const workspace = await this.state.storage.get<WorkspaceInfo>('workspace');
+            if (!workspace) {
+                return json({ error: 'Workspace not found' }, 404);
+            }
+
+            // Joining is the one route open to non-members
+            if (url.pathname === '/join' && request.method === 'POST') {
+                return await this.handleJoin(userId, workspace, request, json);
+            }
+
+            const members = await this.loadMembers();
+            const caller = members[userId];
+            if (!caller) {
+                return json({ error: 'You are not a member of this workspace' }, 403);
+            }
+
+            if (url.pathname === '/info' && request.method === 'GET') {
+                return json({ workspace, role: caller.role, memberCount: Object.keys(members).length });
+            }
+
+            if (url.pathname === '/members' && request.method === 'GET') {
+                return json({ members: Object.values(members).sort(compareMembers) });
+            }
+
+            if (url.pathname === '/members/remove' && request.method === 'POST') {
+                return await this.handleRemoveMember(caller, members, request, json);
+            }
+
+            // Members need the list for the calls they make; an empty list allows every public host
+            if (url.pathname === '/egress' && request.method === 'GET') {
+                return json({ allowedHosts: await this.state.storage.get<string[]>('allowedHosts') || [] });
+            }
+
+            if (caller.role !== 'owner') {
+                return json({ error: 'Only workspace owners can manage members, invitations and allowed hosts' }, 403);
+            }
+
+            if (url.pathname === '/egress' && request.method === 'POST') {
+                return await this.handleSetEgress(request, json);
+            }
+
+            if (url.pathname === '/members/role' && request.method === 'POST') {
+                return await this.handleSetRole(members, request, json);
+            }
+
+            if (url.pathname === '/invitations' && request.method === 'GET') {
+                const invitations = await this.loadInvitations();
+                return json({ invitations: invitations.map(toInvitation) });
+            }
+
+            if (url.pathname === '/invitations' && request.method === 'POST') {
+                return await this.handleInvite(caller, workspace, request, json);
+            }
+
+            if (url.pathname === '/invitations/revoke' && request.method === 'POST') {
+                const body = await request.json<any>();
+                const invitations = await this.loadInvitations();
+                const remaining = invitations.filter((invitation) => invitation.id !== body?.id);
+                if (remaining.length === invitations.length) {
+                    return json({ error: 'Invitation not found' }, 404);
+                }
+                await this.state.storage.put('invitations', remaining);
+                return json({ success: true });
+            }
+
+            return new Response('Not found', { status: 404, headers: corsHeaders });
+        } catch (error) {
+            return json({ error: (error as Error).message }, 500);
+        }
+    }
+
+    private async handleCreate(
+        userId: string,
+        request: Request,
+        json: (data: unknown, status?: number) => Response
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const id = typeof body?.id === 'string' ? body.id.trim() : '';
+        const name = typeof body?.name === 'string' ? body.name.trim() : '';
+        if (!id || !name || name.length > MAX_WORKSPACE_NAME_LENGTH) {
+            return json({ error: `id and a name of at most ${MAX_WORKSPACE_NAME_LENGTH} characters are required` }, 400);
+        }
+
+        if (await this.state.storage.get('workspace')) {
+            return json({ error: 'Workspace already exists' }, 409);
+        }
+
+        const now = new Date().toISOString();
+        const workspace: WorkspaceInfo = { id, name, createdAt: now, createdBy: userId };
+        await this.state.storage.put('workspace', workspace);
+        await this.state.storage.put('members', { [userId]: { userId, role: 'owner', joinedAt: now } });
+
+        return json({ workspace, role: 'owner', memberCount: 1 }, 201);
+    }
+
+    private async handleJoin(
+        userId: string,
+        workspace: WorkspaceInfo,
+        request: Request,
+        json: (data: unknown, status?: number) => Response
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const secret = typeof body?.secret === 'string' ? body.secret : '';
+        const secretHash = secret ? await hashSecret(secret) : '';
+
+        const invitations = await this.loadInvitations();
+        const invitation = invitations.find((entry) => entry.secretHash === secretHash);
+        if (!invitation) {
+            return json({ error: 'Invitation not found or expired' }, 404);
+        }
+
+        const members = await this.loadMembers();
+        const existing = members[userId];
+        if (existing) {
+            // The invitation stays usable for whoever it was meant for
+            return json({ workspace, role: existing.role, alreadyMember: true });
+        }
+
+        members[userId] = {
+            userId,
+            role: invitation.role,
+            joinedAt: new Date().toISOString(),
+            invitedBy: invitation.createdBy
+        };
+        await this.state.storage.put('members', members);
+        await this.state.storage.put('invitations', invitations.filter((entry) => entry.id !== invitation.id));
+
+        return json({ workspace, role: invitation.role, alreadyMember: false });
+    }
+
+    private async handleInvite(
+        caller: WorkspaceMember,
+        workspace: WorkspaceInfo,
+        request: Request,
+        json: (data: unknown, status?: number) => Response
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const role = body?.role ?? 'runner';
+        if (!isWorkspaceRole(role)) {
+            return json({ error: `role must be one of: ${WORKSPACE_ROLES.join(', ')}` }, 400);
+        }
+
+        const expiresInHours = body?.expiresInHours ?? DEFAULT_INVITATION_HOURS;
+        if (typeof expiresInHours !== 'number' || !(expiresInHours >= 1) || expiresInHours > MAX_INVITATION_HOURS) {
+            return json({ error: `expiresInHours must be between 1 and ${MAX_INVITATION_HOURS}` }, 400);
+        }
+
+        const invitations = await this.loadInvitations();
+        if (invitations.length >= MAX_PENDING_INVITATIONS) {
+            return json({ error: `A workspace can have at most ${MAX_PENDING_INVITATIONS} pending invitations` }, 409);
+        }
+
+        const secret = randomSecret();
+        const now = Date.now();
+        const invitation: StoredInvitation = {
+            id: crypto.randomUUID(),
+            role,
+            createdAt: new Date(now).toISOString(),
+            createdBy: caller.userId,
+            expiresAt: new Date(now + expiresInHours * HOUR_MS).toISOString(),
+            secretHash: await hashSecret(secret)
+        };
+        await this.state.storage.put('invitations', [...invitations, invitation]);
+
+        // The code names the workspace so the worker knows which object to ask
+        return json({ invitation: toInvitation(invitation), code: `${workspace.id}.${secret}` }, 201);
+    }
+
+    private async handleSetRole(
+        members: Record<string, WorkspaceMember>,
+        request: Request,
+        json: (data: unknown, status?: number) => Response
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const target = members[body?.userId];
+        if (!target) {
+            return json({ error: 'Member not found' }, 404);
+        }
+        if (!isWorkspaceRole(body.role)) {
+            return json({ error: `role must be one of: ${WORKSPACE_ROLES.join(', ')}` }, 400);
+        }
+        if (target.role === 'owner' && body.role !== 'owner' && countOwners(members) === 1) {
+            return json({ error: 'A workspace must keep at least one owner' }, 409);
+        }
+
+        members[target.userId] = { ...target, role: body.role };
+        await this.state.storage.put('members', members);
+        return json({ member: members[target.userId] });
+    }
+
+    private async handleRemoveMember(
+        caller: WorkspaceMember,
+        members: Record<string, WorkspaceMember>,
+        request: Request,
+        json: (data: unknown, status?: number) => Response
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        const target = members[body?.userId];
+        if (!target) {
+            return json({ error: 'Member not found' }, 404);
+        }
+        // Anyone may leave; only owners may remove someone else
+        if (target.userId !== caller.userId && caller.role !== 'owner') {
+            return json({ error: 'Only workspace owners can remove other members' }, 403);
+        }
+        if (target.role === 'owner' && countOwners(members) === 1) {
+            return json({ error: 'A workspace must keep at least one owner' }, 409);
+        }
+
+        delete members[target.userId];
+        await this.state.storage.put('members', members);
+        return json({ success: true, removed: target.userId });
+    }
+
+    private async handleSetEgress(
+        request: Request,
+        json: (data: unknown, status?: number) => Response
+    ): Promise<Response> {
+        const body = await request.json<any>();
+        if (!Array.isArray(body?.allowedHosts) || body.allowedHosts.length > MAX_ALLOWED_HOSTS) {
+            return json({ error: `allowedHosts must be a list of at most ${MAX_ALLOWED_HOSTS} host names` }, 400);
+        }
+
+        const allowedHosts: string[] = [];
+        for (const entry of body.allowedHosts) {
+            const pattern = normalizeHostPattern(entry);
+            if (!pattern) {
+                return json({ error: `Not a host name or *.domain pattern: ${entry}` }, 400);
+            }
+            if (!allowedHosts.includes(pattern)) {
+                allowedHosts.push(pattern);
+            }
+        }
+
+        await this.state.storage.put('allowedHosts', allowedHosts);
+        return json({ allowedHosts });
+    }
+
+    private async loadMembers(): Promise<Record<string, WorkspaceMember>> {
+        return await this.state.storage.get<Record<string, WorkspaceMember>>('members') || {};
+    }
+
+    // Pending invitations; expired ones are dropped as they are read
+    private async loadInvitations(): Promise<StoredInvitation[]> {
+        const invitations = await this.state.storage.get<StoredInvitation[]>('invitations') || [];
+        const now = Date.now();
+        const pending = invitations.filter((invitation) => Date.parse(invitation.expiresAt) > now);
+        if (pending.length !== invitations.length) {
+            await this.state.storage.put('invitations', pending);
+        }
+        return pending;
+    }
+}
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+    return typeof value === 'string' && (WORKSPACE_ROLES as readonly string[]).includes(value);
+}
+
+// Whether `role` grants at least what `minimum` does
+export function hasWorkspaceRole(role: WorkspaceRole, minimum: WorkspaceRole): boolean {
+    return WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(minimum);
+}
+
+// Durable Object name of a workspace's membership record
+export function workspaceObjectName(workspaceId: string): string {
+    return `workspace:${workspaceId}`;
+}
+
+function countOwners(members: Record<string, WorkspaceMember>): number {
+    return Object.values(members).filter((member) => member.role === 'owner').length;
+}
+
+function compareMembers(a: WorkspaceMember, b: WorkspaceMember): number {
+    return WORKSPACE_ROLES.indexOf(b.role) - WORKSPACE_ROLES.indexOf(a.role) || a.joinedAt.localeCompare(b.joinedAt);
+}
+
+function toInvitation({ secretHash: _secretHash, ...invitation }: StoredInvitation): WorkspaceInvitation {
+    return invitation;
+}
+
+function randomSecret(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(24)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function hashSecret(secret: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
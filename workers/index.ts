@@ -1,9 +1,70 @@
 import type { Env } from './bindings';
 import { getGlobalLogger } from './utils/log';
-import { SessionState as SessionStateImpl } from './durable_objects/SessionState';
-import { SkillRegistry as SkillRegistryImpl } from './durable_objects/SkillRegistry';
-import { parseOpenAPIToSkills, skillsToAIToolSchemas, executeSkill } from './skill-parser';
-import { parseYaml } from './utils/yaml';
+import {
+    SessionState as SessionStateImpl,
+    DEFAULT_CONVERSATION_ID,
+    type Conversation,
+    type PendingAction,
+    type PendingRun
+} from './durable_objects/SessionState';
+import {
+    SkillRegistry as SkillRegistryImpl,
+    APPROVAL_POLICIES,
+    DEFAULT_APPROVAL_POLICY,
+    DEFAULT_API_RATE_LIMIT,
+    DEFAULT_EXECUTION_POLICY,
+    skillRegistryName,
+    workspaceSkillOwner,
+    type ApprovalPolicy,
+    type ExecutionPolicy,
+    type RateLimit
+} from './durable_objects/SkillRegistry';
+import {
+    Workspace as WorkspaceImpl,
+    hasWorkspaceRole,
+    workspaceObjectName,
+    type WorkspaceRole
+} from './durable_objects/Workspace';
+import {
+    RateLimiter as RateLimiterImpl,
+    rateLimiterName,
+    type CircuitStatus,
+    type ConsumeResult,
+    type TokenBucket
+} from './durable_objects/RateLimiter';
+import {
+    parseOpenAPIToSkills,
+    skillsToAIToolSchemas,
+    executeSkill,
+    describeSkillRequest,
+    type SkillCredentials
+} from './skill-parser';
+import { validateSkillArguments, formatValidationErrors } from './skill-validator';
+import {
+    DEFAULT_MAX_RESPONSE_BYTES,
+    EgressBlockedError,
+    guardedFetch,
+    intersectAllowedHosts,
+    readTextWithLimit,
+    ResponseTooLargeError
+} from './utils/egress';
+import { selectRelevantSkills } from './skill-ranker';
+import { fetchSpecDocument, parseSpecText } from './spec-sync';
+import {
+    constantTimeEqual,
+    signClaimCode,
+    signSessionToken,
+    verifyClaimCode,
+    verifySessionToken,
+    MIN_AUTH_SECRET_LENGTH
+} from './auth';
+import {
+    createModelProvider,
+    isModelProviderName,
+    MODEL_PROVIDERS,
+    type DeploymentProviderName,
+    type ModelProvider
+} from './model-provider';
 
 const TEMPLATE_LIBRARY = [
     {
@@ -123,15 +184,48 @@ class HttpError extends Error {
     }
 }
 
+// A 429 whose Retry-After header tells the client when the exhausted bucket refills
+class RateLimitError extends HttpError {
+    retryAfterSeconds: number;
+
+    constructor(message: string, retryAfterSeconds: number) {
+        super(429, message, { retryAfterSeconds });
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
 export class SessionState extends SessionStateImpl { }
 export class SkillRegistry extends SkillRegistryImpl { }
+export class Workspace extends WorkspaceImpl { }
+export class RateLimiter extends RateLimiterImpl { }
 
 const MAX_HISTORY_CHARS = 50_000;
 const MAX_MODEL_TOKENS = 24_000;
 const CHARS_PER_TOKEN = 4;
+// Workspace routes forwarded to the workspace's Durable Object, as `${method} ${subpath}`
+const WORKSPACE_ROUTES = new Set([
+    'GET /info',
+    'GET /members',
+    'POST /members/role',
+    'POST /members/remove',
+    'GET /invitations',
+    'POST /invitations',
+    'POST /invitations/revoke',
+    'GET /egress',
+    'POST /egress'
+]);
+// Messages loaded per chat turn; trimChatHistory keeps far fewer of them
+const CHAT_HISTORY_PAGE_SIZE = 100;
 const STREAM_FLUSH_INTERVAL_MS = 250;
 const STREAM_CHUNK_SIZE = 220;
 const LOG_STREAM_PING_INTERVAL = 5000;
+const DEFAULT_AGENT_MAX_STEPS = 4;
+const MAX_AGENT_STEPS = 8;
+const MAX_TOOL_RESULT_CHARS = 8000;
+// Chat turns per user, each of which may call the model up to MAX_AGENT_STEPS times
+const CHAT_RATE_LIMIT: RateLimit = { requestsPerMinute: 20, burst: 10 };
+// Ids the worker hands out; ids clients chose before session tokens never had it, so claims cannot take these
+const ISSUED_USER_ID_PREFIX = 'user-';
 
 interface ScenarioRunResult {
     name: string;
@@ -147,8 +241,9 @@ export default {
 
         const corsHeaders = {
             'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
-            'Access-Control-Allow-Headers': 'Content-Type, X-Session-ID, X-User-ID',
+            'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Session-ID, X-User-ID, X-Workspace-ID',
+            'Access-Control-Expose-Headers': 'Retry-After',
         };
 
         if (request.method === 'OPTIONS') {
@@ -232,14 +327,81 @@ export default {
                 return jsonResponse({ success: true, code, steps }, 200, corsHeaders);
             }
 
+            // POST /api/auth/session - a token for a new user, or with a valid bearer token a fresh one for the same user
+            // that expires no later than MAX_SESSION_LIFETIME_SECONDS after the session began
+            if (url.pathname === '/api/auth/session' && request.method === 'POST') {
+                const secret = requireAuthSecret(env);
+                const presented = readSessionToken(request, url);
+
+                let subject = `${ISSUED_USER_ID_PREFIX}${crypto.randomUUID()}`;
+                let authTime: number | undefined;
+                if (presented) {
+                    const verified = await verifySessionToken(presented, secret);
+                    if (!verified.ok) {
+                        throw new HttpError(401, verified.reason);
+                    }
+                    subject = verified.claims.sub;
+                    authTime = verified.claims.auth_time;
+                }
+
+                const { token, claims } = await signSessionToken(subject, secret, undefined, undefined, authTime);
+                return jsonResponse(
+                    { token, userId: subject, expiresAt: new Date(claims.exp * 1000).toISOString() },
+                    presented ? 200 : 201,
+                    corsHeaders
+                );
+            }
+
+            // POST /api/operator/claim-codes - { legacyId }, authorized with `Bearer <OPERATOR_TOKEN>`. Operators call this
+            // once they have confirmed out of band who owns a pre-token id, and pass the code on to that user.
+            if (url.pathname === '/api/operator/claim-codes' && request.method === 'POST') {
+                const presented = readSessionToken(request, url) || '';
+                if (!env.OPERATOR_TOKEN || !constantTimeEqual(presented, env.OPERATOR_TOKEN)) {
+                    throw new HttpError(401, 'A valid operator token is required');
+                }
+                const legacyId = readLegacyId(await readJsonBody(request));
+                const { code, expiresAt } = await signClaimCode(legacyId, requireAuthSecret(env));
+                return jsonResponse({ legacyId, code, expiresAt: new Date(expiresAt * 1000).toISOString() }, 201, corsHeaders);
+            }
+
+            // The routes above are public; everything below acts on the caller's data and needs a verified session token
+            const { userId, sessionId, authTime } = await resolveRequestContext(request, url, env);
+
+            // POST /api/auth/claim - { legacyId, claimCode }: switch to an id a client picked itself before session tokens,
+            // to reach the data stored under it. Knowing the id proves nothing, so an operator-issued claim code is required.
+            // An id can be claimed once; later claims get 409.
+            if (url.pathname === '/api/auth/claim' && request.method === 'POST') {
+                const body = await readJsonBody(request);
+                const legacyId = readLegacyId(body);
+                const claimCode = typeof body.claimCode === 'string' ? body.claimCode.trim() : '';
+                if (!claimCode || !(await verifyClaimCode(claimCode, legacyId, requireAuthSecret(env)))) {
+                    throw new HttpError(403, `A valid claim code for ${legacyId} is required; ask an operator for one`);
+                }
+
+                const claim = await getSessionStub(env, legacyId).fetch('http://internal/claim', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ claimant: userId })
+                });
+                if (claim.status === 409) {
+                    throw new HttpError(409, `${legacyId} has already been claimed`);
+                }
+                if (!claim.ok) {
+                    throw new Error(`Failed to claim ${legacyId} (HTTP ${claim.status})`);
+                }
+
+                const { token, claims } = await signSessionToken(legacyId, requireAuthSecret(env), undefined, undefined, authTime);
+                return jsonResponse({ token, userId: legacyId, expiresAt: new Date(claims.exp * 1000).toISOString() }, 200, corsHeaders);
+            }
+
             if (url.pathname === '/api/tools' && request.method === 'GET') {
-                const { userId } = resolveRequestContext(request);
-                const skillRegistryId = env.SKILL_REGISTRY.idFromName('global');
+                const ownerId = await resolveSkillOwner(env, request, userId, 'viewer');
+                const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
                 const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
 
                 const registryResponse = await skillRegistryStub.fetch('http://internal/list', {
                     method: 'GET',
-                    headers: { 'X-User-ID': userId }
+                    headers: { 'X-User-ID': ownerId }
                 });
                 const apiResult = await registryResponse.json<any>();
 
@@ -259,7 +421,6 @@ export default {
             }
 
             if (url.pathname === '/api/stream' && request.method === 'GET') {
-                const sessionId = url.searchParams.get('sessionId') || resolveRequestContext(request).sessionId;
                 const stream = createLogStream(sessionId);
                 return new Response(stream, {
                     headers: {
@@ -272,14 +433,14 @@ export default {
             }
 
             if (url.pathname === '/api/scenarios' && request.method === 'GET') {
-                const scenarioData = await proxyScenarioRequest(env, request, 'http://internal/scenarios/list', { method: 'GET' });
+                const scenarioData = await proxyScenarioRequest(env, sessionId, 'http://internal/scenarios/list', { method: 'GET' });
                 const scenarios = Array.isArray(scenarioData) ? scenarioData : scenarioData.scenarios || [];
                 return jsonResponse({ scenarios }, 200, corsHeaders);
             }
 
             if (url.pathname === '/api/scenarios' && request.method === 'POST') {
                 const payload = await request.text();
-                const scenarioData = await proxyScenarioRequest(env, request, 'http://internal/scenarios', {
+                const scenarioData = await proxyScenarioRequest(env, sessionId, 'http://internal/scenarios', {
                     method: 'POST',
                     body: payload
                 });
@@ -287,10 +448,11 @@ export default {
             }
 
             if (url.pathname === '/api/scenarios/run' && request.method === 'POST') {
-                const payload = await request.text();
-                const runData = await proxyScenarioRequest(env, request, 'http://internal/scenarios/run', {
+                const payload = await readJsonBody(request);
+                const allowedHosts = await resolveAllowedHosts(env, userId);
+                const runData = await proxyScenarioRequest(env, sessionId, 'http://internal/scenarios/run', {
                     method: 'POST',
-                    body: payload
+                    body: JSON.stringify({ ...payload, allowedHosts })
                 });
                 return jsonResponse(runData, 200, corsHeaders);
             }
@@ -300,7 +462,7 @@ export default {
                 if (!scenarioId) {
                     throw new HttpError(400, 'Scenario ID is required');
                 }
-                const result = await proxyScenarioRequest(env, request, `http://internal/scenarios/${scenarioId}`, {
+                const result = await proxyScenarioRequest(env, sessionId, `http://internal/scenarios/${scenarioId}`, {
                     method: 'DELETE'
                 });
                 return jsonResponse(result, 200, corsHeaders);
@@ -308,25 +470,40 @@ export default {
 
             if (url.pathname === '/api/test-connector' && request.method === 'POST') {
                 const body = await readJsonBody(request);
-                const result = await executeTestConnector(body);
+                const result = await executeTestConnector(body, await resolveAllowedHosts(env, userId));
                 return jsonResponse(result, result.success ? 200 : 502, corsHeaders);
             }
             if (url.pathname === '/api/skills/register' && request.method === 'POST') {
+                const ownerId = await resolveSkillOwner(env, request, userId, 'editor');
                 const body = await readJsonBody(request);
-                let { apiName, spec, apiKey } = body;
+                let { apiName, spec, apiKey, credentials, specUrl, syncIntervalHours } = body;
 
-                if (!apiName || !spec) {
-                    return jsonResponse({ error: 'apiName and spec are required' }, 400, corsHeaders);
+                if (!apiName || (!spec && !specUrl)) {
+                    return jsonResponse({ error: 'apiName and spec (or specUrl) are required' }, 400, corsHeaders);
                 }
 
-                if (typeof spec === 'string') {
+                if (specUrl !== undefined && (typeof specUrl !== 'string' || !/^https?:\/\//i.test(specUrl))) {
+                    return jsonResponse({ error: 'specUrl must be an http(s) URL' }, 400, corsHeaders);
+                }
+
+                let specEtag: string | undefined;
+                if (!spec) {
                     try {
-                        spec = JSON.parse(spec);
-                    } catch {
-                        spec = parseYaml(spec);
-                        if (!spec) {
-                            return jsonResponse({ error: 'Invalid JSON or YAML in spec' }, 400, corsHeaders);
+                        const fetched = await fetchSpecDocument(specUrl);
+                        if (fetched.notModified) {
+                            throw new Error('Spec URL returned 304 without a cached copy');
                         }
+                        spec = fetched.spec;
+                        specEtag = fetched.etag;
+                    } catch (error) {
+                        return jsonResponse({ error: `Failed to fetch spec: ${(error as Error).message}` }, 400, corsHeaders);
+                    }
+                }
+
+                if (typeof spec === 'string') {
+                    spec = parseSpecText(spec);
+                    if (!spec) {
+                        return jsonResponse({ error: 'Invalid JSON or YAML in spec' }, 400, corsHeaders);
                     }
                 }
 
@@ -342,29 +519,35 @@ export default {
                 }
 
                 try {
-                    const { skills, baseUrl, metadata } = parseOpenAPIToSkills(spec);
+                    const { skills, baseUrl, servers, securitySchemes, metadata } = parseOpenAPIToSkills(spec, { specUrl });
 
                     if (skills.length === 0) {
                         return jsonResponse({ error: 'No valid operations found in OpenAPI spec' }, 400, corsHeaders);
                     }
 
                     const encryptedApiKey = apiKey ? await encryptSecret(apiKey, env) : '';
+                    const encryptedCredentials = await encryptCredentialSet(credentials, env);
 
-                    const { userId } = resolveRequestContext(request);
-                    const skillRegistryId = env.SKILL_REGISTRY.idFromName('global');
+                    const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
                     const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
 
                     const response = await skillRegistryStub.fetch('http://internal/register', {
                         method: 'POST',
                         headers: {
                             'Content-Type': 'application/json',
-                            'X-User-ID': userId
+                            'X-User-ID': ownerId
                         },
                         body: JSON.stringify({
                             apiName,
                             skills,
                             baseUrl,
+                            servers,
+                            specUrl,
+                            specEtag,
+                            syncIntervalHours,
                             encryptedApiKey,
+                            encryptedCredentials,
+                            securitySchemes,
                             metadata
                         })
                     });
@@ -380,13 +563,13 @@ export default {
             }
 
             if (url.pathname === '/api/skills/list' && request.method === 'GET') {
-                const { userId } = resolveRequestContext(request);
-                const skillRegistryId = env.SKILL_REGISTRY.idFromName('global');
+                const ownerId = await resolveSkillOwner(env, request, userId, 'viewer');
+                const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
                 const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
 
                 const response = await skillRegistryStub.fetch('http://internal/list', {
                     method: 'GET',
-                    headers: { 'X-User-ID': userId }
+                    headers: { 'X-User-ID': ownerId }
                 });
 
                 const result = await response.json<any>();
@@ -394,6 +577,7 @@ export default {
             }
 
             if (url.pathname === '/api/skills/delete' && request.method === 'POST') {
+                const ownerId = await resolveSkillOwner(env, request, userId, 'editor');
                 const body = await request.json<any>();
                 const { apiName } = body;
 
@@ -401,15 +585,14 @@ export default {
                     return jsonResponse({ error: 'apiName is required' }, 400, corsHeaders);
                 }
 
-                const { userId } = resolveRequestContext(request);
-                const skillRegistryId = env.SKILL_REGISTRY.idFromName('global');
+                const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
                 const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
 
                 const response = await skillRegistryStub.fetch('http://internal/delete', {
                     method: 'POST',
                     headers: {
                         'Content-Type': 'application/json',
-                        'X-User-ID': userId
+                        'X-User-ID': ownerId
                     },
                     body: JSON.stringify({ apiName })
                 });
@@ -418,63 +601,399 @@ export default {
                 return jsonResponse(result, response.status, corsHeaders);
             }
 
-            if (url.pathname === '/api/chat' && request.method === 'POST') {
-                const body = await request.json<any>();
-                const { message: prompt, persona } = body;
+            if (url.pathname === '/api/skills/policy' && request.method === 'POST') {
+                const ownerId = await resolveSkillOwner(env, request, userId, 'editor');
+                const body = await readJsonBody(request);
+                const { apiName, approvalPolicy } = body;
 
-                if (!prompt || typeof prompt !== 'string' || !prompt.trim()) {
-                    return jsonResponse({ error: 'Message is required and must be a non-empty string' }, 400, corsHeaders);
+                if (!apiName || !APPROVAL_POLICIES.includes(approvalPolicy)) {
+                    return jsonResponse({
+                        error: `apiName and approvalPolicy (${APPROVAL_POLICIES.join(', ')}) are required`
+                    }, 400, corsHeaders);
                 }
 
-                const message = prompt.trim();
-                const { userId } = resolveRequestContext(request);
-                const sessionStub = getSessionStub(env, request);
+                const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
+                const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
 
-                await sessionStub.fetch('http://internal/add-message', {
+                const response = await skillRegistryStub.fetch('http://internal/set-policy', {
                     method: 'POST',
-                    body: JSON.stringify({ role: 'user', content: message }),
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-User-ID': ownerId
+                    },
+                    body: JSON.stringify({ apiName, approvalPolicy })
                 });
 
-                const historyResp = await sessionStub.fetch('http://internal/get-history');
-                let history = (await historyResp.json<any>()) as any[];
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
 
-                const preCheckTokens = estimateMessageTokens(history);
-                if (preCheckTokens > 50_000) {
-                    console.log(`[EMERGENCY] History has ${preCheckTokens} tokens, clearing all except system messages!`);
-                    history = history.filter(msg => msg.role === 'system');
-                    await sessionStub.fetch('http://internal/clear-history', { method: 'POST' });
+            if (url.pathname === '/api/skills/sync' && request.method === 'POST') {
+                const ownerId = await resolveSkillOwner(env, request, userId, 'editor');
+                const body = await readJsonBody(request);
+                const { apiName, dryRun } = body;
+
+                if (!apiName) {
+                    return jsonResponse({ error: 'apiName is required' }, 400, corsHeaders);
                 }
 
-                const trimmedHistory = trimChatHistory(history);
+                const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
+                const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
+
+                const response = await skillRegistryStub.fetch('http://internal/sync', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-User-ID': ownerId
+                    },
+                    body: JSON.stringify({ apiName, dryRun: Boolean(dryRun) })
+                });
+
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
+
+            if (url.pathname === '/api/skills/skill' && request.method === 'POST') {
+                const ownerId = await resolveSkillOwner(env, request, userId, 'editor');
+                const body = await readJsonBody(request);
+                const { apiName, skillName, enabled, customName, customDescription, fixedParameters } = body;
+
+                if (!apiName || !skillName) {
+                    return jsonResponse({ error: 'apiName and skillName are required' }, 400, corsHeaders);
+                }
+
+                const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
+                const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
+
+                const response = await skillRegistryStub.fetch('http://internal/update-skill', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-User-ID': ownerId
+                    },
+                    body: JSON.stringify({ apiName, skillName, enabled, customName, customDescription, fixedParameters })
+                });
+
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
+
+            if (url.pathname === '/api/skills/versions' && request.method === 'GET') {
+                const ownerId = await resolveSkillOwner(env, request, userId, 'viewer');
+                const apiName = url.searchParams.get('apiName');
+                if (!apiName) {
+                    return jsonResponse({ error: 'apiName is required' }, 400, corsHeaders);
+                }
+
+                const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
+                const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
+
+                const response = await skillRegistryStub.fetch(`http://internal/versions?apiName=${encodeURIComponent(apiName)}`, {
+                    method: 'GET',
+                    headers: { 'X-User-ID': ownerId }
+                });
+
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
+
+            if ((url.pathname === '/api/skills/pin' || url.pathname === '/api/skills/rollback') && request.method === 'POST') {
+                const ownerId = await resolveSkillOwner(env, request, userId, 'editor');
+                const body = await readJsonBody(request);
+                const { apiName, version } = body;
+
+                if (!apiName) {
+                    return jsonResponse({ error: 'apiName is required' }, 400, corsHeaders);
+                }
 
-                const skillRegistryId = env.SKILL_REGISTRY.idFromName('global');
+                const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
                 const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
 
-                const skillsResponse = await skillRegistryStub.fetch('http://internal/get-skills', {
+                const action = url.pathname.endsWith('/pin') ? 'pin' : 'rollback';
+                const response = await skillRegistryStub.fetch(`http://internal/${action}`, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-User-ID': ownerId
+                    },
+                    body: JSON.stringify({ apiName, version: version ?? null })
+                });
+
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
+
+            if (url.pathname === '/api/skills/rate-limit' && request.method === 'POST') {
+                const ownerId = await resolveSkillOwner(env, request, userId, 'editor');
+                const body = await readJsonBody(request);
+                const { apiName, rateLimit, skillRateLimit } = body;
+
+                if (!apiName) {
+                    return jsonResponse({ error: 'apiName is required' }, 400, corsHeaders);
+                }
+
+                const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
+                const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
+
+                const response = await skillRegistryStub.fetch('http://internal/set-rate-limit', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-User-ID': ownerId
+                    },
+                    body: JSON.stringify({ apiName, rateLimit, skillRateLimit })
+                });
+
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
+
+            if (url.pathname === '/api/skills/execution-policy' && request.method === 'POST') {
+                const ownerId = await resolveSkillOwner(env, request, userId, 'editor');
+                const body = await readJsonBody(request);
+                const { apiName, executionPolicy } = body;
+
+                if (!apiName) {
+                    return jsonResponse({ error: 'apiName is required' }, 400, corsHeaders);
+                }
+
+                const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
+                const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
+
+                const response = await skillRegistryStub.fetch('http://internal/set-execution-policy', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-User-ID': ownerId
+                    },
+                    body: JSON.stringify({ apiName, executionPolicy })
+                });
+
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
+
+            // Circuit breaker state of the owner's APIs; APIs without recent failures are not listed
+            if (url.pathname === '/api/skills/circuits' && request.method === 'GET') {
+                const ownerId = await resolveSkillOwner(env, request, userId, 'viewer');
+                const response = await getRateLimiterStub(env, ownerId).fetch('http://internal/circuits');
+                const result = await response.json<{ circuits?: CircuitStatus[]; error?: string }>();
+                if (!response.ok) {
+                    return jsonResponse(result, response.status, corsHeaders);
+                }
+
+                const circuits = (result.circuits || [])
+                    .filter((circuit) => circuit.key.startsWith('api:'))
+                    .map(({ key, ...circuit }) => ({ apiName: key.slice('api:'.length), ...circuit }));
+                return jsonResponse({ circuits }, 200, corsHeaders);
+            }
+
+            if (url.pathname === '/api/skills/server' && request.method === 'POST') {
+                const ownerId = await resolveSkillOwner(env, request, userId, 'editor');
+                const body = await readJsonBody(request);
+                const { apiName, serverIndex, variables } = body;
+
+                if (!apiName) {
+                    return jsonResponse({ error: 'apiName is required' }, 400, corsHeaders);
+                }
+
+                const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
+                const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
+
+                const response = await skillRegistryStub.fetch('http://internal/set-server', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-User-ID': ownerId
+                    },
+                    body: JSON.stringify({ apiName, serverIndex, variables })
+                });
+
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
+
+            // GET /api/workspaces - the caller's workspaces with their role in each
+            if (url.pathname === '/api/workspaces' && request.method === 'GET') {
+                const workspaceIds = await loadWorkspaceIds(env, userId);
+                const workspaces: any[] = [];
+                for (const workspaceId of workspaceIds) {
+                    const response = await getWorkspaceStub(env, workspaceId).fetch('http://internal/info', {
+                        method: 'GET',
+                        headers: { 'X-User-ID': userId }
+                    });
+                    if (response.ok) {
+                        const { workspace, role, memberCount } = await response.json<any>();
+                        workspaces.push({ ...workspace, role, memberCount });
+                    }
+                }
+
+                // Workspaces the caller was removed from drop out of their list here
+                if (workspaces.length !== workspaceIds.length) {
+                    await saveWorkspaceIds(env, userId, workspaces.map((workspace) => workspace.id));
+                }
+
+                return jsonResponse({ workspaces }, 200, corsHeaders);
+            }
+
+            if (url.pathname === '/api/workspaces' && request.method === 'POST') {
+                const body = await readJsonBody(request);
+                const workspaceId = crypto.randomUUID();
+
+                const response = await getWorkspaceStub(env, workspaceId).fetch('http://internal/create', {
                     method: 'POST',
                     headers: {
                         'Content-Type': 'application/json',
                         'X-User-ID': userId
                     },
-                    body: JSON.stringify({})
+                    body: JSON.stringify({ id: workspaceId, name: body.name })
                 });
 
-                const skillsData = await skillsResponse.json<any>();
-                const userApis = skillsData.apis || {};
-
-                const allSkills: any[] = [];
-                for (const apiData of Object.values(userApis) as any[]) {
-                    for (const skill of apiData.skills || []) {
-                        allSkills.push({
-                            ...skill,
-                            apiName: apiData.apiName,
-                            encryptedApiKey: apiData.encryptedApiKey,
-                            baseUrl: apiData.baseUrl
-                        });
+                const result = await response.json<any>();
+                if (response.ok) {
+                    await saveWorkspaceIds(env, userId, [...await loadWorkspaceIds(env, userId), workspaceId]);
+                }
+                return jsonResponse(result, response.status, corsHeaders);
+            }
+
+            // POST /api/workspaces/join - accept an invitation code, `<workspaceId>.<secret>`
+            if (url.pathname === '/api/workspaces/join' && request.method === 'POST') {
+                const { code } = await readJsonBody(request);
+                const separator = typeof code === 'string' ? code.indexOf('.') : -1;
+                if (separator <= 0) {
+                    throw new HttpError(400, 'A valid invitation code is required');
+                }
+                const workspaceId = code.slice(0, separator);
+
+                const response = await getWorkspaceStub(env, workspaceId).fetch('http://internal/join', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-User-ID': userId
+                    },
+                    body: JSON.stringify({ secret: code.slice(separator + 1) })
+                });
+
+                const result = await response.json<any>();
+                if (response.ok) {
+                    const workspaceIds = await loadWorkspaceIds(env, userId);
+                    if (!workspaceIds.includes(workspaceId)) {
+                        await saveWorkspaceIds(env, userId, [...workspaceIds, workspaceId]);
                     }
                 }
+                return jsonResponse(result, response.status, corsHeaders);
+            }
+
+            // /api/workspaces/:id (info), /members, /members/role, /members/remove, /invitations, /invitations/revoke, /egress
+            const workspaceMatch = url.pathname.match(/^\/api\/workspaces\/([^/]+)(\/.*)?$/);
+            if (workspaceMatch && WORKSPACE_ROUTES.has(`${request.method} ${workspaceMatch[2] || '/info'}`)) {
+                const workspaceId = decodeURIComponent(workspaceMatch[1]);
+                const response = await getWorkspaceStub(env, workspaceId).fetch(`http://internal${workspaceMatch[2] || '/info'}`, {
+                    method: request.method,
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-User-ID': userId
+                    },
+                    body: request.method === 'POST' ? JSON.stringify(await readJsonBody(request)) : undefined
+                });
+
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
 
-                console.log(`[Chat] User ${userId} has ${allSkills.length} skills from ${Object.keys(userApis).length} APIs`);
+            if (url.pathname === '/api/conversations' && (request.method === 'GET' || request.method === 'POST')) {
+                const sessionStub = getSessionStub(env, sessionId);
+                const response = await sessionStub.fetch(`http://internal/conversations${url.search}`, {
+                    method: request.method,
+                    headers: { 'Content-Type': 'application/json' },
+                    body: request.method === 'POST' ? JSON.stringify(await readJsonBody(request)) : undefined
+                });
+
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
+
+            // GET /api/conversations/:id/messages - a page of the thread's history, newest last; pass `before` to page back
+            const conversationMessagesMatch = url.pathname.match(/^\/api\/conversations\/([^/]+)\/messages$/);
+            if (conversationMessagesMatch && request.method === 'GET') {
+                const params = new URLSearchParams({
+                    conversationId: decodeURIComponent(conversationMessagesMatch[1]),
+                    limit: url.searchParams.get('limit') || String(CHAT_HISTORY_PAGE_SIZE)
+                });
+                const before = url.searchParams.get('before');
+                if (before) {
+                    params.set('before', before);
+                }
+
+                const sessionStub = getSessionStub(env, sessionId);
+                const response = await sessionStub.fetch(`http://internal/get-history?${params}`);
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
+
+            const conversationMatch = url.pathname.match(/^\/api\/conversations\/([^/]+)$/);
+            if (conversationMatch && ['GET', 'PATCH', 'DELETE'].includes(request.method)) {
+                const sessionStub = getSessionStub(env, sessionId);
+                const response = await sessionStub.fetch(`http://internal/conversations/${conversationMatch[1]}`, {
+                    method: request.method,
+                    headers: { 'Content-Type': 'application/json' },
+                    body: request.method === 'PATCH' ? JSON.stringify(await readJsonBody(request)) : undefined
+                });
+
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
+
+            if (url.pathname === '/api/chat' && request.method === 'POST') {
+                const body = await request.json<any>();
+                const { message: prompt } = body;
+
+                if (!prompt || typeof prompt !== 'string' || !prompt.trim()) {
+                    return jsonResponse({ error: 'Message is required and must be a non-empty string' }, 400, corsHeaders);
+                }
+                if (body.conversationId !== undefined && (typeof body.conversationId !== 'string' || !body.conversationId.trim())) {
+                    return jsonResponse({ error: 'conversationId must be a non-empty string' }, 400, corsHeaders);
+                }
+
+                const message = prompt.trim();
+                const sessionStub = getSessionStub(env, sessionId);
+
+                const conversationId: string = body.conversationId?.trim() || DEFAULT_CONVERSATION_ID;
+                const conversationResp = await sessionStub.fetch(`http://internal/conversations/${encodeURIComponent(conversationId)}`);
+                const conversationData = await conversationResp.json<any>();
+                if (!conversationResp.ok) {
+                    return jsonResponse(conversationData, conversationResp.status, corsHeaders);
+                }
+                const conversation: Conversation = conversationData.conversation;
+                if (conversation.archived) {
+                    return jsonResponse({ error: 'Conversation is archived; unarchive it to continue' }, 409, corsHeaders);
+                }
+
+                await enforceRateLimit(env, userId, [toTokenBucket('chat', CHAT_RATE_LIMIT)], 'chat');
+
+                await sessionStub.fetch('http://internal/add-message', {
+                    method: 'POST',
+                    body: JSON.stringify({ role: 'user', content: message, conversationId }),
+                });
+
+                // Only the most recent page is needed for the prompt; older messages stay stored
+                const historyResp = await sessionStub.fetch(
+                    `http://internal/get-history?conversationId=${encodeURIComponent(conversationId)}&limit=${CHAT_HISTORY_PAGE_SIZE}`
+                );
+                let history = ((await historyResp.json<any>()).messages || []) as any[];
+
+                const preCheckTokens = estimateMessageTokens(history);
+                if (preCheckTokens > 50_000) {
+                    console.log(`[EMERGENCY] History has ${preCheckTokens} tokens, sending only system messages`);
+                    history = history.filter(msg => msg.role === 'system');
+                }
+
+                const trimmedHistory = trimChatHistory(history);
+
+                const workspaceId = readWorkspaceId(request);
+                const { skills: allSkills, apiCount } = await loadChatSkills(env, userId, workspaceId);
+
+                console.log(`[Chat] User ${userId} has ${allSkills.length} skills from ${apiCount} APIs`);
 
                 let scenarioRunResults: ScenarioRunResult[] | null = null;
                 let scenarioRunSummary: string | null = null;
@@ -482,7 +1001,7 @@ export default {
                 if (shouldRunSmokeSuite(message)) {
                     const scenarioResp = await sessionStub.fetch('http://internal/scenarios/run', {
                         method: 'POST',
-                        body: JSON.stringify({ trigger: 'chat' }),
+                        body: JSON.stringify({ trigger: 'chat', allowedHosts: await resolveAllowedHosts(env, userId) }),
                         headers: { 'Content-Type': 'application/json' },
                     });
 
@@ -502,10 +1021,15 @@ export default {
                     finalPrompt += `\n\nSmoke test results:\n${scenarioRunSummary}`;
                 }
 
-                const personaInstruction = resolvePersonaInstruction(persona);
+                // A persona sent with the message overrides the one saved on the conversation
+                const personaInstruction = resolvePersonaInstruction(body.persona ?? conversation.persona);
+
+                const recentUserTurns = trimmedHistory.filter(msg => msg.role === 'user').map(msg => msg.content);
+                const relevantSkills = selectChatSkills(allSkills, conversation.pinnedSkills, message, recentUserTurns);
+                const promptSkills = [...relevantSkills, ...allSkills.filter(skill => !relevantSkills.includes(skill))];
 
                 const skillsDescription = allSkills.length > 0
-                    ? `\n\n**Your Registered Skills (${allSkills.length} total):**\n${allSkills.map(s =>
+                    ? `\n\n**Your Registered Skills (${allSkills.length} total):**\n${promptSkills.map(s =>
                         `- ${s.name}: ${s.description} [${s.apiName}]`
                     ).slice(0, 10).join('\n')}${allSkills.length > 10 ? `\n... and ${allSkills.length - 10} more` : ''}`
                     : '\n\n**Note:** User has not registered any API skills yet. Suggest uploading OpenAPI specs to enable skill execution.';
@@ -567,180 +1091,61 @@ export default {
                     estimatedTokens = estimateMessageTokens(allMessages as any);
                 }
 
-                const skillSchemas = allSkills.length > 0 ? skillsToAIToolSchemas(allSkills) : [];
-                const hasSkills = skillSchemas.length > 0;
+                // Only skills that share terms with the conversation are offered, so large specs stay within context
+                const skillSchemas = relevantSkills.length > 0 ? skillsToAIToolSchemas(relevantSkills) : [];
+                const shouldOfferTools = skillSchemas.length > 0;
 
-                const shouldOfferTools = hasSkills && shouldEnableSkillTools(message, allSkills);
+                console.log(`[Chat] Offering ${skillSchemas.length} of ${allSkills.length} skills: ${relevantSkills.map(skill => skill.name).join(', ') || 'none'}`);
 
-                console.log(`[Chat] Converted to ${skillSchemas.length} AI tool schemas, hasSkills=${hasSkills}, shouldOfferTools=${shouldOfferTools}`);
+                const maxSteps = resolveAgentMaxSteps(body.maxSteps);
+                const tokenBudget = resolveAgentTokenBudget(body.tokenBudget);
+                const { provider, selection: modelSelection } = await resolveModelProvider(
+                    env,
+                    sessionStub,
+                    parseModelSelection(body)
+                );
+                const turnOptions = {
+                    env,
+                    provider,
+                    modelSelection,
+                    workspaceId,
+                    sessionStub,
+                    conversationId,
+                    messages: allMessages,
+                    skills: allSkills,
+                    toolSchemas: skillSchemas,
+                    offerTools: shouldOfferTools,
+                    maxSteps,
+                    tokenBudget
+                };
 
                 const enableStreaming = body.stream !== false;
 
                 if (enableStreaming) {
                     const encoder = new TextEncoder();
-                    const aiMessages = [...contextMessages, ...finalHistory, { role: 'user', content: finalPrompt }];
-
-                    let fullResponse = '';
-                    let aiResponseData: any = null;
                     const stream = new ReadableStream({
                         async start(controller) {
-                            try {
-                                const aiConfig: any = {
-                                    messages: aiMessages,
-                                    stream: false
-                                };
-
-                                if (shouldOfferTools) {
-                                    aiConfig.tools = skillSchemas;
-                                }
-
-                                aiResponseData = await env.AI.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', aiConfig);
+                            const sendEvent = (type: string, data: any) => {
+                                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type, data })}\n\n`));
+                            };
 
+                            try {
                                 if (scenarioRunResults) {
-                                    const scenarioInfo = {
-                                        type: 'scenario_results',
-                                        data: { results: scenarioRunResults, summary: scenarioRunSummary }
-                                    };
-                                    controller.enqueue(encoder.encode(`data: ${JSON.stringify(scenarioInfo)}\n\n`));
+                                    sendEvent('scenario_results', { results: scenarioRunResults, summary: scenarioRunSummary });
                                 }
 
-                                fullResponse = aiResponseData.response || 'No response';
-
-                                const skillExecutions: any[] = [];
-                                if (aiResponseData.tool_calls && Array.isArray(aiResponseData.tool_calls) && aiResponseData.tool_calls.length > 0) {
-                                    const executingData = {
-                                        type: 'executing_skills',
-                                        data: { count: aiResponseData.tool_calls.length }
-                                    };
-                                    controller.enqueue(encoder.encode(`data: ${JSON.stringify(executingData)}\n\n`));
-
-                                    for (let i = 0; i < aiResponseData.tool_calls.length; i++) {
-                                        const toolCall = aiResponseData.tool_calls[i];
-                                        const toolCallId = toolCall.id || `call_${i}`;
-                                        const skillName = toolCall.function?.name || toolCall.name;
-                                        const rawArgs = toolCall.function?.arguments || toolCall.arguments;
-
-                                        if (!toolCall.id) toolCall.id = toolCallId;
-                                        if (!toolCall.type) toolCall.type = 'function';
-
-                                        if (!toolCall.function && toolCall.name) {
-                                            toolCall.function = {
-                                                name: toolCall.name,
-                                                arguments: typeof toolCall.arguments === 'string'
-                                                    ? toolCall.arguments
-                                                    : JSON.stringify(toolCall.arguments || {})
-                                            };
-                                        } else if (toolCall.function && typeof toolCall.function.arguments !== 'string') {
-                                            toolCall.function.arguments = JSON.stringify(toolCall.function.arguments || {});
-                                        }
-
-                                        let args: Record<string, any> = {};
-                                        if (typeof rawArgs === 'string') {
-                                            try {
-                                                args = JSON.parse(rawArgs);
-                                            } catch (err) {
-                                                skillExecutions.push({
-                                                    skill: skillName,
-                                                    success: false,
-                                                    error: `Failed to parse arguments: ${(err as Error).message}`
-                                                });
-                                                continue;
-                                            }
-                                        } else if (rawArgs && typeof rawArgs === 'object') {
-                                            args = rawArgs;
-                                        }
-
-                                        const skill = allSkills.find(s => s.name === skillName);
-                                        if (!skill) {
-                                            skillExecutions.push({
-                                                skill: skillName,
-                                                success: false,
-                                                error: `Skill ${skillName} not found in user's registered skills`
-                                            });
-                                            continue;
-                                        }
-
-                                        try {
-                                            const decryptedKey = skill.encryptedApiKey
-                                                ? await decryptSecret(skill.encryptedApiKey, env)
-                                                : '';
-                                            const result = await executeSkill(skill, args, decryptedKey);
-
-                                            skillExecutions.push({
-                                                skill: skillName,
-                                                toolCallId: toolCallId,
-                                                success: true,
-                                                result: result
-                                            });
-
-                                            const skillResult = {
-                                                type: 'skill_result',
-                                                data: {
-                                                    skill: skillName,
-                                                    success: true,
-                                                    result: result
-                                                }
-                                            };
-                                            controller.enqueue(encoder.encode(`data: ${JSON.stringify(skillResult)}\n\n`));
-                                        } catch (error) {
-                                            const errorMessage = (error as Error).message || 'Unknown error';
-                                            skillExecutions.push({
-                                                skill: skillName,
-                                                toolCallId: toolCallId,
-                                                success: false,
-                                                error: errorMessage
-                                            });
-
-                                            const skillResult = {
-                                                type: 'skill_result',
-                                                data: {
-                                                    skill: skillName,
-                                                    success: false,
-                                                    error: errorMessage
-                                                }
-                                            };
-                                            controller.enqueue(encoder.encode(`data: ${JSON.stringify(skillResult)}\n\n`));
-                                        }
-                                    }
-
-                                    if (skillExecutions.length > 0) {
-                                        const toolMessages = skillExecutions.map(exec => ({
-                                            role: 'tool' as const,
-                                            content: exec.success
-                                                ? JSON.stringify(exec.result)
-                                                : `Error: ${exec.error}`,
-                                            tool_call_id: exec.toolCallId
-                                        }));
-
-                                        const finalAiMessages = [
-                                            ...aiMessages,
-                                            { role: 'assistant' as const, content: fullResponse, tool_calls: aiResponseData.tool_calls },
-                                            ...toolMessages
-                                        ];
-
-                                        const finalAiResponse = await env.AI.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
-                                            messages: finalAiMessages,
-                                            stream: false
-                                        });
-
-                                        fullResponse = finalAiResponse.response || fullResponse;
-                                    }
-                                }
+                                const turn = await runChatTurn({
+                                    ...turnOptions,
+                                    sendEvent,
+                                    onToken: (token) => sendEvent('content', token)
+                                });
 
-                                streamTextResponse(controller, encoder, fullResponse);
+                                if (!turn.streamed) {
+                                    streamTextResponse(controller, encoder, turn.response);
+                                }
 
                                 controller.enqueue(encoder.encode('data: [DONE]\n\n'));
                                 controller.close();
-
-                                await sessionStub.fetch('http://internal/add-message', {
-                                    method: 'POST',
-                                    body: JSON.stringify({
-                                        role: 'assistant',
-                                        content: fullResponse,
-                                        skillExecutions: skillExecutions.length > 0 ? skillExecutions : undefined
-                                    }),
-                                });
-
                             } catch (error) {
                                 const errorMessage = describeAiError(error);
                                 console.error('[Chat streaming error]', errorMessage);
@@ -753,7 +1158,7 @@ export default {
 
                                 await sessionStub.fetch('http://internal/add-message', {
                                     method: 'POST',
-                                    body: JSON.stringify({ role: 'assistant', content: errorResponse }),
+                                    body: JSON.stringify({ role: 'assistant', content: errorResponse, conversationId }),
                                 });
                             }
                         },
@@ -768,44 +1173,238 @@ export default {
                         },
                     });
                 } else {
+                    const pendingApprovals: any[] = [];
+
                     try {
-                        const aiConfig: any = {
-                            messages: allMessages,
-                            stream: false
+                        const turn = await runChatTurn({
+                            ...turnOptions,
+                            sendEvent: (type, data) => {
+                                if (type === 'approval_required') {
+                                    pendingApprovals.push(data);
+                                }
+                            }
+                        });
+
+                        const payload: Record<string, any> = {
+                            response: turn.response,
+                            skillExecutions: turn.skillExecutions,
+                            scenarioResults: scenarioRunResults
                         };
+                        if (pendingApprovals.length > 0) {
+                            payload.pendingApprovals = pendingApprovals;
+                        }
+
+                        return jsonResponse(payload, 200, corsHeaders);
+                    } catch (error) {
+                        const errorMessage = describeAiError(error);
+                        const fallbackResponse = `I apologize, but I encountered an error while processing your request. The AI service is currently unavailable: ${errorMessage}`;
+
+                        await sessionStub.fetch('http://internal/add-message', {
+                            method: 'POST',
+                            body: JSON.stringify({ role: 'assistant', content: fallbackResponse, conversationId }),
+                        });
+
+                        return jsonResponse(
+                            {
+                                response: fallbackResponse,
+                                skillExecutions: [],
+                                scenarioResults: scenarioRunResults,
+                                error: { type: 'ai-unavailable', message: errorMessage }
+                            },
+                            200,
+                            corsHeaders
+                        );
+                    }
+                }
+            }
+
+            if (url.pathname === '/api/settings/model' && request.method === 'GET') {
+                const sessionStub = getSessionStub(env, sessionId);
+                const preference = await loadModelPreference(sessionStub);
+                const available = MODEL_PROVIDERS.filter(name => name !== 'openai' || Boolean(env.OPENAI_BASE_URL));
+                return jsonResponse({ ...preference, available }, 200, corsHeaders);
+            }
+
+            if (url.pathname === '/api/settings/model' && request.method === 'POST') {
+                const body = await readJsonBody(request);
+                const selection = parseModelSelection(body);
+                if (!selection.provider) {
+                    return jsonResponse({ error: `provider is required (${MODEL_PROVIDERS.join(', ')})` }, 400, corsHeaders);
+                }
+
+                const sessionStub = getSessionStub(env, sessionId);
+                // Building the provider validates the model id and provider configuration up front
+                await resolveModelProvider(env, sessionStub, selection);
+
+                await sessionStub.fetch('http://internal/set-metadata', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ key: 'modelPreference', value: selection })
+                });
+
+                return jsonResponse({ success: true, ...selection }, 200, corsHeaders);
+            }
+
+            if (url.pathname === '/api/chat/pending' && request.method === 'GET') {
+                const sessionStub = getSessionStub(env, sessionId);
+                const response = await sessionStub.fetch('http://internal/pending-actions');
+                const result = await response.json<any>();
+                return jsonResponse(result, response.status, corsHeaders);
+            }
 
-                        if (shouldOfferTools) {
-                            aiConfig.tools = skillSchemas;
-                        }
+            if (url.pathname === '/api/chat/approve' && request.method === 'POST') {
+                const body = await readJsonBody(request);
+                const { actionId, decision } = body;
 
-                        const aiResponseData = await env.AI.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', aiConfig);
-                        const aiResponse = aiResponseData.response || 'No response';
+                if (!actionId || typeof actionId !== 'string') {
+                    return jsonResponse({ error: 'actionId is required' }, 400, corsHeaders);
+                }
+                if (decision !== 'approve' && decision !== 'reject') {
+                    return jsonResponse({ error: 'decision must be "approve" or "reject"' }, 400, corsHeaders);
+                }
 
-                        await sessionStub.fetch('http://internal/add-message', {
-                            method: 'POST',
-                            body: JSON.stringify({ role: 'assistant', content: aiResponse }),
-                        });
+                // Resuming the turn calls the model again
+                await enforceRateLimit(env, userId, [toTokenBucket('chat', CHAT_RATE_LIMIT)], 'chat');
 
-                        return jsonResponse({ response: aiResponse }, 200, corsHeaders);
-                    } catch (error) {
-                        const errorMessage = describeAiError(error);
-                        const fallbackResponse = `I apologize, but I encountered an error while processing your request. The AI service is currently unavailable: ${errorMessage}`;
+                const sessionStub = getSessionStub(env, sessionId);
+                const actionPath = `http://internal/pending-actions/${encodeURIComponent(actionId)}`;
 
-                        await sessionStub.fetch('http://internal/add-message', {
-                            method: 'POST',
-                            body: JSON.stringify({ role: 'assistant', content: fallbackResponse }),
-                        });
+                const resolveResp = await sessionStub.fetch(`${actionPath}/resolve`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ decision })
+                });
+                const resolved = await resolveResp.json<any>();
+                if (!resolveResp.ok) {
+                    return jsonResponse(resolved, resolveResp.status, corsHeaders);
+                }
 
-                        return jsonResponse(
-                            {
-                                response: fallbackResponse,
-                                error: { type: 'ai-unavailable', message: errorMessage }
-                            },
-                            200,
-                            corsHeaders
-                        );
+                const action: PendingAction = resolved.action;
+                // The run keeps the workspace it started in, whatever X-Workspace-ID this request carries
+                const workspaceId: string | null = resolved.run?.workspaceId ?? null;
+                let allSkills: any[];
+                let execution: Record<string, any>;
+                try {
+                    if (workspaceId && !hasWorkspaceRole(await getWorkspaceRole(env, workspaceId, userId), 'runner')) {
+                        throw new HttpError(403, 'Approving this call requires the runner role in the workspace it was made in');
                     }
+                    ({ skills: allSkills } = await loadChatSkills(env, userId, workspaceId));
+                    execution = decision === 'approve'
+                        ? await executeApprovedAction(action, allSkills, env)
+                        : { skill: action.skill, toolCallId: action.toolCallId, success: false, error: 'The user rejected this request; it was not sent.' };
+                } catch (error) {
+                    // Nothing was sent, so the action goes back to pending and can be decided again
+                    await sessionStub.fetch(`${actionPath}/release`, { method: 'POST' });
+                    throw error;
+                }
+
+                const recordExecution = (outcome: Record<string, any>) => sessionStub.fetch(`${actionPath}/result`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ execution: outcome })
+                });
+                let resultResp: Response;
+                try {
+                    resultResp = await recordExecution(execution);
+                } catch {
+                    // The call may have been sent, so it must not run again; the run continues with a failure in its place
+                    execution = {
+                        skill: action.skill,
+                        toolCallId: action.toolCallId,
+                        success: false,
+                        error: 'The request was sent but its result could not be saved'
+                    };
+                    resultResp = await recordExecution(execution);
                 }
+                const recorded = await resultResp.json<any>();
+                if (!resultResp.ok) {
+                    return jsonResponse(recorded, resultResp.status, corsHeaders);
+                }
+
+                const run: PendingRun = recorded.run;
+                const encoder = new TextEncoder();
+                const stream = new ReadableStream({
+                    async start(controller) {
+                        const sendEvent = (type: string, data: any) => {
+                            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type, data })}\n\n`));
+                        };
+
+                        try {
+                            sendEvent('skill_result', {
+                                skill: execution.skill,
+                                success: execution.success,
+                                result: execution.result,
+                                error: execution.error,
+                                ...(execution.result?.encoding ? { encoding: execution.result.encoding } : {}),
+                                actionId: action.id,
+                                decision
+                            });
+
+                            if (!recorded.complete) {
+                                const remaining = run.actions.filter(entry => !entry.execution).length;
+                                streamTextResponse(controller, encoder, `Recorded your decision. ${remaining} more action(s) still need approval.`);
+                                controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+                                controller.close();
+                                return;
+                            }
+
+                            // Every call from the paused step has an outcome, so the model can pick up where it stopped
+                            const resolvedExecutions = run.actions.map(entry => entry.execution);
+                            const userTurns = run.messages.filter((msg: any) => msg.role === 'user').map((msg: any) => String(msg.content || ''));
+                            const conversationId = run.conversationId || DEFAULT_CONVERSATION_ID;
+                            const conversationResp = await sessionStub.fetch(`http://internal/conversations/${encodeURIComponent(conversationId)}`);
+                            const pinnedNames: string[] = conversationResp.ok
+                                ? (await conversationResp.json<any>()).conversation?.pinnedSkills || []
+                                : [];
+                            const resumedSkills = selectChatSkills(allSkills, pinnedNames, userTurns[userTurns.length - 1] || '', userTurns.slice(0, -1));
+                            const resumedSchemas = run.offerTools && resumedSkills.length > 0 ? skillsToAIToolSchemas(resumedSkills) : [];
+                            const { provider, selection: modelSelection } = await resolveModelProvider(
+                                env,
+                                sessionStub,
+                                parseModelSelection(run.model)
+                            );
+                            const turn = await runChatTurn({
+                                env,
+                                provider,
+                                modelSelection,
+                                workspaceId,
+                                sessionStub,
+                                conversationId,
+                                messages: [...run.messages, ...buildToolMessages([...run.executions, ...resolvedExecutions])],
+                                skills: allSkills,
+                                toolSchemas: resumedSchemas,
+                                offerTools: run.offerTools && resumedSchemas.length > 0,
+                                maxSteps: run.maxSteps,
+                                tokenBudget: run.tokenBudget || MAX_MODEL_TOKENS,
+                                startStep: run.step + 1,
+                                precedingExecutions: resolvedExecutions,
+                                sendEvent,
+                                onToken: (token) => sendEvent('content', token)
+                            });
+
+                            if (!turn.streamed) {
+                                streamTextResponse(controller, encoder, turn.response);
+                            }
+                            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+                            controller.close();
+                        } catch (error) {
+                            const errorMessage = describeAiError(error);
+                            console.error('[Chat approval error]', errorMessage);
+                            streamTextResponse(controller, encoder, `I apologize, but I could not continue after your decision: ${errorMessage}`);
+                            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+                            controller.close();
+                        }
+                    }
+                });
+
+                return new Response(stream, {
+                    headers: {
+                        'Content-Type': 'text/event-stream',
+                        'Cache-Control': 'no-cache',
+                        'Connection': 'keep-alive',
+                        ...corsHeaders,
+                    },
+                });
             }
 
             return jsonResponse({ error: 'Not found' }, 404, corsHeaders);
@@ -815,7 +1414,14 @@ export default {
                 if (error.details) {
                     payload.details = error.details;
                 }
-                return jsonResponse(payload, error.status, corsHeaders);
+                const headers: Record<string, string> = { ...corsHeaders };
+                if (error.status === 401) {
+                    headers['WWW-Authenticate'] = 'Bearer';
+                }
+                if (error instanceof RateLimitError) {
+                    headers['Retry-After'] = String(error.retryAfterSeconds);
+                }
+                return jsonResponse(payload, error.status, headers);
             }
             return jsonResponse({ error: (error as Error).message }, 500, corsHeaders);
         }
@@ -832,40 +1438,236 @@ function jsonResponse(data: any, status: number, corsHeaders: Record<string, str
     });
 }
 
-function getSessionStub(env: Env, request: Request): DurableObjectStub {
-    const { sessionId } = resolveRequestContext(request);
+function getSessionStub(env: Env, sessionId: string): DurableObjectStub {
     const durableId = env.SESSION_STATE.idFromName(sessionId);
     return env.SESSION_STATE.get(durableId);
 }
 
-function resolveRequestContext(request: Request): { userId: string; sessionId: string } {
-    const sessionHeader = request.headers.get('X-Session-ID')?.trim();
-    const userHeader = request.headers.get('X-User-ID')?.trim();
+/**
+ * The caller's identity comes only from a verified session token; X-User-ID and X-Session-ID are ignored.
+ * Each user has one session, whose conversations hold the separate chat threads.
+ */
+async function resolveRequestContext(
+    request: Request,
+    url: URL,
+    env: Env
+): Promise<{ userId: string; sessionId: string; authTime: number }> {
+    const token = readSessionToken(request, url);
+    if (!token) {
+        throw new HttpError(401, 'Authentication required: send "Authorization: Bearer <token>" with a token from POST /api/auth/session');
+    }
+
+    const verified = await verifySessionToken(token, requireAuthSecret(env));
+    if (!verified.ok) {
+        throw new HttpError(401, verified.reason);
+    }
+
+    return { userId: verified.claims.sub, sessionId: verified.claims.sub, authTime: verified.claims.auth_time };
+}
+
+function toTokenBucket(key: string, limit: RateLimit): TokenBucket {
+    return { key, capacity: limit.burst ?? limit.requestsPerMinute, refillPerSecond: limit.requestsPerMinute / 60 };
+}
+
+// Takes a token from each bucket of the owner's limiter, or throws a RateLimitError naming `label`
+async function enforceRateLimit(env: Env, ownerId: string, buckets: TokenBucket[], label: string): Promise<void> {
+    const limiter = getRateLimiterStub(env, ownerId);
+    const response = await limiter.fetch('http://internal/consume', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ buckets })
+    });
+    const result = await response.json<ConsumeResult & { error?: string }>();
+    if (!response.ok) {
+        throw new Error(result.error || `Rate limiter failed with status ${response.status}`);
+    }
+    if (!result.allowed) {
+        throw new RateLimitError(
+            `Rate limit exceeded for ${label}; try again in ${result.retryAfterSeconds} seconds`,
+            result.retryAfterSeconds ?? 1
+        );
+    }
+}
+
+// Every call counts against its API's limit, and against its own when the API sets a per-skill limit
+async function enforceSkillRateLimit(env: Env, skill: any): Promise<void> {
+    const buckets = [toTokenBucket(`api:${skill.apiName}`, skill.rateLimit || DEFAULT_API_RATE_LIMIT)];
+    if (skill.skillRateLimit) {
+        buckets.push(toTokenBucket(`skill:${skill.apiName}:${skill.operationId || skill.name}`, skill.skillRateLimit));
+    }
+    await enforceRateLimit(env, skill.ownerId, buckets, `${skill.apiName} (${skill.name})`);
+}
+
+/**
+ * Runs a skill under its API's execution policy. While the API's circuit is open the call fails without being sent;
+ * timeouts, network errors and 5xx responses count towards opening it, and any other outcome closes it again.
+ */
+async function executeGuardedSkill(env: Env, skill: any, args: Record<string, any>, credentials?: SkillCredentials) {
+    const policy: ExecutionPolicy = skill.executionPolicy || DEFAULT_EXECUTION_POLICY;
+    const limiter = getRateLimiterStub(env, skill.ownerId);
+    const key = `api:${skill.apiName}`;
+
+    const acquireResponse = await limiter.fetch('http://internal/circuit/acquire', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key, cooldownSeconds: policy.cooldownSeconds })
+    });
+    const circuit = await acquireResponse.json<CircuitStatus & { allowed: boolean; error?: string }>();
+    if (!acquireResponse.ok) {
+        throw new Error(circuit.error || `Circuit breaker failed with status ${acquireResponse.status}`);
+    }
+    if (!circuit.allowed) {
+        throw new Error(
+            `${skill.apiName} is failing repeatedly, so calls to it are paused; try again in ${circuit.retryAfterSeconds ?? policy.cooldownSeconds} seconds`
+        );
+    }
+
+    const result = await executeSkill(skill, args, credentials, policy, {
+        allowedHosts: skill.allowedHosts || [],
+        maxResponseBytes: DEFAULT_MAX_RESPONSE_BYTES
+    });
+
+    // A healthy call to a healthy API leaves nothing to record
+    if (result.upstreamError || circuit.state !== 'closed' || circuit.failures > 0) {
+        await limiter.fetch('http://internal/circuit/record', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                key,
+                success: !result.upstreamError,
+                failureThreshold: policy.failureThreshold,
+                cooldownSeconds: policy.cooldownSeconds
+            })
+        });
+    }
+
+    return result;
+}
+
+// Durable Object holding an owner's rate limit buckets and circuit breakers
+function getRateLimiterStub(env: Env, ownerId: string): DurableObjectStub {
+    return env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(rateLimiterName(ownerId)));
+}
+
+// Durable Object holding a workspace's members and invitations
+function getWorkspaceStub(env: Env, workspaceId: string): DurableObjectStub {
+    return env.WORKSPACE.get(env.WORKSPACE.idFromName(workspaceObjectName(workspaceId)));
+}
+
+// The active workspace is chosen per request; without the header requests act on the caller's personal skills
+function readWorkspaceId(request: Request): string | null {
+    return request.headers.get('X-Workspace-ID')?.trim() || null;
+}
+
+async function getWorkspaceRole(env: Env, workspaceId: string, userId: string): Promise<WorkspaceRole> {
+    const response = await getWorkspaceStub(env, workspaceId).fetch('http://internal/info', {
+        method: 'GET',
+        headers: { 'X-User-ID': userId }
+    });
+    const result = await response.json<any>();
+    if (!response.ok) {
+        throw new HttpError(response.status, result.error || 'Workspace request failed');
+    }
+    return result.role;
+}
+
+// The hosts a workspace's outbound requests may reach; empty means every public host
+async function loadAllowedHosts(env: Env, workspaceId: string, userId: string): Promise<string[]> {
+    const response = await getWorkspaceStub(env, workspaceId).fetch('http://internal/egress', {
+        method: 'GET',
+        headers: { 'X-User-ID': userId }
+    });
+    const result = await response.json<any>();
+    if (!response.ok) {
+        throw new HttpError(response.status, result.error || 'Workspace request failed');
+    }
+    return result.allowedHosts;
+}
+
+/**
+ * Connector tests and scenario runs fetch URLs the caller typed in, which belong to no workspace.
+ * They are held to the allowlist of every workspace the caller is a member of, whichever one is active.
+ */
+async function resolveAllowedHosts(env: Env, userId: string): Promise<string[]> {
+    const workspaceIds = await loadWorkspaceIds(env, userId);
+    const lists = await Promise.all(workspaceIds.map((workspaceId) =>
+        loadAllowedHosts(env, workspaceId, userId).catch((error) => {
+            // A workspace the caller has since left no longer constrains them
+            if (error instanceof HttpError && error.status === 403) {
+                return [];
+            }
+            throw error;
+        })
+    ));
+
+    const allowedHosts = intersectAllowedHosts(lists);
+    if (!allowedHosts) {
+        throw new HttpError(403, 'No host is allowed by every workspace you belong to');
+    }
+    return allowedHosts;
+}
+
+/**
+ * The registry owner a skills request acts on: the active workspace, or the caller when none is set.
+ * Viewers may list a workspace's skills, editors and owners change them.
+ */
+async function resolveSkillOwner(env: Env, request: Request, userId: string, minimumRole: WorkspaceRole): Promise<string> {
+    const workspaceId = readWorkspaceId(request);
+    if (!workspaceId) {
+        return userId;
+    }
+
+    const role = await getWorkspaceRole(env, workspaceId, userId);
+    if (!hasWorkspaceRole(role, minimumRole)) {
+        throw new HttpError(403, `This requires the ${minimumRole} role in the workspace; you are a ${role}`);
+    }
+    return workspaceSkillOwner(workspaceId);
+}
 
-    if (sessionHeader && userHeader && sessionHeader !== userHeader) {
-        throw new HttpError(400, 'X-User-ID must match X-Session-ID');
+// The ids of the workspaces a user belongs to are kept in their session's metadata
+async function loadWorkspaceIds(env: Env, userId: string): Promise<string[]> {
+    const response = await getSessionStub(env, userId).fetch('http://internal/get-metadata?key=workspaces');
+    if (!response.ok) {
+        return [];
     }
+    const value = await response.json<any>();
+    return Array.isArray(value) ? value : [];
+}
+
+async function saveWorkspaceIds(env: Env, userId: string, workspaceIds: string[]): Promise<void> {
+    await getSessionStub(env, userId).fetch('http://internal/set-metadata', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: 'workspaces', value: workspaceIds })
+    });
+}
 
-    const identifier = sessionHeader || userHeader || deriveAnonymousSessionId(request);
-    return { userId: identifier, sessionId: identifier };
+function readSessionToken(request: Request, url: URL): string | null {
+    const match = request.headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/i);
+    if (match) {
+        return match[1];
+    }
+    // EventSource cannot set headers, so the log stream also takes the token as a query parameter
+    if (url.pathname === '/api/stream') {
+        return url.searchParams.get('token');
+    }
+    return null;
 }
 
-function deriveAnonymousSessionId(request: Request): string {
-    const fingerprint = [
-        request.headers.get('CF-Connecting-IP') || '0.0.0.0',
-        request.headers.get('User-Agent') || 'unknown',
-        request.headers.get('Accept-Language') || ''
-    ].join('|');
-    return `session-${simpleHash(fingerprint)}`;
+// An id a client picked before session tokens; ids the worker issues and workspace owners are never one
+function readLegacyId(body: any): string {
+    const legacyId = typeof body?.legacyId === 'string' ? body.legacyId.trim() : '';
+    if (!legacyId || legacyId.startsWith(ISSUED_USER_ID_PREFIX) || legacyId.startsWith('workspace:')) {
+        throw new HttpError(400, 'legacyId must be an X-User-ID or X-Session-ID used before session tokens');
+    }
+    return legacyId;
 }
 
-function simpleHash(input: string): string {
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-        hash = (hash << 5) - hash + input.charCodeAt(i);
-        hash |= 0;
+function requireAuthSecret(env: Env): string {
+    if (!env.AUTH_SECRET || env.AUTH_SECRET.length < MIN_AUTH_SECRET_LENGTH) {
+        throw new HttpError(500, `AUTH_SECRET must be configured and at least ${MIN_AUTH_SECRET_LENGTH} characters long`);
     }
-    return Math.abs(hash).toString(16);
+    return env.AUTH_SECRET;
 }
 
 function shouldRunSmokeSuite(message: string): boolean {
@@ -946,74 +1748,584 @@ function resolvePersonaInstruction(persona?: string): string {
     }
 }
 
-function shouldEnableSkillTools(message: string, skills: Array<{ name?: string; description?: string; apiName?: string }>): boolean {
-    if (!message) {
-        return false;
+function resolveAgentMaxSteps(value: unknown): number {
+    const requested = Number(value);
+    if (!Number.isFinite(requested) || requested < 1) {
+        return DEFAULT_AGENT_MAX_STEPS;
     }
+    return Math.min(Math.floor(requested), MAX_AGENT_STEPS);
+}
 
-    const normalized = message.toLowerCase().trim();
-    if (!normalized) {
-        return false;
+function resolveAgentTokenBudget(value: unknown): number {
+    const requested = Number(value);
+    if (!Number.isFinite(requested) || requested <= 0) {
+        return MAX_MODEL_TOKENS;
     }
+    return Math.min(Math.floor(requested), MAX_MODEL_TOKENS);
+}
 
-    const greetingPatterns = [
-        /^(hi|hello|hey|hola|yo|howdy)\b/,
-        /^(good\s+(morning|afternoon|evening|night))\b/,
-        /^how are you\b/,
-        /^what('?| i)s up\b/,
-        /^(hi|hello|hey) there\b/,
-    ];
+interface ToolCallAwaitingApproval {
+    toolCallId: string;
+    skill: string;
+    apiName?: string;
+    method: string;
+    url: string;
+    body?: any;
+    args: Record<string, any>;
+}
 
-    if (normalized.length <= 60 && greetingPatterns.some((pattern) => pattern.test(normalized))) {
-        return false;
+interface AgentLoopOptions {
+    env: Env;
+    provider: ModelProvider;
+    messages: any[];
+    skills: any[];
+    toolSchemas: any[];
+    offerTools: boolean;
+    maxSteps: number;
+    tokenBudget: number;
+    startStep?: number;
+    sendEvent: (type: string, data: any) => void;
+    // When set, the model is asked to stream and answer tokens are forwarded as they arrive
+    onToken?: (token: string) => void;
+}
+
+interface AgentLoopResult {
+    response: string;
+    // True when the final response already went out through `onToken`
+    streamed: boolean;
+    skillExecutions: any[];
+    // Set when a step stopped on tool calls that need the user's approval
+    paused?: {
+        step: number;
+        offerTools: boolean;
+        messages: any[];
+        executions: any[];
+        awaitingApproval: ToolCallAwaitingApproval[];
+    };
+}
+
+async function runAgentLoop(options: AgentLoopOptions): Promise<AgentLoopResult> {
+    const { env, provider, skills, toolSchemas, offerTools: shouldOfferTools, maxSteps, tokenBudget, sendEvent, onToken } = options;
+    const skillExecutions: any[] = [];
+    let loopMessages: any[] = options.messages;
+    let step = (options.startStep || 1) - 1;
+    let fullResponse = '';
+    let streamed = false;
+
+    // Each step lets the model call tools; once the step or token budget is spent
+    // the model is asked once more without tools for its final answer.
+    while (true) {
+        step++;
+        const withinBudget = estimateMessageTokens(loopMessages) <= tokenBudget;
+        const offerTools = shouldOfferTools && step <= maxSteps && withinBudget;
+
+        if (shouldOfferTools && !offerTools) {
+            sendEvent('agent_step', {
+                step,
+                maxSteps,
+                status: 'limit_reached',
+                reason: withinBudget ? 'max_steps' : 'token_budget'
+            });
+        }
+
+        const modelResponse = await provider.generate(
+            { messages: loopMessages, tools: offerTools ? toolSchemas : undefined },
+            onToken
+        );
+        const responseText = modelResponse.response;
+        const stepStreamed = modelResponse.streamed;
+
+        const toolCalls: any[] = offerTools ? modelResponse.toolCalls : [];
+
+        if (toolCalls.length === 0) {
+            streamed = stepStreamed && Boolean(responseText);
+            fullResponse = responseText || fullResponse || 'No response';
+            break;
+        }
+
+        if (responseText) {
+            fullResponse = responseText;
+        }
+
+        sendEvent('agent_step', {
+            step,
+            maxSteps,
+            status: 'executing',
+            skills: toolCalls.map(call => call.function?.name || call.name)
+        });
+        sendEvent('executing_skills', { count: toolCalls.length, step });
+
+        const { executions: stepExecutions, awaitingApproval } = await executeToolCalls(toolCalls, skills, env, sendEvent);
+        skillExecutions.push(...stepExecutions);
+
+        const assistantMessage = { role: 'assistant' as const, content: responseText, tool_calls: toolCalls };
+
+        if (awaitingApproval.length > 0) {
+            sendEvent('agent_step', {
+                step,
+                maxSteps,
+                status: 'awaiting_approval',
+                skills: awaitingApproval.map(call => call.skill),
+                results: stepExecutions.map(exec => ({ skill: exec.skill, success: exec.success }))
+            });
+
+            return {
+                response: fullResponse,
+                streamed: false,
+                skillExecutions,
+                paused: {
+                    step,
+                    offerTools: shouldOfferTools,
+                    messages: [...loopMessages, assistantMessage],
+                    executions: stepExecutions,
+                    awaitingApproval
+                }
+            };
+        }
+
+        sendEvent('agent_step', {
+            step,
+            maxSteps,
+            status: 'completed',
+            results: stepExecutions.map(exec => ({ skill: exec.skill, success: exec.success }))
+        });
+
+        loopMessages = [...loopMessages, assistantMessage, ...buildToolMessages(stepExecutions)];
     }
 
-    const toolKeywords = [
-        'api',
-        'weather',
-        'forecast',
-        'temperature',
-        'humidity',
-        'pokemon',
-        'poke',
-        'post',
-        'posts',
-        'fetch',
-        'retrieve',
-        'request',
-        'http',
-        'endpoint',
-        'call ',
-        'call the',
-        'get ',
-        'get the',
-        'show ',
-        'list ',
-        'data',
-        'skill',
-        'openapi',
-        'spec',
-        'register',
-        'delete',
-        'update',
-        'upload',
-    ];
+    return { response: fullResponse, streamed, skillExecutions };
+}
+
+interface ChatTurnOptions extends AgentLoopOptions {
+    sessionStub: DurableObjectStub;
+    conversationId: string;
+    // Saved with a paused run so the approval endpoint resumes on the same model
+    modelSelection?: ModelSelection;
+    // Saved with a paused run so approval loads the same workspace's skills
+    workspaceId?: string | null;
+    // Executions that happened before this turn resumed (approved or rejected calls)
+    precedingExecutions?: any[];
+}
+
+// Shared by the streaming and JSON chat paths: run the agent loop, park calls awaiting approval, persist the reply
+async function runChatTurn(options: ChatTurnOptions): Promise<{ response: string; streamed: boolean; skillExecutions: any[] }> {
+    const { sessionStub, conversationId, precedingExecutions = [], modelSelection, workspaceId, ...loopOptions } = options;
+    const agentResult = await runAgentLoop(loopOptions);
+
+    let response = agentResult.response;
+    if (agentResult.paused) {
+        response = await savePendingRun(
+            sessionStub,
+            agentResult.paused,
+            { ...loopOptions, modelSelection, workspaceId, conversationId },
+            loopOptions.sendEvent
+        );
+    }
+
+    const skillExecutions = [...precedingExecutions, ...agentResult.skillExecutions];
+    await sessionStub.fetch('http://internal/add-message', {
+        method: 'POST',
+        body: JSON.stringify({
+            role: 'assistant',
+            content: response,
+            conversationId,
+            skillExecutions: skillExecutions.length > 0 ? skillExecutions : undefined
+        }),
+    });
+
+    return { response, streamed: agentResult.streamed, skillExecutions };
+}
+
+async function savePendingRun(
+    sessionStub: DurableObjectStub,
+    paused: NonNullable<AgentLoopResult['paused']>,
+    limits: { maxSteps: number; tokenBudget: number; modelSelection?: ModelSelection; workspaceId?: string | null; conversationId: string },
+    sendEvent: (type: string, data: any) => void
+): Promise<string> {
+    const response = await sessionStub.fetch('http://internal/pending-runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            step: paused.step,
+            maxSteps: limits.maxSteps,
+            tokenBudget: limits.tokenBudget,
+            offerTools: paused.offerTools,
+            model: limits.modelSelection,
+            messages: paused.messages,
+            executions: paused.executions,
+            actions: paused.awaitingApproval,
+            conversationId: limits.conversationId,
+            workspaceId: limits.workspaceId || undefined
+        })
+    });
+
+    const data = await response.json<any>();
+    if (!response.ok) {
+        throw new Error(data?.error || `Failed to save pending actions (status ${response.status})`);
+    }
+
+    const actions: PendingAction[] = data.run?.actions || [];
+    for (const action of actions) {
+        sendEvent('approval_required', {
+            actionId: action.id,
+            skill: action.skill,
+            apiName: action.apiName,
+            method: action.method,
+            url: action.url,
+            body: action.body
+        });
+    }
+
+    const summary = actions.map(action => `${action.method} ${action.url}`).join(', ');
+    return `I need your approval before sending ${actions.length === 1 ? 'this request' : 'these requests'}: ${summary}. Approve or reject to continue.`;
+}
+
+interface ModelSelection {
+    provider?: DeploymentProviderName;
+    model?: string;
+}
+
+function parseModelSelection(value: any): ModelSelection {
+    const selection: ModelSelection = {};
+    if (value?.provider !== undefined && value.provider !== null && value.provider !== '') {
+        if (!isModelProviderName(value.provider)) {
+            throw new HttpError(400, `Unknown model provider: ${value.provider}`);
+        }
+        selection.provider = value.provider;
+    }
+    if (value?.model !== undefined && value.model !== null && value.model !== '') {
+        if (typeof value.model !== 'string') {
+            throw new HttpError(400, 'model must be a string');
+        }
+        selection.model = value.model.trim();
+    }
+    return selection;
+}
+
+async function loadModelPreference(sessionStub: DurableObjectStub): Promise<ModelSelection> {
+    const response = await sessionStub.fetch('http://internal/get-metadata?key=modelPreference');
+    if (!response.ok) {
+        return {};
+    }
+    return (await response.json<any>().catch(() => ({}))) || {};
+}
+
+/**
+ * Pick the chat model: an explicit per-request choice wins, then the user's saved preference,
+ * then the `MODEL_PROVIDER` default.
+ */
+async function resolveModelProvider(
+    env: Env,
+    sessionStub: DurableObjectStub,
+    requested: ModelSelection = {}
+): Promise<{ provider: ModelProvider; selection: ModelSelection }> {
+    const saved: ModelSelection = requested.provider ? {} : await loadModelPreference(sessionStub);
+    // Preferences saved while `scripted` was still user-selectable fall back to the default
+    const preference: ModelSelection = isModelProviderName(saved.provider) ? saved : {};
+    const defaultProvider: DeploymentProviderName = isModelProviderName(env.MODEL_PROVIDER) || env.MODEL_PROVIDER === 'scripted'
+        ? env.MODEL_PROVIDER
+        : 'workers-ai';
+    const providerName = requested.provider || preference.provider || defaultProvider;
+    const model = requested.model || (preference.provider === providerName || !preference.provider ? preference.model : undefined);
+    const selection: ModelSelection = { provider: providerName, model };
+
+    if (providerName === 'openai' && !env.OPENAI_BASE_URL) {
+        throw new HttpError(400, 'The OpenAI-compatible provider is not configured (set OPENAI_BASE_URL)');
+    }
+    if (providerName === 'workers-ai' && model && !/^@(cf|hf)\//.test(model)) {
+        throw new HttpError(400, 'Workers AI model ids start with @cf/ or @hf/');
+    }
+    return { provider: createModelProvider(providerName, model, env), selection };
+}
+
+function resolveApprovalPolicy(skill: { method?: string; approvalPolicy?: ApprovalPolicy }): ApprovalPolicy {
+    const method = (skill.method || 'GET').toUpperCase();
+    if (method === 'GET' || method === 'HEAD' || method === 'OPTIONS') {
+        return 'always_allow';
+    }
+    return skill.approvalPolicy || DEFAULT_APPROVAL_POLICY;
+}
+
+async function executeApprovedAction(action: PendingAction, allSkills: any[], env: Env): Promise<Record<string, any>> {
+    const skill = allSkills.find(s => s.name === action.skill);
+    if (!skill) {
+        return {
+            skill: action.skill,
+            toolCallId: action.toolCallId,
+            success: false,
+            error: `Skill ${action.skill} not found in user's registered skills`
+        };
+    }
 
-    if (toolKeywords.some((keyword) => normalized.includes(keyword))) {
-        return true;
+    // The API's policy or the skill's schema may have changed while the call waited for approval
+    if (resolveApprovalPolicy(skill) === 'never_allow') {
+        return {
+            skill: action.skill,
+            toolCallId: action.toolCallId,
+            success: false,
+            error: `${skill.method} requests to ${skill.apiName} are blocked by its approval policy`
+        };
+    }
+
+    const validation = validateSkillArguments(skill, action.args);
+    if (!validation.valid) {
+        return {
+            skill: action.skill,
+            toolCallId: action.toolCallId,
+            success: false,
+            error: 'Invalid arguments',
+            validationErrors: validation.errors
+        };
+    }
+
+    try {
+        await enforceSkillRateLimit(env, skill);
+        const credentials = await resolveSkillCredentials(skill, env);
+        const result = await executeGuardedSkill(env, skill, validation.args, credentials);
+        return { skill: action.skill, toolCallId: action.toolCallId, success: true, result };
+    } catch (error) {
+        return {
+            skill: action.skill,
+            toolCallId: action.toolCallId,
+            success: false,
+            error: (error as Error).message || 'Unknown error'
+        };
+    }
+}
+
+async function executeToolCalls(
+    toolCalls: any[],
+    allSkills: any[],
+    env: Env,
+    sendEvent: (type: string, data: any) => void
+): Promise<{ executions: any[]; awaitingApproval: ToolCallAwaitingApproval[] }> {
+    const skillExecutions: any[] = [];
+    const awaitingApproval: ToolCallAwaitingApproval[] = [];
+
+    for (let i = 0; i < toolCalls.length; i++) {
+        const toolCall = toolCalls[i];
+        const toolCallId = toolCall.id || `call_${i}`;
+        const skillName = toolCall.function?.name || toolCall.name;
+        const rawArgs = toolCall.function?.arguments || toolCall.arguments;
+
+        if (!toolCall.id) toolCall.id = toolCallId;
+        if (!toolCall.type) toolCall.type = 'function';
+
+        if (!toolCall.function && toolCall.name) {
+            toolCall.function = {
+                name: toolCall.name,
+                arguments: typeof toolCall.arguments === 'string'
+                    ? toolCall.arguments
+                    : JSON.stringify(toolCall.arguments || {})
+            };
+        } else if (toolCall.function && typeof toolCall.function.arguments !== 'string') {
+            toolCall.function.arguments = JSON.stringify(toolCall.function.arguments || {});
+        }
+
+        let args: Record<string, any> = {};
+        if (typeof rawArgs === 'string') {
+            try {
+                args = JSON.parse(rawArgs);
+            } catch (err) {
+                skillExecutions.push({
+                    skill: skillName,
+                    toolCallId: toolCallId,
+                    success: false,
+                    error: `Failed to parse arguments: ${(err as Error).message}`
+                });
+                continue;
+            }
+        } else if (rawArgs && typeof rawArgs === 'object') {
+            args = rawArgs;
+        }
+
+        const skill = allSkills.find(s => s.name === skillName);
+        if (!skill) {
+            skillExecutions.push({
+                skill: skillName,
+                toolCallId: toolCallId,
+                success: false,
+                error: `Skill ${skillName} not found in user's registered skills`
+            });
+            continue;
+        }
+
+        const validation = validateSkillArguments(skill, args);
+        if (!validation.valid) {
+            skillExecutions.push({
+                skill: skillName,
+                toolCallId: toolCallId,
+                success: false,
+                error: 'Invalid arguments',
+                validationErrors: validation.errors
+            });
+
+            sendEvent('skill_result', {
+                skill: skillName,
+                success: false,
+                error: 'Invalid arguments',
+                validationErrors: validation.errors
+            });
+            continue;
+        }
+        args = validation.args;
+
+        const policy = resolveApprovalPolicy(skill);
+        if (policy === 'never_allow') {
+            const errorMessage = `${skill.method} requests to ${skill.apiName} are blocked by its approval policy`;
+            skillExecutions.push({
+                skill: skillName,
+                toolCallId: toolCallId,
+                success: false,
+                error: errorMessage
+            });
+
+            sendEvent('skill_result', {
+                skill: skillName,
+                success: false,
+                error: errorMessage
+            });
+            continue;
+        }
+
+        if (policy === 'always_ask') {
+            awaitingApproval.push({
+                toolCallId,
+                skill: skillName,
+                apiName: skill.apiName,
+                args,
+                ...describeSkillRequest(skill, args)
+            });
+            continue;
+        }
+
+        try {
+            // A limit hit comes back to the model as this call's error
+            await enforceSkillRateLimit(env, skill);
+            const credentials = await resolveSkillCredentials(skill, env);
+            const result = await executeGuardedSkill(env, skill, args, credentials);
+
+            skillExecutions.push({
+                skill: skillName,
+                toolCallId: toolCallId,
+                success: true,
+                result: result
+            });
+
+            sendEvent('skill_result', {
+                skill: skillName,
+                success: true,
+                result: result,
+                ...(result.encoding ? { encoding: result.encoding } : {})
+            });
+        } catch (error) {
+            const errorMessage = (error as Error).message || 'Unknown error';
+            skillExecutions.push({
+                skill: skillName,
+                toolCallId: toolCallId,
+                success: false,
+                error: errorMessage
+            });
+
+            sendEvent('skill_result', {
+                skill: skillName,
+                success: false,
+                error: errorMessage
+            });
+        }
     }
 
-    for (const skill of skills) {
-        const candidates = [skill.name, skill.description, skill.apiName]
-            .filter(Boolean)
-            .map((value) => value!.toLowerCase());
+    return { executions: skillExecutions, awaitingApproval };
+}
+
+function buildToolMessages(skillExecutions: any[]) {
+    return skillExecutions.map(exec => ({
+        role: 'tool' as const,
+        content: exec.success
+            ? truncateForModel(JSON.stringify(exec.result), MAX_TOOL_RESULT_CHARS)
+            : exec.validationErrors
+                ? formatValidationErrors(exec.skill, exec.validationErrors)
+                : `Error: ${exec.error}`,
+        tool_call_id: exec.toolCallId
+    }));
+}
+
+async function loadUserSkills(env: Env, ownerId: string): Promise<{ skills: any[]; apiCount: number }> {
+    const skillRegistryId = env.SKILL_REGISTRY.idFromName(skillRegistryName(ownerId));
+    const skillRegistryStub = env.SKILL_REGISTRY.get(skillRegistryId);
+
+    const skillsResponse = await skillRegistryStub.fetch('http://internal/get-skills', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-User-ID': ownerId
+        },
+        body: JSON.stringify({})
+    });
+
+    const skillsData = await skillsResponse.json<any>();
+    const userApis = skillsData.apis || {};
 
-        if (candidates.some((text) => text && normalized.includes(text))) {
-            return true;
+    const skills: any[] = [];
+    for (const apiData of Object.values(userApis) as any[]) {
+        for (const skill of apiData.skills || []) {
+            // Disabled skills are never offered; curated names and descriptions replace the spec's
+            if (skill.enabled === false) {
+                continue;
+            }
+            skills.push({
+                ...skill,
+                name: skill.customName || skill.name,
+                description: skill.customDescription || skill.description,
+                apiName: apiData.apiName,
+                encryptedApiKey: apiData.encryptedApiKey,
+                encryptedCredentials: apiData.encryptedCredentials,
+                approvalPolicy: apiData.approvalPolicy,
+                rateLimit: apiData.rateLimit,
+                skillRateLimit: apiData.skillRateLimit,
+                executionPolicy: { ...DEFAULT_EXECUTION_POLICY, ...apiData.executionPolicy },
+                // Rate limits are counted per owner, so a workspace's members share its APIs' buckets
+                ownerId,
+                // Skills with their own servers already carry the resolved URL
+                baseUrl: skill.servers?.length ? skill.baseUrl : apiData.baseUrl
+            });
         }
     }
 
-    return false;
+    return { skills, apiCount: Object.keys(userApis).length };
+}
+
+/**
+ * Chat draws on the caller's personal skills and, for runners and above, those of the active workspace.
+ * A personal skill shadows a workspace skill of the same name.
+ */
+async function loadChatSkills(env: Env, userId: string, workspaceId: string | null): Promise<{ skills: any[]; apiCount: number }> {
+    const personal = await loadUserSkills(env, userId);
+    if (!workspaceId || !hasWorkspaceRole(await getWorkspaceRole(env, workspaceId, userId), 'runner')) {
+        return personal;
+    }
+
+    const shared = await loadUserSkills(env, workspaceSkillOwner(workspaceId));
+    const allowedHosts = await loadAllowedHosts(env, workspaceId, userId);
+    const personalNames = new Set(personal.skills.map((skill) => skill.name));
+    return {
+        skills: [
+            ...personal.skills,
+            ...shared.skills
+                .filter((skill) => !personalNames.has(skill.name))
+                .map((skill) => ({ ...skill, workspaceId, allowedHosts }))
+        ],
+        apiCount: personal.apiCount + shared.apiCount
+    };
+}
+
+// A conversation's pinned skills are always offered, ahead of those ranked against the message
+function selectChatSkills(allSkills: any[], pinnedNames: string[], message: string, recentUserTurns: string[]): any[] {
+    const pinnedSkills = allSkills.filter(skill => pinnedNames.includes(skill.name));
+    return [
+        ...pinnedSkills,
+        ...selectRelevantSkills(allSkills, message, recentUserTurns).filter(skill => !pinnedSkills.includes(skill))
+    ];
 }
 
 function trimChatHistory(history: Array<{ role: string; content: string }>): Array<{ role: string; content: string }> {
@@ -1209,8 +2521,8 @@ function createLogStream(sessionId: string): ReadableStream {
     });
 }
 
-async function proxyScenarioRequest(env: Env, request: Request, target: string, init: RequestInit) {
-    const sessionStub = getSessionStub(env, request);
+async function proxyScenarioRequest(env: Env, sessionId: string, target: string, init: RequestInit) {
+    const sessionStub = getSessionStub(env, sessionId);
     const response = await sessionStub.fetch(target, {
         headers: { 'Content-Type': 'application/json' },
         ...init
@@ -1231,7 +2543,7 @@ async function proxyScenarioRequest(env: Env, request: Request, target: string,
     return parsed;
 }
 
-async function executeTestConnector(body: any) {
+async function executeTestConnector(body: any, allowedHosts: string[]) {
     const url = typeof body?.url === 'string' ? body.url.trim() : '';
     if (!url || !/^https?:\/\//i.test(url)) {
         throw new HttpError(400, 'A valid https:// URL is required');
@@ -1249,10 +2561,22 @@ async function executeTestConnector(body: any) {
     }
 
     const start = Date.now();
-    const upstream = await fetch(url, { method, headers, body: payload });
+    let upstream: Response;
+    let bodyText: string;
+    try {
+        upstream = await guardedFetch(url, { method, headers, body: payload }, allowedHosts);
+        bodyText = await readTextWithLimit(upstream, DEFAULT_MAX_RESPONSE_BYTES);
+    } catch (error) {
+        if (error instanceof EgressBlockedError) {
+            throw new HttpError(403, error.message);
+        }
+        if (error instanceof ResponseTooLargeError) {
+            throw new HttpError(502, error.message);
+        }
+        throw error;
+    }
     const durationMs = Date.now() - start;
     const responseHeaders = Object.fromEntries(upstream.headers.entries());
-    const bodyText = await upstream.text();
 
     return {
         success: upstream.ok,
@@ -1297,6 +2621,36 @@ async function decryptSecret(ciphertext: string, env: Env): Promise<string> {
     return new TextDecoder().decode(plaintext);
 }
 
+async function encryptCredentialSet(credentials: unknown, env: Env): Promise<Record<string, string>> {
+    const encrypted: Record<string, string> = {};
+    if (!credentials || typeof credentials !== 'object') {
+        return encrypted;
+    }
+
+    for (const [schemeName, secret] of Object.entries(credentials as Record<string, unknown>)) {
+        if (typeof secret === 'string' && secret.trim()) {
+            encrypted[schemeName] = await encryptSecret(secret.trim(), env);
+        }
+    }
+    return encrypted;
+}
+
+async function resolveSkillCredentials(
+    skill: { encryptedApiKey?: string; encryptedCredentials?: Record<string, string> },
+    env: Env
+): Promise<SkillCredentials> {
+    const encryptedSet = skill.encryptedCredentials || {};
+    if (Object.keys(encryptedSet).length > 0) {
+        const decrypted: Record<string, string> = {};
+        for (const [schemeName, ciphertext] of Object.entries(encryptedSet)) {
+            decrypted[schemeName] = await decryptSecret(ciphertext, env);
+        }
+        return decrypted;
+    }
+
+    return skill.encryptedApiKey ? await decryptSecret(skill.encryptedApiKey, env) : '';
+}
+
 async function importEncryptionKey(env: Env): Promise<CryptoKey> {
     if (!env.API_KEY_SECRET || env.API_KEY_SECRET.length < 16) {
         throw new HttpError(500, 'API_KEY_SECRET must be configured and at least 16 characters long');
@@ -0,0 +1,194 @@
+import type { Env } from './bindings';
+import { isReadableStream, readAiStream } from './utils/ai-stream';
+
+export const DEFAULT_WORKERS_AI_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+
+// Providers users can choose per request or in their settings
+export const MODEL_PROVIDERS = ['workers-ai', 'openai'] as const;
+
+export type ModelProviderName = typeof MODEL_PROVIDERS[number];
+
+// `scripted` can only be the deployment default (`MODEL_PROVIDER`), for offline development
+export type DeploymentProviderName = ModelProviderName | 'scripted';
+
+export interface ModelRequest {
+    messages: any[];
+    tools?: any[];
+}
+
+export interface ModelResponse {
+    response: string;
+    toolCalls: any[];
+    // True when the response text was already delivered through `onToken`
+    streamed: boolean;
+}
+
+/**
+ * A chat model that can call tools. Passing `onToken` asks the provider to stream;
+ * providers that cannot stream simply return the whole response with `streamed: false`.
+ */
+export interface ModelProvider {
+    readonly name: string;
+    readonly model: string;
+    generate(request: ModelRequest, onToken?: (token: string) => void): Promise<ModelResponse>;
+}
+
+export function isModelProviderName(value: unknown): value is ModelProviderName {
+    return typeof value === 'string' && (MODEL_PROVIDERS as readonly string[]).includes(value);
+}
+
+// Builds the named provider; callers validate the model id and configuration first
+export function createModelProvider(name: DeploymentProviderName, model: string | undefined, env: Env): ModelProvider {
+    switch (name) {
+        case 'openai':
+            return new OpenAICompatibleProvider({
+                baseUrl: env.OPENAI_BASE_URL || '',
+                apiKey: env.OPENAI_API_KEY,
+                model: model || env.OPENAI_MODEL || 'gpt-4o-mini'
+            });
+        case 'scripted':
+            return new ScriptedProvider([], model || 'scripted');
+        default:
+            return new WorkersAIProvider(env.AI, model || undefined);
+    }
+}
+
+export class WorkersAIProvider implements ModelProvider {
+    readonly name = 'workers-ai';
+
+    constructor(private ai: any, readonly model: string = DEFAULT_WORKERS_AI_MODEL) { }
+
+    async generate(request: ModelRequest, onToken?: (token: string) => void): Promise<ModelResponse> {
+        const aiConfig: any = {
+            messages: request.messages,
+            stream: Boolean(onToken)
+        };
+
+        if (request.tools && request.tools.length > 0) {
+            aiConfig.tools = request.tools;
+        }
+
+        const aiResponseData = await this.ai.run(this.model, aiConfig);
+
+        if (onToken && isReadableStream(aiResponseData)) {
+            const streamed = await readAiStream(aiResponseData, onToken);
+            return { response: streamed.response, toolCalls: streamed.toolCalls, streamed: true };
+        }
+
+        return {
+            response: aiResponseData?.response || '',
+            toolCalls: Array.isArray(aiResponseData?.tool_calls) ? aiResponseData.tool_calls : [],
+            streamed: false
+        };
+    }
+}
+
+export interface OpenAICompatibleConfig {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+}
+
+// Any endpoint that speaks the OpenAI `/chat/completions` protocol (OpenAI, Groq, vLLM, Ollama, ...)
+export class OpenAICompatibleProvider implements ModelProvider {
+    readonly name = 'openai';
+    readonly model: string;
+
+    constructor(private config: OpenAICompatibleConfig) {
+        this.model = config.model;
+    }
+
+    async generate(request: ModelRequest, onToken?: (token: string) => void): Promise<ModelResponse> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.config.apiKey) {
+            headers.Authorization = `Bearer ${this.config.apiKey}`;
+        }
+
+        const payload: Record<string, any> = {
+            model: this.model,
+            messages: request.messages,
+            stream: Boolean(onToken)
+        };
+        if (request.tools && request.tools.length > 0) {
+            payload.tools = request.tools;
+            payload.tool_choice = 'auto';
+        }
+
+        const response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(payload)
+        });
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`Model provider returned HTTP ${response.status}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+        }
+
+        if (onToken && response.body && response.headers.get('content-type')?.includes('text/event-stream')) {
+            const streamed = await readAiStream(response.body, onToken, (event) => {
+                const delta = event?.choices?.[0]?.delta;
+                return delta ? { response: delta.content || '', tool_calls: delta.tool_calls } : undefined;
+            });
+            return { response: streamed.response, toolCalls: streamed.toolCalls, streamed: true };
+        }
+
+        const data = await response.json<any>();
+        const message = data?.choices?.[0]?.message || {};
+        return {
+            response: typeof message.content === 'string' ? message.content : '',
+            toolCalls: Array.isArray(message.tool_calls) ? message.tool_calls : [],
+            streamed: false
+        };
+    }
+}
+
+export interface ScriptedReply {
+    response?: string;
+    toolCalls?: any[];
+}
+
+export type ScriptedTurn = ScriptedReply | ((request: ModelRequest) => ScriptedReply);
+
+/**
+ * Replays a fixed list of replies, one per model call, and records every request it receives.
+ * With an empty script it echoes the last user message, which is enough for offline UI work.
+ */
+export class ScriptedProvider implements ModelProvider {
+    readonly name = 'scripted';
+    readonly requests: ModelRequest[] = [];
+
+    constructor(private turns: ScriptedTurn[] = [], readonly model: string = 'scripted') { }
+
+    async generate(request: ModelRequest, onToken?: (token: string) => void): Promise<ModelResponse> {
+        this.requests.push(request);
+
+        const reply = this.nextReply(request);
+        const response = reply.response || '';
+
+        if (onToken && response) {
+            for (const token of response.match(/\S+\s*|\s+/g) || []) {
+                onToken(token);
+            }
+        }
+
+        return {
+            response,
+            toolCalls: (reply.toolCalls || []).map(call => ({ ...call })),
+            streamed: Boolean(onToken && response)
+        };
+    }
+
+    private nextReply(request: ModelRequest): ScriptedReply {
+        if (this.turns.length === 0) {
+            const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+            return { response: `Echo: ${lastUser?.content || ''}` };
+        }
+
+        const turn = this.turns[this.requests.length - 1];
+        if (!turn) {
+            return { response: 'Scripted provider has no more turns.' };
+        }
+        return typeof turn === 'function' ? turn(request) : turn;
+    }
+}
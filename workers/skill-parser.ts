@@ -1,4 +1,27 @@
-import type { SkillDefinition } from './durable_objects/SkillRegistry';
+import type { SkillDefinition, SecurityScheme, SecurityRequirement } from './durable_objects/SkillRegistry';
+import { dereferenceSchema, resolveRefObject, toToolSchema } from './utils/schema';
+import { encodeRequestBody, type BodyEncoding } from './utils/request-body';
+import {
+    DEFAULT_STYLES,
+    serializeHeaderParameter,
+    serializePathParameter,
+    serializeQueryParameter,
+    type ParameterStyle,
+    type SerializationOptions
+} from './utils/param-style';
+import { parseServers, resolveServerUrl, type ApiServer } from './utils/servers';
+import { DEFAULT_RETRY_POLICY, fetchWithPolicy, UpstreamTimeoutError, type RetryPolicy } from './utils/fetch-policy';
+import { DEFAULT_EGRESS_POLICY, EgressBlockedError, guardedFetch, readTextWithLimit, ResponseTooLargeError, type EgressPolicy } from './utils/egress';
+
+// Character budgets for the JSON Schema sent to the model per tool argument
+const MAX_PARAM_SCHEMA_CHARS = 600;
+const MAX_BODY_SCHEMA_CHARS = 4000;
+
+// A single secret (legacy API key) or one secret per security scheme name.
+export type SkillCredentials = string | Record<string, string>;
+
+// Why a call failed when the upstream rather than the request was at fault; these count against its circuit breaker
+export type UpstreamError = 'timeout' | 'network' | 'server';
 
 interface OpenAPISpec {
     openapi?: string;
@@ -8,11 +31,18 @@ interface OpenAPISpec {
         version?: string;
         description?: string;
     };
-    servers?: Array<{ url: string }>;
+    servers?: Array<{ url: string; description?: string; variables?: Record<string, any> }>;
     basePath?: string;
     host?: string;
     schemes?: string[];
     paths: Record<string, Record<string, any>>;
+    components?: {
+        securitySchemes?: Record<string, any>;
+        [key: string]: any;
+    };
+    securityDefinitions?: Record<string, any>;
+    security?: SecurityRequirement[];
+    consumes?: string[];
 }
 
 interface AIToolSchema {
@@ -28,24 +58,27 @@ interface AIToolSchema {
     };
 }
 
-export function parseOpenAPIToSkills(spec: OpenAPISpec): {
+export function parseOpenAPIToSkills(spec: OpenAPISpec, options: { specUrl?: string } = {}): {
     skills: SkillDefinition[];
     baseUrl: string;
+    servers: ApiServer[];
+    securitySchemes: Record<string, SecurityScheme>;
     metadata: { title?: string; version?: string; description?: string };
 } {
-    // Extract base URL
-    let baseUrl = '';
-    if (spec.servers && spec.servers.length > 0) {
-        baseUrl = spec.servers[0].url;
-    } else if (spec.host) {
-        const scheme = spec.schemes?.[0] || 'https';
-        baseUrl = `${scheme}://${spec.host}${spec.basePath || ''}`;
-    }
+    const servers = specServers(spec);
+    const baseUrl = servers.length > 0 ? resolveServerUrl(servers[0], {}, options.specUrl) : '';
+
+    const securitySchemes = parseSecuritySchemes(spec);
+    const globalSecurity = Array.isArray(spec.security) ? spec.security : undefined;
 
     const skills: SkillDefinition[] = [];
 
     // Parse each path
-    for (const [path, methods] of Object.entries(spec.paths)) {
+    for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+        const methods = resolveRefObject<Record<string, any>>(spec, pathItem) || {};
+        const pathParameters = Array.isArray(methods.parameters) ? methods.parameters : [];
+        const pathServers = parseServers(methods.servers);
+
         for (const [method, operation] of Object.entries(methods)) {
             if (!['get', 'post', 'put', 'delete', 'patch'].includes(method.toLowerCase())) {
                 continue;
@@ -54,32 +87,56 @@ export function parseOpenAPIToSkills(spec: OpenAPISpec): {
             const operationId = operation.operationId || `${method}_${path.replace(/\//g, '_')}`;
             const summary = operation.summary || operation.description || `${method.toUpperCase()} ${path}`;
 
-            const parameters = [];
-            if (operation.parameters) {
-                for (const param of operation.parameters) {
-                    parameters.push({
-                        name: param.name,
-                        in: param.in,
-                        required: param.required || false,
-                        type: param.schema?.type || param.type || 'string',
-                        description: param.description || ''
-                    });
+            const parameters: SkillDefinition['parameters'] = [];
+            const bodyParameters: any[] = [];
+            for (const param of mergeParameters(spec, pathParameters, operation.parameters)) {
+                // Swagger 2.0 carries the request body as `in: body` / `in: formData` parameters
+                if (param.in === 'body' || param.in === 'formData') {
+                    bodyParameters.push(param);
+                    continue;
                 }
+
+                const contentType = param.content ? Object.keys(param.content)[0] : undefined;
+                const rawSchema = param.schema || (contentType ? param.content[contentType]?.schema : undefined);
+                const schema = rawSchema ? dereferenceSchema(rawSchema, spec) : undefined;
+                parameters.push({
+                    name: param.name,
+                    in: param.in,
+                    required: param.required || false,
+                    type: schema?.type || param.type || 'string',
+                    description: param.description || '',
+                    ...(schema ? { schema } : {}),
+                    ...(contentType ? { contentType } : {}),
+                    ...parseSerialization(param)
+                });
             }
 
             // Parse request body
             let requestBody;
-            if (operation.requestBody) {
-                const content = operation.requestBody.content;
+            const operationBody = resolveRefObject(spec, operation.requestBody);
+            if (operationBody) {
+                const content = operationBody.content;
                 const contentType = Object.keys(content || {})[0] || 'application/json';
                 requestBody = {
-                    required: operation.requestBody.required || false,
+                    required: operationBody.required || false,
                     contentType,
-                    schema: content?.[contentType]?.schema || {}
+                    schema: dereferenceSchema(content?.[contentType]?.schema || {}, spec)
                 };
+            } else if (bodyParameters.length > 0) {
+                const consumes = Array.isArray(operation.consumes) ? operation.consumes : spec.consumes;
+                requestBody = parseSwaggerBodyParameters(spec, bodyParameters, consumes || []);
             }
 
-            skills.push({
+            // Operation-level security overrides the global default, and an empty array disables auth
+            const security: SecurityRequirement[] | undefined = Array.isArray(operation.security)
+                ? operation.security
+                : globalSecurity;
+
+            // Operation-level servers override path-level ones, which override the spec's
+            const operationServers = parseServers(operation.servers);
+            const overrideServers = operationServers.length > 0 ? operationServers : pathServers;
+
+            const skill: SkillDefinition = {
                 name: operationId,
                 description: summary,
                 operationId,
@@ -87,14 +144,27 @@ export function parseOpenAPIToSkills(spec: OpenAPISpec): {
                 path,
                 parameters,
                 requestBody,
-                baseUrl
-            });
+                baseUrl: overrideServers.length > 0 ? resolveServerUrl(overrideServers[0], {}, options.specUrl) : baseUrl
+            };
+
+            if (overrideServers.length > 0) {
+                skill.servers = overrideServers;
+            }
+
+            if (security) {
+                skill.security = security;
+                skill.securitySchemes = pickSecuritySchemes(security, securitySchemes);
+            }
+
+            skills.push(skill);
         }
     }
 
     return {
         skills,
         baseUrl,
+        servers,
+        securitySchemes,
         metadata: {
             title: spec.info?.title,
             version: spec.info?.version,
@@ -103,6 +173,170 @@ export function parseOpenAPIToSkills(spec: OpenAPISpec): {
     };
 }
 
+// Swagger 2.0 `collectionFormat` expressed as OpenAPI 3 style/explode
+const COLLECTION_FORMATS: Record<string, { style?: ParameterStyle; explode: boolean }> = {
+    csv: { explode: false },
+    ssv: { style: 'spaceDelimited', explode: false },
+    pipes: { style: 'pipeDelimited', explode: false },
+    multi: { style: 'form', explode: true }
+};
+
+function parseSerialization(param: any): Pick<SkillDefinition['parameters'][number], 'style' | 'explode' | 'allowReserved'> {
+    const serialization: Pick<SkillDefinition['parameters'][number], 'style' | 'explode' | 'allowReserved'> = {};
+
+    if (typeof param.style === 'string') {
+        serialization.style = param.style as ParameterStyle;
+    }
+    if (typeof param.explode === 'boolean') {
+        serialization.explode = param.explode;
+    }
+    if (param.allowReserved === true) {
+        serialization.allowReserved = true;
+    }
+
+    // Swagger 2.0 arrays default to comma-separated values
+    if (param.type === 'array' && !param.schema && serialization.explode === undefined) {
+        const format = COLLECTION_FORMATS[param.collectionFormat || 'csv'] || COLLECTION_FORMATS.csv;
+        if (format.style && param.in === 'query') {
+            serialization.style = format.style;
+        }
+        serialization.explode = format.explode;
+    }
+
+    return serialization;
+}
+
+// Swagger 2.0 describes one server per scheme from host + basePath
+function specServers(spec: OpenAPISpec): ApiServer[] {
+    if (spec.servers && spec.servers.length > 0) {
+        return parseServers(spec.servers);
+    }
+    if (spec.host) {
+        const schemes = Array.isArray(spec.schemes) && spec.schemes.length > 0 ? spec.schemes : ['https'];
+        return schemes.map(scheme => ({ url: `${scheme}://${spec.host}${spec.basePath || ''}` }));
+    }
+    if (spec.swagger && spec.basePath) {
+        return [{ url: spec.basePath }];
+    }
+    return [];
+}
+
+function parseSwaggerBodyParameters(spec: OpenAPISpec, params: any[], consumes: string[]): SkillDefinition['requestBody'] {
+    const bodyParam = params.find(param => param.in === 'body');
+    if (bodyParam) {
+        return {
+            required: bodyParam.required || false,
+            contentType: consumes.find(type => type.includes('json')) || consumes[0] || 'application/json',
+            schema: dereferenceSchema(bodyParam.schema || {}, spec)
+        };
+    }
+
+    // formData fields become the properties of a single form object
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+    for (const param of params) {
+        properties[param.name] = formFieldSchema(param, spec);
+        if (param.required) {
+            required.push(param.name);
+        }
+    }
+
+    const hasFile = params.some(param => param.type === 'file');
+    const multipart = consumes.includes('multipart/form-data')
+        && (hasFile || !consumes.includes('application/x-www-form-urlencoded'));
+
+    return {
+        required: required.length > 0,
+        contentType: multipart || hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded',
+        schema: {
+            type: 'object',
+            properties,
+            ...(required.length > 0 ? { required } : {})
+        }
+    };
+}
+
+// Swagger 2.0 non-body parameters describe their schema inline rather than under `schema`
+function formFieldSchema(param: any, spec: OpenAPISpec): any {
+    if (param.type === 'file') {
+        return { type: 'string', format: 'binary', description: param.description || 'Base64-encoded file contents' };
+    }
+
+    const schema: Record<string, any> = { type: param.type || 'string' };
+    for (const key of ['format', 'enum', 'default', 'minimum', 'maximum', 'pattern', 'description']) {
+        if (param[key] !== undefined) {
+            schema[key] = param[key];
+        }
+    }
+    if (param.items) {
+        schema.items = dereferenceSchema(param.items, spec);
+    }
+    return schema;
+}
+
+// Path-level parameters apply to every operation unless redefined with the same name and location
+function mergeParameters(spec: OpenAPISpec, pathParameters: any[], operationParameters: any): any[] {
+    const merged = new Map<string, any>();
+    const resolved = [...pathParameters, ...(Array.isArray(operationParameters) ? operationParameters : [])]
+        .map(param => resolveRefObject(spec, param))
+        .filter(param => param && typeof param === 'object' && param.name && param.in);
+
+    for (const param of resolved) {
+        merged.set(`${param.in}:${param.name}`, param);
+    }
+    return Array.from(merged.values());
+}
+
+function parseSecuritySchemes(spec: OpenAPISpec): Record<string, SecurityScheme> {
+    const rawSchemes = spec.components?.securitySchemes || spec.securityDefinitions || {};
+    const schemes: Record<string, SecurityScheme> = {};
+
+    for (const [schemeName, raw] of Object.entries(rawSchemes)) {
+        if (!raw || typeof raw !== 'object') {
+            continue;
+        }
+
+        const type = String(raw.type || '');
+        if (type === 'apiKey') {
+            schemes[schemeName] = {
+                type: 'apiKey',
+                in: ['header', 'query', 'cookie'].includes(raw.in) ? raw.in : 'header',
+                name: raw.name || schemeName,
+                description: raw.description
+            };
+        } else if (type === 'http') {
+            schemes[schemeName] = {
+                type: 'http',
+                scheme: String(raw.scheme || 'bearer').toLowerCase(),
+                bearerFormat: raw.bearerFormat,
+                description: raw.description
+            };
+        } else if (type === 'basic') {
+            // Swagger 2.0 basic auth
+            schemes[schemeName] = { type: 'http', scheme: 'basic', description: raw.description };
+        } else if (type === 'oauth2' || type === 'openIdConnect') {
+            schemes[schemeName] = { type, description: raw.description };
+        }
+    }
+
+    return schemes;
+}
+
+function pickSecuritySchemes(
+    security: SecurityRequirement[],
+    schemes: Record<string, SecurityScheme>
+): Record<string, SecurityScheme> {
+    const picked: Record<string, SecurityScheme> = {};
+    for (const requirement of security) {
+        for (const schemeName of Object.keys(requirement || {})) {
+            if (schemes[schemeName]) {
+                picked[schemeName] = schemes[schemeName];
+            }
+        }
+    }
+    return picked;
+}
+
 //Convert skill definitions to AI-compatible tool schemas
 export function skillsToAIToolSchemas(skills: SkillDefinition[]): AIToolSchema[] {
     return skills.map(skill => {
@@ -110,9 +344,15 @@ export function skillsToAIToolSchemas(skills: SkillDefinition[]): AIToolSchema[]
         const required: string[] = [];
 
         for (const param of skill.parameters) {
+            // Fixed parameters are filled in by the validator and never shown to the model
+            if (skill.fixedParameters && param.name in skill.fixedParameters) {
+                continue;
+            }
+            const paramSchema = param.schema ? toToolSchema(param.schema, MAX_PARAM_SCHEMA_CHARS) : {};
             properties[param.name] = {
+                ...paramSchema,
                 type: param.type,
-                description: param.description || `${param.name} parameter`
+                description: param.description || paramSchema.description || `${param.name} parameter`
             };
 
             if (param.required) {
@@ -120,12 +360,17 @@ export function skillsToAIToolSchemas(skills: SkillDefinition[]): AIToolSchema[]
             }
         }
 
-        if (skill.requestBody?.required) {
+        if (skill.requestBody) {
+            const bodySchema = toToolSchema(skill.requestBody.schema || {}, MAX_BODY_SCHEMA_CHARS);
             properties['body'] = {
-                type: 'object',
-                description: 'Request body data'
+                ...bodySchema,
+                type: bodySchema.type || 'object',
+                description: describeRequestBody(skill.requestBody.contentType, bodySchema.description)
             };
-            required.push('body');
+
+            if (skill.requestBody.required) {
+                required.push('body');
+            }
         }
 
         return {
@@ -143,58 +388,65 @@ export function skillsToAIToolSchemas(skills: SkillDefinition[]): AIToolSchema[]
     });
 }
 
+function describeRequestBody(contentType: string, description?: string): string {
+    const base = description || 'Request body data';
+    if (contentType.startsWith('multipart/')) {
+        return `${base}. File fields take base64 data or {"filename", "contentType", "data"} with base64 data`;
+    }
+    return base;
+}
+
 export async function executeSkill(
     skill: SkillDefinition,
     parameters: Record<string, any>,
-    apiKey?: string
-): Promise<{ success: boolean; result?: any; error?: string }> {
+    credentials?: SkillCredentials,
+    policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    egress: EgressPolicy = DEFAULT_EGRESS_POLICY
+): Promise<{ success: boolean; result?: any; error?: string; encoding?: BodyEncoding; attempts?: number; upstreamError?: UpstreamError }> {
+    let sent = false;
     try {
-        // Construct URL - handle case where baseUrl might already contain the path
-        let url: string;
-        if (skill.baseUrl.endsWith(skill.path)) {
-            // baseUrl already contains the path (misconfigured spec) - use as-is
-            url = skill.baseUrl;
-        } else {
-            url = skill.baseUrl + skill.path;
-        }
-
-        for (const param of skill.parameters) {
-            if (param.in === 'path' && parameters[param.name]) {
-                url = url.replace(`{${param.name}}`, encodeURIComponent(String(parameters[param.name])));
-            }
-        }
-
-        const queryParams = new URLSearchParams();
-        for (const param of skill.parameters) {
-            if (param.in === 'query' && parameters[param.name]) {
-                queryParams.append(param.name, String(parameters[param.name]));
-            }
-        }
-        if (queryParams.toString()) {
-            url += '?' + queryParams.toString();
-        }
+        const { path: pathUrl, query } = buildSkillUrl(skill, parameters);
 
         const headers: Record<string, string> = {
             'Content-Type': 'application/json',
             'User-Agent': 'CF-ToolSmith/1.0'
         };
 
-        if (apiKey) {
-            if (apiKey.startsWith('Bearer ')) {
-                headers['Authorization'] = apiKey;
-            } else if (apiKey.startsWith('sk_') || apiKey.startsWith('pk_')) {
-                headers['Authorization'] = `Bearer ${apiKey}`;
-            } else {
-                headers['Authorization'] = `Bearer ${apiKey}`;
-            }
-        }
+        const authHeaders: Record<string, string> = {};
+        const authQuery = new URLSearchParams();
+        applyCredentials(skill, credentials, authHeaders, authQuery);
 
-        // Add header parameters
+        // Credentials replace any same-named query parameter from the model
+        const queryParts = [
+            ...query.filter(part => !authQuery.has(decodeURIComponent(part.split(/[=[]/)[0]))),
+            ...(authQuery.toString() ? [authQuery.toString()] : [])
+        ];
+        const url = queryParts.length > 0 ? `${pathUrl}?${queryParts.join('&')}` : pathUrl;
+
+        // ...and any same-named header or cookie parameter
+        const authHeaderNames = new Set(Object.keys(authHeaders).map(name => name.toLowerCase()));
+        const authCookies = authHeaders['Cookie'] ? authHeaders['Cookie'].split('; ') : [];
+        const authCookieNames = new Set(authCookies.map(cookie => cookie.split('=')[0]));
+        const cookies: string[] = [];
         for (const param of skill.parameters) {
-            if (param.in === 'header' && parameters[param.name]) {
-                headers[param.name] = String(parameters[param.name]);
+            const value = parameters[param.name];
+            if (isAbsent(value)) {
+                continue;
+            }
+            if (param.in === 'header' && !authHeaderNames.has(param.name.toLowerCase())) {
+                headers[param.name] = param.contentType
+                    ? serializeContent(value, param.contentType)
+                    : serializeHeaderParameter(value, serializationOf(param));
+            } else if (param.in === 'cookie' && !authCookieNames.has(param.name)) {
+                const cookieValue = param.contentType ? serializeContent(value, param.contentType) : serializeHeaderParameter(value);
+                cookies.push(`${param.name}=${encodeURIComponent(cookieValue)}`);
             }
         }
+        Object.assign(headers, authHeaders);
+        cookies.push(...authCookies);
+        if (cookies.length > 0) {
+            headers['Cookie'] = cookies.join('; ');
+        }
 
         // Build request
         const requestInit: RequestInit = {
@@ -202,51 +454,224 @@ export async function executeSkill(
             headers
         };
 
-        if (['POST', 'PUT', 'PATCH'].includes(skill.method)) {
-            if (parameters.body) {
-                requestInit.body = JSON.stringify(parameters.body);
-            } else if (skill.requestBody) {
-                const bodyData: Record<string, any> = {};
-                for (const [key, value] of Object.entries(parameters)) {
-                    const isPathOrQuery = skill.parameters.some(p =>
-                        p.name === key && (p.in === 'path' || p.in === 'query' || p.in === 'header')
-                    );
-                    if (!isPathOrQuery) {
-                        bodyData[key] = value;
-                    }
-                }
-                if (Object.keys(bodyData).length > 0) {
-                    requestInit.body = JSON.stringify(bodyData);
-                }
+        const body = buildSkillBody(skill, parameters);
+        let encoding: BodyEncoding | undefined;
+        if (body !== undefined) {
+            const encoded = encodeRequestBody(skill.requestBody?.contentType, body, skill.requestBody?.schema);
+            encoding = encoded.encoding;
+            requestInit.body = encoded.body;
+            if (encoded.contentType) {
+                headers['Content-Type'] = encoded.contentType;
+            } else {
+                // Let fetch set the multipart boundary
+                delete headers['Content-Type'];
             }
         }
 
         // Execute request
-        const response = await fetch(url, requestInit);
-        const contentType = response.headers.get('content-type');
-
-        let result;
-        if (contentType?.includes('application/json')) {
-            result = await response.json();
-        } else {
-            result = await response.text();
-        }
+        sent = true;
+        const { response, body: result, attempts } = await fetchWithPolicy(url, requestInit, policy, async (response) => {
+            const text = await readTextWithLimit(response, egress.maxResponseBytes);
+            return response.headers.get('content-type')?.includes('application/json') ? parseJsonBody(text) : text;
+        }, { send: (target, init) => guardedFetch(target, init, egress.allowedHosts) });
+        const retried = attempts > 1 ? { attempts } : {};
 
         if (!response.ok) {
             return {
                 success: false,
-                error: `HTTP ${response.status}: ${JSON.stringify(result)}`
+                error: `HTTP ${response.status}: ${JSON.stringify(result)}`,
+                ...(encoding ? { encoding } : {}),
+                ...retried,
+                ...(response.status >= 500 ? { upstreamError: 'server' as const } : {})
             };
         }
 
         return {
             success: true,
-            result
+            result,
+            ...(encoding ? { encoding } : {}),
+            ...retried
         };
     } catch (error) {
+        // A blocked destination or an oversized body is the call's fault, not a sign the upstream is down
+        const blocked = error instanceof EgressBlockedError || error instanceof ResponseTooLargeError;
+        const upstreamError: UpstreamError | undefined = error instanceof UpstreamTimeoutError
+            ? 'timeout'
+            : sent && !blocked ? 'network' : undefined;
         return {
             success: false,
-            error: (error as Error).message
+            error: (error as Error).message,
+            ...(upstreamError ? { upstreamError } : {})
         };
     }
 }
+
+function buildSkillUrl(skill: SkillDefinition, parameters: Record<string, any>): { path: string; query: string[] } {
+    // Construct URL - handle case where baseUrl might already contain the path
+    let url: string;
+    if (skill.baseUrl.endsWith(skill.path)) {
+        // baseUrl already contains the path (misconfigured spec) - use as-is
+        url = skill.baseUrl;
+    } else {
+        url = skill.baseUrl + skill.path;
+    }
+
+    const query: string[] = [];
+    for (const param of skill.parameters) {
+        const value = parameters[param.name];
+        if (isAbsent(value)) {
+            continue;
+        }
+
+        if (param.in === 'path') {
+            const serialized = param.contentType
+                ? encodeURIComponent(serializeContent(value, param.contentType))
+                : serializePathParameter(param.name, value, serializationOf(param));
+            url = url.replace(`{${param.name}}`, serialized);
+        } else if (param.in === 'query') {
+            query.push(...(param.contentType
+                ? [`${encodeURIComponent(param.name)}=${encodeURIComponent(serializeContent(value, param.contentType))}`]
+                : serializeQueryParameter(param.name, value, serializationOf(param))));
+        }
+    }
+
+    return { path: url, query };
+}
+
+function serializationOf(param: SkillDefinition['parameters'][number]): SerializationOptions {
+    return {
+        style: param.style || (param.in === 'body' ? undefined : DEFAULT_STYLES[param.in]),
+        explode: param.explode,
+        allowReserved: param.allowReserved
+    };
+}
+
+function serializeContent(value: any, contentType: string): string {
+    return contentType.includes('json') || typeof value !== 'string' ? JSON.stringify(value) : value;
+}
+
+// A body labelled JSON that does not parse is passed on as text; the upstream answered, so the call did not fail
+function parseJsonBody(text: string): any {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+// Zero, false and empty strings are real values; only missing ones are skipped
+function isAbsent(value: any): boolean {
+    return value === undefined || value === null;
+}
+
+function buildSkillBody(skill: SkillDefinition, parameters: Record<string, any>): any {
+    if (!['POST', 'PUT', 'PATCH'].includes(skill.method)) {
+        return undefined;
+    }
+
+    if (!isAbsent(parameters.body)) {
+        return parameters.body;
+    }
+
+    if (skill.requestBody) {
+        const bodyData: Record<string, any> = {};
+        for (const [key, value] of Object.entries(parameters)) {
+            const isPathOrQuery = skill.parameters.some(p =>
+                p.name === key && (p.in === 'path' || p.in === 'query' || p.in === 'header' || p.in === 'cookie')
+            );
+            if (!isPathOrQuery) {
+                bodyData[key] = value;
+            }
+        }
+        if (Object.keys(bodyData).length > 0) {
+            return bodyData;
+        }
+    }
+
+    return undefined;
+}
+
+// Describe the outgoing request without credentials, e.g. for approval prompts.
+export function describeSkillRequest(
+    skill: SkillDefinition,
+    parameters: Record<string, any>
+): { method: string; url: string; body?: any } {
+    const { path, query } = buildSkillUrl(skill, parameters);
+    return {
+        method: skill.method,
+        url: query.length > 0 ? `${path}?${query.join('&')}` : path,
+        body: buildSkillBody(skill, parameters)
+    };
+}
+
+// btoa only takes Latin-1, so `user:password` is base64-encoded from its UTF-8 bytes (RFC 7617)
+function encodeBasicCredentials(userPass: string): string {
+    let binary = '';
+    for (const byte of new TextEncoder().encode(userPass)) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+}
+
+function applyCredentials(
+    skill: SkillDefinition,
+    credentials: SkillCredentials | undefined,
+    headers: Record<string, string>,
+    queryParams: URLSearchParams
+): void {
+    if (!credentials || (typeof credentials === 'object' && Object.keys(credentials).length === 0)) {
+        return;
+    }
+
+    const requirements = skill.security;
+    const schemes = skill.securitySchemes || {};
+
+    // Specs without security declarations keep the legacy bearer behaviour
+    if (!requirements) {
+        const legacyKey = typeof credentials === 'string' ? credentials : Object.values(credentials)[0];
+        if (legacyKey) {
+            headers['Authorization'] = legacyKey.startsWith('Bearer ') ? legacyKey : `Bearer ${legacyKey}`;
+        }
+        return;
+    }
+
+    const resolveSecret = (schemeName: string): string | undefined =>
+        typeof credentials === 'string' ? credentials : credentials[schemeName];
+
+    const requirement = requirements.find(req => {
+        const names = Object.keys(req || {});
+        return names.length > 0 && names.every(name => schemes[name] && resolveSecret(name));
+    });
+
+    if (!requirement) {
+        return;
+    }
+
+    const cookies: string[] = [];
+    for (const schemeName of Object.keys(requirement)) {
+        const scheme = schemes[schemeName];
+        const secret = resolveSecret(schemeName)!;
+
+        if (scheme.type === 'apiKey') {
+            const name = scheme.name || schemeName;
+            if (scheme.in === 'query') {
+                queryParams.set(name, secret);
+            } else if (scheme.in === 'cookie') {
+                cookies.push(`${name}=${encodeURIComponent(secret)}`);
+            } else {
+                headers[name] = secret;
+            }
+        } else if (scheme.type === 'http' && scheme.scheme === 'basic') {
+            headers['Authorization'] = secret.startsWith('Basic ') ? secret : `Basic ${encodeBasicCredentials(secret)}`;
+        } else if (scheme.type === 'http' && scheme.scheme && scheme.scheme !== 'bearer') {
+            const prefix = scheme.scheme.charAt(0).toUpperCase() + scheme.scheme.slice(1);
+            headers['Authorization'] = `${prefix} ${secret}`;
+        } else {
+            headers['Authorization'] = secret.startsWith('Bearer ') ? secret : `Bearer ${secret}`;
+        }
+    }
+
+    if (cookies.length > 0) {
+        headers['Cookie'] = cookies.join('; ');
+    }
+}
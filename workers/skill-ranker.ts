@@ -0,0 +1,128 @@
+import type { SkillDefinition } from './durable_objects/SkillRegistry';
+
+export const MAX_OFFERED_SKILLS = 8;
+
+// Okapi BM25 defaults
+const K1 = 1.2;
+const B = 0.75;
+
+// Earlier user turns help resolve follow-ups ("now delete it") but count for less than the current message
+const HISTORY_WEIGHT = 0.5;
+const HISTORY_TURNS = 3;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'could', 'do', 'for', 'from', 'how', 'i', 'in', 'is',
+    'it', 'its', 'me', 'my', 'of', 'on', 'or', 'please', 'so', 'that', 'the', 'then', 'this', 'to', 'us', 'was',
+    'we', 'what', 'when', 'where', 'which', 'who', 'will', 'with', 'would', 'you', 'your',
+    'hi', 'hello', 'hey', 'thanks', 'thank'
+]);
+
+type RankableSkill = Pick<SkillDefinition, 'name' | 'description' | 'path'> & {
+    apiName?: string;
+    operationId?: string;
+    parameters?: Array<{ name: string }>;
+};
+
+export interface RankedSkill<T> {
+    skill: T;
+    score: number;
+}
+
+export function tokenize(text: string): string[] {
+    return text
+        // split camelCase and PascalCase identifiers such as getPetById
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length > 1 && !STOPWORDS.has(token))
+        .map(stem);
+}
+
+/**
+ * Rank skills against the user's message (and recent user turns) with BM25 over each skill's
+ * name, description, path, API name and parameter names. Skills sharing no terms score 0.
+ */
+export function rankSkills<T extends RankableSkill>(skills: T[], message: string, history: string[] = []): RankedSkill<T>[] {
+    if (skills.length === 0) {
+        return [];
+    }
+
+    const documents = skills.map(skill => tokenize(describeSkill(skill)));
+    const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+
+    const documentFrequency = new Map<string, number>();
+    for (const doc of documents) {
+        for (const term of new Set(doc)) {
+            documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }
+    }
+
+    const queryWeights = new Map<string, number>();
+    const addQuery = (text: string, weight: number) => {
+        for (const term of new Set(tokenize(text))) {
+            queryWeights.set(term, Math.max(queryWeights.get(term) || 0, weight));
+        }
+    };
+    history.slice(-HISTORY_TURNS).forEach(turn => addQuery(turn, HISTORY_WEIGHT));
+    addQuery(message, 1);
+
+    return skills
+        .map((skill, index) => {
+            const doc = documents[index];
+            const termCounts = new Map<string, number>();
+            for (const term of doc) {
+                termCounts.set(term, (termCounts.get(term) || 0) + 1);
+            }
+
+            let score = 0;
+            for (const [term, weight] of queryWeights) {
+                const tf = termCounts.get(term);
+                if (!tf) continue;
+
+                const df = documentFrequency.get(term) || 0;
+                const idf = Math.log(1 + (skills.length - df + 0.5) / (df + 0.5));
+                score += weight * idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+            }
+
+            return { skill, score };
+        })
+        .sort((a, b) => b.score - a.score);
+}
+
+export function selectRelevantSkills<T extends RankableSkill>(
+    skills: T[],
+    message: string,
+    history: string[] = [],
+    limit = MAX_OFFERED_SKILLS
+): T[] {
+    return rankSkills(skills, message, history)
+        .filter(entry => entry.score > 0)
+        .slice(0, limit)
+        .map(entry => entry.skill);
+}
+
+function describeSkill(skill: RankableSkill): string {
+    // The name is repeated so a direct hit on it outweighs a passing mention in a long description
+    return [
+        skill.name,
+        skill.name,
+        skill.operationId && skill.operationId !== skill.name ? skill.operationId : '',
+        skill.description,
+        skill.path,
+        skill.apiName,
+        ...(skill.parameters || []).map(param => param.name)
+    ]
+        .filter(Boolean)
+        .join(' ');
+}
+
+// Light plural folding so "pets" matches "pet" and "entries" matches "entry"
+function stem(token: string): string {
+    if (token.length > 4 && token.endsWith('ies')) {
+        return `${token.slice(0, -3)}y`;
+    }
+    if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') && !token.endsWith('us')) {
+        return token.slice(0, -1);
+    }
+    return token;
+}
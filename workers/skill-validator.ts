@@ -0,0 +1,223 @@
+import type { SkillDefinition } from './durable_objects/SkillRegistry';
+import { isFileSchema } from './utils/request-body';
+
+export interface ValidationIssue {
+    field: string;
+    message: string;
+}
+
+export interface SkillArgumentValidation {
+    valid: boolean;
+    args: Record<string, any>;
+    errors: ValidationIssue[];
+}
+
+/**
+ * Check tool-call arguments against a skill's parameters and request body schema.
+ * Obvious type mismatches from the model ("5" for an integer, "true" for a boolean) are coerced
+ * in the returned `args`; anything that cannot be coerced is reported as an issue. Fixed parameter
+ * values from the skill's curation are merged in first.
+ */
+export function validateSkillArguments(skill: SkillDefinition, rawArgs: Record<string, any>): SkillArgumentValidation {
+    // Values fixed by the user win over anything the model sent for hidden parameters
+    const args: Record<string, any> = { ...(rawArgs || {}), ...(skill.fixedParameters || {}) };
+    const errors: ValidationIssue[] = [];
+
+    for (const param of skill.parameters) {
+        const value = args[param.name];
+        if (isMissing(value)) {
+            if (param.required) {
+                errors.push({ field: param.name, message: `Missing required ${param.in} parameter "${param.name}"` });
+            }
+            continue;
+        }
+
+        const schema = param.schema || { type: param.type };
+        args[param.name] = validateValue(value, schema, param.name, errors);
+    }
+
+    if (skill.requestBody) {
+        const parameterNames = new Set(skill.parameters.map(p => p.name));
+        let body = args.body;
+
+        // Models sometimes spread body fields into the top-level arguments
+        if (body === undefined) {
+            const looseFields = Object.entries(args).filter(([key]) => !parameterNames.has(key));
+            if (looseFields.length > 0) {
+                body = Object.fromEntries(looseFields);
+                for (const [key] of looseFields) {
+                    delete args[key];
+                }
+            }
+        }
+
+        if (typeof body === 'string' && isStructuredSchema(skill.requestBody.schema)) {
+            try {
+                body = JSON.parse(body);
+            } catch {
+                errors.push({ field: 'body', message: 'Request body must be a JSON object, not a string' });
+            }
+        }
+
+        if (isMissing(body)) {
+            if (skill.requestBody.required) {
+                errors.push({ field: 'body', message: 'Missing required request body' });
+            }
+        } else {
+            args.body = validateValue(body, skill.requestBody.schema || {}, 'body', errors);
+        }
+    }
+
+    return { valid: errors.length === 0, args, errors };
+}
+
+export function formatValidationErrors(skillName: string, errors: ValidationIssue[]): string {
+    return JSON.stringify({
+        error: 'invalid_arguments',
+        skill: skillName,
+        issues: errors,
+        instruction: 'The request was not sent. Correct the listed arguments and call the tool again.'
+    });
+}
+
+function validateValue(value: any, schema: any, field: string, errors: ValidationIssue[]): any {
+    if (!schema || typeof schema !== 'object') {
+        return value;
+    }
+
+    if (value === null && schema.nullable) {
+        return value;
+    }
+
+    // File parts may come as {filename, contentType, data} rather than a bare base64 string
+    if (isFileSchema(schema) && value && typeof value === 'object' && typeof (value.data ?? value.content) === 'string') {
+        return value;
+    }
+
+    const coerced = coerceValue(value, schema.type);
+    const type = schema.type || inferSchemaType(schema);
+
+    if (type && !matchesType(coerced, type)) {
+        errors.push({ field, message: `Expected ${type} but received ${describeType(value)}` });
+        return value;
+    }
+
+    if (Array.isArray(schema.enum) && schema.enum.length > 0 && !schema.enum.includes(coerced)) {
+        errors.push({ field, message: `Must be one of: ${schema.enum.map((entry: any) => JSON.stringify(entry)).join(', ')}` });
+    }
+
+    if (type === 'array' && Array.isArray(coerced) && schema.items) {
+        return coerced.map((item, index) => validateValue(item, schema.items, `${field}[${index}]`, errors));
+    }
+
+    if (type === 'object' && coerced && typeof coerced === 'object' && !Array.isArray(coerced)) {
+        const result: Record<string, any> = { ...coerced };
+        const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+
+        for (const name of required) {
+            if (isMissing(result[name])) {
+                errors.push({ field: `${field}.${name}`, message: 'Missing required field' });
+            }
+        }
+
+        for (const [name, propertySchema] of Object.entries(schema.properties || {})) {
+            if (!isMissing(result[name])) {
+                result[name] = validateValue(result[name], propertySchema, `${field}.${name}`, errors);
+            }
+        }
+        return result;
+    }
+
+    return coerced;
+}
+
+function coerceValue(value: any, type?: string): any {
+    if (type === 'integer' || type === 'number') {
+        if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+            return Number(value);
+        }
+        return value;
+    }
+
+    if (type === 'boolean') {
+        if (value === 'true' || value === 1) return true;
+        if (value === 'false' || value === 0) return false;
+        return value;
+    }
+
+    if (type === 'string') {
+        if (typeof value === 'number' || typeof value === 'boolean') {
+            return String(value);
+        }
+        return value;
+    }
+
+    if (type === 'array') {
+        if (typeof value === 'string') {
+            const trimmed = value.trim();
+            if (trimmed.startsWith('[')) {
+                try {
+                    const parsed = JSON.parse(trimmed);
+                    if (Array.isArray(parsed)) return parsed;
+                } catch {
+                    // fall through to comma splitting
+                }
+            }
+            return trimmed.split(',').map(part => part.trim()).filter(Boolean);
+        }
+        if (!Array.isArray(value) && value !== null && value !== undefined) {
+            return [value];
+        }
+        return value;
+    }
+
+    if (type === 'object' && typeof value === 'string' && value.trim().startsWith('{')) {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value;
+        }
+    }
+
+    return value;
+}
+
+function matchesType(value: any, type: string): boolean {
+    switch (type) {
+        case 'integer':
+            return typeof value === 'number' && Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'string':
+            return typeof value === 'string';
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return !!value && typeof value === 'object' && !Array.isArray(value);
+        default:
+            return true;
+    }
+}
+
+function inferSchemaType(schema: any): string | undefined {
+    if (schema.properties) return 'object';
+    if (schema.items) return 'array';
+    return undefined;
+}
+
+function isStructuredSchema(schema: any): boolean {
+    const type = schema?.type || inferSchemaType(schema || {});
+    return type === 'object' || type === 'array';
+}
+
+function isMissing(value: any): boolean {
+    return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function describeType(value: any): string {
+    if (Array.isArray(value)) return 'array';
+    if (value === null) return 'null';
+    return typeof value === 'string' ? `string "${value.length > 40 ? `${value.slice(0, 40)}…` : value}"` : typeof value;
+}
@@ -0,0 +1,92 @@
+import type { SkillDefinition } from './durable_objects/SkillRegistry';
+import { parseYaml } from './utils/yaml';
+import { guardedFetch, readTextWithLimit, ResponseTooLargeError } from './utils/egress';
+
+export const MAX_SPEC_BYTES = 5 * 1024 * 1024;
+
+// Skills added, removed or changed (method, path, parameters, body, servers or description) by a re-sync
+export interface SpecDiff {
+    added: string[];
+    removed: string[];
+    changed: string[];
+}
+
+export type SpecFetchResult =
+    | { notModified: true }
+    | { notModified: false; spec: any; etag?: string };
+
+/**
+ * Fetch an OpenAPI/Swagger document (JSON or YAML). Passing the ETag from the previous fetch
+ * sends `If-None-Match`, and a 304 comes back as `{ notModified: true }`.
+ * Spec URLs get the same private-address checks as skill calls, but no host allowlist,
+ * since docs are often served from another host than the API.
+ */
+export async function fetchSpecDocument(specUrl: string, etag?: string): Promise<SpecFetchResult> {
+    const headers: Record<string, string> = {
+        'Accept': 'application/json, application/yaml;q=0.9, text/yaml;q=0.9, */*;q=0.5',
+        'User-Agent': 'CF-ToolSmith/1.0'
+    };
+    if (etag) {
+        headers['If-None-Match'] = etag;
+    }
+
+    const response = await guardedFetch(specUrl, { headers }, []);
+    if (response.status === 304) {
+        return { notModified: true };
+    }
+    if (!response.ok) {
+        await response.body?.cancel();
+        throw new Error(`Spec URL returned HTTP ${response.status}`);
+    }
+
+    let text: string;
+    try {
+        text = await readTextWithLimit(response, MAX_SPEC_BYTES);
+    } catch (error) {
+        if (error instanceof ResponseTooLargeError) {
+            throw new Error('Spec is too large. Maximum is 5MB.');
+        }
+        throw error;
+    }
+
+    const spec = parseSpecText(text);
+    if (!spec || (!spec.openapi && !spec.swagger)) {
+        throw new Error('Spec URL did not return a valid OpenAPI/Swagger specification');
+    }
+
+    return { notModified: false, spec, etag: response.headers.get('etag') || undefined };
+}
+
+export function parseSpecText(text: string): any | null {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return parseYaml(text);
+    }
+}
+
+export function diffSkills(previous: SkillDefinition[], next: SkillDefinition[]): SpecDiff {
+    const before = new Map(previous.map(skill => [skill.name, skill]));
+    const after = new Map(next.map(skill => [skill.name, skill]));
+
+    return {
+        added: next.filter(skill => !before.has(skill.name)).map(skill => skill.name),
+        removed: previous.filter(skill => !after.has(skill.name)).map(skill => skill.name),
+        changed: next
+            .filter(skill => before.has(skill.name) && skillSignature(before.get(skill.name)!) !== skillSignature(skill))
+            .map(skill => skill.name)
+    };
+}
+
+// Only what the model or the HTTP request would see; resolved base URLs depend on the user's server choice
+function skillSignature(skill: SkillDefinition): string {
+    return JSON.stringify({
+        description: skill.description,
+        method: skill.method,
+        path: skill.path,
+        parameters: skill.parameters,
+        requestBody: skill.requestBody,
+        servers: skill.servers,
+        security: skill.security
+    });
+}
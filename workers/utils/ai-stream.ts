@@ -0,0 +1,159 @@
+export interface AiStreamResult {
+  response: string;
+  toolCalls: any[];
+}
+
+export interface AiStreamChunk {
+  response?: string;
+  tool_calls?: any[];
+}
+
+// Text that starts like this may be a tool call the model wrote out as JSON, so it is held back until the end
+const TOOL_CALL_TEXT_PREFIXES = ['{', '[', '<|'];
+
+function classifyLeadingText(text: string): 'undecided' | 'live' | 'held' {
+  if (TOOL_CALL_TEXT_PREFIXES.some((prefix) => text.startsWith(prefix))) {
+    return 'held';
+  }
+  // A lone "<" could still become "<|python_tag|>"
+  return text === '<' ? 'undecided' : 'live';
+}
+
+export function isReadableStream(value: unknown): value is ReadableStream<Uint8Array> {
+  return !!value && typeof (value as ReadableStream).getReader === 'function';
+}
+
+/**
+ * Read a Workers AI `stream: true` response (server-sent events of `{ response, tool_calls }` chunks).
+ * Text tokens are passed to `onToken` as they arrive; tool calls are collected, whether they arrive
+ * whole or as OpenAI-style deltas keyed by `index`. Other event shapes can be mapped with `toChunk`.
+ */
+export async function readAiStream(
+  stream: ReadableStream<Uint8Array>,
+  onToken: (token: string) => void,
+  toChunk: (event: any) => AiStreamChunk | undefined = (event) => event
+): Promise<AiStreamResult> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const toolCalls: any[] = [];
+  let buffer = '';
+  let response = '';
+  let held = '';
+  let mode: 'undecided' | 'live' | 'held' = 'undecided';
+
+  const handleToken = (token: string) => {
+    response += token;
+    if (mode === 'live') {
+      onToken(token);
+      return;
+    }
+
+    held += token;
+    if (mode === 'undecided') {
+      const trimmed = held.trimStart();
+      mode = trimmed ? classifyLeadingText(trimmed) : 'undecided';
+      if (mode === 'live') {
+        onToken(held);
+        held = '';
+      }
+    }
+  };
+
+  const handleEvent = (data: string) => {
+    if (!data || data === '[DONE]') {
+      return;
+    }
+
+    let chunk: AiStreamChunk | undefined;
+    try {
+      chunk = toChunk(JSON.parse(data));
+    } catch {
+      return;
+    }
+
+    if (typeof chunk?.response === 'string' && chunk.response) {
+      handleToken(chunk.response);
+    }
+    if (Array.isArray(chunk?.tool_calls)) {
+      mergeToolCallChunks(toolCalls, chunk.tool_calls);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const event of events) {
+      for (const line of event.split('\n')) {
+        if (line.startsWith('data:')) {
+          handleEvent(line.slice(5).trim());
+        }
+      }
+    }
+  }
+
+  for (const line of buffer.split('\n')) {
+    if (line.startsWith('data:')) {
+      handleEvent(line.slice(5).trim());
+    }
+  }
+
+  // Held text turned out not to accompany a tool call, so it is part of the answer after all
+  if (held && toolCalls.length === 0) {
+    onToken(held);
+  }
+
+  return { response, toolCalls: toolCalls.filter(Boolean).map(finalizeToolCall) };
+}
+
+function mergeToolCallChunks(toolCalls: any[], chunks: any[]): void {
+  for (const chunk of chunks) {
+    if (!chunk || typeof chunk !== 'object') {
+      continue;
+    }
+
+    // Deltas carry an index; complete calls without one are simply appended
+    const index = typeof chunk.index === 'number' ? chunk.index : toolCalls.length;
+    const existing = toolCalls[index];
+
+    if (!existing) {
+      toolCalls[index] = {
+        ...chunk,
+        function: chunk.function ? { ...chunk.function } : undefined,
+      };
+      continue;
+    }
+
+    if (chunk.id) existing.id = chunk.id;
+    if (chunk.name) existing.name = chunk.name;
+    if (chunk.arguments !== undefined) existing.arguments = appendArguments(existing.arguments, chunk.arguments);
+    if (chunk.function) {
+      existing.function = existing.function || {};
+      if (chunk.function.name) existing.function.name = chunk.function.name;
+      if (chunk.function.arguments !== undefined) {
+        existing.function.arguments = appendArguments(existing.function.arguments, chunk.function.arguments);
+      }
+    }
+  }
+}
+
+function appendArguments(current: any, next: any): any {
+  if (typeof current === 'string' && typeof next === 'string') {
+    return current + next;
+  }
+  return next;
+}
+
+function finalizeToolCall(toolCall: any): any {
+  const { index: _index, ...rest } = toolCall;
+  if (!rest.function) {
+    delete rest.function;
+  }
+  return rest;
+}
@@ -0,0 +1,223 @@
+export interface EgressPolicy {
+  // Host names, or `*.example.com` for any subdomain of example.com; empty allows every public host
+  allowedHosts: string[];
+  maxResponseBytes: number;
+}
+
+export const DEFAULT_MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_EGRESS_POLICY: EgressPolicy = { allowedHosts: [], maxResponseBytes: DEFAULT_MAX_RESPONSE_BYTES };
+export const MAX_ALLOWED_HOSTS = 100;
+const MAX_REDIRECTS = 5;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+// Names that resolve to the Worker's own network or a cloud metadata service
+const BLOCKED_HOSTNAMES = new Set(['localhost', 'metadata', 'metadata.google.internal']);
+const BLOCKED_SUFFIXES = ['.localhost', '.local', '.internal'];
+// Credentials that must not follow a redirect to another origin
+const ORIGIN_BOUND_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+export class EgressBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EgressBlockedError';
+  }
+}
+
+export class ResponseTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Upstream response is larger than ${maxBytes} bytes`);
+    this.name = 'ResponseTooLargeError';
+  }
+}
+
+/**
+ * Throws EgressBlockedError unless `url` is http(s), names a public host, and matches `allowedHosts` when it has entries.
+ * IP literals in any notation are checked after URL parsing has normalized them.
+ */
+export function checkEgressUrl(url: string | URL, allowedHosts: string[]): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new EgressBlockedError(`Invalid URL: ${url}`);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new EgressBlockedError(`Only http and https URLs can be fetched, not ${parsed.protocol}`);
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  if (isPrivateHost(hostname)) {
+    throw new EgressBlockedError(`${hostname} is a private, loopback or link-local address`);
+  }
+  if (allowedHosts.length > 0 && !isHostAllowed(hostname, allowedHosts)) {
+    throw new EgressBlockedError(`${hostname} is not in the allowed hosts`);
+  }
+  return parsed;
+}
+
+export function isHostAllowed(hostname: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some((pattern) => pattern.startsWith('*.')
+    ? hostname.endsWith(pattern.slice(1))
+    : hostname === pattern);
+}
+
+/**
+ * One allowlist admitting exactly the hosts every list in `lists` admits; empty lists admit every host and are skipped.
+ * Returns null when the lists have no host in common, since an empty result would admit everything.
+ */
+export function intersectAllowedHosts(lists: string[][]): string[] | null {
+  const restricted = lists.filter((list) => list.length > 0);
+  if (restricted.length === 0) {
+    return [];
+  }
+
+  const common = new Set<string>();
+  for (const list of restricted) {
+    for (const pattern of list) {
+      if (restricted.every((other) => isPatternCovered(pattern, other))) {
+        common.add(pattern);
+      }
+    }
+  }
+  return common.size > 0 ? [...common] : null;
+}
+
+// Whether every host `pattern` matches is also allowed by `allowedHosts`
+function isPatternCovered(pattern: string, allowedHosts: string[]): boolean {
+  if (!pattern.startsWith('*.')) {
+    return isHostAllowed(pattern, allowedHosts);
+  }
+  return allowedHosts.some((other) => other.startsWith('*.') && pattern.endsWith(other.slice(1)));
+}
+
+// A lower-cased host name or `*.` wildcard, or null when `value` is not one
+export function normalizeHostPattern(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const pattern = value.trim().toLowerCase().replace(/\.$/, '');
+  return /^(\*\.)?([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/.test(pattern) ? pattern : null;
+}
+
+export function isPrivateHost(hostname: string): boolean {
+  if (BLOCKED_HOSTNAMES.has(hostname) || BLOCKED_SUFFIXES.some((suffix) => hostname.endsWith(suffix))) {
+    return true;
+  }
+  if (hostname.startsWith('[')) {
+    return isPrivateIPv6(hostname.slice(1, -1));
+  }
+  const octets = parseIPv4(hostname);
+  return octets !== null && isPrivateIPv4(octets);
+}
+
+/**
+ * fetch that checks every URL it visits with checkEgressUrl, following up to five redirects itself.
+ * Headers carrying credentials are dropped when a redirect leaves the original origin.
+ */
+export async function guardedFetch(url: string, init: RequestInit, allowedHosts: string[]): Promise<Response> {
+  let target = checkEgressUrl(url, allowedHosts);
+  const origin = target.origin;
+  let requestInit: RequestInit = { ...init, redirect: 'manual' };
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(target.toString(), requestInit);
+    const location = REDIRECT_STATUSES.has(response.status) ? response.headers.get('Location') : null;
+    if (!location) {
+      return response;
+    }
+    if (redirects === MAX_REDIRECTS) {
+      throw new EgressBlockedError(`Stopped after ${MAX_REDIRECTS} redirects`);
+    }
+
+    target = checkEgressUrl(new URL(location, target), allowedHosts);
+    requestInit = redirectInit(requestInit, response.status, target.origin !== origin);
+  }
+}
+
+/**
+ * Reads a response body as text, failing with ResponseTooLargeError once it passes `maxBytes`
+ * rather than buffering all of it.
+ */
+export async function readTextWithLimit(response: Response, maxBytes: number): Promise<string> {
+  const declared = Number(response.headers.get('Content-Length'));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new ResponseTooLargeError(maxBytes);
+  }
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text + decoder.decode();
+    }
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new ResponseTooLargeError(maxBytes);
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+// 303, and 301/302 after a POST, turn into a body-less GET, as browsers do
+function redirectInit(init: RequestInit, status: number, crossOrigin: boolean): RequestInit {
+  const headers = new Headers(init.headers);
+  if (crossOrigin) {
+    ORIGIN_BOUND_HEADERS.forEach((name) => headers.delete(name));
+  }
+
+  const method = (init.method || 'GET').toUpperCase();
+  if (status === 303 || ((status === 301 || status === 302) && method === 'POST')) {
+    headers.delete('Content-Type');
+    return { ...init, method: 'GET', body: undefined, headers };
+  }
+  return { ...init, headers };
+}
+
+function parseIPv4(hostname: string): number[] | null {
+  const parts = hostname.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19))
+    || a >= 224;
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const lower = address.toLowerCase();
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible and NAT64 addresses end in an IPv4 address,
+  // which URL parsing rewrites to two hex groups
+  const embedded = lower.match(/^(?:::ffff:|::|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (embedded) {
+    const high = parseInt(embedded[1], 16);
+    const low = parseInt(embedded[2], 16);
+    return isPrivateIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+  }
+  if (lower.startsWith('::')) {
+    return true;
+  }
+
+  const first = parseInt(lower.split(':')[0] || '0', 16);
+  // fc00::/7 unique local, fe80::/10 link-local, ff00::/8 multicast
+  return (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00;
+}
@@ -0,0 +1,104 @@
+export interface RetryPolicy {
+  // Per attempt, including reading the response body
+  timeoutMs: number;
+  // Attempts after the first; only idempotent methods are retried
+  maxRetries: number;
+  retryBaseDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { timeoutMs: 15_000, maxRetries: 2, retryBaseDelayMs: 500 };
+
+// A Retry-After longer than this is not waited out; the 429 or 503 is returned instead
+export const MAX_RETRY_DELAY_MS = 10_000;
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+export class UpstreamTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Upstream request timed out after ${timeoutMs}ms`);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
+export interface FetchPolicyOptions {
+  // Sends each attempt; defaults to fetch
+  send?: (url: string, init: RequestInit) => Promise<Response>;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface PolicyFetchResult<T> {
+  response: Response;
+  body: T;
+  attempts: number;
+}
+
+/**
+ * fetch with a timeout on every attempt and, for idempotent methods, retries on 429, 502, 503 and 504.
+ * Retries wait for the upstream's Retry-After when it sends one, otherwise for a jittered exponential backoff.
+ * `read` consumes the response body, so a body that never finishes also runs into the timeout.
+ */
+export async function fetchWithPolicy<T>(
+  url: string,
+  init: RequestInit,
+  policy: RetryPolicy,
+  read: (response: Response) => Promise<T>,
+  {
+    send = (target, requestInit) => fetch(target, requestInit),
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+  }: FetchPolicyOptions = {}
+): Promise<PolicyFetchResult<T>> {
+  const retries = IDEMPOTENT_METHODS.has((init.method || 'GET').toUpperCase()) ? policy.maxRetries : 0;
+
+  for (let attempt = 1; ; attempt++) {
+    const { response, body } = await attemptFetch(url, init, policy.timeoutMs, read, send);
+    if (attempt > retries || !RETRYABLE_STATUSES.has(response.status)) {
+      return { response, body, attempts: attempt };
+    }
+
+    const delay = retryDelay(response.headers.get('Retry-After'), attempt, policy.retryBaseDelayMs);
+    if (delay === null) {
+      return { response, body, attempts: attempt };
+    }
+    await sleep(delay);
+  }
+}
+
+/**
+ * Milliseconds to wait before retry number `attempt`, or null when Retry-After asks for longer than MAX_RETRY_DELAY_MS.
+ * Retry-After may be delta-seconds or an HTTP date.
+ */
+export function retryDelay(retryAfter: string | null, attempt: number, baseDelayMs: number, now: number = Date.now()): number | null {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = retryAfter.trim() !== '' && Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - now;
+    if (!Number.isNaN(ms)) {
+      return ms > MAX_RETRY_DELAY_MS ? null : Math.max(0, ms);
+    }
+  }
+  // Full jitter spreads out clients that failed at the same moment
+  return Math.min(MAX_RETRY_DELAY_MS, Math.random() * baseDelayMs * 2 ** (attempt - 1));
+}
+
+async function attemptFetch<T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  read: (response: Response) => Promise<T>,
+  send: (url: string, init: RequestInit) => Promise<Response>
+): Promise<{ response: Response; body: T }> {
+  const controller = new AbortController();
+  // Racing the abort as well keeps the timeout in force for fetch implementations that ignore the signal
+  const timedOut = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(new UpstreamTimeoutError(timeoutMs)));
+  });
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await Promise.race([send(url, { ...init, signal: controller.signal }), timedOut]);
+    const body = await Promise.race([read(response), timedOut]);
+    return { response, body };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,134 @@
+export type ParameterStyle =
+  | 'simple'
+  | 'label'
+  | 'matrix'
+  | 'form'
+  | 'spaceDelimited'
+  | 'pipeDelimited'
+  | 'deepObject';
+
+export interface SerializationOptions {
+  style?: ParameterStyle;
+  explode?: boolean;
+  allowReserved?: boolean;
+}
+
+// RFC 3986 reserved characters that `allowReserved` query parameters may carry unescaped
+const RESERVED = /[:/?#[\]@!$&'()*+,;=]/;
+
+export const DEFAULT_STYLES: Record<'path' | 'query' | 'header' | 'cookie', ParameterStyle> = {
+  path: 'simple',
+  query: 'form',
+  header: 'simple',
+  cookie: 'form'
+};
+
+// OpenAPI: `explode` defaults to true for form style and false for every other style
+export function defaultExplode(style: ParameterStyle): boolean {
+  return style === 'form';
+}
+
+/**
+ * Serialize a path parameter per the OpenAPI `simple`, `label` or `matrix` styles.
+ * Returns the percent-encoded text that replaces `{name}` in the path template.
+ */
+export function serializePathParameter(name: string, value: any, options: SerializationOptions = {}): string {
+  const style = options.style || 'simple';
+  const explode = options.explode ?? defaultExplode(style);
+  const encode = (text: string) => encodeURIComponent(text);
+
+  if (style === 'label') {
+    return `.${joinValue(value, explode ? '.' : ',', explode ? '=' : ',', encode)}`;
+  }
+
+  if (style === 'matrix') {
+    if (isObject(value)) {
+      return explode
+        ? Object.entries(value).map(([key, item]) => `;${encode(key)}=${encode(scalar(item))}`).join('')
+        : `;${encode(name)}=${joinValue(value, ',', ',', encode)}`;
+    }
+    if (Array.isArray(value)) {
+      return explode
+        ? value.map((item) => `;${encode(name)}=${encode(scalar(item))}`).join('')
+        : `;${encode(name)}=${joinValue(value, ',', ',', encode)}`;
+    }
+    const text = scalar(value);
+    return text === '' ? `;${encode(name)}` : `;${encode(name)}=${encode(text)}`;
+  }
+
+  return joinValue(value, ',', explode ? '=' : ',', encode);
+}
+
+/**
+ * Serialize a query parameter into encoded `key=value` pairs per the OpenAPI `form`,
+ * `spaceDelimited`, `pipeDelimited` or `deepObject` styles.
+ */
+export function serializeQueryParameter(name: string, value: any, options: SerializationOptions = {}): string[] {
+  const style = options.style || 'form';
+  const explode = options.explode ?? defaultExplode(style);
+  const encode = options.allowReserved ? encodeAllowReserved : (text: string) => encodeURIComponent(text);
+  const key = encodeURIComponent(name);
+
+  if (style === 'deepObject' && isObject(value)) {
+    return Object.entries(value)
+      .filter(([, item]) => item !== undefined && item !== null)
+      .map(([prop, item]) => `${key}[${encodeURIComponent(prop)}]=${encode(scalar(item))}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return [];
+    }
+    if (explode) {
+      return value.map((item) => `${key}=${encode(scalar(item))}`);
+    }
+    const delimiter = style === 'spaceDelimited' ? '%20' : style === 'pipeDelimited' ? '|' : ',';
+    return [`${key}=${value.map((item) => encode(scalar(item))).join(delimiter)}`];
+  }
+
+  if (isObject(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined && item !== null);
+    if (explode) {
+      return entries.map(([prop, item]) => `${encodeURIComponent(prop)}=${encode(scalar(item))}`);
+    }
+    return [`${key}=${entries.map(([prop, item]) => `${encode(prop)},${encode(scalar(item))}`).join(',')}`];
+  }
+
+  return [`${key}=${encode(scalar(value))}`];
+}
+
+// Header values use the `simple` style without percent-encoding
+export function serializeHeaderParameter(value: any, options: SerializationOptions = {}): string {
+  return joinValue(value, ',', options.explode ? '=' : ',', (text) => text);
+}
+
+// Arrays become `a<delimiter>b`; objects become `key<pairDelimiter>value` entries joined by `delimiter`
+function joinValue(value: any, delimiter: string, pairDelimiter: string, encode: (text: string) => string): string {
+  if (Array.isArray(value)) {
+    return value.map((item) => encode(scalar(item))).join(delimiter);
+  }
+  if (isObject(value)) {
+    return Object.entries(value)
+      .filter(([, item]) => item !== undefined && item !== null)
+      .map(([key, item]) => `${encode(key)}${pairDelimiter}${encode(scalar(item))}`)
+      .join(delimiter);
+  }
+  return encode(scalar(value));
+}
+
+function scalar(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function encodeAllowReserved(text: string): string {
+  return Array.from(text)
+    .map((char) => (RESERVED.test(char) ? char : encodeURIComponent(char)))
+    .join('');
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,176 @@
+export type BodyEncoding = 'json' | 'form-urlencoded' | 'multipart' | 'text' | 'xml' | 'raw';
+
+export interface EncodedBody {
+  body: BodyInit;
+  // Omitted for multipart so fetch can add the boundary itself
+  contentType?: string;
+  encoding: BodyEncoding;
+}
+
+// A file part supplied by the model: bare base64, a data: URL, or an object with metadata
+export interface FilePartInput {
+  data?: string;
+  content?: string;
+  filename?: string;
+  contentType?: string;
+}
+
+/**
+ * Encode a request body according to the media type declared for the operation.
+ * `schema` is the request body schema; it decides which multipart fields are files and
+ * supplies XML element names.
+ */
+export function encodeRequestBody(contentType: string | undefined, body: any, schema: any = {}): EncodedBody {
+  const mediaType = (contentType || 'application/json').split(';')[0].trim().toLowerCase();
+  const fields = isPlainObject(body) ? body : undefined;
+
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    if (typeof body === 'string') {
+      return { body, contentType: mediaType, encoding: 'form-urlencoded' };
+    }
+    const form = new URLSearchParams();
+    forEachField(fields || {}, (key, value) => form.append(key, formFieldValue(value)));
+    return { body: form.toString(), contentType: mediaType, encoding: 'form-urlencoded' };
+  }
+
+  if (mediaType === 'multipart/form-data' && fields) {
+    const form = new FormData();
+    const properties = schema?.properties || {};
+    forEachField(fields, (key, value) => {
+      const fieldSchema = properties[key]?.type === 'array' ? properties[key].items : properties[key];
+      if (isFileSchema(fieldSchema)) {
+        const file = decodeFilePart(value, key);
+        form.append(key, file.blob, file.filename);
+      } else {
+        form.append(key, formFieldValue(value));
+      }
+    });
+    return { body: form, encoding: 'multipart' };
+  }
+
+  if (mediaType === 'application/json' || mediaType.endsWith('+json')) {
+    return { body: JSON.stringify(body), contentType: mediaType, encoding: 'json' };
+  }
+
+  if (mediaType === 'text/plain') {
+    return {
+      body: typeof body === 'string' ? body : formFieldValue(body),
+      contentType: mediaType,
+      encoding: 'text'
+    };
+  }
+
+  if (mediaType === 'application/xml' || mediaType === 'text/xml' || mediaType.endsWith('+xml')) {
+    return {
+      body: typeof body === 'string' ? body : toXml(body, schema),
+      contentType: mediaType,
+      encoding: 'xml'
+    };
+  }
+
+  // Unknown media types: pass strings through untouched, anything else as JSON
+  return typeof body === 'string'
+    ? { body, contentType: mediaType, encoding: 'raw' }
+    : { body: JSON.stringify(body), contentType: mediaType, encoding: 'json' };
+}
+
+// `format: binary` (OpenAPI 3.0) or `contentMediaType` (3.1) mark file parts; `format: byte` and
+// `contentEncoding: base64` alone are base64 text that is sent as an ordinary string field
+export function isFileSchema(schema: any): boolean {
+  if (!schema || typeof schema !== 'object') {
+    return false;
+  }
+  return schema.format === 'binary' || typeof schema.contentMediaType === 'string';
+}
+
+export function decodeFilePart(value: string | FilePartInput, fallbackName: string): { blob: Blob; filename: string } {
+  const input: FilePartInput = typeof value === 'string' ? { data: value } : (value || {});
+  let data = input.data ?? input.content ?? '';
+  let type = input.contentType || 'application/octet-stream';
+
+  const dataUrl = /^data:([^;,]+)?(;base64)?,/.exec(data);
+  if (dataUrl) {
+    type = input.contentType || dataUrl[1] || type;
+    data = data.slice(dataUrl[0].length);
+  }
+
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    const binary = atob(data.replace(/\s+/g, ''));
+    bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+  } catch {
+    throw new Error(`File field "${fallbackName}" must be base64-encoded`);
+  }
+
+  return { blob: new Blob([bytes], { type }), filename: input.filename || fallbackName };
+}
+
+/**
+ * Serialize an object as XML. Element names come from the schema's `xml.name` where present
+ * (falling back to the property name, or `root`), and properties marked `xml.attribute` become attributes.
+ */
+export function toXml(value: any, schema: any = {}, name?: string): string {
+  const elementName = schema?.xml?.name || name || 'root';
+
+  if (Array.isArray(value)) {
+    const itemSchema = schema?.items || {};
+    const items = value.map((item) => toXml(item, itemSchema, itemSchema?.xml?.name || elementName)).join('');
+    return schema?.xml?.wrapped ? `<${elementName}>${items}</${elementName}>` : items;
+  }
+
+  if (!isPlainObject(value)) {
+    return value === undefined || value === null
+      ? `<${elementName}/>`
+      : `<${elementName}>${escapeXml(String(value))}</${elementName}>`;
+  }
+
+  const properties = schema?.properties || {};
+  const attributes: string[] = [];
+  const children: string[] = [];
+
+  for (const [key, child] of Object.entries(value)) {
+    if (child === undefined) {
+      continue;
+    }
+    const childSchema = properties[key] || {};
+    if (childSchema.xml?.attribute) {
+      attributes.push(` ${childSchema.xml.name || key}="${escapeXml(String(child))}"`);
+    } else if (Array.isArray(child)) {
+      children.push(toXml(child, childSchema, childSchema.xml?.name || key));
+    } else {
+      children.push(toXml(child, childSchema, key));
+    }
+  }
+
+  return `<${elementName}${attributes.join('')}>${children.join('')}</${elementName}>`;
+}
+
+function forEachField(fields: Record<string, any>, append: (key: string, value: any) => void): void {
+  for (const [key, value] of Object.entries(fields)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) {
+        append(key, item);
+      }
+    }
+  }
+}
+
+function formFieldValue(value: any): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,274 @@
+const MAX_REF_DEPTH = 8;
+
+const COMPOSITION_KEYS = ['allOf', 'oneOf', 'anyOf'] as const;
+
+export function resolveRef(root: any, ref: string): any | undefined {
+  if (typeof ref !== 'string' || !ref.startsWith('#')) {
+    return undefined;
+  }
+
+  const segments = ref
+    .slice(1)
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  let current = root;
+  for (const segment of segments) {
+    if (!current || typeof current !== 'object' || !(segment in current)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+// Resolves a `$ref` wrapper (parameter, requestBody, response) one level without touching nested schemas.
+export function resolveRefObject<T = any>(root: any, value: any): T | undefined {
+  let current = value;
+  const seen = new Set<string>();
+  while (current && typeof current === 'object' && typeof current.$ref === 'string') {
+    if (seen.has(current.$ref)) {
+      return undefined;
+    }
+    seen.add(current.$ref);
+    current = resolveRef(root, current.$ref);
+  }
+  return current;
+}
+
+/**
+ * Inline local `$ref`s and flatten `allOf`/`oneOf`/`anyOf` into plain JSON Schema.
+ * Circular or very deep references become an opaque object placeholder naming the referenced schema.
+ */
+export function dereferenceSchema(schema: any, root: any, stack: string[] = []): any {
+  if (Array.isArray(schema)) {
+    return schema.map((item) => dereferenceSchema(item, root, stack));
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  if (typeof schema.$ref === 'string') {
+    const ref = schema.$ref;
+    const refName = ref.split('/').pop() || ref;
+
+    if (stack.includes(ref)) {
+      return { type: 'object', description: schema.description || `Circular reference to ${refName}` };
+    }
+    if (stack.length >= MAX_REF_DEPTH) {
+      return { type: 'object', description: schema.description || `Nested ${refName} (omitted)` };
+    }
+
+    const target = resolveRef(root, ref);
+    if (target === undefined) {
+      return { type: 'object', description: schema.description || `Unresolved reference ${ref}` };
+    }
+
+    const resolved = dereferenceSchema(target, root, [...stack, ref]);
+    // Sibling keywords next to $ref (e.g. description) override the referenced schema
+    const { $ref: _ref, ...siblings } = schema;
+    return Object.keys(siblings).length > 0 && resolved && typeof resolved === 'object'
+      ? { ...resolved, ...dereferenceSchema(siblings, root, stack) }
+      : resolved;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, any>).map(([name, prop]) => [name, dereferenceSchema(prop, root, stack)])
+      );
+    } else if (value && typeof value === 'object') {
+      result[key] = dereferenceSchema(value, root, stack);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return flattenComposition(result);
+}
+
+function flattenComposition(schema: Record<string, any>): Record<string, any> {
+  let flattened = schema;
+
+  if (Array.isArray(flattened.allOf)) {
+    const { allOf, ...base } = flattened;
+    flattened = [base, ...allOf].reduce((merged, part) => mergeSchemas(merged, part), {});
+  }
+
+  for (const key of ['oneOf', 'anyOf'] as const) {
+    const variants = flattened[key];
+    if (!Array.isArray(variants) || variants.length === 0) {
+      continue;
+    }
+
+    const allObjects = variants.every((variant) => isObjectSchema(variant));
+    if (!allObjects) {
+      continue;
+    }
+
+    const { [key]: _variants, ...base } = flattened;
+    const merged = variants.reduce((acc, variant) => mergeSchemas(acc, { ...variant, required: undefined }), base);
+
+    // Only fields required by every alternative stay required
+    const requiredSets = variants.map((variant) => new Set<string>(Array.isArray(variant.required) ? variant.required : []));
+    const sharedRequired = [...requiredSets[0]].filter((name) => requiredSets.every((set) => set.has(name)));
+    const required = unique([...(Array.isArray(base.required) ? base.required : []), ...sharedRequired]);
+    if (required.length > 0) {
+      merged.required = required;
+    } else {
+      delete merged.required;
+    }
+
+    const variantNames = variants.map((variant, index) => variant.title || `option ${index + 1}`);
+    const note = `${key === 'oneOf' ? 'One of' : 'Any of'}: ${variantNames.join(', ')}`;
+    merged.description = merged.description ? `${merged.description} (${note})` : note;
+
+    flattened = merged;
+  }
+
+  return flattened;
+}
+
+function mergeSchemas(target: Record<string, any>, source: any): Record<string, any> {
+  if (!source || typeof source !== 'object') {
+    return target;
+  }
+
+  const merged: Record<string, any> = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined || (COMPOSITION_KEYS as readonly string[]).includes(key)) {
+      continue;
+    }
+    if (key === 'properties') {
+      merged.properties = { ...(merged.properties || {}), ...(value as Record<string, any>) };
+    } else if (key === 'required') {
+      merged.required = unique([...(merged.required || []), ...(value as string[])]);
+    } else if (key === 'description' || key === 'title') {
+      merged[key] = merged[key] || value;
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  if (merged.properties && !merged.type) {
+    merged.type = 'object';
+  }
+  return merged;
+}
+
+function isObjectSchema(schema: any): boolean {
+  return !!schema && typeof schema === 'object' && (schema.type === 'object' || (!schema.type && !!schema.properties));
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+const TOOL_SCHEMA_KEYWORDS = [
+  'type',
+  'description',
+  'enum',
+  'format',
+  'default',
+  'nullable',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'minItems',
+  'maxItems',
+  'pattern'
+];
+
+const MAX_TOOL_DESCRIPTION_CHARS = 200;
+
+/**
+ * Reduce a dereferenced JSON Schema to the keywords tool-calling models understand,
+ * shrinking nesting depth until it fits `maxChars`. Anything still too large is summarised
+ * as an object listing its field names rather than dropped.
+ */
+export function toToolSchema(schema: any, maxChars: number): Record<string, any> {
+  if (!schema || typeof schema !== 'object') {
+    return { type: 'object' };
+  }
+
+  for (let depth = 6; depth >= 1; depth--) {
+    const candidate = pruneSchema(schema, depth);
+    if (JSON.stringify(candidate).length <= maxChars) {
+      return candidate;
+    }
+  }
+
+  return summariseSchema(schema, maxChars);
+}
+
+function pruneSchema(schema: any, depth: number): Record<string, any> {
+  const pruned: Record<string, any> = {};
+  for (const key of TOOL_SCHEMA_KEYWORDS) {
+    if (schema[key] !== undefined) {
+      pruned[key] = key === 'description' ? truncate(String(schema[key]), MAX_TOOL_DESCRIPTION_CHARS) : schema[key];
+    }
+  }
+
+  if (!pruned.type) {
+    if (schema.properties) {
+      pruned.type = 'object';
+    } else if (schema.items) {
+      pruned.type = 'array';
+    }
+  }
+
+  for (const key of ['oneOf', 'anyOf'] as const) {
+    if (Array.isArray(schema[key])) {
+      pruned[key] = schema[key].map((variant: any) => pruneSchema(variant, depth));
+    }
+  }
+
+  if (schema.items && typeof schema.items === 'object') {
+    pruned.items = depth > 1 ? pruneSchema(schema.items, depth - 1) : summariseSchema(schema.items, 0);
+  }
+
+  if (schema.properties && typeof schema.properties === 'object') {
+    if (depth > 1) {
+      pruned.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([name, prop]) => [name, pruneSchema(prop, depth - 1)])
+      );
+      if (Array.isArray(schema.required) && schema.required.length > 0) {
+        pruned.required = schema.required;
+      }
+    } else {
+      return summariseSchema(schema, 0);
+    }
+  }
+
+  return pruned;
+}
+
+function summariseSchema(schema: any, maxChars: number): Record<string, any> {
+  const type = schema?.type || (schema?.properties ? 'object' : schema?.items ? 'array' : 'object');
+  const target = type === 'array' && schema.items ? schema.items : schema;
+  const fieldNames = target?.properties ? Object.keys(target.properties) : [];
+  const required = new Set<string>(Array.isArray(target?.required) ? target.required : []);
+
+  const fields = fieldNames.map((name) => (required.has(name) ? `${name} (required)` : name));
+  const base = schema?.description ? `${truncate(String(schema.description), MAX_TOOL_DESCRIPTION_CHARS)}. ` : '';
+  let description = fields.length > 0
+    ? `${base}${type === 'array' ? 'Items are objects with' : 'Object with'} fields: ${fields.join(', ')}`
+    : base.trim() || `${type} value`;
+
+  if (maxChars > 0 && description.length > maxChars) {
+    description = truncate(description, Math.max(maxChars - 40, 40));
+  }
+
+  const summary: Record<string, any> = { type, description };
+  if (type === 'array') {
+    summary.items = { type: target?.type || 'object' };
+  }
+  return summary;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.slice(0, Math.max(maxLength - 1, 0))}…`;
+}
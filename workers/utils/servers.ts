@@ -0,0 +1,85 @@
+export interface ServerVariable {
+  default: string;
+  enum?: string[];
+  description?: string;
+}
+
+export interface ApiServer {
+  // May contain `{variable}` placeholders and may be relative to the spec's location
+  url: string;
+  description?: string;
+  variables?: Record<string, ServerVariable>;
+}
+
+const ABSOLUTE_URL = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+export function parseServers(rawServers: any): ApiServer[] {
+  if (!Array.isArray(rawServers)) {
+    return [];
+  }
+
+  return rawServers
+    .filter((server) => server && typeof server.url === 'string')
+    .map((server) => {
+      const parsed: ApiServer = { url: server.url };
+      if (typeof server.description === 'string') {
+        parsed.description = server.description;
+      }
+
+      const variables: Record<string, ServerVariable> = {};
+      for (const [name, raw] of Object.entries<any>(server.variables || {})) {
+        if (!raw || typeof raw !== 'object') {
+          continue;
+        }
+        const enumValues = Array.isArray(raw.enum) ? raw.enum.map(String) : undefined;
+        variables[name] = {
+          default: raw.default !== undefined ? String(raw.default) : enumValues?.[0] || '',
+          ...(enumValues ? { enum: enumValues } : {}),
+          ...(typeof raw.description === 'string' ? { description: raw.description } : {})
+        };
+      }
+      if (Object.keys(variables).length > 0) {
+        parsed.variables = variables;
+      }
+
+      return parsed;
+    });
+}
+
+/**
+ * Substitute `{variable}` placeholders (user values first, then the declared defaults) and
+ * resolve relative URLs against the URL the spec was fetched from. Trailing slashes are dropped
+ * so skill paths can be appended directly.
+ */
+export function resolveServerUrl(server: ApiServer, values: Record<string, string> = {}, specUrl?: string): string {
+  let url = server.url.replace(/\{([^}]+)\}/g, (placeholder, name: string) =>
+    values[name] ?? server.variables?.[name]?.default ?? placeholder
+  );
+
+  if (specUrl && url && !ABSOLUTE_URL.test(url)) {
+    try {
+      url = new URL(url, specUrl).toString();
+    } catch {
+      // keep the relative URL; the spec location was not a valid base
+    }
+  }
+
+  return url.replace(/\/+$/, '');
+}
+
+// Returns an error message for values that are not declared variables or not in the variable's enum
+export function validateServerVariables(server: ApiServer, values: Record<string, string>): string | undefined {
+  for (const [name, value] of Object.entries(values)) {
+    const variable = server.variables?.[name];
+    if (!variable) {
+      return `Server ${server.url} has no variable "${name}"`;
+    }
+    if (typeof value !== 'string') {
+      return `Server variable "${name}" must be a string`;
+    }
+    if (variable.enum && !variable.enum.includes(value)) {
+      return `Server variable "${name}" must be one of: ${variable.enum.join(', ')}`;
+    }
+  }
+  return undefined;
+}